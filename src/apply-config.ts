@@ -0,0 +1,579 @@
+import { createHash } from 'node:crypto';
+import type { UptimeKumaClient } from './uptime-kuma-client.js';
+import { ConfigDocumentSchema } from './types/index.js';
+import type {
+  ApplyPlanItem,
+  ConfigDocument,
+  ConfigMaintenance,
+  ConfigNotification,
+  ConfigStatusPage,
+  ConfigTag,
+} from './types/index.js';
+import {
+  entryPath,
+  importMonitorDocument,
+  monitorIDsByPath,
+  parseDocumentText,
+  sameValue,
+  type MonitorWriteGuard,
+} from './monitor-config.js';
+import { rehydrateSecrets } from './redact.js';
+
+/**
+ * Declarative configuration: converge an instance to a desired-state document, for teams that
+ * keep their monitoring in version control. Shared by the applyConfig tool and the `apply`
+ * CLI subcommand.
+ *
+ * Applying is two passes. The plan compares the document with the client's caches and says,
+ * per tag, channel, monitor, maintenance window and status page, whether it would be created,
+ * updated, deleted or left alone — and writes nothing. Only a confirmed apply runs the plan,
+ * through the same client calls the individual tools use, and only when the plan has no
+ * errors: a document that is half right is not applied halfway. The plan is made again from
+ * the server's state on confirm, so a confirm names the plan it agreed to by its planID and is
+ * refused when the plan has changed since — say, by a monitor created in between, which the
+ * user never saw listed for deletion.
+ *
+ * Everything in the document is identified by name (see monitor-config.ts): monitors by path,
+ * maintenance windows by title, status pages by slug. A section that is present is the whole
+ * list for its kind, so anything on the server that it does not list is deleted; a section
+ * that is left out is not managed at all.
+ */
+
+type ItemKind = ApplyPlanItem['kind'];
+type WriteResult = { id?: number; snapshotID?: string; warning?: string } | void;
+
+export interface ApplyResult {
+  /** Whether the plan was run. False for a plan-only call and for a plan with errors. */
+  applied: boolean;
+  /** Identifies what the plan changes; the same changes always give the same planID. */
+  planID: string;
+  items: ApplyPlanItem[];
+}
+
+const STATUS_PAGE_CONFIG_DEFAULTS = {
+  description: '',
+  footerText: '',
+  customCSS: '',
+  showTags: false,
+  showPoweredBy: true,
+  domainNameList: [] as string[],
+};
+
+export function parseConfigDocument(text: string): ConfigDocument {
+  return parseDocumentText(text, ConfigDocumentSchema, 'a configuration document');
+}
+
+/** Names that appear more than once, which the document cannot tell apart. */
+function duplicates(names: string[]): Set<string> {
+  return new Set(names.filter((name, i) => names.indexOf(name) !== i));
+}
+
+/** Notification configs arrive as a JSON string in notificationList; tolerate both shapes. */
+function storedNotificationConfig(notification: Record<string, unknown>): Record<string, unknown> {
+  const raw = notification.config;
+  if (typeof raw === 'string') {
+    try {
+      const parsed: unknown = JSON.parse(raw);
+      if (parsed && typeof parsed === 'object') return parsed as Record<string, unknown>;
+    } catch {
+      return {};
+    }
+  }
+  return raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+}
+
+/** Monitor IDs for paths, from the current monitor list. Throws naming the first it cannot resolve. */
+function resolveMonitorPaths(client: UptimeKumaClient, paths: string[]): number[] {
+  const byPath = monitorIDsByPath(client);
+  return paths.map((path) => {
+    const ids = byPath.get(path) ?? [];
+    if (ids.length === 0) throw new Error(`Monitor "${path}" not found`);
+    if (ids.length > 1) throw new Error(`${ids.length} monitors share the path "${path}"`);
+    return ids[0];
+  });
+}
+
+function resolveStatusPageSlugs(client: UptimeKumaClient, slugs: string[]): number[] {
+  const pages = client.getStatusPageList();
+  return slugs.map((slug) => {
+    const id = pages.find((page) => page.slug === slug)?.id;
+    // saveStatusPage does not push statusPageList, so a page this apply created may not be
+    // known yet; the next apply finds it.
+    if (id === undefined) throw new Error(`Status page "${slug}" not found — if this apply just created it, apply again to attach it`);
+    return id;
+  });
+}
+
+/** IDs for paths when they all exist already, or undefined when some are still to be created. */
+function currentMonitorIDs(client: UptimeKumaClient, paths: string[]): number[] | undefined {
+  try {
+    return resolveMonitorPaths(client, paths);
+  } catch {
+    return undefined;
+  }
+}
+
+// A hash of every step that changes something, order aside. Unchanged items are left out, so
+// that only a difference in what would be written or deleted makes a different plan.
+function planFingerprint(items: ApplyPlanItem[]): string {
+  const steps = items
+    .filter((item) => item.action !== 'unchanged')
+    .map((item) => JSON.stringify([item.kind, item.action, item.name, item.id ?? null, item.changes ?? []]))
+    .sort();
+  return createHash('sha256').update(steps.join('\n')).digest('hex').slice(0, 12);
+}
+
+const sameIDs = (a: number[], b: number[]) => sameValue([...a].sort((x, y) => x - y), [...b].sort((x, y) => x - y));
+
+/**
+ * Plans (and with `confirm`, applies) a document against the instance behind `client`.
+ * Every item of the returned plan says what happens to it; once applied, `applied` and
+ * `error` say what did. With `planID`, a confirm applies only if the plan is still that one,
+ * and throws otherwise without writing anything. With `snapshot`, monitor updates and deletes
+ * go through it so restoreMonitor can undo them; without, the plan marks them not restorable.
+ */
+export async function applyConfigDocument(
+  client: UptimeKumaClient,
+  document: ConfigDocument,
+  options: { confirm?: boolean; planID?: string; snapshot?: MonitorWriteGuard } = {}
+): Promise<ApplyResult> {
+  const items: ApplyPlanItem[] = [];
+  // Writes in dependency order: tags and channels before the monitors naming them, monitors
+  // before the pages and windows listing them. Deletes last, in the reverse order.
+  const writes: Array<() => Promise<void>> = [];
+  const deletes: Record<ItemKind, Array<() => Promise<void>>> = {
+    statusPage: [], maintenance: [], monitor: [], notification: [], tag: [],
+  };
+
+  const add = (item: ApplyPlanItem, write?: () => Promise<WriteResult>): ApplyPlanItem => {
+    items.push(item);
+    if (!write) return item;
+    const run = async () => {
+      try {
+        const result = await write();
+        item.applied = true;
+        if (result?.id !== undefined) item.id = result.id;
+        if (result?.snapshotID) item.snapshotID = result.snapshotID;
+        if (result?.warning) item.warning = result.warning;
+      } catch (error) {
+        item.applied = false;
+        item.error = error instanceof Error ? error.message : 'Unknown error';
+      }
+    };
+    if (item.action === 'delete') deletes[item.kind].push(run);
+    else writes.push(run);
+    return item;
+  };
+  const fail = (kind: ItemKind, name: string, error: string) => add({ kind, name, action: 'error', error });
+
+  // Paths and slugs that will exist once the plan has run, for checking references up front.
+  const plannedPaths = new Set(document.monitors
+    ? document.monitors.map(entryPath)
+    : monitorIDsByPath(client).keys());
+  const plannedSlugs = new Set(document.statusPages
+    ? document.statusPages.map((page) => page.slug)
+    : client.getStatusPageList().map((page) => page.slug));
+
+  const checkPaths = (paths: string[]) => {
+    const missing = paths.filter((path) => !plannedPaths.has(path));
+    if (missing.length > 0) throw new Error(`Monitor(s) not found: ${missing.join(', ')}`);
+  };
+
+  // ─── Tags ─────────────────────────────────────────────────────────────────
+  if (document.tags) {
+    const desired = document.tags;
+    const current = await client.getTagList();
+    const repeated = duplicates(desired.map((tag) => tag.name));
+    const declared = new Set(desired.map((tag) => tag.name));
+
+    // A tag a monitor carries but the catalog leaves out would be deleted and then recreated
+    // grey by the monitor's own tag reconciliation. Say so instead.
+    const undeclared = new Map<string, string>();
+    for (const entry of document.monitors ?? []) {
+      for (const tag of entry.tags ?? []) {
+        if (!declared.has(tag.name) && !undeclared.has(tag.name)) undeclared.set(tag.name, entryPath(entry));
+      }
+    }
+    for (const [name, path] of undeclared) {
+      fail('tag', name, `Monitor "${path}" carries this tag but it is not in tags`);
+    }
+
+    desired.forEach((tag: ConfigTag) => {
+      if (repeated.has(tag.name)) {
+        if (desired.findIndex((t) => t.name === tag.name) === desired.indexOf(tag)) fail('tag', tag.name, 'Listed more than once');
+        return;
+      }
+      const existing = current.find((t) => t.name === tag.name);
+      if (!existing) {
+        add({ kind: 'tag', name: tag.name, action: 'create' }, async () => {
+          const response = await client.addTag(tag.name, tag.color ?? '#808080');
+          return { id: response.tag?.id };
+        });
+      } else if (tag.color !== undefined && tag.color.toLowerCase() !== existing.color?.toLowerCase()) {
+        add({ kind: 'tag', name: tag.name, action: 'update', id: existing.id, changes: ['color'] }, async () => {
+          await client.editTag(existing.id, tag.name, tag.color!);
+        });
+      } else {
+        add({ kind: 'tag', name: tag.name, action: 'unchanged', id: existing.id });
+      }
+    });
+    for (const existing of current.filter((t) => !declared.has(t.name))) {
+      add({ kind: 'tag', name: existing.name, action: 'delete', id: existing.id }, async () => {
+        await client.deleteTag(existing.id);
+      });
+    }
+  }
+
+  // ─── Notification channels ────────────────────────────────────────────────
+  const pendingNotifications: string[] = [];
+  if (document.notifications) {
+    const desired = document.notifications;
+    const current = client.getNotificationList() as unknown as Array<Record<string, unknown>>;
+    const repeated = duplicates(desired.map((n) => n.name));
+    const declared = new Set(desired.map((n) => n.name));
+
+    desired.forEach((notification: ConfigNotification) => {
+      const { name } = notification;
+      if (repeated.has(name)) {
+        if (desired.findIndex((n) => n.name === name) === desired.indexOf(notification)) fail('notification', name, 'Listed more than once');
+        return;
+      }
+      const matches = current.filter((n) => n.name === name);
+      if (matches.length > 1) {
+        fail('notification', name, `${matches.length} existing channels share this name — rename one so the document can tell them apart`);
+        return;
+      }
+      const fields: Record<string, unknown> = { ...notification };
+
+      if (matches.length === 0) {
+        // As addNotification: a new channel has no stored credential to restore "***" from.
+        const { missing } = rehydrateSecrets(fields, undefined);
+        if (missing.length > 0) {
+          fail('notification', name, `"***" is the redaction marker, not a credential — fill in the real value for ${missing.join(', ')}`);
+          return;
+        }
+        pendingNotifications.push(name);
+        add({ kind: 'notification', name, action: 'create' }, async () => {
+          const response = await client.addNotification(fields);
+          return { id: response.id };
+        });
+        return;
+      }
+
+      const id = matches[0].id as number;
+      const stored = storedNotificationConfig(matches[0]);
+      const { missing } = rehydrateSecrets(fields, stored);
+      if (missing.length > 0) {
+        fail('notification', name, `Cannot write the redaction marker "***" to ${missing.join(', ')} — the channel has no stored value to restore`);
+        return;
+      }
+      const changes = Object.keys(fields).filter((key) => !sameValue(fields[key], stored[key]));
+      if (changes.length === 0) {
+        add({ kind: 'notification', name, action: 'unchanged', id });
+        return;
+      }
+      // addNotification replaces the whole row, so fields the document leaves out are kept
+      // by merging onto what is stored.
+      add({ kind: 'notification', name, action: 'update', id, changes }, async () => {
+        await client.addNotification({ ...stored, ...fields }, id);
+      });
+    });
+    for (const existing of current.filter((n) => !declared.has(n.name as string))) {
+      const id = existing.id as number;
+      add({ kind: 'notification', name: String(existing.name), action: 'delete', id }, async () => {
+        await client.deleteNotification(id);
+      });
+    }
+  }
+
+  // ─── Monitors ─────────────────────────────────────────────────────────────
+  if (document.monitors) {
+    const monitorDocument = { version: 1 as const, monitors: document.monitors };
+    const { snapshot } = options;
+    const planned = await importMonitorDocument(client, monitorDocument, { dryRun: true, pendingNotifications });
+    const pending = new Map<string, ApplyPlanItem>();
+    for (const result of planned) {
+      const item: ApplyPlanItem = {
+        kind: 'monitor',
+        name: result.path,
+        action: result.action,
+        ...(result.monitorID !== undefined ? { id: result.monitorID } : {}),
+        ...(result.changes ? { changes: result.changes } : {}),
+        ...(result.error ? { error: result.error } : {}),
+        ...(result.action === 'update' ? { restorable: snapshot !== undefined } : {}),
+      };
+      items.push(item);
+      if (result.action === 'create' || result.action === 'update') pending.set(result.path, item);
+    }
+    // The import runs as one step: it already orders groups before their members and maps
+    // the IDs it creates, and reads every write back.
+    if (pending.size > 0) {
+      writes.push(async () => {
+        let results;
+        try {
+          results = await importMonitorDocument(client, monitorDocument, { snapshot });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          results = [...pending.keys()].map((path) => ({ path, action: 'error' as const, error: errorMessage }));
+        }
+        for (const result of results) {
+          const item = pending.get(result.path);
+          if (!item) continue;
+          item.applied = result.action !== 'error';
+          if ('monitorID' in result && result.monitorID !== undefined) item.id = result.monitorID;
+          if ('snapshotID' in result && result.snapshotID) item.snapshotID = result.snapshotID;
+          if (result.error) item.error = result.error;
+          if ('warning' in result && result.warning) item.warning = result.warning;
+        }
+      });
+    }
+
+    const monitors = client.getMonitorList() as unknown as Record<string, { parent?: number | null }>;
+    const depth = (id: number): number => {
+      let d = 0;
+      for (let parent = monitors[String(id)]?.parent; parent != null && d < 100; parent = monitors[String(parent)]?.parent) d++;
+      return d;
+    };
+    // Members before their groups, so deleting a group never has children left to orphan.
+    const obsolete = [...monitorIDsByPath(client)]
+      .filter(([path]) => !plannedPaths.has(path))
+      .flatMap(([path, ids]) => ids.map((id) => ({ path, id })))
+      .sort((a, b) => depth(b.id) - depth(a.id));
+    for (const { path, id } of obsolete) {
+      add({ kind: 'monitor', name: path, action: 'delete', id, restorable: snapshot !== undefined }, async () => {
+        if (snapshot) return snapshot('delete', id, () => client.deleteMonitor(id));
+        await client.deleteMonitor(id);
+      });
+    }
+  }
+
+  // ─── Status pages ─────────────────────────────────────────────────────────
+  if (document.statusPages) {
+    const desired = document.statusPages;
+    const current = client.getStatusPageList();
+    const repeated = duplicates(desired.map((page) => page.slug));
+    const declared = new Set(desired.map((page) => page.slug));
+
+    const groupList = (groups: NonNullable<ConfigStatusPage['groups']>) =>
+      groups.map((group) => ({ name: group.name, monitorList: resolveMonitorPaths(client, group.monitors).map((id) => ({ id })) }));
+
+    for (const page of desired) {
+      const { slug, groups, ...config } = page;
+      if (repeated.has(slug)) {
+        if (desired.findIndex((p) => p.slug === slug) === desired.indexOf(page)) fail('statusPage', slug, 'Listed more than once');
+        continue;
+      }
+      try {
+        checkPaths((groups ?? []).flatMap((group) => group.monitors));
+      } catch (error) {
+        fail('statusPage', slug, error instanceof Error ? error.message : 'Unknown error');
+        continue;
+      }
+
+      const existing = current.find((p) => p.slug === slug);
+      if (!existing) {
+        add({ kind: 'statusPage', name: slug, action: 'create' }, async () => {
+          await client.createStatusPage(config.title, slug);
+          // A new page is blank; saving the rest is a second call, as in the web UI.
+          if (Object.keys(config).length > 1 || groups) {
+            await client.updateStatusPage(slug, { ...STATUS_PAGE_CONFIG_DEFAULTS, ...config, slug }, groupList(groups ?? []));
+          }
+        });
+        continue;
+      }
+
+      const changes = Object.keys(config).filter((key) =>
+        !sameValue(config[key as keyof typeof config], (existing as Record<string, unknown>)[key])
+      );
+      // Groups are only on the public endpoint, which answers for published pages only.
+      let currentGroups: Array<Record<string, unknown>> | undefined;
+      try {
+        const response = await client.getStatusPage(slug);
+        if (response.ok) currentGroups = response.publicGroupList as Array<Record<string, unknown>>;
+      } catch {
+        currentGroups = undefined;
+      }
+      if (groups) {
+        const wanted = groups.map((group) => ({ name: group.name, ids: currentMonitorIDs(client, group.monitors) }));
+        const have = currentGroups?.map((group) => ({
+          name: group.name,
+          ids: ((group.monitorList ?? []) as Array<{ id: number }>).map((m) => m.id),
+        }));
+        if (!have || wanted.some((g) => g.ids === undefined) || !sameValue(wanted, have)) changes.push('groups');
+      }
+      if (changes.length === 0) {
+        add({ kind: 'statusPage', name: slug, action: 'unchanged', id: existing.id });
+        continue;
+      }
+      // saveStatusPage replaces the group list wholesale, so a page whose groups the document
+      // leaves out has to be sent the ones it has — which must be readable.
+      if (!groups && !currentGroups) {
+        fail('statusPage', slug, 'The page\'s groups cannot be read (it is not published), and saving it replaces them — list its groups in the document');
+        continue;
+      }
+      add({ kind: 'statusPage', name: slug, action: 'update', id: existing.id, changes }, async () => {
+        const publicGroupList = groups
+          ? groupList(groups)
+          : currentGroups!.map((group) => ({
+            id: group.id,
+            name: group.name,
+            monitorList: ((group.monitorList ?? []) as Array<{ id: number }>).map((m) => ({ id: m.id })),
+          }));
+        await client.updateStatusPage(slug, { ...existing, ...config, slug }, publicGroupList);
+      });
+    }
+    for (const existing of current.filter((p) => !declared.has(p.slug))) {
+      add({ kind: 'statusPage', name: existing.slug, action: 'delete', id: existing.id }, async () => {
+        await client.deleteStatusPage(existing.slug);
+      });
+    }
+  }
+
+  // ─── Maintenance windows ──────────────────────────────────────────────────
+  if (document.maintenance) {
+    const desired = document.maintenance;
+    const current = client.getMaintenanceList();
+    const repeated = duplicates(desired.map((window) => window.title));
+    const declared = new Set(desired.map((window) => window.title));
+
+    // jsonToBean() reads the zone from `timezoneOption`; `timezone` in the list is the zone it
+    // resolved to, so that is what is compared and both are sent.
+    const toPayload = (fields: Record<string, unknown>) =>
+      fields.timezone !== undefined ? { ...fields, timezoneOption: fields.timezone } : fields;
+
+    const setTargets = async (id: number, window: ConfigMaintenance) => {
+      if (window.monitors) await client.addMonitorMaintenance(id, resolveMonitorPaths(client, window.monitors));
+      if (window.statusPages) await client.addMaintenanceStatusPage(id, resolveStatusPageSlugs(client, window.statusPages));
+    };
+
+    for (const window of desired) {
+      const { title, monitors, statusPages, ...fields } = window;
+      if (repeated.has(title)) {
+        if (desired.findIndex((w) => w.title === title) === desired.indexOf(window)) fail('maintenance', title, 'Listed more than once');
+        continue;
+      }
+      const unknownSlugs = (statusPages ?? []).filter((slug) => !plannedSlugs.has(slug));
+      try {
+        checkPaths(monitors ?? []);
+        if (unknownSlugs.length > 0) throw new Error(`Status page(s) not found: ${unknownSlugs.join(', ')}`);
+      } catch (error) {
+        fail('maintenance', title, error instanceof Error ? error.message : 'Unknown error');
+        continue;
+      }
+
+      const matches = current.filter((w) => w.title === title);
+      if (matches.length > 1) {
+        fail('maintenance', title, `${matches.length} existing windows share this title — rename one so the document can tell them apart`);
+        continue;
+      }
+      if (matches.length === 0) {
+        add({ kind: 'maintenance', name: title, action: 'create' }, async () => {
+          const response = await client.createMaintenance(toPayload({ description: '', ...fields, title }));
+          if (response.maintenanceID !== undefined) await setTargets(response.maintenanceID, window);
+          return { id: response.maintenanceID };
+        });
+        continue;
+      }
+
+      const existing = matches[0] as Record<string, unknown> & { id: number };
+      const changes = Object.keys(fields).filter((key) =>
+        !sameValue(fields[key as keyof typeof fields], key === 'timezone' ? existing.timezoneOption ?? existing.timezone : existing[key])
+      );
+      if (monitors) {
+        const wanted = currentMonitorIDs(client, monitors);
+        const have = (await client.getMonitorMaintenance(existing.id)).map((m) => m.id);
+        if (!wanted || !sameIDs(wanted, have)) changes.push('monitors');
+      }
+      if (statusPages) {
+        const pages = client.getStatusPageList();
+        const wanted = statusPages.map((slug) => pages.find((page) => page.slug === slug)?.id);
+        const have = (await client.getMaintenanceStatusPage(existing.id)).map((p) => p.id);
+        if (wanted.includes(undefined) || !sameIDs(wanted as number[], have)) changes.push('statusPages');
+      }
+      if (changes.length === 0) {
+        add({ kind: 'maintenance', name: title, action: 'unchanged', id: existing.id });
+        continue;
+      }
+      add({ kind: 'maintenance', name: title, action: 'update', id: existing.id, changes }, async () => {
+        if (changes.some((change) => change !== 'monitors' && change !== 'statusPages')) {
+          // editMaintenance rebuilds the row from what it receives, as in updateMaintenance.
+          await client.updateMaintenance(existing.id, toPayload({ ...existing, ...fields }));
+        }
+        await setTargets(existing.id, {
+          ...window,
+          monitors: changes.includes('monitors') ? monitors : undefined,
+          statusPages: changes.includes('statusPages') ? statusPages : undefined,
+        });
+      });
+    }
+    for (const existing of current.filter((w) => !declared.has(w.title))) {
+      const id = existing.id as number;
+      add({ kind: 'maintenance', name: existing.title, action: 'delete', id }, async () => {
+        await client.deleteMaintenance(id);
+      });
+    }
+  }
+
+  const planID = planFingerprint(items);
+  if (!options.confirm || items.some((item) => item.action === 'error')) {
+    return { applied: false, planID, items };
+  }
+  if (options.planID !== undefined && options.planID !== planID) {
+    throw new Error(
+      `The plan has changed since plan ${options.planID} was previewed (it is now ${planID}). Nothing was changed — preview again.`
+    );
+  }
+
+  for (const run of writes) await run();
+  for (const kind of ['statusPage', 'maintenance', 'monitor', 'notification', 'tag'] as const) {
+    for (const run of deletes[kind]) await run();
+  }
+  return { applied: true, planID, items };
+}
+
+const PLAN_SYMBOLS: Record<ApplyPlanItem['action'], string> = {
+  create: '+', update: '~', delete: '-', unchanged: '=', error: '!',
+};
+
+const KIND_LABELS: Record<ItemKind, string> = {
+  tag: 'tag', notification: 'notification', monitor: 'monitor', maintenance: 'maintenance', statusPage: 'status page',
+};
+
+/**
+ * The plan, or what applying it did, one line per change. Unchanged items are only counted —
+ * in a plan for a whole instance they are most of it.
+ */
+export function formatApplyReport(result: ApplyResult): string {
+  const { applied, items } = result;
+  const lines = items
+    .filter((item) => item.action !== 'unchanged')
+    .map((item) => {
+      const id = item.id !== undefined ? ` (ID ${item.id})` : '';
+      const changes = item.changes ? `: ${item.changes.join(', ')}` : '';
+      const outcome = item.applied === false ? ` — FAILED: ${item.error}` : item.error ? ` — ${item.error}` : '';
+      const undo = item.snapshotID
+        ? ` — restoreMonitor snapshot "${item.snapshotID}"`
+        : item.restorable === false && item.applied === undefined ? ' — cannot be restored' : '';
+      const warning = item.warning ? `\n    WARNING: ${item.warning.replace(/\n/g, '\n    ')}` : '';
+      return `  ${PLAN_SYMBOLS[item.action]} ${item.action} ${KIND_LABELS[item.kind]} "${item.name}"${id}${changes}${outcome}${undo}${warning}`;
+    });
+
+  const count = (action: ApplyPlanItem['action'], applied?: boolean) =>
+    items.filter((item) => item.action === action && (applied === undefined || item.applied === applied)).length;
+  const unchanged = count('unchanged');
+  const totals = `${count('create')} to create, ${count('update')} to update, ${count('delete')} to delete; ${unchanged} unchanged`;
+
+  let summary: string;
+  if (count('error') > 0) {
+    summary = `The document has ${count('error')} error(s) — nothing was changed. Plan: ${totals}.`;
+  } else if (count('create') + count('update') + count('delete') === 0) {
+    summary = `Nothing to do: ${unchanged} unchanged.`;
+  } else if (applied) {
+    const failed = items.filter((item) => item.applied === false).length;
+    summary = `Created ${count('create', true)}, updated ${count('update', true)}, deleted ${count('delete', true)}; ` +
+      `${unchanged} unchanged, ${failed} failed.`;
+  } else {
+    summary = `Plan: ${totals}. Nothing was changed — confirm to apply.`;
+  }
+  return [...lines, summary].join('\n');
+}
@@ -0,0 +1,124 @@
+import { appendFileSync } from 'node:fs';
+import { appendFile, readFile } from 'node:fs/promises';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { AuditLogEntry } from './types/index.js';
+
+/**
+ * Audit log: one JSON line per call to a tool that can change something, appended to the file
+ * named by `UPTIME_KUMA_AUDIT_LOG`, so "who deleted this monitor?" has an answer.
+ *
+ * The server only ever appends; rotating or pruning the file is left to the operator's usual
+ * log tooling. Arguments, results and monitor snapshots pass through redactSecrets before they
+ * are written — the log must not become the one place every credential ends up in.
+ */
+
+/**
+ * Creates the log file if needed and fails if it cannot be written, so a misconfigured path
+ * stops the server at startup instead of silently dropping entries later.
+ */
+export function openAuditLog(path: string): void {
+  try {
+    appendFileSync(path, '');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Cannot write audit log ${path}: ${errorMessage}`);
+  }
+}
+
+/**
+ * Who made a tool call: the name of the HTTP token it came with ("MCP_AUTH_TOKEN" for the
+ * shared one), "http" over HTTP without tokens, or "stdio". Never the token itself.
+ */
+export function callerIdentity(extra: unknown): string {
+  const { authInfo, requestInfo } = (extra ?? {}) as { authInfo?: AuthInfo; requestInfo?: unknown };
+  if (authInfo?.clientId) return authInfo.clientId;
+  return requestInfo ? 'http' : 'stdio';
+}
+
+export async function appendAuditEntry(path: string, entry: AuditLogEntry): Promise<void> {
+  // One write per entry: appends of a single line do not interleave between concurrent calls.
+  await appendFile(path, `${JSON.stringify(entry)}\n`, 'utf8');
+}
+
+export interface AuditLogQuery {
+  tool?: string;
+  caller?: string;
+  /** Entries about this monitor: the one acted on, or one of a bulk call's monitorIDs. */
+  monitorID?: number;
+  /** Epoch milliseconds. */
+  since?: number;
+  until?: number;
+  failedOnly?: boolean;
+  limit?: number;
+}
+
+const mentionsMonitor = (entry: AuditLogEntry, monitorID: number): boolean => {
+  if (entry.monitorID === monitorID) return true;
+  const args = entry.arguments ?? {};
+  return ['monitorIDs', 'confirmMonitorIDs'].some((key) =>
+    Array.isArray(args[key]) && (args[key] as unknown[]).includes(monitorID));
+};
+
+/**
+ * The entries matching the query, newest first, up to `limit`. `total` counts every match.
+ * A line that is not an entry (a partial write, a hand edit) is skipped and counted rather
+ * than making the whole log unreadable.
+ */
+export async function readAuditLog(
+  path: string,
+  query: AuditLogQuery = {}
+): Promise<{ entries: AuditLogEntry[]; total: number; skippedLines: number }> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { entries: [], total: 0, skippedLines: 0 };
+    throw error;
+  }
+
+  let skippedLines = 0;
+  const matches: AuditLogEntry[] = [];
+  for (const line of text.split('\n')) {
+    if (!line.trim()) continue;
+    let entry: AuditLogEntry;
+    try {
+      entry = JSON.parse(line) as AuditLogEntry;
+    } catch {
+      skippedLines++;
+      continue;
+    }
+    const time = Date.parse(entry?.timestamp);
+    if (typeof entry?.tool !== 'string' || Number.isNaN(time)) {
+      skippedLines++;
+      continue;
+    }
+    if (query.tool !== undefined && entry.tool !== query.tool) continue;
+    if (query.caller !== undefined && entry.caller !== query.caller) continue;
+    if (query.monitorID !== undefined && !mentionsMonitor(entry, query.monitorID)) continue;
+    if (query.since !== undefined && time < query.since) continue;
+    if (query.until !== undefined && time > query.until) continue;
+    if (query.failedOnly && entry.ok) continue;
+    matches.push(entry);
+  }
+
+  matches.reverse();
+  return { entries: matches.slice(0, query.limit ?? matches.length), total: matches.length, skippedLines };
+}
+
+/**
+ * The entries as text, one line each; the snapshots are left to the structured result.
+ */
+export function formatAuditLog(entries: AuditLogEntry[], total: number): string {
+  if (entries.length === 0) return 'No audit log entries match.';
+
+  const lines = [total > entries.length ? `${entries.length} of ${total} matching entries, newest first:` : `${total} matching entries, newest first:`];
+  for (const entry of entries) {
+    const instance = entry.instance ? ` on ${entry.instance}` : '';
+    const monitor = entry.monitorID !== undefined ? ` monitor ${entry.monitorID}` : '';
+    const snapshot = entry.before ?? entry.after;
+    const name = snapshot && typeof snapshot.name === 'string' ? ` "${snapshot.name}"` : '';
+    const outcome = entry.error ? `error: ${entry.error}` : entry.ok ? 'ok' : 'not ok';
+    lines.push(`- ${entry.timestamp} ${entry.tool}${monitor}${name} by ${entry.caller}${instance} — ${outcome}`);
+  }
+  return lines.join('\n');
+}
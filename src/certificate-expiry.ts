@@ -0,0 +1,120 @@
+import type { UptimeKumaClient } from './uptime-kuma-client.js';
+import type { CertificateExpiry, TlsInfo } from './types/index.js';
+
+/**
+ * TLS certificate inventory: which certificates behind the HTTPS monitors expire soon.
+ *
+ * The certificates come from the `certInfo` events Uptime Kuma pushes for every HTTPS monitor,
+ * so a monitor that is paused, or has not been checked since this server connected, has none
+ * yet and is reported as unknown rather than left out. Days remaining are counted from the
+ * certificate's expiry date at the time of the call, not taken from the event, which may be
+ * hours old.
+ */
+
+// The monitor types whose check makes an HTTPS request and so reports a certificate.
+export const CERTIFICATE_MONITOR_TYPES = ['http', 'keyword', 'json-query'];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Most urgent first.
+const STATUS_ORDER: CertificateExpiry['status'][] = ['invalid', 'expired', 'expiring', 'ok', 'unknown'];
+
+// A certificate's subject and issuer are records of RDN attributes, each a string or — when
+// repeated — an array of them.
+const attribute = (name: Record<string, unknown> | null | undefined, ...keys: string[]): string | null => {
+  for (const key of keys) {
+    const value = name?.[key];
+    if (typeof value === 'string' && value) return value;
+    if (Array.isArray(value) && typeof value[0] === 'string') return value.join(', ');
+  }
+  return null;
+};
+
+function describeCertificate(tls: TlsInfo | undefined, now: number, warnDays: number) {
+  const cert = tls?.certInfo;
+  const expiry = Date.parse(cert?.validTo ?? cert?.valid_to ?? '');
+  const validTo = Number.isNaN(expiry) ? null : new Date(expiry).toISOString();
+  const daysRemaining = !Number.isNaN(expiry)
+    ? Math.floor((expiry - now) / DAY)
+    : (typeof cert?.daysRemaining === 'number' ? cert.daysRemaining : null);
+  const valid = typeof tls?.valid === 'boolean' ? tls.valid : null;
+
+  let status: CertificateExpiry['status'] = 'unknown';
+  if (cert) {
+    if (daysRemaining !== null && daysRemaining < 0) status = 'expired';
+    else if (valid === false) status = 'invalid';
+    else if (daysRemaining !== null && daysRemaining <= warnDays) status = 'expiring';
+    else if (daysRemaining !== null) status = 'ok';
+  }
+
+  return {
+    subject: attribute(cert?.subject, 'CN', 'O'),
+    issuer: attribute(cert?.issuer, 'O', 'CN'),
+    validTo,
+    daysRemaining,
+    valid,
+    status,
+  };
+}
+
+/**
+ * Lists the certificates of every HTTPS monitor, most urgent first: invalid and expired ones,
+ * then by days remaining. `warnDays` is where "expiring" begins.
+ */
+export function certificateExpiry(
+  client: UptimeKumaClient,
+  options: { warnDays: number; monitorIDs?: number[]; now?: number }
+): CertificateExpiry[] {
+  const now = options.now ?? Date.now();
+  const selected = options.monitorIDs ? new Set(options.monitorIDs) : undefined;
+
+  const rows: CertificateExpiry[] = [];
+  for (const monitor of Object.values(client.getMonitorList()) as Array<Record<string, unknown>>) {
+    const monitorID = monitor.id as number;
+    if (selected && !selected.has(monitorID)) continue;
+    if (!CERTIFICATE_MONITOR_TYPES.includes(String(monitor.type))) continue;
+    const url = typeof monitor.url === 'string' ? monitor.url : '';
+    // A plain-HTTP URL has no certificate to expire.
+    if (!/^https:\/\//i.test(url)) continue;
+
+    rows.push({
+      monitorID,
+      name: String(monitor.pathName ?? monitor.name ?? `Monitor ${monitorID}`),
+      type: String(monitor.type),
+      url,
+      ...describeCertificate(client.getCertInfo(monitorID), now, options.warnDays),
+    });
+  }
+
+  return rows.sort((a, b) =>
+    STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+    (a.daysRemaining ?? Infinity) - (b.daysRemaining ?? Infinity) ||
+    a.monitorID - b.monitorID);
+}
+
+/**
+ * The inventory as a markdown table.
+ */
+export function formatCertificateExpiry(rows: CertificateExpiry[], warnDays: number): string {
+  if (rows.length === 0) {
+    return 'No HTTPS monitors match.';
+  }
+  const lines = [
+    `Certificates of ${rows.length} HTTPS monitor(s); "expiring" means ${warnDays} days or fewer.`,
+    '',
+    '| Status | Days left | Expires (UTC) | Monitor | Subject | Issuer |',
+    '|---|---:|---|---|---|---|',
+    ...rows.map((r) => {
+      const cells = [
+        r.status === 'ok' ? 'ok' : `**${r.status}**`,
+        r.daysRemaining === null ? '—' : String(r.daysRemaining),
+        r.validTo ? r.validTo.slice(0, 10) : '—',
+        `${r.name} [${r.monitorID}]`,
+        r.subject ?? '—',
+        r.issuer ?? '—',
+      ];
+      return `| ${cells.map((cell) => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+    }),
+  ];
+  return lines.join('\n');
+}
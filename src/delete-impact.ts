@@ -0,0 +1,147 @@
+import type { UptimeKumaClient } from './uptime-kuma-client.js';
+
+/**
+ * What a delete takes with it, for the confirmation the delete tools ask for before they run.
+ *
+ * Built from the client's caches, plus one fetch per status page for a monitor: only the
+ * public status page API lists a page's monitors. A page that cannot be read is named as
+ * unchecked rather than failing the summary — the summary informs the user, it is not a
+ * precondition of the delete.
+ */
+
+export type DeleteTarget =
+  | { kind: 'monitor'; monitorID: number }
+  | { kind: 'notification'; notificationID: number }
+  | { kind: 'tag'; tagID: number }
+  | { kind: 'dockerHost'; dockerHostID: number }
+  | { kind: 'statusPage'; slug: string };
+
+export interface DeleteImpact {
+  /** The thing deleted, e.g. `monitor "Prod / API" [2] (http)`. */
+  subject: string;
+  /** One line per consequence, most important first. */
+  consequences: string[];
+  /** restoreMonitor can recreate it from the snapshot the delete takes (see monitor-snapshots.ts). */
+  restorable?: boolean;
+}
+
+type Monitor = Record<string, unknown>;
+
+const monitorName = (monitor: Monitor) =>
+  `${String(monitor.pathName ?? monitor.name ?? `Monitor ${monitor.id}`)} [${monitor.id}]`;
+
+// "API [2], DB [3]", or the first few and a count of the rest.
+const nameList = (monitors: Monitor[], limit = 10) => {
+  const names = monitors.slice(0, limit).map(monitorName);
+  if (monitors.length > limit) names.push(`and ${monitors.length - limit} more`);
+  return names.join(', ');
+};
+
+async function monitorImpact(client: UptimeKumaClient, monitorID: number): Promise<DeleteImpact> {
+  const monitorList = client.getMonitorList() as Record<string, Monitor>;
+  const monitor = monitorList[String(monitorID)];
+  const subject = monitor ? `monitor "${String(monitor.pathName ?? monitor.name)}" [${monitorID}] (${String(monitor.type)})` : `monitor ${monitorID}`;
+  const consequences = ['Its heartbeat history, uptime statistics and events are deleted with it.'];
+
+  const children = Object.values(monitorList)
+    .filter((m) => m.parent === monitorID)
+    .sort((a, b) => (a.id as number) - (b.id as number));
+  if (children.length > 0) {
+    const nested = client.getMonitorSubtreeIDs(monitorID).length - 1;
+    const deeper = nested > children.length ? ` (${nested} monitor(s) nested under it at any depth)` : '';
+    consequences.push(`Its ${children.length} child monitor(s) lose their group: ${nameList(children)}${deeper}.`);
+  }
+
+  const pages = client.getStatusPageList();
+  const listed = await Promise.all(pages.map(async (page) => {
+    try {
+      const response = await client.getStatusPage(page.slug);
+      const groups = (response.publicGroupList ?? []) as Array<{ monitorList?: Array<{ id?: number }> }>;
+      return groups.some((group) => group.monitorList?.some((m) => m.id === monitorID)) ? 'listed' : 'absent';
+    } catch {
+      return 'unchecked';
+    }
+  }));
+  const pageName = (i: number) => `${pages[i].title} (/status/${pages[i].slug})`;
+  const listing = pages.map((_, i) => i).filter((i) => listed[i] === 'listed');
+  const unchecked = pages.map((_, i) => i).filter((i) => listed[i] === 'unchecked');
+  if (listing.length > 0) {
+    consequences.push(`It disappears from ${listing.length} status page(s): ${listing.map(pageName).join(', ')}.`);
+  }
+  if (unchecked.length > 0) {
+    consequences.push(`Could not check whether these status pages list it: ${unchecked.map(pageName).join(', ')}.`);
+  }
+  return { subject, consequences };
+}
+
+/**
+ * Summarizes what deleting the target removes or changes. Never throws for a target that does
+ * not exist: the delete itself reports that. `monitorSnapshots` says a monitor delete takes a
+ * snapshot first, so that the monitor, unlike anything else deleted here, can be recreated.
+ */
+export async function deleteImpact(
+  client: UptimeKumaClient,
+  target: DeleteTarget,
+  options: { monitorSnapshots?: boolean } = {}
+): Promise<DeleteImpact> {
+  const monitors = () => (Object.values(client.getMonitorList()) as Monitor[])
+    .sort((a, b) => (a.id as number) - (b.id as number));
+
+  switch (target.kind) {
+    case 'monitor':
+      return { ...await monitorImpact(client, target.monitorID), ...(options.monitorSnapshots ? { restorable: true } : {}) };
+
+    case 'notification': {
+      const channel = client.getNotificationList().find((n) => n.id === target.notificationID);
+      const users = monitors().filter((m) => Boolean((m.notificationIDList as Record<string, unknown> | undefined)?.[target.notificationID]));
+      return {
+        subject: channel?.name ? `notification channel "${channel.name}" [${target.notificationID}]` : `notification channel ${target.notificationID}`,
+        consequences: users.length > 0
+          ? [`${users.length} monitor(s) stop alerting through it: ${nameList(users)}.`]
+          : ['No monitor uses it.'],
+      };
+    }
+
+    case 'tag': {
+      const tag = (await client.getTagList()).find((t) => t.id === target.tagID);
+      const tagged = monitors().filter((m) => (m.tags as Array<{ tag_id?: number }> | undefined)?.some((t) => t.tag_id === target.tagID));
+      return {
+        subject: tag ? `tag "${tag.name}" [${target.tagID}]` : `tag ${target.tagID}`,
+        consequences: tagged.length > 0
+          ? [`It is removed from ${tagged.length} monitor(s): ${nameList(tagged)}.`]
+          : ['No monitor carries it.'],
+      };
+    }
+
+    case 'dockerHost': {
+      const host = client.getDockerHostList().find((h) => h.id === target.dockerHostID);
+      const users = monitors().filter((m) => m.docker_host === target.dockerHostID);
+      return {
+        subject: host?.name ? `docker host "${host.name}" [${target.dockerHostID}]` : `docker host ${target.dockerHostID}`,
+        consequences: users.length > 0
+          ? [`${users.length} docker monitor(s) lose their host and stop working: ${nameList(users)}.`]
+          : ['No monitor uses it.'],
+      };
+    }
+
+    case 'statusPage': {
+      const page = client.getStatusPageList().find((p) => p.slug === target.slug);
+      return {
+        subject: page ? `status page "${page.title}" (/status/${target.slug})` : `status page ${target.slug}`,
+        consequences: [`Its URL /status/${target.slug} stops working, and its groups and incidents are deleted. The monitors on it are kept.`],
+      };
+    }
+  }
+}
+
+/**
+ * The impact as the text of a confirmation prompt.
+ */
+export function formatDeleteImpact(impact: DeleteImpact): string {
+  return [
+    impact.restorable
+      ? `Delete ${impact.subject}? restoreMonitor can recreate its configuration afterwards, but not its heartbeat history.`
+      : `Delete ${impact.subject}? This cannot be undone.`,
+    ...impact.consequences.map((line) => `- ${line}`),
+  ].join('\n');
+}
@@ -0,0 +1,162 @@
+import type { UptimeKumaClient } from './uptime-kuma-client.js';
+import type { FlappingMonitor } from './types/index.js';
+import { fetchStatusChanges, parseBeatTime, type StatusChange } from './uptime-report.js';
+
+/**
+ * Flapping monitors: ones that keep going DOWN and back UP, each time sending a notification.
+ *
+ * Transitions are counted between UP and DOWN only; PENDING is Uptime Kuma retrying, and
+ * MAINTENANCE is not the monitor's doing. The cached beats are used when they reach back to
+ * the start of the window; otherwise the monitor's status changes are paged from the
+ * important-beat feed (see uptime-report.ts).
+ *
+ * The cure Uptime Kuma offers is retries: with `maxretries` retries `retryInterval` seconds
+ * apart, a failure has to outlast them before the monitor goes DOWN. The suggestion sizes
+ * them to outlast the monitor's typical blip with some margin.
+ */
+
+const UP = 1;
+const DOWN = 0;
+
+const MINUTE = 60_000;
+
+// A DOWN that typically lasts longer than this is an outage that keeps recurring, not a blip;
+// retries would only delay the alert for it.
+const MAX_BLIP_SECONDS = 30 * 60;
+
+// Margin over the typical blip that the retries should cover.
+const RETRY_MARGIN = 1.5;
+
+// Past this many retries the interval between them grows instead.
+const MAX_SUGGESTED_RETRIES = 10;
+
+// Uptime Kuma's minimum retry interval.
+const MIN_RETRY_INTERVAL = 20;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const numberOrNull = (value: unknown): number | null => (typeof value === 'number' ? value : null);
+
+/**
+ * Finds the monitors with at least `minTransitions` UP↔DOWN changes in the last
+ * `windowMinutes`, most frequent first.
+ */
+export async function findFlappingMonitors(
+  client: UptimeKumaClient,
+  options: { windowMinutes: number; minTransitions: number; monitorIDs?: number[]; now?: number }
+): Promise<FlappingMonitor[]> {
+  const now = options.now ?? Date.now();
+  const since = now - options.windowMinutes * MINUTE;
+  const monitors = client.getMonitorList();
+  const ids = options.monitorIDs ?? Object.values(monitors)
+    .filter((m) => m.type !== 'group')
+    .map((m) => m.id as number);
+
+  const flapping: FlappingMonitor[] = [];
+  for (const monitorID of ids) {
+    const cached = client.getHeartbeatsForMonitor(monitorID, Number.MAX_SAFE_INTEGER);
+    const oldest = cached.length > 0 ? parseBeatTime(cached[cached.length - 1].time) : NaN;
+    let changes: StatusChange[];
+    if (!Number.isNaN(oldest) && oldest <= since) {
+      changes = cached
+        .map((beat) => ({ time: parseBeatTime(beat.time), status: beat.status, msg: String(beat.msg ?? '') }))
+        .filter((change) => !Number.isNaN(change.time))
+        .reverse();
+    } else {
+      changes = await fetchStatusChanges(client, monitorID, since);
+    }
+
+    // Collapse to UP/DOWN, then count the flips inside the window.
+    let previous: StatusChange | undefined;
+    let transitions = 0;
+    const downs: number[] = [];
+    for (const change of changes) {
+      if (change.status !== UP && change.status !== DOWN) continue;
+      if (previous && previous.status !== change.status && change.time >= since) {
+        transitions++;
+        if (change.status === UP) downs.push((change.time - previous.time) / 1000);
+      }
+      if (!previous || previous.status !== change.status) previous = change;
+    }
+    if (transitions < options.minTransitions) continue;
+
+    const monitor = monitors[String(monitorID)] as Record<string, unknown> | undefined;
+    const current = {
+      interval: numberOrNull(monitor?.interval),
+      maxretries: numberOrNull(monitor?.maxretries),
+      retryInterval: numberOrNull(monitor?.retryInterval),
+    };
+    const medianDownSeconds = downs.length > 0 ? Math.round(median(downs)) : null;
+
+    flapping.push({
+      monitorID,
+      name: String(monitor?.pathName ?? `Monitor ${monitorID}`),
+      transitions,
+      flapsPerHour: Number((transitions / (options.windowMinutes / 60)).toFixed(1)),
+      medianDownSeconds,
+      current,
+      ...suggestRetries(monitorID, current, medianDownSeconds),
+    });
+  }
+
+  return flapping.sort((a, b) => b.flapsPerHour - a.flapsPerHour || a.monitorID - b.monitorID);
+}
+
+function suggestRetries(
+  monitorID: number,
+  current: FlappingMonitor['current'],
+  medianDownSeconds: number | null
+): Pick<FlappingMonitor, 'suggestion' | 'rationale'> {
+  if (medianDownSeconds === null) {
+    return { suggestion: null, rationale: 'No DOWN in the window has ended yet, so there is no typical blip to size retries against.' };
+  }
+  if (medianDownSeconds > MAX_BLIP_SECONDS) {
+    return {
+      suggestion: null,
+      rationale: `A DOWN typically lasts ${Math.round(medianDownSeconds / 60)} min — these are recurring outages rather than blips, and retries would only delay the alert. Look for the cause instead.`,
+    };
+  }
+
+  let retryInterval = Math.max(current.retryInterval || current.interval || 60, MIN_RETRY_INTERVAL);
+  const currentRetries = current.maxretries ?? 0;
+  // The failure already outlasted the retries in place before it was reported as DOWN.
+  const blip = medianDownSeconds + currentRetries * retryInterval;
+  const cover = Math.ceil(blip * RETRY_MARGIN);
+  let maxretries = Math.max(currentRetries + 1, Math.ceil(cover / retryInterval));
+  if (maxretries > MAX_SUGGESTED_RETRIES) {
+    maxretries = MAX_SUGGESTED_RETRIES;
+    retryInterval = Math.ceil(cover / MAX_SUGGESTED_RETRIES);
+  }
+
+  return {
+    suggestion: { monitorID, maxretries, retryInterval },
+    rationale:
+      `A failure typically lasts about ${Math.round(blip)} s including the current retries. ` +
+      `${maxretries} retries ${retryInterval} s apart wait ${maxretries * retryInterval} s before going DOWN, ` +
+      'outlasting it with margin — at the cost of reporting a real outage that much later.',
+  };
+}
+
+/**
+ * The monitors as text, most frequent first.
+ */
+export function formatFlappingMonitors(flapping: FlappingMonitor[], windowMinutes: number): string {
+  if (flapping.length === 0) {
+    return `No monitor flapped in the last ${windowMinutes} min.`;
+  }
+  const lines = [`${flapping.length} monitor(s) flapping in the last ${windowMinutes} min:`];
+  for (const m of flapping) {
+    lines.push(
+      `- ${m.name} [${m.monitorID}]: ${m.transitions} transitions (${m.flapsPerHour}/h), ` +
+        `retries now ${m.current.maxretries ?? 0} × ${m.current.retryInterval ?? '?'} s`
+    );
+    lines.push(m.suggestion
+      ? `  suggest updateMonitor ${JSON.stringify(m.suggestion)} — ${m.rationale}`
+      : `  ${m.rationale}`);
+  }
+  return lines.join('\n');
+}
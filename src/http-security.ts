@@ -1,5 +1,7 @@
 import { createHash, timingSafeEqual } from 'node:crypto';
 import type { RequestHandler } from 'express';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { ALL_SCOPES, type ScopedToken } from './tool-scopes.js';
 
 /**
  * Gating of requests on the way IN to the streamable HTTP transport (issue #62).
@@ -93,14 +95,21 @@ export function createOriginMiddleware(allowed: AllowedOrigins): RequestHandler
 }
 
 /**
- * Requires a shared secret in `Authorization: Bearer <token>` once `MCP_AUTH_TOKEN` is
- * set. An unset (or blank) token disables the check entirely, which is what an existing
- * deployment gets on upgrade.
+ * Requires a bearer token in `Authorization: Bearer <token>` once `MCP_AUTH_TOKEN` is set
+ * or a tokens file lists any (see tool-scopes.ts). With neither, the check is disabled
+ * entirely, which is what an existing deployment gets on upgrade.
+ *
+ * The matched token's scopes are attached to the request as `req.auth`, which the SDK's
+ * transport hands to every request handler as `authInfo`. The shared token grants every scope.
  */
-export function createAuthMiddleware(token: string | undefined): RequestHandler {
-  const expected = token?.trim();
-
-  if (!expected) {
+export function createAuthMiddleware(token: string | undefined, scopedTokens: ScopedToken[] = []): RequestHandler {
+  const shared = token?.trim();
+  const tokens: ScopedToken[] = [
+    ...(shared ? [{ name: 'MCP_AUTH_TOKEN', token: shared, scopes: ALL_SCOPES }] : []),
+    ...scopedTokens,
+  ];
+
+  if (tokens.length === 0) {
     return (_req, _res, next) => next();
   }
 
@@ -109,7 +118,10 @@ export function createAuthMiddleware(token: string | undefined): RequestHandler
   // it — and that guard is itself a side channel that hands an attacker the token's
   // length for free. Digests are always 32 bytes, so one constant-time comparison covers
   // every case and no branch depends on the presented value.
-  const expectedDigest = createHash('sha256').update(expected, 'utf8').digest();
+  const expected = tokens.map((entry) => ({
+    entry,
+    digest: createHash('sha256').update(entry.token.trim(), 'utf8').digest(),
+  }));
 
   return (req, res, next) => {
     const header = req.headers.authorization;
@@ -119,7 +131,19 @@ export function createAuthMiddleware(token: string | undefined): RequestHandler
 
     const presentedDigest = createHash('sha256').update(presented, 'utf8').digest();
 
-    if (timingSafeEqual(expectedDigest, presentedDigest)) {
+    // Every token is compared, whichever matches: stopping at the first match would let
+    // response time tell a caller how far down the list its token sits.
+    let matched: ScopedToken | undefined;
+    for (const { entry, digest } of expected) {
+      if (timingSafeEqual(digest, presentedDigest) && !matched) matched = entry;
+    }
+
+    if (matched) {
+      (req as typeof req & { auth?: AuthInfo }).auth = {
+        token: presented,
+        clientId: matched.name,
+        scopes: matched.scopes,
+      };
       next();
       return;
     }
@@ -0,0 +1,199 @@
+import { randomUUID } from 'node:crypto';
+import type { Request, RequestHandler, Response } from 'express';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Stateful sessions for the streamable HTTP transport.
+ *
+ * The default HTTP mode is stateless: every POST gets a throwaway transport and a JSON reply,
+ * so anything the server says on its own initiative — log messages, "session invalidated",
+ * resource update notifications — has nowhere to go. In this mode each client gets a session
+ * ID on `initialize`, its own MCP server (and with it its own Uptime Kuma connection and
+ * subscriptions), a GET SSE stream for server-initiated messages, and DELETE to end it.
+ *
+ * Clients that vanish without sending DELETE are the normal case rather than the exception
+ * (a closed laptop, a killed process), so an idle reaper ends any session that has made no
+ * request and holds no open stream for longer than the idle timeout. An open GET stream counts
+ * as activity: a dashboard that only listens must not be reaped while it is listening.
+ */
+
+/** What a session holds, as built by the caller once per `initialize`. */
+export interface McpSession {
+  server: McpServer;
+  /** Runs after the session's `initialize` request has been answered. */
+  onInitialized?: () => Promise<void>;
+  /** Releases whatever the session holds beyond its transport. */
+  close: () => void;
+}
+
+export interface SessionManagerOptions {
+  /** A session with no request and no open stream for this long is ended. */
+  idleTimeoutMs: number;
+  /** How often to look for idle sessions. Defaults to a quarter of the idle timeout, at most a minute. */
+  reapIntervalMs?: number;
+  /** Clock, for tests. */
+  now?: () => number;
+}
+
+interface SessionEntry {
+  transport: StreamableHTTPServerTransport;
+  session: McpSession;
+  lastActivity: number;
+  openStreams: number;
+}
+
+/**
+ * Reads `MCP_SESSION_IDLE_TIMEOUT` (seconds). Unset or unparseable falls back to 30 minutes;
+ * a stale session costs one Uptime Kuma socket, so the default errs towards keeping it.
+ */
+export function parseIdleTimeout(value: string | undefined): number {
+  const seconds = Number(value?.trim());
+  if (!value?.trim() || !Number.isFinite(seconds) || seconds <= 0) {
+    return 30 * 60 * 1000;
+  }
+  return seconds * 1000;
+}
+
+const jsonRpcError = (res: Response, status: number, message: string, code = -32000) => {
+  res.status(status).json({ jsonrpc: '2.0', error: { code, message }, id: null });
+};
+
+/** Express 4 does not catch a rejected handler, so turn a throw into a JSON-RPC 500. */
+const guarded = (handler: (req: Request, res: Response) => Promise<void>): RequestHandler =>
+  async (req, res) => {
+    try {
+      await handler(req, res);
+    } catch (error) {
+      console.error('[MCP] Error handling request:', error);
+      if (!res.headersSent) jsonRpcError(res, 500, 'Internal server error', -32603);
+    }
+  };
+
+export function createSessionManager(openSession: () => Promise<McpSession>, options: SessionManagerOptions) {
+  const now = options.now ?? Date.now;
+  const sessions = new Map<string, SessionEntry>();
+
+  /** Ends a session exactly once, whichever of DELETE, the reaper or a transport close gets there first. */
+  const end = (sessionId: string) => {
+    const entry = sessions.get(sessionId);
+    if (!entry) return;
+    sessions.delete(sessionId);
+    try { entry.session.close(); } catch { /* best effort */ }
+    entry.transport.close().catch(() => { /* already closed */ });
+  };
+
+  /**
+   * The session a request names, or undefined once an error has been written. Per the
+   * streamable HTTP spec a missing ID is a bad request, while an unknown one is 404 — which
+   * tells the client its session is gone and it should initialize a new one.
+   */
+  const lookup = (req: Request, res: Response): SessionEntry | undefined => {
+    const sessionId = req.header('mcp-session-id');
+    if (!sessionId) {
+      jsonRpcError(res, 400, 'Bad Request: missing mcp-session-id header');
+      return undefined;
+    }
+    const entry = sessions.get(sessionId);
+    if (!entry) {
+      jsonRpcError(res, 404, 'Session not found');
+      return undefined;
+    }
+    entry.lastActivity = now();
+    return entry;
+  };
+
+  const handlePost = guarded(async (req, res) => {
+    if (req.header('mcp-session-id')) {
+      const entry = lookup(req, res);
+      if (entry) await entry.transport.handleRequest(req, res, req.body);
+      return;
+    }
+
+    if (!isInitializeRequest(req.body)) {
+      jsonRpcError(res, 400, 'Bad Request: no session ID provided and the request is not initialize');
+      return;
+    }
+
+    const session = await openSession();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        sessions.set(sessionId, { transport, session, lastActivity: now(), openStreams: 0 });
+      },
+    });
+    // Set before connect(): the server wraps whatever handler is already there.
+    transport.onclose = () => {
+      if (transport.sessionId) end(transport.sessionId);
+    };
+
+    try {
+      await session.server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    } catch (error) {
+      if (transport.sessionId && sessions.has(transport.sessionId)) end(transport.sessionId);
+      else session.close();
+      throw error;
+    }
+
+    if (!transport.sessionId || !sessions.has(transport.sessionId)) {
+      // initialize was rejected, so nobody can ever address this session
+      session.close();
+      await transport.close();
+      return;
+    }
+    session.onInitialized?.().catch(() => { /* reported by the session itself */ });
+  });
+
+  const handleGet = guarded(async (req, res) => {
+    const entry = lookup(req, res);
+    if (!entry) return;
+    entry.openStreams++;
+    res.on('close', () => {
+      entry.openStreams--;
+      entry.lastActivity = now();
+    });
+    await entry.transport.handleRequest(req, res);
+  });
+
+  const handleDelete = guarded(async (req, res) => {
+    const entry = lookup(req, res);
+    if (!entry) return;
+    // The transport answers the DELETE and closes itself, which ends the session via onclose.
+    await entry.transport.handleRequest(req, res);
+  });
+
+  /** Ends every idle session; returns their IDs. */
+  const reapIdle = (): string[] => {
+    const cutoff = now() - options.idleTimeoutMs;
+    const idle = [...sessions.entries()]
+      .filter(([, entry]) => entry.openStreams === 0 && entry.lastActivity < cutoff)
+      .map(([sessionId]) => sessionId);
+    idle.forEach(end);
+    return idle;
+  };
+
+  const reaper = setInterval(
+    reapIdle,
+    options.reapIntervalMs ?? Math.min(60_000, Math.max(1000, options.idleTimeoutMs / 4))
+  );
+  // The reaper alone must never keep the process alive.
+  reaper.unref();
+
+  const closeAll = () => {
+    clearInterval(reaper);
+    [...sessions.keys()].forEach(end);
+  };
+
+  return {
+    handlePost,
+    handleGet,
+    handleDelete,
+    reapIdle,
+    closeAll,
+    get size() {
+      return sessions.size;
+    },
+  };
+}
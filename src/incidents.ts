@@ -0,0 +1,225 @@
+import type { UptimeKumaClient } from './uptime-kuma-client.js';
+import type { Maintenance, MonitorIncident } from './types/index.js';
+import { fetchStatusChanges, outagesFrom } from './uptime-report.js';
+
+/**
+ * Incident timelines for postmortems. Each monitor's status changes are paged from the
+ * important-beat feed (see uptime-report.ts) and every DOWN is paired with the next UP; a
+ * stretch of maintenance in between does not end the incident, it is part of its story.
+ *
+ * Whether an incident overlapped maintenance is answered from two sides:
+ *
+ * - The monitor itself recorded a MAINTENANCE beat during the incident.
+ * - A window in the maintenance list that applies to the monitor, or to a group above it,
+ *   was scheduled to be in effect at some moment of the incident. Uptime Kuma keeps no history
+ *   of its windows, so this is judged by each window's schedule as it stands now: a window
+ *   edited since, or deleted, is judged by its current form or not at all. A manual window
+ *   has no schedule and only shows up through the first side.
+ */
+
+const UP = 1;
+const MAINTENANCE = 3;
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+
+// How many moments of one incident are checked against a window's schedule. A day-long
+// incident is checked every minute; a longer one less finely.
+const SCHEDULE_SAMPLES = 1440;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface IncidentTimeline {
+  start: string;
+  end: string;
+  incidents: MonitorIncident[];
+  notes: string[];
+}
+
+interface LocalTime {
+  date: string;
+  minutes: number;
+  weekday: number;
+  day: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * The wall-clock time at `t` in `timeZone`, which a window's schedule is written in. An
+ * unknown zone falls back to UTC rather than failing the whole timeline.
+ */
+function localTime(t: number, timeZone: string | undefined): LocalTime {
+  const zone = timeZone || 'UTC';
+  let formatter = formatters.get(zone);
+  if (!formatter) {
+    const options: Intl.DateTimeFormatOptions = {
+      hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', weekday: 'short',
+    };
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', { ...options, timeZone: zone });
+    } catch {
+      formatter = new Intl.DateTimeFormat('en-US', { ...options, timeZone: 'UTC' });
+    }
+    formatters.set(zone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(t).map((part) => [part.type, part.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    day: Number(parts.day),
+  };
+}
+
+// dateRange entries are wall-clock times in the window's zone ("2026-09-01 22:00:00", or with
+// a T). Cut to minutes, they compare as strings.
+const wallClock = (value: string): string => value.replace('T', ' ').slice(0, 16);
+
+/**
+ * Whether a window's schedule puts it in effect at `t`.
+ */
+export function maintenanceInEffect(window: Maintenance, t: number): boolean {
+  if (window.active === false) return false;
+
+  const local = localTime(t, window.timezone);
+  const hhmm = `${String(Math.floor(local.minutes / 60)).padStart(2, '0')}:${String(local.minutes % 60).padStart(2, '0')}`;
+  const [from, to] = window.dateRange ?? [];
+
+  if (window.strategy === 'single') {
+    return !!from && !!to && wallClock(from) <= `${local.date} ${hhmm}` && `${local.date} ${hhmm}` < wallClock(to);
+  }
+  if (window.strategy !== 'recurring-weekday' && window.strategy !== 'recurring-day-of-month' && window.strategy !== 'recurring-interval') {
+    return false;
+  }
+
+  // A recurring window with a date range only recurs within it.
+  if (from && local.date < from.slice(0, 10)) return false;
+  if (to && local.date > to.slice(0, 10)) return false;
+
+  const [startTime, endTime] = window.timeRange ?? [];
+  if (!startTime || !endTime) return false;
+  const opens = startTime.hours * 60 + startTime.minutes;
+  const closes = endTime.hours * 60 + endTime.minutes;
+  // A window that runs past midnight belongs to the day it opened on.
+  const openedToday = opens <= closes ? local.minutes >= opens && local.minutes < closes : local.minutes >= opens;
+  const openedYesterday = opens > closes && local.minutes < closes;
+  if (!openedToday && !openedYesterday) return false;
+  const day = openedYesterday ? localTime(t - DAY, window.timezone) : local;
+
+  switch (window.strategy) {
+    case 'recurring-weekday':
+      return (window.weekdays ?? []).includes(day.weekday);
+    case 'recurring-day-of-month':
+      return (window.daysOfMonth ?? []).includes(day.day);
+    case 'recurring-interval': {
+      if (!from || !window.intervalDay) return false;
+      const days = Math.round((Date.parse(day.date) - Date.parse(from.slice(0, 10))) / DAY);
+      return days >= 0 && days % window.intervalDay === 0;
+    }
+  }
+}
+
+function windowCovers(window: Maintenance, start: number, end: number): boolean {
+  const step = Math.max(MINUTE, (end - start) / SCHEDULE_SAMPLES);
+  for (let t = start; t < end; t += step) {
+    if (maintenanceInEffect(window, t)) return true;
+  }
+  return maintenanceInEffect(window, start);
+}
+
+/**
+ * Builds the incident timeline for the given monitors: every incident that overlaps
+ * [start, end), oldest first. `end` is capped at `now`.
+ */
+export async function buildIncidentTimeline(
+  client: UptimeKumaClient,
+  monitorIDs: number[],
+  range: { start: number; end: number; now?: number }
+): Promise<IncidentTimeline> {
+  const now = range.now ?? Date.now();
+  const start = range.start;
+  const end = Math.min(range.end, now);
+  if (start >= end) {
+    throw new Error(`The range is empty: start ${new Date(start).toISOString()} is not before end ${new Date(end).toISOString()}`);
+  }
+
+  const notes: string[] = [];
+  const monitors = client.getMonitorList();
+  const windows = client.getMaintenanceList().filter((window) => window.id !== undefined);
+
+  // Which monitors each window applies to is not part of the maintenance list; it is looked up
+  // once, and only if some monitor had an incident to check.
+  let targets: Map<number, Set<number>> | undefined;
+  const windowsFor = async (monitorID: number): Promise<Maintenance[]> => {
+    if (!targets) {
+      targets = new Map();
+      for (const window of windows) {
+        try {
+          targets.set(window.id!, new Set((await client.getMonitorMaintenance(window.id!)).map((m) => m.id)));
+        } catch (error) {
+          const m = error instanceof Error ? error.message : String(error);
+          notes.push(`Could not read which monitors maintenance window ${window.id} "${window.title}" applies to (${m}); it was not checked.`);
+        }
+      }
+    }
+    // Maintenance on a group covers everything nested under it.
+    const lineage: number[] = [];
+    for (let id: number | null | undefined = monitorID; id != null && !lineage.includes(id);) {
+      lineage.push(id);
+      id = (monitors[String(id)] as { parent?: number | null } | undefined)?.parent;
+    }
+    return windows.filter((window) => lineage.some((id) => targets!.get(window.id!)?.has(id)));
+  };
+
+  const incidents: MonitorIncident[] = [];
+  for (const monitorID of monitorIDs) {
+    const changes = await fetchStatusChanges(client, monitorID, start);
+    const outages = outagesFrom(changes, (status) => status === UP)
+      .filter((o) => o.start < end && (o.end ?? Infinity) > start);
+
+    for (const outage of outages) {
+      const until = outage.end ?? now;
+      const maintenanceBeat = changes.some((c) => c.status === MAINTENANCE && c.time >= outage.start && c.time < until);
+      const covering = (await windowsFor(monitorID)).filter((window) => windowCovers(window, outage.start, until));
+      incidents.push({
+        monitorID,
+        name: client.getMonitor(monitorID)?.pathName ?? `Monitor ${monitorID}`,
+        start: new Date(outage.start).toISOString(),
+        end: outage.end === null ? null : new Date(outage.end).toISOString(),
+        durationMinutes: Number(((until - outage.start) / MINUTE).toFixed(1)),
+        msg: outage.msg,
+        overlapsMaintenance: maintenanceBeat || covering.length > 0,
+        maintenanceWindows: covering.map((window) => ({ id: window.id!, title: window.title })),
+      });
+    }
+  }
+
+  return {
+    start: new Date(start).toISOString(),
+    end: new Date(end).toISOString(),
+    incidents: incidents.sort((a, b) => a.start.localeCompare(b.start) || a.monitorID - b.monitorID),
+    notes,
+  };
+}
+
+/**
+ * The timeline as text, one line per incident.
+ */
+export function formatIncidentTimeline(timeline: IncidentTimeline): string {
+  const when = (iso: string) => iso.replace('T', ' ').replace(/\.\d+Z$/, 'Z');
+  const lines = [`${timeline.incidents.length} incident(s) between ${when(timeline.start)} and ${when(timeline.end)}:`];
+  for (const incident of timeline.incidents) {
+    const ended = incident.end === null ? 'still down' : when(incident.end);
+    let line = `- ${when(incident.start)} → ${ended} (${incident.durationMinutes} min) ${incident.name} [${incident.monitorID}]: ${incident.msg || '(no message)'}`;
+    if (incident.overlapsMaintenance) {
+      const titles = incident.maintenanceWindows.map((window) => `"${window.title}"`).join(', ');
+      line += titles ? ` — during maintenance ${titles}` : ' — during maintenance';
+    }
+    lines.push(line);
+  }
+  for (const note of timeline.notes) {
+    lines.push(`Note: ${note}`);
+  }
+  return lines.join('\n');
+}
@@ -13,6 +13,13 @@ import cors from 'cors';
 import rateLimit from 'express-rate-limit';
 import { createServer } from './server.js';
 import { parseAllowedOrigins, createOriginMiddleware, createAuthMiddleware } from './http-security.js';
+import { createSessionManager, parseIdleTimeout } from './http-sessions.js';
+import { combineInstances, instanceList, parseIndexedInstances, readInstancesFile } from './instances.js';
+import { parseDisabledAuditRules } from './monitor-audit.js';
+import { openAuditLog } from './audit-log.js';
+import { openSnapshotStore, parseSnapshotRetention } from './monitor-snapshots.js';
+import { readTokensFile, type ScopedToken } from './tool-scopes.js';
+import { MONITOR_CONFIG_COMMANDS, runMonitorConfigCommand, type MonitorConfigCommand } from './monitor-config-cli.js';
 import type { UptimeKumaConfig } from './types/index.js';
 
 /**
@@ -21,7 +28,7 @@ import type { UptimeKumaConfig } from './types/index.js';
  */
 
 // Validate required environment variables
-function validateEnvironment(): UptimeKumaConfig {
+function validateEnvironment(configPath: string | undefined): UptimeKumaConfig {
   const url = process.env.UPTIME_KUMA_URL;
   const username = process.env.UPTIME_KUMA_USERNAME;
   const password = process.env.UPTIME_KUMA_PASSWORD;
@@ -30,8 +37,56 @@ function validateEnvironment(): UptimeKumaConfig {
   // Global opt-in to unredacted credentials in read-tool output (issue #59). Only an
   // explicit "true"/"1" enables it — an unset or misspelled value must fail closed.
   const includeSecrets = /^(true|1)$/i.test(process.env.UPTIME_KUMA_INCLUDE_SECRETS ?? '');
+  let disabledAuditRules: string[];
+  try {
+    disabledAuditRules = parseDisabledAuditRules(process.env.UPTIME_KUMA_AUDIT_DISABLED_RULES);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+  const deleteConfirmFallback = process.env.UPTIME_KUMA_DELETE_CONFIRM_FALLBACK?.trim().toLowerCase() || 'confirm';
+  if (deleteConfirmFallback !== 'confirm' && deleteConfirmFallback !== 'deny') {
+    console.error(`Error: UPTIME_KUMA_DELETE_CONFIRM_FALLBACK must be 'confirm' or 'deny', got '${deleteConfirmFallback}'`);
+    process.exit(1);
+  }
+
+  const auditLogPath = process.env.UPTIME_KUMA_AUDIT_LOG?.trim() || undefined;
+  if (auditLogPath) {
+    try {
+      openAuditLog(auditLogPath);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  }
 
-  if (!url) {
+  const snapshotStorePath = process.env.UPTIME_KUMA_SNAPSHOT_STORE?.trim() || undefined;
+  let snapshotRetention: number;
+  try {
+    snapshotRetention = parseSnapshotRetention(process.env.UPTIME_KUMA_SNAPSHOT_RETENTION);
+    if (snapshotStorePath) openSnapshotStore(snapshotStorePath);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  // Further instances, if any: from the instances file, then UPTIME_KUMA_<n>_* (see instances.ts).
+  let config: UptimeKumaConfig | undefined;
+  try {
+    const others = [
+      ...(configPath ? readInstancesFile(configPath) : []),
+      ...parseIndexedInstances(process.env),
+    ];
+    const primary = url
+      ? { url, username, password, token, jwtToken, name: process.env.UPTIME_KUMA_NAME?.trim() || undefined }
+      : undefined;
+    config = combineInstances(primary, others);
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`);
+    process.exit(1);
+  }
+
+  if (!config) {
     console.error('Error: UPTIME_KUMA_URL environment variable is required');
     process.exit(1);
   }
@@ -39,22 +94,31 @@ function validateEnvironment(): UptimeKumaConfig {
   // Fail loudly and early on a credential that cannot possibly work. Uptime Kuma rejects a
   // non-JWT with the opaque message "authInvalidToken", which is indistinguishable from an
   // expired credential — so say what is actually wrong. Reports the SHAPE only, never the value.
-  if (jwtToken && String(jwtToken).split('.').length !== 3) {
+  const instances = instanceList(config);
+  for (const instance of instances) {
+    const jwt = instance.jwtToken;
+    if (!jwt || String(jwt).split('.').length === 3) continue;
+    const variable = instances.length > 1 ? `The JWT token of instance '${instance.name}'` : 'UPTIME_KUMA_JWT_TOKEN';
     console.error(
-      'WARNING: UPTIME_KUMA_JWT_TOKEN is not a JWT '
-      + `(${String(jwtToken).split('.').length} dot-separated segment(s), length ${String(jwtToken).length}; expected 3). `
+      `WARNING: ${variable} is not a JWT `
+      + `(${String(jwt).split('.').length} dot-separated segment(s), length ${String(jwt).length}; expected 3). `
       + 'Uptime Kuma will reject every request with "authInvalidToken". '
-      + `Regenerate with: mcp-uptime-kuma-get-jwt ${url} <username> <password>`
+      + `Regenerate with: mcp-uptime-kuma-get-jwt ${instance.url} <username> <password>`
     );
   }
 
-  return { url, username, password, token, jwtToken, includeSecrets };
+  return { ...config, includeSecrets, disabledAuditRules, deleteConfirmFallback, auditLogPath, snapshotStorePath, snapshotRetention };
 }
 
 // Parse command-line arguments
 function parseArgs() {
   const args = process.argv.slice(2);
   let transport: 'stdio' | 'streamable-http' = 'stdio';
+  // Stateful HTTP sessions are opt-in: the stateless mode is what existing deployments and
+  // their load balancers were set up for.
+  let stateful = /^(true|1)$/i.test(process.env.MCP_STATEFUL_SESSIONS ?? '');
+  let configPath = process.env.UPTIME_KUMA_CONFIG?.trim() || undefined;
+  let readOnly = /^(true|1)$/i.test(process.env.UPTIME_KUMA_READ_ONLY ?? '');
   
   for (let i = 0; i < args.length; i++) {
     if (args[i] === '-t' || args[i] === '--transport') {
@@ -66,11 +130,30 @@ function parseArgs() {
         console.error(`Invalid transport: ${value}. Must be 'stdio' or 'streamable-http'`);
         process.exit(1);
       }
+    } else if (args[i] === '--stateful') {
+      stateful = true;
+    } else if (args[i] === '--read-only') {
+      readOnly = true;
+    } else if (args[i] === '--config') {
+      const value = args[i + 1];
+      if (!value) {
+        console.error('Missing value for --config: expected the path to an instances file');
+        process.exit(1);
+      }
+      configPath = value;
+      i++;
     } else if (args[i] === '-h' || args[i] === '--help') {
       console.log(`Usage: mcp-uptime-kuma [options]
+       mcp-uptime-kuma export [options]         Write monitor configuration as YAML/JSON
+       mcp-uptime-kuma import <file> [options]  Create/update monitors from such a document
+       mcp-uptime-kuma apply <file> [options]   Plan (and with --confirm, apply) a desired-state document
 
 Options:
   -t, --transport <type>  Transport type: 'stdio' (default) or 'streamable-http'
+  --stateful              With streamable-http: give each client a session with a GET SSE
+                          stream for log messages and resource notifications
+  --config <file>         JSON file describing several Uptime Kuma instances
+  --read-only             Offer only the tools that read; nothing can be changed
   -h, --help              Show this help message
 
 Examples:
@@ -78,24 +161,48 @@ Examples:
   mcp-uptime-kuma -t stdio                 # Run with stdio transport
   mcp-uptime-kuma -t streamable-http       # Run with streamable HTTP transport (port 3000)
   PORT=8080 mcp-uptime-kuma -t streamable-http  # Run HTTP on custom port
+  mcp-uptime-kuma -t streamable-http --stateful # Run HTTP with sessions
+
+Environment variables for several Uptime Kuma instances (besides UPTIME_KUMA_URL & co.):
+  UPTIME_KUMA_<n>_URL, _USERNAME, _PASSWORD, _2FA_TOKEN, _JWT_TOKEN, _NAME
+                   One instance per index n (1, 2, ...). Tools then take an 'instance' argument.
+  UPTIME_KUMA_NAME Name of the UPTIME_KUMA_URL instance. Default 'default'.
+  UPTIME_KUMA_CONFIG  Same as --config.
+
+Other environment variables:
+  UPTIME_KUMA_AUDIT_DISABLED_RULES  Comma-separated auditMonitors rule IDs to switch off.
+  UPTIME_KUMA_READ_ONLY  'true' = same as --read-only.
+  UPTIME_KUMA_AUDIT_LOG  File to append a JSON line to for every call of a tool that can
+                   change something (see the getAuditLog tool).
+  UPTIME_KUMA_SNAPSHOT_STORE  File keeping monitors' configuration from before each update or
+                   delete, for restoreMonitor. It holds credentials: keep it private.
+  UPTIME_KUMA_SNAPSHOT_RETENTION  Snapshots kept in that file. Default 100.
+  UPTIME_KUMA_DELETE_CONFIRM_FALLBACK  For clients that cannot ask the user to confirm a
+                   delete: 'confirm' (default) = preview first, delete when called again with
+                   confirm: true; 'deny' = refuse deletes.
 
 Environment variables for the streamable HTTP transport:
   MCP_AUTH_TOKEN   Shared secret required as 'Authorization: Bearer <token>'. Unset = no auth.
+  MCP_AUTH_TOKENS_FILE  JSON file of further tokens, each limited to scopes (read, write,
+                   destructive) or named tools.
   ALLOWED_ORIGIN   Comma-separated origins allowed to call /mcp. Default '*' = no validation.
   HOST             Address to bind. Default '0.0.0.0'; use '127.0.0.1' for local-only.
   PORT             Port to listen on. Default 3000.
+  MCP_STATEFUL_SESSIONS     'true' = same as --stateful.
+  MCP_SESSION_IDLE_TIMEOUT  Seconds without requests or an open stream before a session is
+                            ended. Default 1800.
 `);
       process.exit(0);
     }
   }
   
-  return { transport };
+  return { transport, stateful, configPath, readOnly };
 }
 
 // Run with the stdio transport
 async function runStdio(config: UptimeKumaConfig) {
   try {
-    const { server, client, authenticateClient } = await createServer(config);
+    const { server, authenticateClient, close } = await createServer(config);
     const transport = new StdioServerTransport();
 
     // Shut down cleanly when the client goes away. The socket.io connection to Uptime Kuma
@@ -108,7 +215,7 @@ async function runStdio(config: UptimeKumaConfig) {
     const shutdown = (code = 0) => {
       if (shuttingDown) return;
       shuttingDown = true;
-      try { client.disconnect(); } catch { /* best effort on the way out */ }
+      try { close(); } catch { /* best effort on the way out */ }
       process.exit(code);
     };
     process.stdin.on('end', () => shutdown());
@@ -136,52 +243,10 @@ async function runStdio(config: UptimeKumaConfig) {
   }
 }
 
-// Run with the streamable HTTP transport (stateless mode - no session management)
-async function runHttp(config: UptimeKumaConfig) {
-  const app = express();
-  app.use(express.json());
-
-  const allowedOrigins = parseAllowedOrigins(process.env.ALLOWED_ORIGIN);
-  const authToken = process.env.MCP_AUTH_TOKEN;
-
-  // Rate limiting: 100 requests per 15 minutes per IP.
-  //
-  // Stays outermost so that an unauthenticated flood is throttled before it reaches
-  // anything that does work — including the guards below.
-  app.use(
-    rateLimit({
-      windowMs: 15 * 60 * 1000,
-      max: 100,
-      standardHeaders: true,
-      legacyHeaders: false,
-      message: 'Too many requests from this IP, please try again later.',
-    })
-  );
-
-  // Origin validation ahead of authentication, so a caller from an origin we do not
-  // recognise never gets to probe whether its token is correct. Both guards are scoped
-  // to the MCP endpoint: /health has to stay reachable for container healthchecks and
-  // load balancer probes, and it discloses nothing beyond the fact that we are running.
-  app.use('/mcp', createOriginMiddleware(allowedOrigins));
-
-  // CORS configuration for MCP client compatibility. `Authorization` MUST be listed:
-  // without it a browser-based client's preflight rejects the very header the auth
-  // guard below requires.
-  app.use(
-    cors({
-      origin: allowedOrigins,
-      exposedHeaders: ['mcp-session-id'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'mcp-session-id', 'mcp-protocol-version'],
-    })
-  );
-
-  // Authentication AFTER cors, which answers `OPTIONS` preflights itself. A preflight
-  // carries no `Authorization` header by definition, so a guard placed ahead of cors
-  // would 401 every browser client before it ever sent its credential.
-  app.use('/mcp', createAuthMiddleware(authToken));
-
+// Serve /mcp statelessly: one shared MCP server, a throwaway transport per POST, no sessions
+async function mountStatelessMcp(app: express.Express, config: UptimeKumaConfig) {
   // Create the MCP server once (reused across requests)
-  const { server, authenticateClient } = await createServer(config);
+  const { server, authenticateClient } = await createServer({ ...config, statelessHttp: true });
   
   // Track authentication state - authenticate on first request when transport is connected
   let isAuthenticated = false;
@@ -242,6 +307,84 @@ async function runHttp(config: UptimeKumaConfig) {
   app.get('/mcp', (req, res) => {
     res.status(405).end();
   });
+}
+
+// Run with the streamable HTTP transport (stateless unless --stateful)
+async function runHttp(config: UptimeKumaConfig, stateful: boolean) {
+  const app = express();
+  app.use(express.json());
+
+  const allowedOrigins = parseAllowedOrigins(process.env.ALLOWED_ORIGIN);
+  const authToken = process.env.MCP_AUTH_TOKEN;
+  let scopedTokens: ScopedToken[] = [];
+  const tokensFile = process.env.MCP_AUTH_TOKENS_FILE?.trim();
+  if (tokensFile) {
+    try {
+      scopedTokens = readTokensFile(tokensFile);
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  }
+
+  // Rate limiting: 100 requests per 15 minutes per IP.
+  //
+  // Stays outermost so that an unauthenticated flood is throttled before it reaches
+  // anything that does work — including the guards below.
+  app.use(
+    rateLimit({
+      windowMs: 15 * 60 * 1000,
+      max: 100,
+      standardHeaders: true,
+      legacyHeaders: false,
+      message: 'Too many requests from this IP, please try again later.',
+    })
+  );
+
+  // Origin validation ahead of authentication, so a caller from an origin we do not
+  // recognise never gets to probe whether its token is correct. Both guards are scoped
+  // to the MCP endpoint: /health has to stay reachable for container healthchecks and
+  // load balancer probes, and it discloses nothing beyond the fact that we are running.
+  app.use('/mcp', createOriginMiddleware(allowedOrigins));
+
+  // CORS configuration for MCP client compatibility. `Authorization` MUST be listed:
+  // without it a browser-based client's preflight rejects the very header the auth
+  // guard below requires.
+  app.use(
+    cors({
+      origin: allowedOrigins,
+      exposedHeaders: ['mcp-session-id'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'mcp-session-id', 'mcp-protocol-version'],
+    })
+  );
+
+  // Authentication AFTER cors, which answers `OPTIONS` preflights itself. A preflight
+  // carries no `Authorization` header by definition, so a guard placed ahead of cors
+  // would 401 every browser client before it ever sent its credential.
+  app.use('/mcp', createAuthMiddleware(authToken, scopedTokens));
+
+  let closeSessions: (() => void) | undefined;
+  if (stateful) {
+    const sessions = createSessionManager(async () => {
+      const { server, authenticateClient, close } = await createServer(config);
+      return {
+        server,
+        // As with stdio: authenticate once the transport can carry log messages, and leave a
+        // failure to be retried by the first tool call rather than failing the session.
+        onInitialized: () => authenticateClient().catch((error) => {
+          process.stderr.write(`Initial authentication failed, will retry on demand: ${error}\n`);
+        }),
+        close,
+      };
+    }, { idleTimeoutMs: parseIdleTimeout(process.env.MCP_SESSION_IDLE_TIMEOUT) });
+
+    app.post('/mcp', sessions.handlePost);
+    app.get('/mcp', sessions.handleGet);
+    app.delete('/mcp', sessions.handleDelete);
+    closeSessions = sessions.closeAll;
+  } else {
+    await mountStatelessMcp(app, config);
+  }
 
   // Health check endpoint
   app.get('/health', (req, res) => {
@@ -258,13 +401,16 @@ async function runHttp(config: UptimeKumaConfig) {
   const httpServer = app.listen(port, host, () => {
     console.log(`mcp-uptime-kuma server running on http://localhost:${port}/mcp`);
     console.log(`Health check available at http://localhost:${port}/health`);
+    if (stateful) {
+      console.log('Stateful sessions enabled: GET /mcp opens an SSE stream, DELETE /mcp ends the session');
+    }
 
     // Warn rather than refuse to start. Both settings default to permissive so that
     // upgrading cannot break a working deployment, which makes an unprotected server the
     // quiet outcome — and a quiet outcome is exactly what nobody notices.
-    if (!authToken?.trim()) {
+    if (!authToken?.trim() && scopedTokens.length === 0) {
       console.warn(
-        'WARNING: MCP_AUTH_TOKEN is not set. This endpoint is unauthenticated — anyone who can '
+        'WARNING: neither MCP_AUTH_TOKEN nor MCP_AUTH_TOKENS_FILE is set. This endpoint is unauthenticated — anyone who can '
         + 'reach it has full read/write control of your Uptime Kuma instance, including deleting monitors.'
       );
     }
@@ -283,6 +429,7 @@ async function runHttp(config: UptimeKumaConfig) {
   // Graceful shutdown
   const shutdown = () => {
     console.log('\n[MCP] Shutting down gracefully...');
+    closeSessions?.();
     httpServer.close(() => {
       console.log('[MCP] Server closed');
       process.exit(0);
@@ -301,13 +448,24 @@ async function runHttp(config: UptimeKumaConfig) {
 
 // Main entry point
 async function main() {
-  const { transport } = parseArgs();
-  const config = validateEnvironment();
+  // `export` / `import` / `apply` do their one job against Uptime Kuma and exit; no MCP server involved
+  const [command, ...commandArgs] = process.argv.slice(2);
+  if ((MONITOR_CONFIG_COMMANDS as readonly string[]).includes(command)) {
+    try {
+      process.exit(await runMonitorConfigCommand(command as MonitorConfigCommand, commandArgs, validateEnvironment));
+    } catch (error) {
+      console.error(`Error: ${error instanceof Error ? error.message : error}`);
+      process.exit(1);
+    }
+  }
+
+  const { transport, stateful, configPath, readOnly } = parseArgs();
+  const config = { ...validateEnvironment(configPath), readOnly };
   
   if (transport === 'stdio') {
     await runStdio(config);
   } else {
-    await runHttp(config);
+    await runHttp(config, stateful);
   }
 }
 
@@ -0,0 +1,144 @@
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+import type { UptimeKumaConfig, UptimeKumaInstanceConfig } from './types/index.js';
+
+/**
+ * Several Uptime Kuma instances behind one MCP server.
+ *
+ * The single-instance variables (UPTIME_KUMA_URL, ...) keep working unchanged and describe the
+ * default instance. Further instances come from indexed variables — UPTIME_KUMA_1_URL,
+ * UPTIME_KUMA_1_USERNAME, ... UPTIME_KUMA_2_URL, ... — and/or a JSON file named by
+ * `--config <file>` or UPTIME_KUMA_CONFIG. Without UPTIME_KUMA_URL the first of those becomes
+ * the default instance, so a multi-instance deployment does not have to single one out.
+ *
+ * Instance names are what callers pass as a tool's `instance` argument, so they are checked
+ * here once rather than failing a tool call later: unique, and free of anything that would
+ * read ambiguously in a tool argument ("*" means every instance).
+ */
+
+export const DEFAULT_INSTANCE_NAME = 'default';
+
+/** Passed as `instance` to a list tool to query every instance at once. */
+export const ALL_INSTANCES = '*';
+
+const INSTANCE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]*$/;
+
+const InstancesFileSchema = z.object({
+  instances: z.array(z.object({
+    name: z.string().regex(INSTANCE_NAME_PATTERN, 'letters, digits, ".", "_" and "-" only'),
+    url: z.string().url(),
+    username: z.string().optional(),
+    password: z.string().optional(),
+    token: z.string().optional().describe('2FA token'),
+    jwtToken: z.string().optional(),
+  }).strict()).min(1),
+}).strict();
+
+/**
+ * Reads UPTIME_KUMA_<n>_URL and its siblings, in ascending order of n. An index without a URL
+ * is ignored; one without a NAME is called "instance<n>".
+ */
+export function parseIndexedInstances(env: NodeJS.ProcessEnv): UptimeKumaInstanceConfig[] {
+  return Object.keys(env)
+    .map((key) => /^UPTIME_KUMA_(\d+)_URL$/.exec(key)?.[1])
+    .filter((index): index is string => index !== undefined && Boolean(env[`UPTIME_KUMA_${index}_URL`]?.trim()))
+    .sort((a, b) => Number(a) - Number(b))
+    .map((index) => {
+      const variable = (suffix: string) => env[`UPTIME_KUMA_${index}_${suffix}`];
+      return {
+        name: variable('NAME')?.trim() || `instance${Number(index)}`,
+        url: variable('URL')!.trim(),
+        username: variable('USERNAME'),
+        password: variable('PASSWORD'),
+        token: variable('2FA_TOKEN'),
+        jwtToken: variable('JWT_TOKEN'),
+      };
+    });
+}
+
+/**
+ * Parses an instances file: `{"instances": [{"name", "url", "username", "password",
+ * "token", "jwtToken"}, ...]}`. Unknown keys are rejected, as a misspelled credential field
+ * would otherwise only surface as a failed login.
+ */
+export function parseInstancesFile(text: string, source: string): UptimeKumaInstanceConfig[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`${source} is not valid JSON: ${errorMessage}`);
+  }
+
+  const result = InstancesFileSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`);
+    throw new Error(`${source} is not a valid instances file: ${issues.join('; ')}`);
+  }
+
+  return result.data.instances.map((instance) => ({
+    name: instance.name,
+    url: instance.url,
+    username: instance.username,
+    password: instance.password,
+    token: instance.token,
+    jwtToken: instance.jwtToken,
+  }));
+}
+
+export function readInstancesFile(path: string): UptimeKumaInstanceConfig[] {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Cannot read instances file ${path}: ${errorMessage}`);
+  }
+  return parseInstancesFile(text, path);
+}
+
+/**
+ * Puts the default instance (if configured on its own) in front of the others and returns
+ * the combined config, or undefined when no instance is configured at all.
+ */
+export function combineInstances(
+  primary: UptimeKumaConfig | undefined,
+  others: UptimeKumaInstanceConfig[]
+): UptimeKumaConfig | undefined {
+  const base: UptimeKumaConfig | undefined = primary ?? others[0];
+  if (!base) return undefined;
+  const rest = primary ? others : others.slice(1);
+
+  const combined: UptimeKumaConfig = { ...base, name: base.name ?? DEFAULT_INSTANCE_NAME };
+  if (rest.length > 0) combined.instances = rest;
+  validateInstanceNames(instanceList(combined).map((instance) => instance.name));
+  return combined;
+}
+
+/** Every instance a config describes, the default one first. */
+export function instanceList(config: UptimeKumaConfig): UptimeKumaInstanceConfig[] {
+  return [
+    {
+      name: config.name ?? DEFAULT_INSTANCE_NAME,
+      url: config.url,
+      username: config.username,
+      password: config.password,
+      token: config.token,
+      jwtToken: config.jwtToken,
+    },
+    ...(config.instances ?? []),
+  ];
+}
+
+export function validateInstanceNames(names: string[]): void {
+  const seen = new Set<string>();
+  for (const name of names) {
+    if (!INSTANCE_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid instance name '${name}': use letters, digits, ".", "_" and "-" only`);
+    }
+    if (seen.has(name)) {
+      throw new Error(`Duplicate instance name '${name}': every instance needs a distinct name`);
+    }
+    seen.add(name);
+  }
+}
@@ -0,0 +1,126 @@
+import type { Heartbeat, LatencyStats } from './types/index.js';
+import { parseBeatTime } from './uptime-report.js';
+
+/**
+ * Response-time statistics, to answer "what's getting slower?" from the beats themselves
+ * rather than the single 24-hour average Uptime Kuma pushes.
+ *
+ * Only UP beats count: the ping of a failed check is how long it took to fail, which says
+ * nothing about how fast the service answers. The beats are split in two — the most recent
+ * few, and the baseline before them — and the recent mean is scored against the baseline as a
+ * z-score: how many baseline standard deviations it has moved. A z-score, unlike a fixed
+ * percentage, adapts to each monitor's own noise: +50 ms is an anomaly for a 20 ms API and
+ * nothing for a 2 s page.
+ */
+
+const UP = 1;
+
+// Fewer baseline beats than this make a standard deviation that cannot be trusted.
+const MIN_BASELINE_SAMPLES = 20;
+
+// Response times are whole milliseconds; a perfectly steady baseline would otherwise divide
+// by zero, and turn a 1 ms wobble into an infinite z-score.
+const MIN_STDDEV_MS = 1;
+
+const HOUR = 60 * 60 * 1000;
+
+const round = (value: number, digits = 1): number => Number(value.toFixed(digits));
+
+const mean = (values: number[]): number => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const stddev = (values: number[]): number => {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / values.length);
+};
+
+// Nearest-rank percentile over values sorted ascending.
+const percentile = (sorted: number[], p: number): number => sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+
+/**
+ * Statistics for one monitor from its beats (any order).
+ */
+export function latencyStats(
+  monitor: { monitorID: number; name: string },
+  beats: Heartbeat[],
+  options: { recentBeats: number; threshold: number }
+): LatencyStats {
+  const samples = beats
+    .filter((beat) => beat.status === UP && typeof beat.ping === 'number')
+    .map((beat) => ({ time: parseBeatTime(beat.time), ping: beat.ping as number }))
+    .filter((sample) => !Number.isNaN(sample.time))
+    .sort((a, b) => a.time - b.time);
+
+  const empty: LatencyStats = {
+    ...monitor,
+    samples: 0,
+    p50: null, p90: null, p99: null, mean: null, stddev: null, min: null, max: null,
+    trendMsPerHour: null, recentMean: null, baselineMean: null, zScore: null, anomaly: null,
+  };
+  if (samples.length === 0) return empty;
+
+  const pings = samples.map((s) => s.ping);
+  const sorted = [...pings].sort((a, b) => a - b);
+
+  // Least-squares slope of ping against time.
+  let trendMsPerHour: number | null = null;
+  if (samples.length >= 2) {
+    const hours = samples.map((s) => (s.time - samples[0].time) / HOUR);
+    const meanHours = mean(hours);
+    const meanPing = mean(pings);
+    const spread = hours.reduce((sum, h) => sum + (h - meanHours) ** 2, 0);
+    if (spread > 0) {
+      trendMsPerHour = round(hours.reduce((sum, h, i) => sum + (h - meanHours) * (pings[i] - meanPing), 0) / spread, 2);
+    }
+  }
+
+  const recent = pings.slice(-options.recentBeats);
+  const baseline = pings.slice(0, -options.recentBeats);
+  let zScore: number | null = null;
+  if (baseline.length >= MIN_BASELINE_SAMPLES && recent.length > 0) {
+    zScore = round((mean(recent) - mean(baseline)) / Math.max(stddev(baseline), MIN_STDDEV_MS), 2);
+  }
+
+  return {
+    ...monitor,
+    samples: samples.length,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+    mean: round(mean(pings)),
+    stddev: round(stddev(pings)),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    trendMsPerHour,
+    recentMean: recent.length > 0 && baseline.length > 0 ? round(mean(recent)) : null,
+    baselineMean: baseline.length > 0 ? round(mean(baseline)) : null,
+    zScore,
+    anomaly: zScore === null || Math.abs(zScore) < options.threshold ? null : zScore > 0 ? 'slower' : 'faster',
+  };
+}
+
+/**
+ * Orders monitors for reading: anomalies first, the most slowed-down at the top.
+ */
+export function rankLatencyStats(stats: LatencyStats[]): LatencyStats[] {
+  return [...stats].sort((a, b) =>
+    Number(b.anomaly !== null) - Number(a.anomaly !== null) ||
+    (b.zScore ?? -Infinity) - (a.zScore ?? -Infinity) ||
+    a.monitorID - b.monitorID);
+}
+
+/**
+ * The statistics as a markdown table.
+ */
+export function formatLatencyStats(stats: LatencyStats[]): string {
+  const cell = (value: number | null) => (value === null ? '—' : String(value));
+  const lines = [
+    '| Monitor | Samples | p50 | p90 | p99 | Std dev | Trend (ms/h) | Recent vs baseline | z | |',
+    '|---|---:|---:|---:|---:|---:|---:|---:|---:|---|',
+    ...stats.map((s) => {
+      const shift = s.recentMean === null || s.baselineMean === null ? '—' : `${s.recentMean} vs ${s.baselineMean}`;
+      const flag = s.anomaly === 'slower' ? '**slower**' : s.anomaly === 'faster' ? 'faster' : '';
+      return `| ${s.name.replace(/\|/g, '\\|')} | ${s.samples} | ${cell(s.p50)} | ${cell(s.p90)} | ${cell(s.p99)} | ${cell(s.stddev)} | ${cell(s.trendMsPerHour)} | ${shift} | ${cell(s.zScore)} | ${flag} |`;
+    }),
+  ];
+  return `Response times in ms, UP beats only.\n\n${lines.join('\n')}`;
+}
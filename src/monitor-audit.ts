@@ -0,0 +1,201 @@
+import type { AuditFinding } from './types/index.js';
+
+/**
+ * Monitor configuration audit: settings that are legal but rarely what anyone meant — a
+ * monitor nobody hears about, a check hammering its target, TLS errors ignored on a public
+ * site.
+ *
+ * Each rule looks at one monitor as it appears in the monitor list, so the audit needs no
+ * round trip to the server. Rules can be switched off for a deployment with
+ * UPTIME_KUMA_AUDIT_DISABLED_RULES (a comma-separated list of rule IDs).
+ */
+
+type Monitor = Record<string, unknown>;
+
+type Finding = Pick<AuditFinding, 'message' | 'fix' | 'update'>;
+
+export interface AuditRule {
+  id: string;
+  severity: AuditFinding['severity'];
+  description: string;
+  check: (monitor: Monitor) => Finding | null;
+}
+
+// Uptime Kuma's minimum check interval, enforced by its UI but not by its API.
+const MIN_INTERVAL = 20;
+
+const SEVERITY_ORDER: AuditFinding['severity'][] = ['error', 'warning', 'info'];
+
+const numberOrNull = (value: unknown): number | null => (typeof value === 'number' ? value : null);
+
+// Hosts only reachable from inside a network, where a self-signed certificate is the norm.
+const PRIVATE_HOST = [
+  /^localhost$/,
+  /\.(localhost|local|lan|internal|intranet|home\.arpa|test)$/,
+  /^(10|127)\.\d+\.\d+\.\d+$/,
+  /^192\.168\.\d+\.\d+$/,
+  /^172\.(1[6-9]|2\d|3[01])\.\d+\.\d+$/,
+  /^169\.254\.\d+\.\d+$/,
+  /^\[(::1|f[cd][0-9a-f]{2}:.*|fe80:.*)\]$/,
+  // A bare name resolves through the local search domain.
+  /^[^.:[\]]+$/,
+];
+
+const publicHttpsHost = (url: unknown): string | null => {
+  if (typeof url !== 'string') return null;
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:') return null;
+    const host = parsed.hostname.toLowerCase();
+    return PRIVATE_HOST.some((pattern) => pattern.test(host)) ? null : host;
+  } catch {
+    return null;
+  }
+};
+
+export const AUDIT_RULES: AuditRule[] = [
+  {
+    id: 'no-notifications',
+    severity: 'warning',
+    description: 'Active monitor without an enabled notification',
+    check: (monitor) => {
+      if (monitor.type === 'group' || monitor.active === false) return null;
+      const enabled = Object.values((monitor.notificationIDList ?? {}) as Record<string, unknown>).some(Boolean);
+      return enabled ? null : {
+        message: 'No notification is enabled, so nobody hears when it goes DOWN.',
+        fix: 'Enable at least one notification on it.',
+        update: null,
+      };
+    },
+  },
+  {
+    id: 'interval-too-short',
+    severity: 'warning',
+    description: `Check interval below ${MIN_INTERVAL} s`,
+    check: (monitor) => {
+      const interval = numberOrNull(monitor.interval);
+      return interval !== null && interval < MIN_INTERVAL ? {
+        message: `Checks every ${interval} s, below Uptime Kuma's minimum of ${MIN_INTERVAL} s.`,
+        fix: `Raise interval to at least ${MIN_INTERVAL} s.`,
+        update: { monitorID: monitor.id, interval: MIN_INTERVAL },
+      } : null;
+    },
+  },
+  {
+    id: 'retry-interval-exceeds-interval',
+    severity: 'info',
+    description: 'Retry interval longer than the check interval',
+    check: (monitor) => {
+      const interval = numberOrNull(monitor.interval);
+      const retryInterval = numberOrNull(monitor.retryInterval);
+      return interval !== null && retryInterval !== null && retryInterval > interval ? {
+        message: `Retries every ${retryInterval} s after a failure, slower than its regular ${interval} s checks — a failure takes longer to confirm than to notice.`,
+        fix: 'Lower retryInterval to the check interval or below.',
+        update: { monitorID: monitor.id, retryInterval: interval },
+      } : null;
+    },
+  },
+  {
+    id: 'ignore-tls-public',
+    severity: 'error',
+    description: 'TLS errors ignored on a public HTTPS URL',
+    check: (monitor) => {
+      const host = monitor.ignoreTls === true ? publicHttpsHost(monitor.url) : null;
+      return host ? {
+        message: `Ignores TLS errors on ${host}, so an expired or wrong certificate there goes unnoticed.`,
+        fix: 'Turn ignoreTls off; fix the certificate if the check then fails.',
+        update: { monitorID: monitor.id, ignoreTls: false },
+      } : null;
+    },
+  },
+  {
+    id: 'upside-down',
+    severity: 'info',
+    description: 'Upside-down mode enabled',
+    check: (monitor) => (monitor.upsideDown === true ? {
+      message: 'Upside-down mode is on: the monitor is UP when the check fails and DOWN when it succeeds.',
+      fix: 'Confirm this is intended (e.g. a port that must stay closed); otherwise turn upsideDown off.',
+      update: { monitorID: monitor.id, upsideDown: false },
+    } : null),
+  },
+  {
+    id: 'empty-group',
+    severity: 'warning',
+    description: 'Group monitor without children',
+    check: (monitor) => {
+      if (monitor.type !== 'group') return null;
+      const children = Array.isArray(monitor.childrenIDs) ? monitor.childrenIDs : [];
+      return children.length === 0 ? {
+        message: 'Group has no children, so its status means nothing.',
+        fix: 'Move monitors into it, or delete it.',
+        update: null,
+      } : null;
+    },
+  },
+];
+
+export const AUDIT_RULE_IDS = AUDIT_RULES.map((rule) => rule.id);
+
+/**
+ * Parses UPTIME_KUMA_AUDIT_DISABLED_RULES. Throws on an unknown rule ID, as a misspelled one
+ * would otherwise leave the rule silently running.
+ */
+export function parseDisabledAuditRules(value: string | undefined): string[] {
+  const ids = (value ?? '').split(',').map((id) => id.trim()).filter(Boolean);
+  const unknown = ids.filter((id) => !AUDIT_RULE_IDS.includes(id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown audit rule(s) ${unknown.join(', ')} in UPTIME_KUMA_AUDIT_DISABLED_RULES; known: ${AUDIT_RULE_IDS.join(', ')}`);
+  }
+  return ids;
+}
+
+/**
+ * Runs the enabled rules over the monitors and returns the findings, most severe first.
+ * `rules` narrows the run to those rule IDs; disabled rules stay off either way.
+ */
+export function auditMonitors(
+  monitors: Monitor[],
+  options: { disabledRules?: string[]; rules?: string[] } = {}
+): { findings: AuditFinding[]; rules: string[] } {
+  const rules = AUDIT_RULES.filter((rule) =>
+    !options.disabledRules?.includes(rule.id) && (!options.rules || options.rules.includes(rule.id)));
+
+  const findings: AuditFinding[] = [];
+  for (const monitor of monitors) {
+    const monitorID = monitor.id as number;
+    for (const rule of rules) {
+      const finding = rule.check(monitor);
+      if (!finding) continue;
+      findings.push({
+        ruleID: rule.id,
+        severity: rule.severity,
+        monitorID,
+        name: String(monitor.pathName ?? monitor.name ?? `Monitor ${monitorID}`),
+        ...finding,
+      });
+    }
+  }
+
+  findings.sort((a, b) =>
+    SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+    a.monitorID - b.monitorID ||
+    AUDIT_RULE_IDS.indexOf(a.ruleID) - AUDIT_RULE_IDS.indexOf(b.ruleID));
+  return { findings, rules: rules.map((rule) => rule.id) };
+}
+
+/**
+ * The findings as text, most severe first.
+ */
+export function formatAuditFindings(findings: AuditFinding[], monitorCount: number, rules: string[]): string {
+  if (findings.length === 0) {
+    return `No findings across ${monitorCount} monitor(s) (rules: ${rules.join(', ') || 'none'}).`;
+  }
+  const lines = [`${findings.length} finding(s) across ${monitorCount} monitor(s):`];
+  for (const f of findings) {
+    lines.push(`- [${f.severity}] ${f.name} [${f.monitorID}] ${f.ruleID}: ${f.message}`);
+    lines.push(f.update
+      ? `  fix: ${f.fix} (updateMonitor ${JSON.stringify(f.update)})`
+      : `  fix: ${f.fix}`);
+  }
+  return lines.join('\n');
+}
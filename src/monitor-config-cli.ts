@@ -0,0 +1,181 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { UptimeKumaClient } from './uptime-kuma-client.js';
+import { instanceList } from './instances.js';
+import {
+  exportMonitorDocument,
+  formatImportReport,
+  importMonitorDocument,
+  parseMonitorDocument,
+  serializeMonitorDocument,
+  type MonitorDocumentFormat,
+} from './monitor-config.js';
+import { applyConfigDocument, formatApplyReport, parseConfigDocument } from './apply-config.js';
+import { monitorWriteGuard } from './monitor-snapshots.js';
+import type { UptimeKumaConfig } from './types/index.js';
+
+/**
+ * `mcp-uptime-kuma export` / `import` / `apply`: the exportMonitors, importMonitors and
+ * applyConfig tools without an MCP client, for scripts, backups and CI. Connects with the same
+ * environment variables as the server, does its one job and exits.
+ */
+
+export const MONITOR_CONFIG_COMMANDS = ['export', 'import', 'apply'] as const;
+export type MonitorConfigCommand = (typeof MONITOR_CONFIG_COMMANDS)[number];
+
+const HELP: Record<MonitorConfigCommand, string> = {
+  export: `Usage: mcp-uptime-kuma export [options]
+
+Writes the configuration of every monitor to stdout (or a file) as YAML or JSON.
+
+Options:
+  -o, --output <file>     Write to a file instead of stdout
+  --format <yaml|json>    Document format (default: yaml, or json for a .json output file)
+  --include-secrets       Write credentials in full instead of "***"
+  --instance <name>       Instance to export from (see --config)
+  --config <file>         JSON file describing several Uptime Kuma instances
+  -h, --help              Show this help message
+`,
+  import: `Usage: mcp-uptime-kuma import <file> [options]
+
+Creates or updates monitors from a document written by 'export'. Monitors are matched by
+path ("Group / name"); monitors the document does not mention are left alone.
+
+Options:
+  --dry-run               Report what would change without writing anything
+  --instance <name>       Instance to import into (see --config)
+  --config <file>         JSON file describing several Uptime Kuma instances
+  -h, --help              Show this help message
+
+Pass '-' as the file to read the document from stdin.
+`,
+  apply: `Usage: mcp-uptime-kuma apply <file> [options]
+
+Compares a desired-state document (tags, notifications, monitors, maintenance, statusPages)
+with the instance and prints what would be created, updated and deleted. Each section in the
+document is the complete list for its kind: what it does not list is deleted. Sections left
+out are not touched. Nothing is changed without --confirm.
+
+Options:
+  --confirm               Apply the plan (never applied when it has errors)
+  --plan <planID>         With --confirm: apply only if the plan is still the one a run
+                          without --confirm printed this ID for
+  --instance <name>       Instance to apply to (see --config)
+  --config <file>         JSON file describing several Uptime Kuma instances
+  -h, --help              Show this help message
+
+Pass '-' as the file to read the document from stdin.
+`,
+};
+
+function showHelp(command: MonitorConfigCommand) {
+  console.log(HELP[command]);
+}
+
+/**
+ * Runs a subcommand and returns the process exit code. `loadConfig` is the server's own
+ * environment loading, so both read credentials the same way.
+ */
+export async function runMonitorConfigCommand(
+  command: MonitorConfigCommand,
+  args: string[],
+  loadConfig: (configPath: string | undefined) => UptimeKumaConfig
+): Promise<number> {
+  let output: string | undefined;
+  let format: MonitorDocumentFormat | undefined;
+  let includeSecrets: boolean | undefined;
+  let dryRun = false;
+  let confirm = false;
+  let planID: string | undefined;
+  let instanceName: string | undefined;
+  let configPath = process.env.UPTIME_KUMA_CONFIG?.trim() || undefined;
+  const positional: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      const next = args[++i];
+      if (next === undefined) throw new Error(`Missing value for ${arg}`);
+      return next;
+    };
+    if (arg === '-h' || arg === '--help') {
+      showHelp(command);
+      return 0;
+    } else if (arg === '-o' || arg === '--output') {
+      output = value();
+    } else if (arg === '--format') {
+      const requested = value();
+      if (requested !== 'yaml' && requested !== 'json') throw new Error(`Invalid format: ${requested}. Must be 'yaml' or 'json'`);
+      format = requested;
+    } else if (arg === '--include-secrets') {
+      includeSecrets = true;
+    } else if (arg === '--dry-run') {
+      dryRun = true;
+    } else if (arg === '--confirm') {
+      confirm = true;
+    } else if (arg === '--plan') {
+      planID = value();
+    } else if (arg === '--instance') {
+      instanceName = value();
+    } else if (arg === '--config') {
+      configPath = value();
+    } else if (arg.startsWith('-') && arg !== '-') {
+      throw new Error(`Unknown option for ${command}: ${arg}`);
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  if (command !== 'export' && positional.length !== 1) {
+    showHelp(command);
+    return 1;
+  }
+
+  const config = loadConfig(configPath);
+  const instances = instanceList(config);
+  const instance = instanceName === undefined ? instances[0] : instances.find((i) => i.name === instanceName);
+  if (!instance) {
+    throw new Error(`Unknown instance '${instanceName}'. Configured: ${instances.map((i) => i.name).join(', ')}`);
+  }
+
+  const client = new UptimeKumaClient(instance.url);
+  try {
+    await client.ensureConnected();
+    await client.login(instance.username, instance.password, instance.token, instance.jwtToken);
+    // As in the server: an anonymous login that silently failed only shows up on the first call.
+    await client.getSettings();
+    // Every plan below is made from the caches. Read before Uptime Kuma has filled them, an
+    // export would be empty and an import or apply would recreate everything that exists.
+    await client.waitForInitialData();
+
+    if (command === 'export') {
+      const document = exportMonitorDocument(client, { includeSecrets: includeSecrets ?? config.includeSecrets === true });
+      const text = serializeMonitorDocument(document, format ?? (output?.endsWith('.json') ? 'json' : 'yaml'));
+      if (output) {
+        writeFileSync(output, text, { mode: 0o600 });
+        process.stderr.write(`Exported ${document.monitors.length} monitor(s) to ${output}\n`);
+      } else {
+        process.stdout.write(text);
+      }
+      return 0;
+    }
+
+    const text = readFileSync(positional[0] === '-' ? 0 : positional[0], 'utf8');
+    // With the server's snapshot store, what these change can be undone with restoreMonitor.
+    const snapshotStorePath = config.snapshotStorePath;
+    const snapshot = snapshotStorePath
+      ? monitorWriteGuard(client, () => ({ path: snapshotStorePath, retention: config.snapshotRetention, instance: instance.name }))
+      : undefined;
+    if (command === 'apply') {
+      const result = await applyConfigDocument(client, parseConfigDocument(text), { confirm, planID, snapshot });
+      console.log(formatApplyReport(result));
+      if (!result.applied) console.log(`Plan ID: ${result.planID}`);
+      return result.items.some((item) => item.action === 'error' || item.applied === false) ? 1 : 0;
+    }
+
+    const results = await importMonitorDocument(client, parseMonitorDocument(text), { dryRun, snapshot });
+    console.log(formatImportReport(results, dryRun));
+    return results.some((result) => result.action === 'error') ? 1 : 0;
+  } finally {
+    client.disconnect();
+  }
+}
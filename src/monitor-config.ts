@@ -0,0 +1,411 @@
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import type { z } from 'zod';
+import type { UptimeKumaClient } from './uptime-kuma-client.js';
+import { MonitorDocumentSchema } from './types/index.js';
+import type { MonitorDocument, MonitorDocumentEntry, MonitorImportResult } from './types/index.js';
+import { redactSecrets, redactUrlCredentials, rehydrateSecrets, rehydrateUrlCredentials } from './redact.js';
+import { verifyMonitorWrite } from './verify-monitor-write.js';
+
+/**
+ * Monitor configuration as a portable document, for snapshots, reviews in version control
+ * and recreating monitors on another instance. Shared by the exportMonitors / importMonitors
+ * tools and the `export` / `import` CLI subcommands.
+ *
+ * IDs mean nothing outside the instance that assigned them, so the document carries names
+ * instead: a monitor's parent is the path of its group ("Group / Subgroup"), notification
+ * channels and docker hosts are named, and import maps all of them back to IDs on the target.
+ * Import matches existing monitors by that same path — create when absent, update when
+ * present — which makes applying the same document twice a no-op.
+ *
+ * Secrets follow the read tools (issue #59): an export reads "***" in their place unless asked
+ * otherwise, and an import restores "***" from the monitor it updates. A monitor the import
+ * has to create has nothing to restore from, so a marker there is an error for that monitor.
+ */
+
+export type MonitorDocumentFormat = 'yaml' | 'json';
+
+type MonitorRecord = Record<string, unknown>;
+
+/**
+ * Makes one write to an existing monitor undoable: reads the monitor, runs `write` and keeps
+ * the before-image for restoreMonitor (see monitor-snapshots.ts). Given by the server or the
+ * CLI, which know the snapshot store; it throws without writing when the monitor cannot be read, and
+ * resolves to the snapshot's ID — or, when the write went through but the snapshot could not
+ * be saved, a warning saying so.
+ */
+export type MonitorWriteGuard = (
+  reason: 'update' | 'delete',
+  monitorID: number,
+  write: () => Promise<unknown>
+) => Promise<{ snapshotID?: string; warning?: string }>;
+
+/**
+ * What fetchMonitor returns besides the monitor's configuration: identity, bookkeeping and
+ * runtime state the server assigns or computes. Tags are here too, since they come back with
+ * the IDs of their links; whoever writes a monitor from a stored one rebuilds them by name.
+ * The one list for export, cloneMonitor and restoreMonitor, each adding only what is theirs
+ * to leave out, so a field Uptime Kuma adds is handled the same way by all three.
+ */
+export const SERVER_ASSIGNED_MONITOR_FIELDS: ReadonlySet<string> = new Set([
+  'id',
+  'path',
+  'pathName',
+  'childrenIDs',
+  'user_id',
+  'maintenance',
+  'forceInactive',
+  'includeSensitiveData',
+  'tags',
+  'uptime',
+  'avgPing',
+  'dns_last_result',
+  'screenshot',
+]);
+
+// Plus the ID-valued fields the document replaces with names. Dropped from an imported entry
+// as well, so a hand-edited document that carries them cannot write them back.
+const NON_PORTABLE_FIELDS = new Set([...SERVER_ASSIGNED_MONITOR_FIELDS, 'parent', 'notificationIDList', 'docker_host']);
+
+/**
+ * A whole monitor ready for editMonitor. Uptime Kuma rejects a retryInterval below 1 on edit
+ * even where it stored 0 on create (pre-existing monitors or older defaults), so a monitor
+ * written back as it was read would fail; it gets the check interval instead.
+ */
+export function editableMonitor(monitor: MonitorRecord): MonitorRecord {
+  if (!monitor.retryInterval || (monitor.retryInterval as number) < 1) {
+    return { ...monitor, retryInterval: (monitor.interval as number | undefined) || 60 };
+  }
+  return monitor;
+}
+
+// Path segments are joined the way Uptime Kuma builds pathName.
+const PATH_SEPARATOR = ' / ';
+
+export const entryPath = (entry: Pick<MonitorDocumentEntry, 'name' | 'parent'>): string =>
+  entry.parent ? `${entry.parent}${PATH_SEPARATOR}${entry.name}` : entry.name;
+
+/**
+ * Each monitor's path and depth, from the names along its parent chain. Computed here rather
+ * than taken from Uptime Kuma's pathName so that both sides of an import agree on it.
+ */
+function monitorPaths(monitors: Record<string, MonitorRecord>): Map<number, { path: string; depth: number }> {
+  const result = new Map<number, { path: string; depth: number }>();
+  const resolve = (id: number): { path: string; depth: number } => {
+    const known = result.get(id);
+    if (known) return known;
+    const monitor = monitors[String(id)];
+    const parentID = monitor.parent as number | null | undefined;
+    const parent = parentID != null && monitors[String(parentID)] ? resolve(parentID) : undefined;
+    const resolved = parent
+      ? { path: `${parent.path}${PATH_SEPARATOR}${monitor.name}`, depth: parent.depth + 1 }
+      : { path: String(monitor.name), depth: 0 };
+    result.set(id, resolved);
+    return resolved;
+  };
+  Object.keys(monitors).forEach((id) => resolve(Number(id)));
+  return result;
+}
+
+/** Existing monitor IDs by path. A list, because nothing stops two monitors sharing one. */
+export function monitorIDsByPath(client: UptimeKumaClient): Map<string, number[]> {
+  const byPath = new Map<string, number[]>();
+  const monitors = client.getMonitorList() as unknown as Record<string, MonitorRecord>;
+  for (const [id, { path }] of monitorPaths(monitors)) {
+    byPath.set(path, [...(byPath.get(path) ?? []), id]);
+  }
+  return byPath;
+}
+
+const enabledNotificationIDs = (list: unknown): number[] =>
+  Object.entries((list ?? {}) as Record<string, unknown>)
+    .filter(([, enabled]) => enabled === true || enabled === 1)
+    .map(([id]) => Number(id))
+    .sort((a, b) => a - b);
+
+const tagKeys = (tags: unknown): string[] =>
+  ((tags ?? []) as Array<{ name: string; value?: string | null }>)
+    .map((tag) => `${tag.name}=${tag.value ?? ''}`)
+    .sort();
+
+/**
+ * Builds the document for the given monitors (all of them by default). Groups are written
+ * before their members, so an import can create them in document order.
+ */
+export function exportMonitorDocument(
+  client: UptimeKumaClient,
+  options: { monitorIDs?: number[]; includeSecrets?: boolean; now?: Date } = {}
+): MonitorDocument {
+  const monitors = client.getMonitorList() as unknown as Record<string, MonitorRecord>;
+  const paths = monitorPaths(monitors);
+  const notificationNames = new Map(client.getNotificationList().map((n) => [n.id, n.name]));
+  const dockerHostNames = new Map(client.getDockerHostList().map((h) => [h.id, h.name]));
+
+  const ids = (options.monitorIDs ?? Object.keys(monitors).map(Number))
+    .filter((id) => paths.has(id))
+    .sort((a, b) => paths.get(a)!.depth - paths.get(b)!.depth || a - b);
+
+  const entries = ids.map((id) => {
+    const monitor = monitors[String(id)];
+    const entry: Record<string, unknown> = { name: monitor.name, type: monitor.type };
+
+    const parentID = monitor.parent as number | null | undefined;
+    if (parentID != null && paths.has(parentID)) entry.parent = paths.get(parentID)!.path;
+
+    // Unset fields are left out: the document is meant to be read, and an absent field
+    // takes Uptime Kuma's default on create and keeps the stored value on update.
+    for (const [key, value] of Object.entries(monitor)) {
+      if (NON_PORTABLE_FIELDS.has(key) || key in entry) continue;
+      if (value === null || value === undefined || value === '') continue;
+      entry[key] = value;
+    }
+
+    const tags = (monitor.tags ?? []) as Array<{ name: string; value?: string | null; color?: string }>;
+    if (tags.length > 0) {
+      entry.tags = tags.map((tag) => ({
+        name: tag.name,
+        ...(tag.value ? { value: tag.value } : {}),
+        ...(tag.color ? { color: tag.color } : {}),
+      }));
+    }
+
+    const notifications = enabledNotificationIDs(monitor.notificationIDList)
+      .map((notificationID) => notificationNames.get(notificationID))
+      .filter((name): name is string => Boolean(name));
+    if (notifications.length > 0) entry.notifications = notifications;
+
+    const dockerHost = dockerHostNames.get(monitor.docker_host as number);
+    if (dockerHost) entry.dockerHost = dockerHost;
+
+    return (options.includeSecrets ? entry : redactSecrets(entry)) as MonitorDocumentEntry;
+  });
+
+  return {
+    version: 1,
+    exportedAt: (options.now ?? new Date()).toISOString(),
+    monitors: entries,
+  };
+}
+
+export function serializeMonitorDocument(document: MonitorDocument, format: MonitorDocumentFormat): string {
+  return format === 'json' ? `${JSON.stringify(document, null, 2)}\n` : stringifyYaml(document);
+}
+
+/**
+ * Reads a document in either format — YAML is a superset of JSON, so one parser covers both —
+ * and validates it against `schema`. `description` names the document in the error.
+ */
+export function parseDocumentText<T extends z.ZodTypeAny>(text: string, schema: T, description: string): z.infer<T> {
+  let data: unknown;
+  try {
+    data = parseYaml(text);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Not valid YAML or JSON: ${errorMessage}`);
+  }
+
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`);
+    throw new Error(`Not ${description}: ${issues.join('; ')}`);
+  }
+  return result.data;
+}
+
+export function parseMonitorDocument(text: string): MonitorDocument {
+  return parseDocumentText(text, MonitorDocumentSchema, 'a monitor configuration document');
+}
+
+/**
+ * Restores "***" in an entry from the stored monitor, including credentials inside a URL.
+ * Returns the fields that had nothing to restore from.
+ */
+function rehydrateEntrySecrets(fields: MonitorRecord, stored: MonitorRecord | undefined): string[] {
+  const { missing } = rehydrateSecrets(fields, stored);
+  for (const [key, value] of Object.entries(fields)) {
+    if (typeof value !== 'string') continue;
+    const previous = stored?.[key];
+    // The URL parser normalizes ("https://host" gains a trailing slash), so a URL that is
+    // just the stored one redacted gets the stored one back verbatim.
+    if (typeof previous === 'string' && value !== previous && redactUrlCredentials(previous) === value) {
+      fields[key] = previous;
+      continue;
+    }
+    const restored = rehydrateUrlCredentials(value, previous as string | undefined);
+    if (restored.missing) missing.push(key);
+    else if (restored.preserved) fields[key] = restored.value;
+  }
+  return missing;
+}
+
+export const sameValue = (a: unknown, b: unknown): boolean => {
+  if ((a === null || a === undefined) && (b === null || b === undefined)) return true;
+  if (typeof a !== 'object' && typeof b !== 'object') return String(a) === String(b);
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+/**
+ * Applies a document: creates the monitors whose path does not exist yet and updates the ones
+ * that do, leaving monitors the document does not mention alone. Each entry is reported on
+ * its own, and one that fails does not stop the rest — except the members of a group that
+ * failed, which have nowhere to go. Every write is read back (see verify-monitor-write.ts)
+ * and a field that did not persist is reported as the entry's warning.
+ *
+ * With `dryRun` nothing is written and the report says what would happen. A dry run that
+ * precedes creating notification channels (applyConfig's plan) names them in
+ * `pendingNotifications`, so monitors referring to them are not reported as broken. With
+ * `snapshot`, every update goes through it, so restoreMonitor can undo it.
+ */
+export async function importMonitorDocument(
+  client: UptimeKumaClient,
+  document: MonitorDocument,
+  options: { dryRun?: boolean; pendingNotifications?: Iterable<string>; snapshot?: MonitorWriteGuard } = {}
+): Promise<MonitorImportResult[]> {
+  const existing = client.getMonitorList() as unknown as Record<string, MonitorRecord>;
+  const existingByPath = monitorIDsByPath(client);
+  const pendingNotifications = new Set(options.dryRun ? options.pendingNotifications ?? [] : []);
+  const notificationIDs = new Map(client.getNotificationList().map((n) => [n.name, n.id]));
+  const dockerHostIDs = new Map(client.getDockerHostList().map((h) => [h.name, h.id]));
+
+  const pathCounts = new Map<string, number>();
+  document.monitors.forEach((entry) => pathCounts.set(entryPath(entry), (pathCounts.get(entryPath(entry)) ?? 0) + 1));
+
+  // Paths this import has written (or, on a dry run, would write), so members find their group.
+  const imported = new Map<string, number | undefined>();
+  const failed = new Set<string>();
+
+  const resolveParent = (parent: string | undefined): number | null => {
+    if (parent === undefined) return null;
+    if (failed.has(parent)) throw new Error(`Its group "${parent}" could not be imported`);
+    if (imported.has(parent)) return imported.get(parent) ?? null;
+    const matches = existingByPath.get(parent) ?? [];
+    if (matches.length === 0) throw new Error(`Group "${parent}" does not exist and is not in the document`);
+    if (matches.length > 1) throw new Error(`${matches.length} monitors share the group path "${parent}"`);
+    return matches[0];
+  };
+
+  const importEntry = async (entry: MonitorDocumentEntry): Promise<MonitorImportResult> => {
+    const path = entryPath(entry);
+    const { parent, tags, notifications, dockerHost, ...rest } = entry;
+    if ((pathCounts.get(path) ?? 0) > 1) throw new Error('The document lists this path more than once');
+
+    const fields: MonitorRecord = Object.fromEntries(
+      Object.entries(rest).filter(([key]) => !NON_PORTABLE_FIELDS.has(key))
+    );
+    fields.parent = resolveParent(parent);
+
+    let notificationsPending = false;
+    if (notifications !== undefined) {
+      const unknown = notifications.filter((name) => !notificationIDs.has(name) && !pendingNotifications.has(name));
+      if (unknown.length > 0) throw new Error(`Notification channel(s) not found: ${unknown.join(', ')}`);
+      const known = notifications.filter((name) => notificationIDs.has(name));
+      notificationsPending = known.length < notifications.length;
+      fields.notificationIDList = Object.fromEntries(known.map((name) => [String(notificationIDs.get(name)), true]));
+    }
+    if (dockerHost !== undefined) {
+      if (!dockerHostIDs.has(dockerHost)) throw new Error(`Docker host "${dockerHost}" not found`);
+      fields.docker_host = dockerHostIDs.get(dockerHost);
+    }
+
+    const matches = existingByPath.get(path) ?? [];
+    if (matches.length > 1) {
+      throw new Error(`${matches.length} existing monitors share this path (IDs ${matches.join(', ')}) — rename one so the document can tell them apart`);
+    }
+
+    if (matches.length === 0) {
+      const missing = rehydrateEntrySecrets(fields, undefined);
+      if (missing.length > 0) {
+        throw new Error(`"***" is the redaction marker, not a credential, and there is no existing monitor to restore ${missing.join(', ')} from — export with secrets included, or fill in the real value`);
+      }
+      if (options.dryRun) {
+        imported.set(path, undefined);
+        return { path, action: 'create' };
+      }
+      const response = await client.createMonitor({
+        notificationIDList: {},
+        accepted_statuscodes: ['200-299'],
+        conditions: [],
+        retryInterval: (fields.interval as number | undefined) ?? 60,
+        ...fields,
+        ...(tags !== undefined ? { tags } : {}),
+      });
+      imported.set(path, response.monitorID);
+      const warning = response.monitorID != null
+        ? await verifyMonitorWrite(client, response.monitorID, fields, 'created')
+        : null;
+      return { path, action: 'create', monitorID: response.monitorID, ...(warning ? { warning } : {}) };
+    }
+
+    const monitorID = matches[0];
+    const stored = existing[String(monitorID)];
+    const missing = rehydrateEntrySecrets(fields, stored);
+    if (missing.length > 0) {
+      throw new Error(`Cannot write the redaction marker "***" to ${missing.join(', ')} — the monitor has no stored value to restore`);
+    }
+
+    const changes = Object.keys(fields).filter((key) =>
+      key === 'notificationIDList'
+        ? !sameValue(enabledNotificationIDs(fields[key]), enabledNotificationIDs(stored[key]))
+        : !sameValue(fields[key], stored[key])
+    );
+    if (notificationsPending && !changes.includes('notificationIDList')) changes.push('notificationIDList');
+    if (tags !== undefined && !sameValue(tagKeys(tags), tagKeys(stored.tags))) changes.push('tags');
+
+    imported.set(path, monitorID);
+    if (changes.length === 0) return { path, action: 'unchanged', monitorID };
+
+    if (options.dryRun) return { path, action: 'update', monitorID, changes };
+
+    const update = () => client.updateMonitor(editableMonitor({ ...stored, ...fields, ...(tags !== undefined ? { tags } : {}), id: monitorID }));
+    let snapshot: { snapshotID?: string; warning?: string } = {};
+    if (options.snapshot) snapshot = await options.snapshot('update', monitorID, update);
+    else await update();
+    const warning = [await verifyMonitorWrite(client, monitorID, fields, 'saved'), snapshot.warning].filter(Boolean).join('\n');
+    return {
+      path,
+      action: 'update',
+      monitorID,
+      changes,
+      ...(snapshot.snapshotID ? { snapshotID: snapshot.snapshotID } : {}),
+      ...(warning ? { warning } : {}),
+    };
+  };
+
+  // Groups before their members, whatever order the document is in. Counting separators is
+  // a depth estimate that only a monitor name containing " / " could mislead.
+  const ordered = [...document.monitors].sort(
+    (a, b) => (a.parent?.split(PATH_SEPARATOR).length ?? 0) - (b.parent?.split(PATH_SEPARATOR).length ?? 0)
+  );
+
+  const results: MonitorImportResult[] = [];
+  for (const entry of ordered) {
+    try {
+      results.push(await importEntry(entry));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      failed.add(entryPath(entry));
+      results.push({ path: entryPath(entry), action: 'error', error: errorMessage });
+    }
+  }
+  return results;
+}
+
+/** One line per entry, for the tool's text output and the CLI. */
+export function formatImportReport(results: MonitorImportResult[], dryRun: boolean): string {
+  const verbs: Record<MonitorImportResult['action'], string> = dryRun
+    ? { create: 'would create', update: 'would update', unchanged: 'unchanged', error: 'error' }
+    : { create: 'created', update: 'updated', unchanged: 'unchanged', error: 'error' };
+  const lines = results.map((result) => {
+    const id = result.monitorID !== undefined ? ` (ID ${result.monitorID})` : '';
+    const detail = result.error ?? (result.changes ? `changes: ${result.changes.join(', ')}` : '');
+    const undo = result.snapshotID ? ` — restoreMonitor snapshot "${result.snapshotID}"` : '';
+    const warning = result.warning ? `\n  WARNING: ${result.warning.replace(/\n/g, '\n  ')}` : '';
+    return `${verbs[result.action]}: ${result.path}${id}${detail ? ` — ${detail}` : ''}${undo}${warning}`;
+  });
+  const count = (action: MonitorImportResult['action']) => results.filter((r) => r.action === action).length;
+  lines.push(
+    dryRun
+      ? `Dry run, nothing written: would create ${count('create')}, update ${count('update')}; ${count('unchanged')} unchanged, ${count('error')} failed.`
+      : `Created ${count('create')}, updated ${count('update')}; ${count('unchanged')} unchanged, ${count('error')} failed.`
+  );
+  return lines.join('\n');
+}
@@ -0,0 +1,225 @@
+import { randomBytes } from 'node:crypto';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { readFile, rename, writeFile } from 'node:fs/promises';
+import type { MonitorSnapshotSummary } from './types/index.js';
+import type { UptimeKumaClient } from './uptime-kuma-client.js';
+import { SERVER_ASSIGNED_MONITOR_FIELDS, type MonitorWriteGuard } from './monitor-config.js';
+
+/**
+ * Before-images of monitors, so that restoreMonitor can undo any write to or delete of an
+ * existing monitor: updateMonitor, deleteMonitor, the notification and bulk tools, import and
+ * applyConfig.
+ *
+ * The store is one JSON file, named by `UPTIME_KUMA_SNAPSHOT_STORE`, holding the newest
+ * snapshots up to the retention limit. A snapshot is the monitor exactly as fetchMonitor
+ * returned it — credentials included, since a monitor restored with "***" for its password
+ * would not work — so the file is written readable by its owner only.
+ */
+
+export const DEFAULT_SNAPSHOT_RETENTION = 100;
+
+export interface MonitorSnapshot extends MonitorSnapshotSummary {
+  /** The monitor as stored server-side, credentials included. */
+  monitor: Record<string, unknown>;
+}
+
+/**
+ * Parses `UPTIME_KUMA_SNAPSHOT_RETENTION`: how many snapshots the store keeps, oldest dropped
+ * first.
+ */
+export function parseSnapshotRetention(value: string | undefined): number {
+  if (value === undefined || value.trim() === '') return DEFAULT_SNAPSHOT_RETENTION;
+  const retention = Number(value.trim());
+  if (!Number.isInteger(retention) || retention < 1) {
+    throw new Error(`UPTIME_KUMA_SNAPSHOT_RETENTION must be a positive whole number, got '${value}'`);
+  }
+  return retention;
+}
+
+const parseStore = (text: string, path: string): MonitorSnapshot[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Snapshot store ${path} is not valid JSON: ${errorMessage}`);
+  }
+  const snapshots = (data as { snapshots?: unknown } | null)?.snapshots;
+  if (!Array.isArray(snapshots)) {
+    throw new Error(`Snapshot store ${path} has no "snapshots" list`);
+  }
+  return snapshots as MonitorSnapshot[];
+};
+
+/**
+ * Creates the store if needed and checks an existing one can be read, so a wrong path stops
+ * the server at startup rather than failing the first update.
+ */
+export function openSnapshotStore(path: string): void {
+  try {
+    let text: string | undefined;
+    try {
+      text = readFileSync(path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+    if (text === undefined) {
+      writeFileSync(path, JSON.stringify({ snapshots: [] }), { mode: 0o600 });
+    } else {
+      parseStore(text, path);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Cannot use snapshot store ${path}: ${errorMessage}`);
+  }
+}
+
+async function readStore(path: string): Promise<MonitorSnapshot[]> {
+  let text: string;
+  try {
+    text = await readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+  return parseStore(text, path);
+}
+
+// Saves are read-modify-write on one file; chaining them per path keeps two concurrent
+// tool calls from each dropping the other's snapshot.
+const pendingWrites = new Map<string, Promise<unknown>>();
+
+/**
+ * Adds a snapshot and drops the oldest beyond `retention`. The store is written to a
+ * temporary file and renamed over the old one, so a crash mid-write cannot truncate it.
+ */
+export function saveMonitorSnapshot(
+  path: string,
+  snapshot: Omit<MonitorSnapshot, 'snapshotID' | 'takenAt'>,
+  retention = DEFAULT_SNAPSHOT_RETENTION
+): Promise<MonitorSnapshot> {
+  const previous = pendingWrites.get(path) ?? Promise.resolve();
+  const write = previous.catch(() => undefined).then(async () => {
+    const saved: MonitorSnapshot = { snapshotID: randomBytes(4).toString('hex'), takenAt: new Date().toISOString(), ...snapshot };
+    const snapshots = [...await readStore(path), saved].slice(-retention);
+    const temporary = `${path}.${process.pid}.tmp`;
+    await writeFile(temporary, JSON.stringify({ snapshots }, null, 2), { mode: 0o600 });
+    await rename(temporary, path);
+    return saved;
+  });
+  pendingWrites.set(path, write);
+  return write;
+}
+
+/**
+ * The snapshots of one instance, newest first, optionally of one monitor only.
+ */
+export async function listMonitorSnapshots(
+  path: string,
+  filter: { instance: string; monitorID?: number }
+): Promise<MonitorSnapshot[]> {
+  return (await readStore(path))
+    .filter((s) => s.instance === filter.instance && (filter.monitorID === undefined || s.monitorID === filter.monitorID))
+    .reverse();
+}
+
+export function summarizeSnapshot({ monitor: _monitor, ...summary }: MonitorSnapshot): MonitorSnapshotSummary {
+  return summary;
+}
+
+/** Where snapshots go: the store, and the instance the monitors belong to. */
+export interface SnapshotTarget {
+  path: string;
+  retention?: number;
+  instance: string;
+}
+
+/**
+ * Reads a monitor before it is written or deleted. A monitor that cannot be read is not to be
+ * changed, as the change could not be undone, so this throws saying so.
+ */
+export async function readBeforeImage(client: UptimeKumaClient, monitorID: number): Promise<Record<string, unknown>> {
+  try {
+    return await client.fetchMonitor(monitorID);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Cannot read monitor ${monitorID} to snapshot it, so it was not changed: ${errorMessage}`);
+  }
+}
+
+/**
+ * Keeps the before-image once the write succeeded. Resolves to the snapshot's ID, or a warning
+ * when it could not be saved — never throws, since the write went through and failing now
+ * would only invite a retry.
+ */
+export async function keepBeforeImage(
+  target: SnapshotTarget,
+  reason: MonitorSnapshot['reason'],
+  monitorID: number,
+  monitor: Record<string, unknown>
+): Promise<{ snapshotID?: string; warning?: string }> {
+  try {
+    const { snapshotID } = await saveMonitorSnapshot(target.path, {
+      reason,
+      instance: target.instance,
+      monitorID,
+      name: String(monitor.name ?? `Monitor ${monitorID}`),
+      type: String(monitor.type),
+      monitor,
+    }, target.retention);
+    return { snapshotID };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return { warning: `The previous configuration could not be saved (${errorMessage}), so restoreMonitor cannot undo this.` };
+  }
+}
+
+/**
+ * Both around one write, for the import and apply code (see MonitorWriteGuard). `target` is
+ * called per write, as the server's instance depends on the call.
+ */
+export function monitorWriteGuard(client: UptimeKumaClient, target: () => SnapshotTarget): MonitorWriteGuard {
+  return async (reason, monitorID, write) => {
+    const beforeImage = await readBeforeImage(client, monitorID);
+    await write();
+    return keepBeforeImage(target(), reason, monitorID, beforeImage);
+  };
+}
+
+/**
+ * The monitor configuration a snapshot restores, for createMonitor or over the current
+ * monitor. References that no longer resolve are dropped with a note rather than failing
+ * the restore: a notification channel deleted since, or a parent group deleted since (the
+ * monitor then comes back at the top level).
+ */
+export function restorableConfig(
+  snapshot: MonitorSnapshot,
+  existing: { notificationIDs: ReadonlySet<number>; monitorIDs: ReadonlySet<number> }
+): { data: Record<string, unknown>; notes: string[] } {
+  const stored = snapshot.monitor;
+  const data = Object.fromEntries(Object.entries(stored).filter(([key]) => !SERVER_ASSIGNED_MONITOR_FIELDS.has(key)));
+  const notes: string[] = [];
+
+  // Rebuilt by name. Always set, so a rollback also removes tags added since the snapshot.
+  const tags = (stored.tags ?? []) as Array<{ name: string; value?: string | null; color?: string }>;
+  data.tags = tags.map((tag) => ({ name: tag.name, value: tag.value ?? '', color: tag.color }));
+
+  const notificationIDList: Record<string, boolean> = {};
+  for (const [id, enabled] of Object.entries((stored.notificationIDList ?? {}) as Record<string, unknown>)) {
+    if (!enabled) continue;
+    if (existing.notificationIDs.has(Number(id))) {
+      notificationIDList[id] = true;
+    } else {
+      notes.push(`Notification channel ${id} no longer exists, so it was not re-attached.`);
+    }
+  }
+  data.notificationIDList = notificationIDList;
+
+  const parent = stored.parent as number | null | undefined;
+  if (parent != null && !existing.monitorIDs.has(parent)) {
+    data.parent = null;
+    notes.push(`Its group ${parent} no longer exists, so it is restored at the top level.`);
+  }
+
+  return { data, notes };
+}
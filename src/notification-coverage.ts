@@ -0,0 +1,143 @@
+import type { UptimeKumaClient } from './uptime-kuma-client.js';
+import type { ChannelCoverage, GroupCoverage, MonitorCoverage } from './types/index.js';
+
+/**
+ * Notification coverage: the join between each monitor's `notificationIDList` and the
+ * notification channels, answering "if this goes down, who gets paged?" and its converse,
+ * "which channels page nobody?".
+ *
+ * Group monitors get their own per-group summary rather than a row: what matters for a group
+ * is whether the monitors under it alert someone.
+ */
+
+export interface NotificationCoverage {
+  monitors: MonitorCoverage[];
+  uncoveredMonitorIDs: number[];
+  channels: ChannelCoverage[];
+  unusedChannelIDs: number[];
+  defaultChannelIDs: number[];
+  groups: GroupCoverage[];
+}
+
+// The provider is kept inside the channel's `config` JSON string; some servers also copy it
+// to the top level.
+const channelType = (notification: Record<string, unknown>): string | null => {
+  if (typeof notification.type === 'string') return notification.type;
+  if (typeof notification.config !== 'string') return null;
+  try {
+    const type = (JSON.parse(notification.config) as Record<string, unknown>)?.type;
+    return typeof type === 'string' ? type : null;
+  } catch {
+    return null;
+  }
+};
+
+const enabledChannelIDs = (monitor: Record<string, unknown>): number[] =>
+  Object.entries((monitor.notificationIDList ?? {}) as Record<string, unknown>)
+    .filter(([, enabled]) => Boolean(enabled))
+    .map(([id]) => Number(id));
+
+/**
+ * Joins monitors and channels. `monitorIDs` narrows the monitor rows and the groups; the
+ * channel summary always covers the whole fleet, as "attached to no monitor" means nothing
+ * for a subset.
+ */
+export function notificationCoverage(
+  client: UptimeKumaClient,
+  options: { monitorIDs?: number[] } = {}
+): NotificationCoverage {
+  const monitorList = client.getMonitorList() as Record<string, Record<string, unknown>>;
+  const all = Object.values(monitorList).sort((a, b) => (a.id as number) - (b.id as number));
+  const selected = options.monitorIDs ? new Set(options.monitorIDs) : undefined;
+
+  const channels: ChannelCoverage[] = (client.getNotificationList() as unknown as Array<Record<string, unknown>>)
+    .map((notification) => ({
+      id: notification.id as number,
+      name: String(notification.name ?? `Notification ${notification.id}`),
+      type: channelType(notification),
+      isDefault: Boolean(notification.isDefault),
+      monitorIDs: [] as number[],
+    }))
+    .sort((a, b) => a.id - b.id);
+  const channelByID = new Map(channels.map((channel) => [channel.id, channel]));
+
+  const covered = new Set<number>();
+  const monitors: MonitorCoverage[] = [];
+  for (const monitor of all) {
+    const monitorID = monitor.id as number;
+    // A monitor may still list a channel that has since been deleted.
+    const attached = enabledChannelIDs(monitor)
+      .map((id) => channelByID.get(id))
+      .filter((channel): channel is ChannelCoverage => channel !== undefined);
+    attached.forEach((channel) => channel.monitorIDs.push(monitorID));
+    if (attached.length > 0) covered.add(monitorID);
+
+    if (monitor.type === 'group' || (selected && !selected.has(monitorID))) continue;
+    monitors.push({
+      monitorID,
+      name: String(monitor.pathName ?? monitor.name ?? `Monitor ${monitorID}`),
+      type: String(monitor.type),
+      active: monitor.active !== false,
+      channels: attached.map(({ id, name, type }) => ({ id, name, type })),
+    });
+  }
+
+  const groups: GroupCoverage[] = all
+    .filter((monitor) => monitor.type === 'group' && (!selected || selected.has(monitor.id as number)))
+    .map((group) => {
+      const groupID = group.id as number;
+      const members = client.getMonitorSubtreeIDs(groupID)
+        .filter((id) => monitorList[String(id)]?.type !== 'group')
+        .sort((a, b) => a - b);
+      const uncoveredMonitorIDs = members.filter((id) => !covered.has(id));
+      return {
+        groupID,
+        name: String(group.pathName ?? group.name ?? `Monitor ${groupID}`),
+        monitorCount: members.length,
+        coveredCount: members.length - uncoveredMonitorIDs.length,
+        uncoveredMonitorIDs,
+      };
+    });
+
+  return {
+    monitors,
+    uncoveredMonitorIDs: monitors.filter((m) => m.channels.length === 0).map((m) => m.monitorID),
+    channels,
+    unusedChannelIDs: channels.filter((c) => c.monitorIDs.length === 0).map((c) => c.id),
+    defaultChannelIDs: channels.filter((c) => c.isDefault).map((c) => c.id),
+    groups,
+  };
+}
+
+/**
+ * The coverage as text: who gets paged per monitor, then the gaps.
+ */
+export function formatNotificationCoverage(coverage: NotificationCoverage): string {
+  const channelName = (c: { id: number; name: string; type: string | null }) =>
+    `${c.name} [${c.id}]${c.type ? ` (${c.type})` : ''}`;
+  const byID = new Map(coverage.channels.map((c) => [c.id, c]));
+
+  const lines = [`${coverage.monitors.length} monitor(s), ${coverage.uncoveredMonitorIDs.length} alerting nobody:`];
+  for (const m of coverage.monitors) {
+    const paused = m.active ? '' : ' (paused)';
+    lines.push(m.channels.length > 0
+      ? `- ${m.name} [${m.monitorID}]${paused} → ${m.channels.map(channelName).join(', ')}`
+      : `- ${m.name} [${m.monitorID}]${paused} → **nobody**`);
+  }
+
+  if (coverage.groups.length > 0) {
+    lines.push('', 'Groups:');
+    for (const g of coverage.groups) {
+      const gaps = g.uncoveredMonitorIDs.length > 0 ? ` — uncovered: ${g.uncoveredMonitorIDs.join(', ')}` : '';
+      lines.push(`- ${g.name} [${g.groupID}]: ${g.coveredCount}/${g.monitorCount} monitor(s) covered${gaps}`);
+    }
+  }
+
+  const listChannels = (ids: number[]) => ids.map((id) => channelName(byID.get(id)!)).join(', ') || 'none';
+  lines.push(
+    '',
+    `Channels attached to no monitor: ${listChannels(coverage.unusedChannelIDs)}`,
+    `Default channels (enabled on new monitors): ${listChannels(coverage.defaultChannelIDs)}`
+  );
+  return lines.join('\n');
+}
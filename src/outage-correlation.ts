@@ -0,0 +1,197 @@
+import type { UptimeKumaClient } from './uptime-kuma-client.js';
+import type { Heartbeat, OutageCluster } from './types/index.js';
+import { parseBeatTime } from './uptime-report.js';
+
+/**
+ * Correlated outages: when a shared dependency fails, twenty monitors go DOWN within a minute
+ * of each other and nothing links them. This finds those moments in the heartbeat caches and
+ * says what the monitors involved have in common.
+ *
+ * A cluster starts at the earliest DOWN not yet placed and takes every other monitor that went
+ * DOWN within the window after it — anchored to the first, so a slow trickle of unrelated
+ * failures cannot chain into one cluster. Group monitors are left out: a group goes DOWN
+ * because something in it did, which makes it a symptom here, not a member. Groups come back
+ * as a possible cause instead, alongside a shared hostname, docker host or tag.
+ *
+ * Only what the caches hold is seen — roughly the last hundred beats per monitor.
+ */
+
+const DOWN = 0;
+
+// Candidate kinds in the order a tie is broken: a concrete shared dependency before an
+// organisational one.
+const KIND_ORDER = ['hostname', 'dockerHost', 'group', 'tag'] as const;
+
+type MonitorRecord = Record<string, unknown>;
+
+interface Onset {
+  monitorID: number;
+  time: number;
+  msg: string;
+}
+
+/**
+ * When a monitor went DOWN, from its cached beats (newest-first): every DOWN beat that follows
+ * one that was not DOWN, or that Uptime Kuma itself marked as a status change.
+ */
+function downOnsets(monitorID: number, beats: Heartbeat[]): Onset[] {
+  const onsets: Onset[] = [];
+  for (let i = 0; i < beats.length; i++) {
+    const beat = beats[i];
+    if (beat.status !== DOWN) continue;
+    const older = beats[i + 1];
+    if (older ? older.status !== DOWN : beat.important) {
+      const time = parseBeatTime(beat.time);
+      if (!Number.isNaN(time)) onsets.push({ monitorID, time, msg: String(beat.msg ?? '') });
+    }
+  }
+  return onsets;
+}
+
+function hostnameOf(monitor: MonitorRecord): string | undefined {
+  if (typeof monitor.hostname === 'string' && monitor.hostname.trim()) {
+    return monitor.hostname.trim().toLowerCase();
+  }
+  if (typeof monitor.url === 'string' && /^[a-z][a-z0-9+.-]*:\/\//i.test(monitor.url)) {
+    try {
+      return new URL(monitor.url).hostname.toLowerCase() || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds the clusters of monitors that went DOWN within `windowSeconds` of each other.
+ */
+export function correlateOutages(
+  client: UptimeKumaClient,
+  options: { windowSeconds: number; minMonitors: number; since?: number }
+): OutageCluster[] {
+  const monitors = client.getMonitorList() as unknown as Record<string, MonitorRecord>;
+  const dockerHosts = new Map(client.getDockerHostList().map((host) => [host.id, host.name]));
+
+  const onsets: Onset[] = [];
+  for (const [id, beats] of Object.entries(client.getHeartbeatList(Number.MAX_SAFE_INTEGER))) {
+    const monitor = monitors[id];
+    if (!monitor || monitor.type === 'group') continue;
+    onsets.push(...downOnsets(Number(id), beats).filter((o) => options.since === undefined || o.time >= options.since));
+  }
+  onsets.sort((a, b) => a.time - b.time || a.monitorID - b.monitorID);
+
+  const clusters: OutageCluster[] = [];
+  const placed = new Set<Onset>();
+  for (const first of onsets) {
+    if (placed.has(first)) continue;
+    const members = new Map<number, Onset>();
+    for (const onset of onsets) {
+      if (onset.time < first.time || placed.has(onset)) continue;
+      if (onset.time > first.time + options.windowSeconds * 1000) break;
+      if (members.has(onset.monitorID)) continue;
+      members.set(onset.monitorID, onset);
+      placed.add(onset);
+    }
+    if (members.size < options.minMonitors) continue;
+
+    const member = [...members.values()];
+    clusters.push({
+      start: new Date(first.time).toISOString(),
+      end: new Date(member[member.length - 1].time).toISOString(),
+      monitors: member.map((onset) => ({
+        monitorID: onset.monitorID,
+        name: String(monitors[String(onset.monitorID)]?.pathName ?? `Monitor ${onset.monitorID}`),
+        downAt: new Date(onset.time).toISOString(),
+        msg: onset.msg,
+        stillDown: client.getHeartbeatsForMonitor(onset.monitorID, 1)[0]?.status === DOWN,
+      })),
+      ...sharedCauses(member.map((onset) => onset.monitorID), monitors, dockerHosts),
+    });
+  }
+  return clusters;
+}
+
+function sharedCauses(
+  monitorIDs: number[],
+  monitors: Record<string, MonitorRecord>,
+  dockerHosts: Map<number | undefined, string | undefined>
+): Pick<OutageCluster, 'causes' | 'likelyRoot'> {
+  const shared = new Map<string, { kind: (typeof KIND_ORDER)[number]; value: string; monitorIDs: number[]; depth: number }>();
+  const add = (kind: (typeof KIND_ORDER)[number], value: string, monitorID: number, depth = 0) => {
+    const key = `${kind}\u0000${value}`;
+    const entry = shared.get(key) ?? { kind, value, monitorIDs: [], depth };
+    if (!entry.monitorIDs.includes(monitorID)) entry.monitorIDs.push(monitorID);
+    shared.set(key, entry);
+  };
+
+  for (const monitorID of monitorIDs) {
+    const monitor = monitors[String(monitorID)];
+    if (!monitor) continue;
+
+    const hostname = hostnameOf(monitor);
+    if (hostname) add('hostname', hostname, monitorID);
+
+    if (typeof monitor.docker_host === 'number') {
+      add('dockerHost', dockerHosts.get(monitor.docker_host) ?? `docker host ${monitor.docker_host}`, monitorID);
+    }
+
+    const seen = new Set<number>();
+    for (let parent = monitor.parent as number | null | undefined; parent != null && !seen.has(parent);) {
+      seen.add(parent);
+      const group = monitors[String(parent)];
+      if (!group) break;
+      const path = Array.isArray(group.path) ? group.path : [];
+      add('group', String(group.pathName ?? group.name), monitorID, path.length);
+      parent = group.parent as number | null | undefined;
+    }
+
+    for (const tag of (monitor.tags ?? []) as Array<{ name: string; value?: string | null }>) {
+      add('tag', tag.value ? `${tag.name}=${tag.value}` : tag.name, monitorID);
+    }
+  }
+
+  // Something one monitor has on its own links nothing. Of nested groups that hold the same
+  // monitors, only the innermost says anything the others do not.
+  const candidates = [...shared.values()].filter((entry) => entry.monitorIDs.length >= 2);
+  const sameSet = (a: number[], b: number[]) => a.length === b.length && a.every((id) => b.includes(id));
+  const causes = candidates
+    .filter((entry) => entry.kind !== 'group' || !candidates.some((other) =>
+      other.kind === 'group' && other.depth > entry.depth && sameSet(other.monitorIDs, entry.monitorIDs)))
+    .map((entry) => ({
+      kind: entry.kind,
+      value: entry.value,
+      monitorIDs: [...entry.monitorIDs].sort((a, b) => a - b),
+      coverage: Number((entry.monitorIDs.length / monitorIDs.length).toFixed(2)),
+    }))
+    .sort((a, b) => b.coverage - a.coverage || KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || a.value.localeCompare(b.value));
+
+  const top = causes[0];
+  const label = { hostname: 'host', dockerHost: 'docker host', group: 'group', tag: 'tag' } as const;
+  return {
+    causes,
+    likelyRoot: top && top.coverage >= 0.5
+      ? `${label[top.kind]} "${top.value}" (${top.monitorIDs.length} of ${monitorIDs.length} monitors)`
+      : null,
+  };
+}
+
+/**
+ * The clusters as text, one block per cluster.
+ */
+export function formatOutageClusters(clusters: OutageCluster[], windowSeconds: number): string {
+  if (clusters.length === 0) {
+    return `No monitors went DOWN within ${windowSeconds}s of each other in the cached heartbeats.`;
+  }
+  const when = (iso: string) => iso.replace('T', ' ').replace(/\.\d+Z$/, 'Z');
+  return clusters.map((cluster) => {
+    const lines = [
+      `${cluster.monitors.length} monitors went DOWN between ${when(cluster.start)} and ${when(cluster.end)}` +
+        (cluster.likelyRoot ? ` — likely root: ${cluster.likelyRoot}` : ' — no shared dependency found'),
+      ...cluster.monitors.map((m) => `  - ${when(m.downAt)} ${m.name} [${m.monitorID}]${m.stillDown ? ' (still down)' : ''}: ${m.msg || '(no message)'}`),
+    ];
+    for (const cause of cluster.causes.slice(1)) {
+      lines.push(`  also shared: ${cause.kind} "${cause.value}" by ${cause.monitorIDs.join(', ')}`);
+    }
+    return lines.join('\n');
+  }).join('\n\n');
+}
@@ -1,10 +1,15 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
-import { McpError, ErrorCode, SetLevelRequestSchema, ListToolsRequestSchema, LoggingLevelSchema, type LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { McpError, ErrorCode, SetLevelRequestSchema, type CallToolResult, CallToolRequestSchema, ListToolsRequestSchema, ListResourcesRequestSchema, ReadResourceRequestSchema, SubscribeRequestSchema, UnsubscribeRequestSchema, LoggingLevelSchema, type LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { randomBytes, randomInt } from 'node:crypto';
-import { UptimeKumaClient } from './uptime-kuma-client.js';
-import { HeartbeatSchema, MonitorBaseSchema, MonitorSummarySchema, SettingsSchema, NotificationSchema, MaintenanceSchema, StatusPageSchema, DockerHostSchema } from './types/index.js';
-import type { UptimeKumaConfig } from './types/index.js';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { UptimeKumaClient, type CacheChange } from './uptime-kuma-client.js';
+import { HeartbeatSchema, MonitorBaseSchema, MonitorSummarySchema, SettingsSchema, NotificationSchema, MaintenanceSchema, MaintenanceTargetsSchema, StatusPageSchema, IncidentSchema, IncidentStyleSchema, DockerHostSchema, MonitorDocumentSchema, MonitorImportResultSchema, ApplyPlanItemSchema, UptimeReportSchema, MonitorIncidentSchema, OutageClusterSchema, LatencyStatsSchema, FlappingMonitorSchema, CertificateExpirySchema, AuditFindingSchema, AuditLogEntrySchema, MonitorSnapshotSummarySchema, ChannelCoverageSchema, MonitorCoverageSchema, GroupCoverageSchema } from './types/index.js';
+import type { UptimeKumaConfig, UptimeKumaInstanceConfig, MaintenanceTargets, AuditLogEntry } from './types/index.js';
+import { ALL_INSTANCES, instanceList, validateInstanceNames } from './instances.js';
+import { SERVER_ASSIGNED_MONITOR_FIELDS, editableMonitor, exportMonitorDocument, formatImportReport, importMonitorDocument, parseMonitorDocument, serializeMonitorDocument } from './monitor-config.js';
+import { applyConfigDocument, formatApplyReport, parseConfigDocument } from './apply-config.js';
 import {
   INCLUDE_SECRETS_DESCRIPTION,
   redactHeartbeat,
@@ -12,7 +17,30 @@ import {
   redactSecrets,
   rehydrateSecrets,
   rehydrateUrlCredentials,
+  redactUrlCredentials,
 } from './redact.js';
+import { verifyMonitorWrite } from './verify-monitor-write.js';
+import { isResourceAllowed, isToolAllowed, resourceScopes, TOOL_SCOPES } from './tool-scopes.js';
+import { certificateExpiry, formatCertificateExpiry } from './certificate-expiry.js';
+import { AUDIT_RULE_IDS, auditMonitors, formatAuditFindings } from './monitor-audit.js';
+import { formatNotificationCoverage, notificationCoverage } from './notification-coverage.js';
+import { deleteImpact, formatDeleteImpact, type DeleteTarget } from './delete-impact.js';
+import { appendAuditEntry, callerIdentity, formatAuditLog, readAuditLog } from './audit-log.js';
+import {
+  keepBeforeImage,
+  listMonitorSnapshots,
+  monitorWriteGuard,
+  readBeforeImage,
+  restorableConfig,
+  summarizeSnapshot,
+  type MonitorSnapshot,
+  type SnapshotTarget,
+} from './monitor-snapshots.js';
+import { findFlappingMonitors, formatFlappingMonitors } from './flapping.js';
+import { buildIncidentTimeline, formatIncidentTimeline } from './incidents.js';
+import { formatLatencyStats, latencyStats, rankLatencyStats } from './latency-stats.js';
+import { correlateOutages, formatOutageClusters } from './outage-correlation.js';
+import { buildUptimeReport, formatUptimeReportMarkdown, parseReportTime } from './uptime-report.js';
 import { VERSION } from './version.js';
 
 /**
@@ -73,14 +101,61 @@ function requiredId(description: string) {
   ).describe(description);
 }
 
+/** A tool handler as the registerTool wrapper sees it: arguments already validated, untyped. */
+type ToolCallback = (args: Record<string, unknown>, extra: unknown) => unknown;
+
 /**
  * Creates and configures the MCP server with tools, resources, and prompts
  * Note: Authentication must be done separately after connecting the transport
  */
-export async function createServer(config: UptimeKumaConfig): Promise<{ server: McpServer; client: UptimeKumaClient; authenticateClient: () => Promise<void> }> {
+export async function createServer(config: UptimeKumaConfig): Promise<{ server: McpServer; client: UptimeKumaClient; authenticateClient: () => Promise<void>; close: () => void }> {
   // Track current logging level (default: info)
   let currentLogLevel: LoggingLevel = 'info';
 
+  // Every configured Uptime Kuma instance, the default one first. With just the one, nothing
+  // below behaves any differently from a single-instance server.
+  const instanceConfigs = instanceList(config);
+  validateInstanceNames(instanceConfigs.map((instance) => instance.name));
+  const multiInstance = instanceConfigs.length > 1;
+  const instanceInstructions = multiInstance ? `
+        INSTANCES:
+        - This server fronts ${instanceConfigs.length} Uptime Kuma instances: ${instanceConfigs.map((i) => `'${i.name}'`).join(', ')}. Tools act on '${instanceConfigs[0].name}' unless called with 'instance'; 'listInstances' describes them.
+        - Pass instance: "${ALL_INSTANCES}" to a list tool (getMonitorSummary, listMonitors, listNotifications, listTags, getMaintenanceWindows, listStatusPages, listDockerHosts) to query every instance at once. Each result then carries the instance it came from.
+        - IDs belong to one instance: act on a result by passing its instance back along with its ID.
+        - Resources describe '${instanceConfigs[0].name}' only.
+` : '';
+
+  // Read-only mode registers the 'read' tools only (see TOOL_SCOPES), so nothing a client
+  // is offered can change Uptime Kuma — whatever the client's own allow-list says.
+  const readOnly = config.readOnly === true;
+  const auditLogPath = config.auditLogPath;
+  // One server shared by every stateless HTTP client: it can only answer requests, never
+  // send a client anything of its own accord.
+  const statelessHttp = config.statelessHttp === true;
+  const writeInstructions = readOnly ? `        READ-ONLY MODE:
+        - This server cannot change anything in Uptime Kuma: no tool creates, updates, pauses, tests or deletes.
+        - Use 'exportMonitors' to snapshot monitor configuration as YAML/JSON.
+        - Suggested fixes (findFlappingMonitors, auditMonitors) are for the user to apply elsewhere.
+` : `        WRITE operations:
+        - Use 'createMonitor' / 'updateMonitor' / 'deleteMonitor' to manage monitors.
+        - Use 'cloneMonitor' to copy a monitor (or a whole group with recursive: true) with a few fields changed; its credentials are copied without ever being read.
+        - Use 'addNotification' / 'updateNotification' / 'deleteNotification' to manage notification channels.
+        - Use 'attachNotification' / 'detachNotification' to add or remove a channel on many monitors at once (by ID, tag, group or type) instead of one updateMonitor per monitor.
+        - Use 'testNotification' to send a test message through a channel (existing, or a config not saved yet) before attaching it to monitors.
+        - Use 'addTag' / 'deleteTag' to manage tags.
+        - Use 'createMaintenance' to schedule a maintenance window, and 'updateMaintenance' / 'deleteMaintenance' / 'pauseMaintenance' / 'resumeMaintenance' to manage it afterwards. A new window covers nothing until 'setMaintenanceMonitors' / 'setMaintenanceStatusPages' attach monitors and status pages to it.
+        - Use 'addDockerHost' / 'updateDockerHost' / 'deleteDockerHost' to manage docker daemon connections.
+        - Use 'testDockerHost' to verify a docker daemon is reachable before saving.
+        - Use 'createStatusPage' / 'updateStatusPage' / 'deleteStatusPage' to manage status pages. Creating returns an empty page — follow up with updateStatusPage to set groups and monitors.
+        - Use 'postIncident' / 'unpinIncident' to publish or take down an incident banner on a status page.
+        - Use 'pauseMonitor' / 'resumeMonitor' to temporarily stop/start checks.
+        - Use 'pauseMonitors' / 'resumeMonitors' / 'deleteMonitors' for every monitor matching a filter. The first call only previews; show the user the list before confirming with confirmMonitorIDs.
+        - Use 'exportMonitors' to snapshot monitor configuration as YAML/JSON, and 'importMonitors' to apply such a document (dryRun: true first).
+        - Use 'restoreMonitor' to undo an updateMonitor or deleteMonitor ('listMonitorSnapshots' shows what can be restored). A deleted monitor comes back under a new ID, without its heartbeat history.
+        - Use 'applyConfig' to converge the instance to a desired-state document. It deletes what a section does not list: show the user its plan before calling it again with confirm: true and the plan's planID.
+        - 'deleteMonitor' / 'deleteNotification' / 'deleteTag' / 'deleteDockerHost' / 'deleteStatusPage' ask the user to confirm, showing what goes away. A client that cannot ask gets a preview instead: show it to the user, and call again with confirm: true only once they agree.
+`;
+
   const server = new McpServer(
     {
       name: 'mcp-uptime-kuma',
@@ -88,39 +163,46 @@ export async function createServer(config: UptimeKumaConfig): Promise<{ server:
     },
     {
       instructions: `
-        This MCP server provides access to Uptime Kuma monitoring data and management operations.
+        This MCP server provides access to Uptime Kuma monitoring data${readOnly ? ', read-only' : ' and management operations'}.
 
         READ operations:
         - START with 'getMonitorSummary' for status overview ("how is everything?", "what's down?").
         - Use 'getHeartbeats' or 'listHeartbeats' for historical data (limit to 5-10 heartbeats unless user requests more).
+        - Use 'getUptimeReport' for availability over a date range (SLA reviews) — not the cached uptime figures, which only cover fixed periods.
+        - Use 'getIncidents' for a timeline of outages (postmortems: when, how long, what error, during maintenance or not).
+        - Use 'correlateOutages' when several monitors are down at once, to find what they share (group, host, docker host, tag).
+        - Use 'getLatencyStats' for response-time percentiles and trends, and to find monitors that are getting slower.
+        - Use 'findFlappingMonitors' to find monitors that keep flipping UP/DOWN${readOnly ? '' : '; its suggestions go straight to updateMonitor'}.
+        - Use 'getCertificateExpiry' for which TLS certificates expire soon.
+        - Use 'auditMonitors' to find misconfigured monitors (no notifications, too-short intervals, ignored TLS errors, ...)${readOnly ? '' : '; fixes that are plain field changes go straight to updateMonitor'}.
         - Use 'listMonitors' when you need configuration details (URLs, intervals, notification settings).
         - Use 'listNotifications' to see notification channels.
+        - Use 'getNotificationCoverage' for who gets paged when a monitor goes down, which monitors alert nobody and which channels are unused.
         - Use 'listTags' to see available tags.
-        - Use 'getMaintenanceWindows' to see scheduled maintenance.
+        - Use 'getMaintenanceWindows' to see scheduled maintenance and what it covers, or 'getMaintenanceTargets' for one window.
         - Use 'listStatusPages' to see status page configurations, or 'getStatusPage' for one page's full details (groups + monitors).
         - Use 'listDockerHosts' to see configured docker daemons (used by docker container monitors).
+        - Use 'getAuditLog' for who changed or deleted what through this server, and when.
 
-        WRITE operations:
-        - Use 'createMonitor' / 'updateMonitor' / 'deleteMonitor' to manage monitors.
-        - Use 'addNotification' / 'updateNotification' / 'deleteNotification' to manage notification channels.
-        - Use 'addTag' / 'deleteTag' to manage tags.
-        - Use 'createMaintenance' to schedule a maintenance window.
-        - Use 'addDockerHost' / 'updateDockerHost' / 'deleteDockerHost' to manage docker daemon connections.
-        - Use 'testDockerHost' to verify a docker daemon is reachable before saving.
-        - Use 'createStatusPage' / 'updateStatusPage' / 'deleteStatusPage' to manage status pages. Creating returns an empty page — follow up with updateStatusPage to set groups and monitors.
-        - Use 'pauseMonitor' / 'resumeMonitor' to temporarily stop/start checks.
+        RESOURCES${statelessHttp ? ' (read them again for fresh values; this endpoint cannot notify of changes)' : ' (subscribe to be notified of changes instead of polling)'}:
+        - uptime-kuma://monitors/{monitorID} — one monitor's configuration and uptime.
+        - uptime-kuma://monitors/{monitorID}/heartbeats — its recent heartbeats, newest first.
+        - uptime-kuma://status-pages/{slug} — one status page's configuration.
 
+${writeInstructions}${instanceInstructions}
         CREDENTIALS:
         - Read tools return "***" in place of passwords, tokens, API keys and HTTP headers.
           To attach a notification channel to a monitor you only need its id, so the common
           workflows never need the real values.
         - Pass includeSecrets: true (or set UPTIME_KUMA_INCLUDE_SECRETS=true) only when the
           value itself is needed. It will be written to this conversation's transcript.
-        - "***" sent back to updateMonitor / updateNotification restores the stored value
+${readOnly ? '' : `        - "***" sent back to updateMonitor / updateNotification restores the stored value
           rather than overwriting it, so a read-edit-write round trip is safe.
-      `,
+`}      `,
       capabilities: {
-        logging: {}
+        logging: {},
+        // Stateless HTTP has no stream to carry notifications on, so no subscriptions there.
+        resources: statelessHttp ? {} : { subscribe: true, listChanged: true },
       }
     }
   );
@@ -143,15 +225,30 @@ export async function createServer(config: UptimeKumaConfig): Promise<{ server:
   //
   // Done by wrapping the method once rather than editing ~31 schemas by hand: one seam, no
   // chance of missing one, and it covers any tool added later.
+  //
+  // The same seam gives every tool its `instance` argument when several Uptime Kuma
+  // instances are configured (see addInstanceArgument below).
   const registerToolUnstrict = server.registerTool.bind(server);
   (server as unknown as { registerTool: typeof server.registerTool }).registerTool = ((
     name: string,
     config: Record<string, unknown>,
-    cb: unknown
+    cb: ToolCallback
   ) => {
-    const shape = config?.inputSchema as Record<string, unknown> | undefined;
+    if (!(name in TOOL_SCOPES)) {
+      throw new Error(`Tool ${name} has no scope: add it to TOOL_SCOPES in tool-scopes.ts`);
+    }
+    if (readOnly && TOOL_SCOPES[name] !== 'read') {
+      return undefined;
+    }
+    if (auditLogPath && TOOL_SCOPES[name] !== 'read') {
+      cb = auditToolCall(auditLogPath, name, cb);
+    }
+    let shape = config?.inputSchema as Record<string, unknown> | undefined;
     // Only upgrade raw shapes; anything already a Zod schema is left alone.
     if (shape && typeof shape === 'object' && !('_def' in shape) && !('_zod' in shape)) {
+      if (multiInstance && !INSTANCE_AGNOSTIC_TOOLS.has(name)) {
+        ({ shape, config, cb } = addInstanceArgument(name, shape as z.ZodRawShape, config, cb));
+      }
       config = { ...config, inputSchema: strictInputSchema(name, shape as z.ZodRawShape) };
     }
     return (registerToolUnstrict as unknown as (n: string, c: unknown, f: unknown) => unknown)(name, config, cb);
@@ -232,6 +329,13 @@ export async function createServer(config: UptimeKumaConfig): Promise<{ server:
     return value;
   };
 
+  // The same seam enforces the HTTP transport's per-token scopes (see tool-scopes.ts): tools/list
+  // only shows the tools the token may call, and a call to any other is rejected before the
+  // SDK looks the tool up. Resources get the same treatment, since they serve what the read
+  // tools do. A request without authInfo — stdio, or HTTP without tokens — is not restricted.
+  const grantedScopes = (extra: unknown): string[] | undefined =>
+    (extra as { authInfo?: AuthInfo } | undefined)?.authInfo?.scopes;
+
   const setRequestHandlerUnpatched = server.server.setRequestHandler.bind(server.server) as (
     requestSchema: unknown,
     handler: (...args: unknown[]) => unknown
@@ -241,9 +345,54 @@ export async function createServer(config: UptimeKumaConfig): Promise<{ server:
     handler: (...args: unknown[]) => unknown
   ) => {
     if (requestSchema === ListToolsRequestSchema) {
-      const wrapped = async (...args: unknown[]) => relabelDialect(await handler(...args));
+      const wrapped = async (...args: unknown[]) => {
+        const result = await handler(...args) as { tools: Array<{ name: string }> };
+        const scopes = grantedScopes(args[1]);
+        const tools = scopes ? result.tools.filter((tool) => isToolAllowed(tool.name, scopes)) : result.tools;
+        return relabelDialect({ ...result, tools });
+      };
       return setRequestHandlerUnpatched(requestSchema, wrapped);
     }
+    if (requestSchema === CallToolRequestSchema) {
+      const guarded = async (...args: unknown[]) => {
+        const toolName = (args[0] as { params: { name: string } }).params.name;
+        const scopes = grantedScopes(args[1]);
+        if (scopes && toolName in TOOL_SCOPES && !isToolAllowed(toolName, scopes)) {
+          const clientId = (args[1] as { authInfo?: AuthInfo }).authInfo?.clientId;
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `Tool ${toolName} needs the '${TOOL_SCOPES[toolName]}' scope, which token '${clientId}' does not have ` +
+              `(it has: ${scopes.join(', ')}). tools/list shows the tools this token may call.`
+          );
+        }
+        return handler(...args);
+      };
+      return setRequestHandlerUnpatched(requestSchema, guarded);
+    }
+    if (requestSchema === ListResourcesRequestSchema) {
+      const wrapped = async (...args: unknown[]) => {
+        const result = await handler(...args) as { resources: Array<{ uri: string }> };
+        const scopes = grantedScopes(args[1]);
+        return scopes ? { ...result, resources: result.resources.filter((resource) => isResourceAllowed(resource.uri, scopes)) } : result;
+      };
+      return setRequestHandlerUnpatched(requestSchema, wrapped);
+    }
+    if (requestSchema === ReadResourceRequestSchema || requestSchema === SubscribeRequestSchema) {
+      const guarded = async (...args: unknown[]) => {
+        const uri = (args[0] as { params: { uri: string } }).params.uri;
+        const scopes = grantedScopes(args[1]);
+        if (scopes && !isResourceAllowed(uri, scopes)) {
+          const clientId = (args[1] as { authInfo?: AuthInfo }).authInfo?.clientId;
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `Resource ${uri} needs the ${resourceScopes(uri).map((scope) => `'${scope}'`).join(' or ')} scope, which token '${clientId}' ` +
+              `does not have (it has: ${scopes.join(', ')}). resources/list shows the resources this token may read.`
+          );
+        }
+        return handler(...args);
+      };
+      return setRequestHandlerUnpatched(requestSchema, guarded);
+    }
     return setRequestHandlerUnpatched(requestSchema, handler);
   }) as typeof server.server.setRequestHandler;
 
@@ -264,8 +413,6 @@ export async function createServer(config: UptimeKumaConfig): Promise<{ server:
     return logLevels.indexOf(level) >= logLevels.indexOf(currentLogLevel);
   };
   
-  const client = new UptimeKumaClient(config.url, server, shouldLog);
-
   // Issue #59: read tools withhold credentials by default. Captured here because the
   // registerTool wrapper above shadows `config` with the per-tool registration object.
   //
@@ -277,86 +424,290 @@ export async function createServer(config: UptimeKumaConfig): Promise<{ server:
     perCall === undefined ? includeSecretsByDefault : perCall;
   const includeSecretsParam = z.boolean().optional().describe(INCLUDE_SECRETS_DESCRIPTION);
 
-  let isAuthenticated = false;
-  let authInFlight: Promise<void> | null = null;
+  /** One Uptime Kuma instance: its own socket, session and authentication state. */
+  interface KumaInstance {
+    name: string;
+    url: string;
+    client: UptimeKumaClient;
+    authenticate: () => Promise<void>;
+    isAuthenticated: () => boolean;
+  }
 
-  // The client reports when the authenticated session is known to be gone (socket dropped,
-  // or a re-auth on reconnect was refused). Clearing the flag here is what lets the next
-  // tool call transparently re-authenticate, instead of the process staying wedged.
-  client.onAuthLost = (reason: string) => {
-    if (!isAuthenticated) return;
-    isAuthenticated = false;
-    process.stderr.write(`Uptime Kuma session invalidated: ${reason}. Will re-authenticate on next call.\n`);
-  };
+  const connectInstance = (instance: UptimeKumaInstanceConfig): KumaInstance => {
+    const client = new UptimeKumaClient(instance.url, server, shouldLog);
+    // Messages name the instance only when there is more than one to tell apart.
+    const label = multiInstance ? ` (${instance.name})` : '';
+
+    let isAuthenticated = false;
+    let authInFlight: Promise<void> | null = null;
+
+    // The client reports when the authenticated session is known to be gone (socket dropped,
+    // or a re-auth on reconnect was refused). Clearing the flag here is what lets the next
+    // tool call transparently re-authenticate, instead of the process staying wedged.
+    client.onAuthLost = (reason: string) => {
+      if (!isAuthenticated) return;
+      isAuthenticated = false;
+      process.stderr.write(`Uptime Kuma session invalidated${label}: ${reason}. Will re-authenticate on next call.\n`);
+    };
 
-  // UPTIME_KUMA_JWT_TOKEN must be a real JWT — Uptime Kuma verifies it with jwt.verify()
-  // against its jwtSecret. Anything else (a password, an API key, a truncated paste) is
-  // rejected with the opaque message "authInvalidToken", which reads exactly like an
-  // expired credential and sends you looking for a token-lifetime problem that isn't there.
-  // Only the credential's SHAPE is ever reported — never its value.
-  const describeCredential = (): string | null => {
-    const t = config.jwtToken;
-    if (!t) return null;
-    const segments = String(t).split('.').length;
-    if (segments === 3) return null;
-    return `UPTIME_KUMA_JWT_TOKEN is not a JWT: it has ${segments} dot-separated segment(s), expected 3 `
-      + `(length ${String(t).length}). Uptime Kuma will always reject this with "authInvalidToken". `
-      + `Generate a real token with: mcp-uptime-kuma-get-jwt ${config.url} <username> <password>. `
-      + 'Note this variable may also be set in your shell environment as well as your MCP client '
-      + 'config — check both and make sure they agree.';
-  };
+    // UPTIME_KUMA_JWT_TOKEN must be a real JWT — Uptime Kuma verifies it with jwt.verify()
+    // against its jwtSecret. Anything else (a password, an API key, a truncated paste) is
+    // rejected with the opaque message "authInvalidToken", which reads exactly like an
+    // expired credential and sends you looking for a token-lifetime problem that isn't there.
+    // Only the credential's SHAPE is ever reported — never its value.
+    const describeCredential = (): string | null => {
+      const t = instance.jwtToken;
+      if (!t) return null;
+      const segments = String(t).split('.').length;
+      if (segments === 3) return null;
+      const variable = multiInstance ? `The JWT token of instance '${instance.name}'` : 'UPTIME_KUMA_JWT_TOKEN';
+      return `${variable} is not a JWT: it has ${segments} dot-separated segment(s), expected 3 `
+        + `(length ${String(t).length}). Uptime Kuma will always reject this with "authInvalidToken". `
+        + `Generate a real token with: mcp-uptime-kuma-get-jwt ${instance.url} <username> <password>. `
+        + 'Note this variable may also be set in your shell environment as well as your MCP client '
+        + 'config — check both and make sure they agree.';
+    };
+
+    // Authenticates the client (to be called after transport is connected).
+    //
+    // Memoised on two axes. Returning early when already authenticated makes it safe to call
+    // from every tool handler; sharing one in-flight promise stops concurrent calls opening a
+    // second socket.io connection during the handshake.
+    const authenticate = async (): Promise<void> => {
+      if (isAuthenticated) return;
+      if (authInFlight) return authInFlight;
+
+      authInFlight = (async () => {
+        try {
+          // Reuse a live socket. connect() unconditionally assigns a new one, so every retry
+          // orphaned the previous socket — still holding listeners, still reconnecting.
+          await client.ensureConnected();
+          await client.login(instance.username, instance.password, instance.token, instance.jwtToken);
+
+          // Logging in anonymously gives no indication that authentication failed.
+          // So instead, we issue a getSettings call after login, to prove the connection is working.
+          await client.getSettings();
+          isAuthenticated = true;
+
+          await server.sendLoggingMessage({
+            level: 'info',
+            data: `Successfully authenticated with Uptime Kuma${label}`
+          });
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          const credentialProblem = describeCredential();
+          const detail = credentialProblem ? `${errorMessage}. ${credentialProblem}` : errorMessage;
+          await server.sendLoggingMessage({
+            level: 'error',
+            data: `Failed to authenticate with Uptime Kuma${label}: ${detail}`
+          });
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Failed to authenticate with Uptime Kuma${label}: ${detail}`
+          );
+        }
+      })();
 
-  // Function to authenticate the client (to be called after transport is connected).
-  //
-  // Memoised on two axes. Returning early when already authenticated makes it safe to call
-  // from every tool handler; sharing one in-flight promise stops concurrent calls opening a
-  // second socket.io connection during the handshake.
-  const authenticateClient = async (): Promise<void> => {
-    if (isAuthenticated) return;
-    if (authInFlight) return authInFlight;
-
-    authInFlight = (async () => {
       try {
-        // Reuse a live socket. connect() unconditionally assigns a new one, so every retry
-        // orphaned the previous socket — still holding listeners, still reconnecting.
-        await client.ensureConnected();
-        await client.login(config.username, config.password, config.token, config.jwtToken);
-
-        // Logging in anonymously gives no indication that authentication failed.
-        // So instead, we issue a getSettings call after login, to prove the connection is working.
-        await client.getSettings();
-        isAuthenticated = true;
-
-        await server.sendLoggingMessage({
-          level: 'info',
-          data: 'Successfully authenticated with Uptime Kuma'
-        });
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        const credentialProblem = describeCredential();
-        const detail = credentialProblem ? `${errorMessage}. ${credentialProblem}` : errorMessage;
-        await server.sendLoggingMessage({
-          level: 'error',
-          data: `Failed to authenticate with Uptime Kuma: ${detail}`
-        });
-        throw new McpError(
-          ErrorCode.InternalError,
-          `Failed to authenticate with Uptime Kuma: ${detail}`
-        );
+        return await authInFlight;
+      } finally {
+        // Always clear the in-flight promise once it settles. Clearing only on failure meant
+        // that after the first success it stayed set forever, so once a session could be
+        // invalidated, authenticate() would return that stale resolved promise and skip
+        // re-authenticating entirely.
+        authInFlight = null;
       }
-    })();
+    };
 
-    try {
-      return await authInFlight;
-    } finally {
-      // Always clear the in-flight promise once it settles. Clearing only on failure meant
-      // that after the first success it stayed set forever, so once a session could be
-      // invalidated, authenticateClient() would return that stale resolved promise and skip
-      // re-authenticating entirely.
-      authInFlight = null;
-    }
+    return { name: instance.name, url: instance.url, client, authenticate, isAuthenticated: () => isAuthenticated };
   };
 
+  const instances = instanceConfigs.map(connectInstance);
+  const defaultInstance = instances[0];
+  const instancesByName = new Map(instances.map((instance) => [instance.name, instance]));
+
+  // The handlers below are written against one `client` and one `authenticateClient`. With
+  // several instances configured, both resolve to the instance the current tool call
+  // addressed, which the registerTool wrapper sets for the duration of the call. Outside a
+  // tool call — resources, cache notifications — they are the default instance.
+  const activeInstance = new AsyncLocalStorage<KumaInstance>();
+  const currentInstance = (): KumaInstance => activeInstance.getStore() ?? defaultInstance;
+
+  const client = new Proxy(defaultInstance.client, {
+    get: (_target, property) => {
+      const target = currentInstance().client;
+      const value: unknown = Reflect.get(target, property, target);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+    set: (_target, property, value) => Reflect.set(currentInstance().client, property, value),
+  });
+
+  const authenticateClient = (): Promise<void> => currentInstance().authenticate();
+
+  // List tools that accept instance: "*". Their results concatenate meaningfully, each item
+  // tagged with the instance it came from; anything keyed by ID or acting on one record does not.
+  const FAN_OUT_TOOLS = new Set([
+    'getMonitorSummary',
+    'listMonitors',
+    'listNotifications',
+    'listTags',
+    'getMaintenanceWindows',
+    'listStatusPages',
+    'listDockerHosts',
+  ]);
+
+  // Tools whose answer does not depend on an instance, so an `instance` argument would only mislead.
+  const INSTANCE_AGNOSTIC_TOOLS = new Set(['listInstances', 'listMonitorTypes', 'getAuditLog']);
+
+  /**
+   * Adds the optional `instance` argument to a tool and runs its handler against the named
+   * instance. An enum rather than a free string, so the advertised schema lists the valid
+   * names and a typo is rejected before the handler runs.
+   */
+  function addInstanceArgument(name: string, shape: z.ZodRawShape, config: Record<string, unknown>, cb: ToolCallback) {
+    const fansOut = FAN_OUT_TOOLS.has(name);
+    const names = instances.map((instance) => instance.name);
+    const instanceParam = z.enum((fansOut ? [...names, ALL_INSTANCES] : names) as [string, ...string[]])
+      .optional()
+      .describe(
+        `Uptime Kuma instance to act on (see listInstances). Default: '${defaultInstance.name}'.`
+        + (fansOut ? ` Pass "${ALL_INSTANCES}" to query every instance; each item then carries an \`instance\` field.` : '')
+      );
+
+    const outputSchema = config.outputSchema as z.ZodRawShape | undefined;
+    const routed: ToolCallback = async (args, extra) => {
+      const { instance, ...rest } = args as Record<string, unknown>;
+      if (instance === ALL_INSTANCES) return fanOut(cb, rest, extra);
+      const target = instance === undefined ? defaultInstance : instancesByName.get(instance as string)!;
+      return activeInstance.run(target, () => cb(rest, extra));
+    };
+
+    return {
+      shape: { ...shape, instance: instanceParam },
+      config: fansOut && outputSchema ? { ...config, outputSchema: tagOutputSchema(outputSchema) } : config,
+      cb: routed,
+    };
+  }
+
+  /** Lets each array item of a fan-out tool's output carry its instance, and adds instanceErrors. */
+  function tagOutputSchema(shape: z.ZodRawShape): z.ZodRawShape {
+    const tagged = Object.entries(shape).map(([key, schema]) => {
+      if (!(schema instanceof z.ZodArray) || !(schema.element instanceof z.ZodObject)) return [key, schema];
+      const items = z.array(schema.element.extend({
+        instance: z.string().optional().describe('The instance this item came from (only when instance is "*")'),
+      }));
+      return [key, schema.description ? items.describe(schema.description) : items];
+    });
+    return {
+      ...Object.fromEntries(tagged),
+      instanceErrors: z.array(z.object({ instance: z.string(), error: z.string() })).optional()
+        .describe('Instances that could not be queried (only when instance is "*"). The other instances\' results are still returned.'),
+    };
+  }
+
+  /**
+   * Runs a list tool against every instance at once and merges the results: arrays are
+   * concatenated with each item tagged with its instance, counts are summed. One unreachable
+   * instance is reported in instanceErrors rather than failing the call, since "what is down
+   * everywhere?" is exactly the question asked while something is down.
+   */
+  async function fanOut(cb: ToolCallback, args: Record<string, unknown>, extra: unknown): Promise<CallToolResult> {
+    const settled = await Promise.allSettled(
+      instances.map((instance) => activeInstance.run(instance, async () => (await cb(args, extra)) as CallToolResult))
+    );
+
+    const merged: Record<string, unknown> = {};
+    const instanceErrors: Array<{ instance: string; error: string }> = [];
+    settled.forEach((outcome, index) => {
+      const instance = instances[index].name;
+      if (outcome.status === 'rejected') {
+        const error = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+        instanceErrors.push({ instance, error });
+        return;
+      }
+      for (const [key, value] of Object.entries(outcome.value.structuredContent ?? {})) {
+        if (Array.isArray(value)) {
+          const items = value.map((item) => ({ ...(item as Record<string, unknown>), instance }));
+          merged[key] = [...((merged[key] as unknown[] | undefined) ?? []), ...items];
+        } else if (typeof value === 'number') {
+          merged[key] = ((merged[key] as number | undefined) ?? 0) + value;
+        }
+      }
+    });
+
+    if (instanceErrors.length === instances.length) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Failed on every instance: ${instanceErrors.map((e) => `${e.instance}: ${e.error}`).join('; ')}`
+      );
+    }
+
+    const structuredContent = instanceErrors.length > 0 ? { ...merged, instanceErrors } : merged;
+    return {
+      content: [{ type: 'text', text: JSON.stringify(structuredContent, null, 2) }],
+      structuredContent,
+    };
+  }
+
+  /**
+   * Appends every call of a write tool to the audit log (see audit-log.ts), whatever its
+   * outcome. Wraps the handler inside the instance routing, so the snapshots are read from the
+   * instance the call acted on.
+   *
+   * A call about one monitor — `monitorID` in, or a `monitorID` out as createMonitor and
+   * cloneMonitor return — records that monitor as stored before and after. The snapshots are
+   * best effort: one that cannot be read is null, and never fails the call.
+   */
+  function auditToolCall(path: string, name: string, cb: ToolCallback): ToolCallback {
+    const snapshot = async (monitorID: number): Promise<Record<string, unknown> | null> => {
+      try {
+        await authenticateClient();
+        return redactSecrets(await client.fetchMonitor(monitorID));
+      } catch {
+        return null;
+      }
+    };
+
+    return async (args, extra) => {
+      const argMonitorID = typeof args.monitorID === 'number' ? args.monitorID : undefined;
+      const before = argMonitorID !== undefined ? await snapshot(argMonitorID) : undefined;
+
+      let result: CallToolResult | undefined;
+      let error: string | undefined;
+      try {
+        result = (await cb(args, extra)) as CallToolResult;
+        return result;
+      } catch (e) {
+        error = e instanceof Error ? e.message : 'Unknown error';
+        throw e;
+      } finally {
+        const structured = (result?.structuredContent ?? null) as Record<string, unknown> | null;
+        const monitorID = typeof structured?.monitorID === 'number' ? structured.monitorID : argMonitorID;
+        const entry: AuditLogEntry = {
+          timestamp: new Date().toISOString(),
+          tool: name,
+          caller: callerIdentity(extra),
+          ...(multiInstance ? { instance: currentInstance().name } : {}),
+          arguments: redactSecrets(args),
+          ok: error === undefined && !result?.isError && structured?.ok !== false,
+          ...(error !== undefined ? { error } : {}),
+          result: structured ? redactSecrets(structured) : null,
+          ...(monitorID !== undefined ? {
+            monitorID,
+            before: monitorID === argMonitorID ? before : null,
+            after: await snapshot(monitorID),
+          } : {}),
+        };
+        try {
+          await appendAuditEntry(path, entry);
+        } catch (appendError) {
+          const errorMessage = appendError instanceof Error ? appendError.message : 'Unknown error';
+          process.stderr.write(`Failed to write audit log ${path}: ${errorMessage}\n`);
+        }
+      }
+    };
+  }
+
   // Register getMonitor tool
   server.registerTool(
     'getMonitor',
@@ -813,515 +1164,1557 @@ export async function createServer(config: UptimeKumaConfig): Promise<{ server:
     }
   );
 
-  // ─── Monitor write tools ──────────────────────────────────────────────────
+  // ─── Monitor selection ────────────────────────────────────────────────────
 
-  // Uptime Kuma's editMonitor handler reads these fields under camelCase names on the wire
-  // (server/server.js: `bean.jsonPath = monitor.jsonPath`, `bean.pushToken = monitor.pushToken`,
-  // …) while the database columns are snake_case (json_path, push_token). The snake_case
-  // spellings are what the schema documentation, the database and issue #60 all use, so they
-  // are the ones callers reach for first. Accept both and normalise onto the name Kuma reads,
-  // rather than letting a reasonable guess silently do nothing.
-  const MONITOR_FIELD_ALIASES: Record<string, string> = {
-    json_path: 'jsonPath',
-    json_path_operator: 'jsonPathOperator',
-    expected_value: 'expectedValue',
-    push_token: 'pushToken',
+  // Tools that act on several monitors pick them three ways, combined as a union: explicit
+  // IDs, a tag filter (the same 'name' / 'name=value' syntax as getMonitorSummary), or a
+  // group — which, unlike the parentId filter, takes the whole branch beneath it, because
+  // "the database group is in maintenance" means its nested groups too.
+  const monitorSelectorParams = {
+    monitorIDs: z.array(numeric(z.number().int().nonnegative())).optional().describe('Monitor IDs to select'),
+    tags: z.string().optional().describe('Select monitors carrying ALL of these tags (comma-separated, "name" or "name=value", case-insensitive)'),
+    groupID: numeric(z.number().int().nonnegative()).optional().describe('Select this group monitor and every monitor nested under it, at any depth'),
   };
 
-  const normaliseMonitorAliases = (fields: Record<string, unknown>): Record<string, unknown> => {
-    for (const [alias, canonical] of Object.entries(MONITOR_FIELD_ALIASES)) {
-      if (!(alias in fields)) continue;
-      if (canonical in fields && fields[canonical] !== fields[alias]) {
-        throw new Error(
-          `Conflicting values for ${canonical} (${JSON.stringify(fields[canonical])}) and its alias ${alias} (${JSON.stringify(fields[alias])}) — pass only '${canonical}'.`
-        );
+  type MonitorSelector = { monitorIDs?: number[]; tags?: string; groupID?: number };
+
+  const hasMonitorSelector = (selector: MonitorSelector): boolean =>
+    selector.monitorIDs !== undefined || selector.tags !== undefined || selector.groupID !== undefined;
+
+  /**
+   * Resolves a selector to monitor IDs, in a stable order without duplicates. Every part that
+   * was given must match something: a typo in a tag name otherwise selects nothing, and an
+   * empty selection fed to a replace operation silently clears the set.
+   */
+  const resolveMonitorSelector = (selector: MonitorSelector): number[] => {
+    const known = client.getMonitorList();
+    const ids = new Set<number>();
+
+    if (selector.monitorIDs) {
+      const unknown = selector.monitorIDs.filter((id) => !(String(id) in known));
+      if (unknown.length > 0) {
+        throw new Error(`Monitor ID(s) not found: ${unknown.join(', ')} — call getMonitorSummary to see available IDs`);
       }
-      fields[canonical] = fields[alias];
-      delete fields[alias];
+      selector.monitorIDs.forEach((id) => ids.add(id));
     }
-    return fields;
-  };
 
-  // Uptime Kuma generates push tokens in the browser (src/pages/EditMonitor.vue:
-  // genSecret(pushTokenLength) with pushTokenLength = 32). Match its length and alphabet.
-  const generatePushToken = (): string => {
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-    const bytes = randomBytes(32 * 2);
-    let token = '';
-    // Rejection sampling — modulo on a raw byte would bias the alphabet.
-    const max = 256 - (256 % chars.length);
-    for (let i = 0; token.length < 32 && i < bytes.length; i++) {
-      if (bytes[i] < max) token += chars[bytes[i] % chars.length];
+    if (selector.tags !== undefined) {
+      const tagged = client.getMonitorSummary({ tags: selector.tags });
+      if (tagged.length === 0) {
+        throw new Error(`No monitors carry the tag filter "${selector.tags}" — call listTags to see available tags`);
+      }
+      tagged.forEach((monitor) => ids.add(monitor.id));
     }
-    while (token.length < 32) token += chars[randomInt(0, chars.length)];
-    return token;
-  };
-
-  // Uptime Kuma's own intent for an unset timeout is 0.8 x interval; only its unit handling is
-  // wrong. Storing the value at creation means the buggy runtime fallback never runs.
-  // push never polls and group has no request of its own, so both correctly keep 0.
-  const defaultTimeoutForInterval = (type: string, interval?: number): number | undefined => {
-    if (type === 'push' || type === 'group') return undefined;
-    const seconds = Math.round((interval ?? 60) * 0.8 * 10) / 10;
-    // Monitor.validate() rejects a ping timeout outside PING_GLOBAL_TIMEOUT_MIN/MAX (1..300).
-    if (type === 'ping') return Math.min(Math.max(Math.round(seconds), 1), 300);
-    return seconds;
-  };
 
-  const asText = (v: unknown): string | null =>
-    v === null || v === undefined || v === '' ? null : String(v);
-  const asNumber = (v: unknown): number | null =>
-    v === null || v === undefined || v === '' ? null : Number(v);
-
-  interface VerifiedField {
-    read: (v: unknown) => string | number | null;
-    equals?: (wanted: string | number | null, stored: string | number | null) => boolean;
-    /** Never put this field's value in an error message — it is a credential. */
-    secret?: boolean;
-    hint: string;
-  }
+    if (selector.groupID !== undefined) {
+      const branch = client.getMonitorSubtreeIDs(selector.groupID);
+      if (branch.length === 0) {
+        throw new Error(`Group monitor ${selector.groupID} not found — call getMonitorSummary with type "group" to see available groups`);
+      }
+      branch.forEach((id) => ids.add(id));
+    }
 
-  /**
-   * The fields where a write that quietly does not land is dangerous: it either produces a
-   * monitor that silently cannot report (timeout, pushToken, the json-query triple) or loses
-   * information with no error (description, parent).
-   *
-   * These are exactly the fields #58, #60 and #63 were filed about. Declaring them in the
-   * schema stops them being stripped; reading them back is what proves they were stored.
-   */
-  const VERIFIED_MONITOR_FIELDS: Record<string, VerifiedField> = {
-    parent: {
-      read: asNumber,
-      hint: 'Uptime Kuma rejects a parent that is one of this monitor\'s own descendants, and the parent must be a monitor of type "group".',
-    },
-    description: {
-      read: asText,
-      hint: 'See #58 — the class of bug where the field is accepted and written as NULL.',
-    },
-    timeout: {
-      read: asNumber,
-      // Monitor.validate() rounds a ping timeout to whole seconds, so 47.5 -> 48 is correct
-      // rather than a failure. Anything else must match exactly.
-      equals: (wanted, stored) =>
-        wanted === stored ||
-        (typeof wanted === 'number' && typeof stored === 'number' && Math.round(wanted) === stored),
-      hint: 'timeout is stored in SECONDS, and a stored 0 is not "no timeout": Uptime Kuma\'s runtime fallback turns it into ~13 hours, so the monitor can never report DOWN against a black-holed endpoint.',
-    },
-    jsonPath: { read: asText, hint: 'See #60.' },
-    jsonPathOperator: { read: asText, hint: 'See #60.' },
-    expectedValue: { read: asText, hint: 'See #60 — the threshold is stored as a string.' },
-    pushToken: {
-      read: asText,
-      secret: true,
-      hint: 'See #60 — a push monitor with no token has no ping URL and can never report, while looking identical to one merely awaiting its first beat.',
-    },
+    return [...ids].sort((a, b) => a - b);
   };
 
-  /**
-   * Reads the monitor back after a write and proves the fields above actually landed.
-   *
-   * `{"ok":true,"msg":"Saved."}` means the socket call returned, not that your field was
-   * stored — Uptime Kuma answers that for any edit it accepts, including one that changed
-   * nothing. That is the whole reason #58/#60/#63 were each filed as separate bugs: there is
-   * nothing in the response to tell a partial write from a complete one.
-   *
-   * Uses `fetchMonitor()` (Kuma's `getMonitor` handler, which reads the DB) and NOT
-   * `getMonitor()` (which serves `monitorListCache`, refreshed by pushed events that can
-   * arrive after this write's callback resolved — so it can echo a write that never happened).
-   *
-   * Returns the problem as a string rather than throwing: by the time this runs the write has
-   * already happened, so the caller still has to report the monitorID and any generated push
-   * token. Throwing from here would unwind into the handler's catch, which reports "Failed to
-   * create monitor" and returns no structured content at all — see the call sites.
-   */
-  const verifyMonitorWrite = async (
-    monitorID: number,
-    requested: Record<string, unknown>,
-    operation: string
-  ): Promise<string | null> => {
-    const fields = Object.keys(VERIFIED_MONITOR_FIELDS).filter((f) => f in requested);
-    if (fields.length === 0) return null;
-
-    let fresh: Record<string, unknown>;
-    try {
-      fresh = await client.fetchMonitor(monitorID);
-    } catch (verifyError) {
-      const m = verifyError instanceof Error ? verifyError.message : String(verifyError);
-      return (
-        `Monitor ${monitorID} was ${operation}, but the write of ${fields.join(', ')} could NOT be verified: ${m}. ` +
-        'Do not assume it applied — check the monitor before relying on it.'
-      );
-    }
+  // ─── Reports ──────────────────────────────────────────────────────────────
 
-    const mismatches: string[] = [];
-    for (const field of fields) {
-      const spec = VERIFIED_MONITOR_FIELDS[field];
-      const wanted = spec.read(requested[field]);
-      const stored = spec.read(fresh[field]);
-      if (spec.equals ? spec.equals(wanted, stored) : wanted === stored) continue;
+  server.registerTool(
+    'getUptimeReport',
+    {
+      title: 'Get Uptime Report',
+      description: 'Computes availability over any date range for a set of monitors — for SLA reviews, where the cached uptime periods (24h, 30d, …) and the 100-beat history do not reach. Per monitor, and in total: availability % (UP beats over UP + DOWN beats, as Uptime Kuma measures uptime), downtime minutes, incident count, MTTR and MTBF. Select monitors by ID, tag or group. Times without a zone are UTC. Returns a markdown table by default, or JSON.',
+      inputSchema: {
+        ...monitorSelectorParams,
+        start: z.string().describe('Start of the range, ISO-8601 (e.g. "2026-09-01"). UTC unless a zone is given'),
+        end: z.string().optional().describe('End of the range, exclusive (e.g. "2026-10-01"). Default: now'),
+        format: z.enum(['markdown', 'json']).optional().default('markdown').describe('Format of the text result. The structured result is always JSON'),
+      },
+      outputSchema: UptimeReportSchema.shape,
+    },
+    async ({ monitorIDs, tags, groupID, start, end, format }) => {
+      await authenticateClient();
 
-      mismatches.push(
-        spec.secret
-          ? `${field}: sent a ${wanted === null ? 'null' : `${String(wanted).length}-character`} value, server reports ` +
-            `${stored === null ? 'nothing stored' : `a different ${String(stored).length}-character value`} ` +
-            `(value withheld — it is a credential). ${spec.hint}`
-          : `${field}: asked for ${JSON.stringify(wanted)}, server reports ${JSON.stringify(stored)}. ${spec.hint}`
-      );
-    }
+      try {
+        const selector = { monitorIDs, tags, groupID };
+        if (!hasMonitorSelector(selector)) {
+          throw new Error('Select the monitors to report on with monitorIDs, tags or groupID');
+        }
+        const report = await buildUptimeReport(client, resolveMonitorSelector(selector), {
+          start: parseReportTime(start, 'start'),
+          end: end === undefined ? Date.now() : parseReportTime(end, 'end'),
+        });
 
-    if (mismatches.length > 0) {
-      return (
-        `Monitor ${monitorID} was ${operation} and Uptime Kuma acknowledged it, but the following did NOT persist:\n` +
-        `  - ${mismatches.join('\n  - ')}\n` +
-        'Uptime Kuma answers "Saved." for any edit it accepts, including one that changed nothing.'
-      );
+        return {
+          content: [{ type: 'text', text: format === 'json' ? JSON.stringify(report, null, 2) : formatUptimeReportMarkdown(report) }],
+          structuredContent: report,
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to build uptime report: ${errorMessage}`);
+      }
     }
-
-    return null;
-  };
+  );
 
   server.registerTool(
-    'createMonitor',
+    'getIncidents',
     {
-      title: 'Create Monitor',
-      description: 'Creates a new monitor in Uptime Kuma. Requires at minimum a name and type. Use listMonitorTypes to see supported types. For HTTP monitors include url; for TCP/port monitors include hostname and port; for json-query include url, jsonPath, jsonPathOperator and expectedValue. A push monitor is given a generated push token (Uptime Kuma only generates one in its own web UI) and the resulting ping URL is returned. timeout defaults to 0.8 x interval seconds for polled types.',
+      title: 'Get Incidents',
+      description: 'Reconstructs the incident timeline for a set of monitors, for postmortems: every DOWN paired with the next UP, across the whole status-change history in the range rather than one page of raw beats. Each incident carries its start, end, duration, the error the monitor reported when it went down, and whether it overlapped maintenance (a MAINTENANCE beat, or a window covering the monitor or its group scheduled during it — judged by the window\'s current schedule). Select monitors by ID, tag or group. Times are UTC.',
       inputSchema: {
-        name: z.string().describe('Display name for the monitor'),
-        type: z.string().describe('Monitor type (e.g. http, port, ping, dns, push, keyword). Use listMonitorTypes for all options.'),
-        description: z.string().nullable().optional().describe('Free-text description shown on the monitor page'),
-        active: z.boolean().optional().describe('Whether the monitor starts checking immediately (default: true). Pass false to create it paused.'),
-        resendInterval: numeric(z.number()).optional().describe('Resend notification every N checks while down (0 = disabled, the default)'),
-        timeout: numeric(z.number()).nullable().optional().describe('Request timeout in SECONDS. Omit for 0.8 x interval. Avoid 0: Uptime Kuma\'s runtime fallback for a stored 0 computes interval * 1000 * 0.8 and then multiplies by 1000 again, yielding a ~13 hour timeout, so the monitor can never report DOWN against a host that accepts the connection and never answers.'),
-        jsonPath: z.string().optional().describe('JSONata expression for json-query monitors. Must resolve to a primitive.'),
-        json_path: z.string().optional().describe('Alias for jsonPath (the database column name). Prefer jsonPath.'),
-        jsonPathOperator: z.enum(['>', '>=', '<', '<=', '==', '!=', 'contains']).optional().describe('Comparison operator for json-query monitors. UP while value <operator> expectedValue.'),
-        json_path_operator: z.enum(['>', '>=', '<', '<=', '==', '!=', 'contains']).optional().describe('Alias for jsonPathOperator. Prefer jsonPathOperator.'),
-        expectedValue: z.coerce.string().optional().describe('Threshold the json-query result is compared against. Stored as a string.'),
-        expected_value: z.coerce.string().optional().describe('Alias for expectedValue. Prefer expectedValue.'),
-        pushToken: z.string().min(8).optional().describe('Push token for push monitors — the secret in the ping URL. Omit and one is generated and returned.'),
-        push_token: z.string().min(8).optional().describe('Alias for pushToken (the database column name). Prefer pushToken.'),
-        url: z.string().optional().describe('URL to monitor (required for http/keyword/json-query types)'),
-        hostname: z.string().optional().describe('Hostname to monitor (required for port/ping/dns types)'),
-        port: numeric(z.number()).optional().describe('Port number (required for port/tcp types)'),
-        interval: numeric(z.number()).optional().describe('Check interval in seconds (default: 60)'),
-        retryInterval: numeric(z.number()).optional().describe('Retry interval in seconds when monitor is down (default: 60)'),
-        maxretries: numeric(z.number()).optional().describe('Max retries before marking as down (default: 0)'),
-        notificationIDList: z.record(z.string(), z.boolean()).optional().describe('Map of notification IDs to enable (e.g. {"1": true, "3": true})'),
-        tags: z.array(z.object({
-          name: z.string(),
-          value: z.string().optional(),
-          color: z.string().optional(),
-        })).optional().describe('Tags to assign to the monitor'),
-        keyword: z.string().optional().describe('Keyword to search for (keyword monitor type)'),
-        invertKeyword: z.boolean().optional().describe('Invert keyword match'),
-        method: z.string().optional().describe('HTTP method (GET, POST, etc.) for http type'),
-        body: z.string().optional().describe('HTTP request body'),
-        headers: z.string().optional().describe('HTTP headers as JSON string'),
-        accepted_statuscodes: z.array(z.string()).optional().describe('Accepted HTTP status codes (e.g. ["200-299"])'),
-        ignoreTls: z.boolean().optional().describe('Ignore TLS/SSL errors'),
-        maxredirects: numeric(z.number()).optional().describe('Max HTTP redirects (default: 10)'),
-        upsideDown: z.boolean().optional().describe('Invert status — treat up as down'),
-        parent: numeric(z.number()).nullable().optional().describe('Parent group monitor ID'),
-        docker_container: z.string().optional().describe('Docker container name (required for docker type)'),
-        docker_host: numeric(z.number()).optional().describe('Docker host ID (required for docker type). Use listDockerHosts to find available IDs.'),
-        dns_resolve_server: z.string().optional().describe('DNS server to use for resolution (required for dns type, default: 1.1.1.1)'),
-        dns_resolve_type: z.enum(['A', 'AAAA', 'CNAME', 'MX', 'NS', 'PTR', 'SOA', 'SRV', 'TXT', 'CAA']).optional().describe('DNS record type to query (required for dns type, default: A)'),
+        ...monitorSelectorParams,
+        start: z.string().optional().describe('Start of the range, ISO-8601. UTC unless a zone is given. Default: 7 days ago'),
+        end: z.string().optional().describe('End of the range, exclusive. Default: now'),
       },
       outputSchema: {
-        ok: z.boolean(),
-        monitorID: z.number().optional(),
-        msg: z.string().optional(),
-        pushToken: z.string().optional().describe('Push monitors only. The token, so the sender can be wired up without a second, wider read.'),
-        pushURL: z.string().optional().describe('Push monitors only. The URL the sender should GET.'),
-        timeout: z.number().optional().describe('The timeout in seconds actually stored, including the default applied when omitted.'),
+        start: z.string(),
+        end: z.string(),
+        incidents: z.array(MonitorIncidentSchema).describe('Oldest first'),
+        count: z.number(),
+        notes: z.array(z.string()),
       },
     },
-    async (input) => {
+    async ({ monitorIDs, tags, groupID, start, end }) => {
       await authenticateClient();
 
       try {
-        const defaults: Record<string, unknown> = {
-          notificationIDList: {} as Record<string, boolean>,
-          accepted_statuscodes: ['200-299'],
-          conditions: [] as string[],
-          retryInterval: 60,
-        };
-        if (input.type === 'dns') {
-          defaults.dns_resolve_server = '1.1.1.1';
-          defaults.dns_resolve_type = 'A';
+        const selector = { monitorIDs, tags, groupID };
+        if (!hasMonitorSelector(selector)) {
+          throw new Error('Select the monitors with monitorIDs, tags or groupID');
         }
+        const now = Date.now();
+        const timeline = await buildIncidentTimeline(client, resolveMonitorSelector(selector), {
+          start: start === undefined ? now - 7 * 24 * 60 * 60 * 1000 : parseReportTime(start, 'start'),
+          end: end === undefined ? now : parseReportTime(end, 'end'),
+          now,
+        });
 
-        const requested = normaliseMonitorAliases({ ...input } as Record<string, unknown>);
+        return {
+          content: [{ type: 'text', text: formatIncidentTimeline(timeline) }],
+          structuredContent: { ...timeline, count: timeline.incidents.length },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to get incidents: ${errorMessage}`);
+      }
+    }
+  );
+
+  server.registerTool(
+    'correlateOutages',
+    {
+      title: 'Correlate Outages',
+      description: 'Finds monitors that went DOWN together — within windowSeconds of each other — and points to the likely shared root: a common parent group, hostname, docker host or tag. Use this when many monitors are down at once, to tell one failed dependency from many separate failures. Reads the cached heartbeats (roughly the last 100 per monitor); group monitors are treated as possible causes, not members.',
+      inputSchema: {
+        windowSeconds: numeric(z.number().int().positive().max(3600)).optional().default(120).describe('How close together DOWNs must be to count as one outage, measured from the first. Default: 120'),
+        minMonitors: numeric(z.number().int().min(2)).optional().default(2).describe('Smallest number of monitors that makes a cluster. Default: 2'),
+        sinceMinutes: numeric(z.number().int().positive()).optional().describe('Only consider DOWNs in the last N minutes. Default: everything cached'),
+      },
+      outputSchema: {
+        clusters: z.array(OutageClusterSchema).describe('Oldest first'),
+        count: z.number(),
+      },
+    },
+    async ({ windowSeconds, minMonitors, sinceMinutes }) => {
+      await authenticateClient();
+
+      try {
+        const clusters = correlateOutages(client, {
+          windowSeconds,
+          minMonitors,
+          since: sinceMinutes === undefined ? undefined : Date.now() - sinceMinutes * 60 * 1000,
+        });
+
+        return {
+          content: [{ type: 'text', text: formatOutageClusters(clusters, windowSeconds) }],
+          structuredContent: { clusters, count: clusters.length },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to correlate outages: ${errorMessage}`);
+      }
+    }
+  );
+
+  server.registerTool(
+    'getLatencyStats',
+    {
+      title: 'Get Latency Stats',
+      description: 'Computes response-time statistics per monitor — p50/p90/p99, standard deviation and trend (ms per hour) — and flags monitors whose recent response time departs from their own baseline: the mean of the last recentBeats UP beats, scored in standard deviations (z-score) against the beats before them. Use this for "what\'s getting slower?". Reads the cached beats (about 100 per monitor) unless periodHours asks for a longer history from the server. Without a selector, covers every monitor except groups.',
+      inputSchema: {
+        ...monitorSelectorParams,
+        periodHours: numeric(z.number().int().positive().max(720)).optional().describe('Fetch the last N hours of beats from the server instead of using the cache'),
+        recentBeats: numeric(z.number().int().positive().max(100)).optional().default(10).describe('How many of the newest UP beats count as "recent". Default: 10'),
+        threshold: numeric(z.number().positive()).optional().default(3).describe('|z-score| at which a monitor is flagged. Default: 3'),
+        onlyAnomalies: z.boolean().optional().default(false).describe('Return only flagged monitors'),
+      },
+      outputSchema: {
+        monitors: z.array(LatencyStatsSchema).describe('Flagged monitors first, the most slowed-down at the top'),
+        count: z.number(),
+        anomalies: z.number(),
+      },
+    },
+    async ({ monitorIDs, tags, groupID, periodHours, recentBeats, threshold, onlyAnomalies }) => {
+      await authenticateClient();
+
+      try {
+        const selector = { monitorIDs, tags, groupID };
+        const known = client.getMonitorList();
+        const ids = hasMonitorSelector(selector)
+          ? resolveMonitorSelector(selector)
+          : Object.values(known).filter((m) => m.type !== 'group').map((m) => m.id as number).sort((a, b) => a - b);
+
+        const stats = [];
+        for (const monitorID of ids) {
+          const beats = periodHours === undefined
+            ? client.getHeartbeatsForMonitor(monitorID, Number.MAX_SAFE_INTEGER)
+            : await client.fetchMonitorBeats(monitorID, periodHours);
+          const name = known[String(monitorID)]?.pathName ?? `Monitor ${monitorID}`;
+          stats.push(latencyStats({ monitorID, name }, beats, { recentBeats, threshold }));
+        }
+        // Without a selector, monitors that never report a response time (push, group-like
+        // types) would only be noise.
+        const monitors = rankLatencyStats(stats.filter((s) =>
+          (hasMonitorSelector(selector) || s.samples > 0) && (!onlyAnomalies || s.anomaly !== null)));
+        const anomalies = monitors.filter((s) => s.anomaly !== null).length;
+
+        return {
+          content: [{ type: 'text', text: monitors.length === 0 ? 'No monitors with response times match.' : formatLatencyStats(monitors) }],
+          structuredContent: { monitors, count: monitors.length, anomalies },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to get latency stats: ${errorMessage}`);
+      }
+    }
+  );
+
+  server.registerTool(
+    'findFlappingMonitors',
+    {
+      title: 'Find Flapping Monitors',
+      description: 'Finds monitors that keep flipping between UP and DOWN — each flip a notification — by counting their transitions in the last windowMinutes, ranked by flaps per hour. For each, suggests maxretries / retryInterval sized to outlast its typical blip; the suggestion object can be passed to updateMonitor as it stands. A monitor whose DOWNs typically last over 30 minutes gets no suggestion: those are recurring outages, not blips. Without a selector, covers every monitor except groups.',
+      inputSchema: {
+        ...monitorSelectorParams,
+        windowMinutes: numeric(z.number().int().positive().max(7 * 24 * 60)).optional().default(60).describe('How far back to count, in minutes. Default: 60'),
+        minTransitions: numeric(z.number().int().positive()).optional().default(4).describe('Fewest UP↔DOWN changes that count as flapping. Default: 4 (two DOWN/UP cycles)'),
+      },
+      outputSchema: {
+        monitors: z.array(FlappingMonitorSchema).describe('Most frequent first'),
+        count: z.number(),
+      },
+    },
+    async ({ monitorIDs, tags, groupID, windowMinutes, minTransitions }) => {
+      await authenticateClient();
+
+      try {
+        const selector = { monitorIDs, tags, groupID };
+        const monitors = await findFlappingMonitors(client, {
+          windowMinutes,
+          minTransitions,
+          monitorIDs: hasMonitorSelector(selector) ? resolveMonitorSelector(selector) : undefined,
+        });
+
+        return {
+          content: [{ type: 'text', text: formatFlappingMonitors(monitors, windowMinutes) }],
+          structuredContent: { monitors, count: monitors.length },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to find flapping monitors: ${errorMessage}`);
+      }
+    }
+  );
+
+  server.registerTool(
+    'getCertificateExpiry',
+    {
+      title: 'Get Certificate Expiry',
+      description: 'Lists the TLS certificate behind every HTTPS monitor (types http, keyword, json-query) with its subject, issuer, expiry date, days remaining and whether it validated — most urgent first: invalid, expired, expiring, ok, then unknown (no certificate reported yet, e.g. paused). "Expiring" starts at the largest of the server\'s TLS expiry notification days (Settings) unless warnDays is given. Use withinDays to list only what expires soon.',
+      inputSchema: {
+        ...monitorSelectorParams,
+        withinDays: numeric(z.number().int()).optional().describe('Only certificates expiring within this many days (plus invalid ones)'),
+        warnDays: numeric(z.number().int().nonnegative()).optional().describe('Days remaining at which a certificate counts as expiring. Default: the largest of the server\'s TLS expiry notification days'),
+      },
+      outputSchema: {
+        certificates: z.array(CertificateExpirySchema).describe('Most urgent first'),
+        count: z.number(),
+        warnDays: z.number(),
+      },
+    },
+    async ({ monitorIDs, tags, groupID, withinDays, warnDays }) => {
+      await authenticateClient();
+
+      try {
+        const selector = { monitorIDs, tags, groupID };
+        let threshold = warnDays;
+        if (threshold === undefined) {
+          // Uptime Kuma's own defaults when the setting cannot be read.
+          let notifyDays = [7, 14, 21];
+          try {
+            const configured = (await client.getSettings()).data?.tlsExpiryNotifyDays;
+            if (Array.isArray(configured) && configured.length > 0) notifyDays = configured;
+          } catch {
+            // Keep the defaults — the inventory matters more than the exact threshold.
+          }
+          threshold = Math.max(...notifyDays);
+        }
+
+        let certificates = certificateExpiry(client, {
+          warnDays: threshold,
+          monitorIDs: hasMonitorSelector(selector) ? resolveMonitorSelector(selector) : undefined,
+        });
+        if (withinDays !== undefined) {
+          certificates = certificates.filter((c) =>
+            c.status === 'invalid' || (c.daysRemaining !== null && c.daysRemaining <= withinDays));
+        }
+
+        return {
+          content: [{ type: 'text', text: formatCertificateExpiry(certificates, threshold) }],
+          structuredContent: { certificates, count: certificates.length, warnDays: threshold },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to get certificate expiry: ${errorMessage}`);
+      }
+    }
+  );
+
+  server.registerTool(
+    'auditMonitors',
+    {
+      title: 'Audit Monitors',
+      description: `Checks monitor configuration against best-practice rules and returns the findings, most severe first, each with a suggested fix — and, where the fix is a plain field change, the updateMonitor arguments that apply it. Rules: ${AUDIT_RULE_IDS.join(', ')}. Rules switched off with UPTIME_KUMA_AUDIT_DISABLED_RULES never run.`,
+      inputSchema: {
+        ...monitorSelectorParams,
+        rules: z.array(z.enum(AUDIT_RULE_IDS as [string, ...string[]])).min(1).optional().describe('Only run these rules. Default: every enabled rule'),
+      },
+      outputSchema: {
+        findings: z.array(AuditFindingSchema).describe('Most severe first'),
+        count: z.number(),
+        rules: z.array(z.string()).describe('The rules that ran'),
+      },
+    },
+    async ({ monitorIDs, tags, groupID, rules }) => {
+      await authenticateClient();
+
+      try {
+        const selector = { monitorIDs, tags, groupID };
+        const monitorList = client.getMonitorList();
+        const monitors = hasMonitorSelector(selector)
+          ? resolveMonitorSelector(selector).map((id) => monitorList[String(id)]).filter(Boolean)
+          : Object.values(monitorList);
+
+        const result = auditMonitors(monitors as Array<Record<string, unknown>>, {
+          disabledRules: config.disabledAuditRules,
+          rules,
+        });
+
+        return {
+          content: [{ type: 'text', text: formatAuditFindings(result.findings, monitors.length, result.rules) }],
+          structuredContent: { findings: result.findings, count: result.findings.length, rules: result.rules },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to audit monitors: ${errorMessage}`);
+      }
+    }
+  );
+
+  // ─── Delete confirmation ──────────────────────────────────────────────────
+
+  // deleteMonitor, deleteNotification, deleteTag, deleteDockerHost and deleteStatusPage ask
+  // before they run. A client with elicitation support puts the question, with what the
+  // delete takes along, to the user — and only the user can answer it, so `confirm: true`
+  // does not skip it. Any other client gets the fallback configured for this server: a
+  // preview, then the delete once called again with `confirm: true`; or a refusal.
+  //
+  // The stateless HTTP server always uses the fallback. The elicitation request would have to
+  // travel on a stream that a JSON response does not open, so the SDK drops it and the delete
+  // hangs until the request times out. Its client capabilities are also those of whichever
+  // client initialized last, not necessarily the caller's.
+  const deleteConfirmFallback = config.deleteConfirmFallback ?? 'confirm';
+  // deleteMonitor snapshots the monitor first when there is a store, which the prompt mentions.
+  const monitorSnapshots = config.snapshotStorePath !== undefined;
+  const confirmParam = z.boolean().optional().describe(
+    'Set to true to delete after the user has seen the preview a first call returned. Only for clients that cannot ask the user themselves.'
+  );
+
+  const notDeleted = (text: string): CallToolResult => ({
+    content: [{ type: 'text', text }],
+    structuredContent: { ok: false, msg: text },
+  });
+
+  /**
+   * Returns undefined once the delete may run, or the result to return instead of deleting.
+   * Throws when this server refuses deletes the client cannot have the user confirm.
+   */
+  const confirmDelete = async (
+    target: DeleteTarget,
+    confirm: boolean | undefined,
+    extra: { requestId: string | number }
+  ): Promise<CallToolResult | undefined> => {
+    if (!statelessHttp && server.server.getClientCapabilities()?.elicitation) {
+      const impact = await deleteImpact(client, target, { monitorSnapshots });
+      const answer = await server.server.elicitInput({
+        message: formatDeleteImpact(impact),
+        requestedSchema: {
+          type: 'object',
+          properties: { confirm: { type: 'boolean', title: `Delete ${impact.subject}`, default: false } },
+          required: ['confirm'],
+        },
+      }, { relatedRequestId: extra.requestId });
+      if (answer.action === 'accept' && answer.content?.confirm === true) return undefined;
+      return notDeleted(`The user did not confirm deleting ${impact.subject}. Nothing was deleted.`);
+    }
+
+    if (deleteConfirmFallback === 'deny') {
+      throw new Error(
+        `Deletes need the user's confirmation, and ${statelessHttp ? 'the stateless HTTP endpoint cannot ask for it (run the server with --stateful to ask through elicitation)' : 'this client cannot ask for it (no elicitation support)'}. `
+        + 'This server is configured to refuse them (UPTIME_KUMA_DELETE_CONFIRM_FALLBACK=deny).'
+      );
+    }
+    if (confirm === true) return undefined;
+    const impact = await deleteImpact(client, target, { monitorSnapshots });
+    return notDeleted(
+      `${formatDeleteImpact(impact)}\n\nNothing was deleted yet. Show this to the user, and call again with confirm: true once they agree.`
+    );
+  };
+
+  // ─── Monitor write tools ──────────────────────────────────────────────────
+
+  // Uptime Kuma's editMonitor handler reads these fields under camelCase names on the wire
+  // (server/server.js: `bean.jsonPath = monitor.jsonPath`, `bean.pushToken = monitor.pushToken`,
+  // …) while the database columns are snake_case (json_path, push_token). The snake_case
+  // spellings are what the schema documentation, the database and issue #60 all use, so they
+  // are the ones callers reach for first. Accept both and normalise onto the name Kuma reads,
+  // rather than letting a reasonable guess silently do nothing.
+  const MONITOR_FIELD_ALIASES: Record<string, string> = {
+    json_path: 'jsonPath',
+    json_path_operator: 'jsonPathOperator',
+    expected_value: 'expectedValue',
+    push_token: 'pushToken',
+  };
+
+  const normaliseMonitorAliases = (fields: Record<string, unknown>): Record<string, unknown> => {
+    for (const [alias, canonical] of Object.entries(MONITOR_FIELD_ALIASES)) {
+      if (!(alias in fields)) continue;
+      if (canonical in fields && fields[canonical] !== fields[alias]) {
+        throw new Error(
+          `Conflicting values for ${canonical} (${JSON.stringify(fields[canonical])}) and its alias ${alias} (${JSON.stringify(fields[alias])}) — pass only '${canonical}'.`
+        );
+      }
+      fields[canonical] = fields[alias];
+      delete fields[alias];
+    }
+    return fields;
+  };
+
+  // Uptime Kuma generates push tokens in the browser (src/pages/EditMonitor.vue:
+  // genSecret(pushTokenLength) with pushTokenLength = 32). Match its length and alphabet.
+  const generatePushToken = (): string => {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    const bytes = randomBytes(32 * 2);
+    let token = '';
+    // Rejection sampling — modulo on a raw byte would bias the alphabet.
+    const max = 256 - (256 % chars.length);
+    for (let i = 0; token.length < 32 && i < bytes.length; i++) {
+      if (bytes[i] < max) token += chars[bytes[i] % chars.length];
+    }
+    while (token.length < 32) token += chars[randomInt(0, chars.length)];
+    return token;
+  };
+
+  // Uptime Kuma's own intent for an unset timeout is 0.8 x interval; only its unit handling is
+  // wrong. Storing the value at creation means the buggy runtime fallback never runs.
+  // push never polls and group has no request of its own, so both correctly keep 0.
+  const defaultTimeoutForInterval = (type: string, interval?: number): number | undefined => {
+    if (type === 'push' || type === 'group') return undefined;
+    const seconds = Math.round((interval ?? 60) * 0.8 * 10) / 10;
+    // Monitor.validate() rejects a ping timeout outside PING_GLOBAL_TIMEOUT_MIN/MAX (1..300).
+    if (type === 'ping') return Math.min(Math.max(Math.round(seconds), 1), 300);
+    return seconds;
+  };
+
+  server.registerTool(
+    'createMonitor',
+    {
+      title: 'Create Monitor',
+      description: 'Creates a new monitor in Uptime Kuma. Requires at minimum a name and type. Use listMonitorTypes to see supported types. For HTTP monitors include url; for TCP/port monitors include hostname and port; for json-query include url, jsonPath, jsonPathOperator and expectedValue. A push monitor is given a generated push token (Uptime Kuma only generates one in its own web UI) and the resulting ping URL is returned. timeout defaults to 0.8 x interval seconds for polled types.',
+      inputSchema: {
+        name: z.string().describe('Display name for the monitor'),
+        type: z.string().describe('Monitor type (e.g. http, port, ping, dns, push, keyword). Use listMonitorTypes for all options.'),
+        description: z.string().nullable().optional().describe('Free-text description shown on the monitor page'),
+        active: z.boolean().optional().describe('Whether the monitor starts checking immediately (default: true). Pass false to create it paused.'),
+        resendInterval: numeric(z.number()).optional().describe('Resend notification every N checks while down (0 = disabled, the default)'),
+        timeout: numeric(z.number()).nullable().optional().describe('Request timeout in SECONDS. Omit for 0.8 x interval. Avoid 0: Uptime Kuma\'s runtime fallback for a stored 0 computes interval * 1000 * 0.8 and then multiplies by 1000 again, yielding a ~13 hour timeout, so the monitor can never report DOWN against a host that accepts the connection and never answers.'),
+        jsonPath: z.string().optional().describe('JSONata expression for json-query monitors. Must resolve to a primitive.'),
+        json_path: z.string().optional().describe('Alias for jsonPath (the database column name). Prefer jsonPath.'),
+        jsonPathOperator: z.enum(['>', '>=', '<', '<=', '==', '!=', 'contains']).optional().describe('Comparison operator for json-query monitors. UP while value <operator> expectedValue.'),
+        json_path_operator: z.enum(['>', '>=', '<', '<=', '==', '!=', 'contains']).optional().describe('Alias for jsonPathOperator. Prefer jsonPathOperator.'),
+        expectedValue: z.coerce.string().optional().describe('Threshold the json-query result is compared against. Stored as a string.'),
+        expected_value: z.coerce.string().optional().describe('Alias for expectedValue. Prefer expectedValue.'),
+        pushToken: z.string().min(8).optional().describe('Push token for push monitors — the secret in the ping URL. Omit and one is generated and returned.'),
+        push_token: z.string().min(8).optional().describe('Alias for pushToken (the database column name). Prefer pushToken.'),
+        url: z.string().optional().describe('URL to monitor (required for http/keyword/json-query types)'),
+        hostname: z.string().optional().describe('Hostname to monitor (required for port/ping/dns types)'),
+        port: numeric(z.number()).optional().describe('Port number (required for port/tcp types)'),
+        interval: numeric(z.number()).optional().describe('Check interval in seconds (default: 60)'),
+        retryInterval: numeric(z.number()).optional().describe('Retry interval in seconds when monitor is down (default: 60)'),
+        maxretries: numeric(z.number()).optional().describe('Max retries before marking as down (default: 0)'),
+        notificationIDList: z.record(z.string(), z.boolean()).optional().describe('Map of notification IDs to enable (e.g. {"1": true, "3": true})'),
+        tags: z.array(z.object({
+          name: z.string(),
+          value: z.string().optional(),
+          color: z.string().optional(),
+        })).optional().describe('Tags to assign to the monitor'),
+        keyword: z.string().optional().describe('Keyword to search for (keyword monitor type)'),
+        invertKeyword: z.boolean().optional().describe('Invert keyword match'),
+        method: z.string().optional().describe('HTTP method (GET, POST, etc.) for http type'),
+        body: z.string().optional().describe('HTTP request body'),
+        headers: z.string().optional().describe('HTTP headers as JSON string'),
+        accepted_statuscodes: z.array(z.string()).optional().describe('Accepted HTTP status codes (e.g. ["200-299"])'),
+        ignoreTls: z.boolean().optional().describe('Ignore TLS/SSL errors'),
+        maxredirects: numeric(z.number()).optional().describe('Max HTTP redirects (default: 10)'),
+        upsideDown: z.boolean().optional().describe('Invert status — treat up as down'),
+        parent: numeric(z.number()).nullable().optional().describe('Parent group monitor ID'),
+        docker_container: z.string().optional().describe('Docker container name (required for docker type)'),
+        docker_host: numeric(z.number()).optional().describe('Docker host ID (required for docker type). Use listDockerHosts to find available IDs.'),
+        dns_resolve_server: z.string().optional().describe('DNS server to use for resolution (required for dns type, default: 1.1.1.1)'),
+        dns_resolve_type: z.enum(['A', 'AAAA', 'CNAME', 'MX', 'NS', 'PTR', 'SOA', 'SRV', 'TXT', 'CAA']).optional().describe('DNS record type to query (required for dns type, default: A)'),
+      },
+      outputSchema: {
+        ok: z.boolean(),
+        monitorID: z.number().optional(),
+        msg: z.string().optional(),
+        pushToken: z.string().optional().describe('Push monitors only. The token, so the sender can be wired up without a second, wider read.'),
+        pushURL: z.string().optional().describe('Push monitors only. The URL the sender should GET.'),
+        timeout: z.number().optional().describe('The timeout in seconds actually stored, including the default applied when omitted.'),
+      },
+    },
+    async (input) => {
+      await authenticateClient();
+
+      try {
+        const defaults: Record<string, unknown> = {
+          notificationIDList: {} as Record<string, boolean>,
+          accepted_statuscodes: ['200-299'],
+          conditions: [] as string[],
+          retryInterval: 60,
+        };
+        if (input.type === 'dns') {
+          defaults.dns_resolve_server = '1.1.1.1';
+          defaults.dns_resolve_type = 'A';
+        }
+
+        const requested = normaliseMonitorAliases({ ...input } as Record<string, unknown>);
+
+        // Issue #59: nothing to restore on a create, so the redaction marker must be refused
+        // rather than persisted — writing "***" produces a credential that looks set and can
+        // never work. Reached by copying a redacted monitor to make a similar one.
+        const markers = rehydrateSecrets(requested, undefined).missing;
+        if (markers.length > 0) {
+          throw new Error(
+            `"***" is the redaction marker, not a credential — pass the real value for ${markers.join(', ')}, or omit the field.`
+          );
+        }
+
+        // A json-query monitor without a query is accepted by Uptime Kuma and then fails
+        // every single check, which looks like a broken target rather than a broken config.
+        if (requested.type === 'json-query') {
+          const missing = ['jsonPath', 'jsonPathOperator', 'expectedValue'].filter(
+            (f) => requested[f] === undefined || requested[f] === ''
+          );
+          if (missing.length > 0) {
+            throw new Error(
+              `A json-query monitor needs ${missing.join(', ')}. Without them Uptime Kuma creates the monitor and then fails every check.`
+            );
+          }
+        }
+
+        // Uptime Kuma generates push tokens in the browser only (src/pages/EditMonitor.vue,
+        // genSecret(32)); the server has no such code path. Without this an API-created push
+        // monitor has an empty push_token, no ping URL, and can never report — while looking
+        // identical to one that is merely awaiting its first beat.
+        let generatedPushToken = false;
+        if (requested.type === 'push' && !requested.pushToken) {
+          requested.pushToken = generatePushToken();
+          generatedPushToken = true;
+        }
+
+        // Never leave timeout at 0 — see the schema description for why that is a ~13 hour
+        // timeout rather than a default.
+        if (requested.timeout === undefined || requested.timeout === null) {
+          const fallback = defaultTimeoutForInterval(
+            requested.type as string,
+            requested.interval as number | undefined
+          );
+          if (fallback !== undefined) requested.timeout = fallback;
+          else delete requested.timeout;
+        }
+
+        const monitorData = {
+          ...defaults,
+          ...requested,
+        };
+        const response = await client.createMonitor(monitorData as Record<string, unknown>);
+
+        // Prove the dangerous fields actually landed, rather than trusting "Saved."
+        const verifyProblem =
+          response.monitorID !== undefined
+            ? await verifyMonitorWrite(client, response.monitorID, requested, 'created')
+            : null;
+
+        const structuredContent: Record<string, unknown> = {
+          ok: response.ok,
+          monitorID: response.monitorID,
+          msg: response.msg,
+        };
+        if (requested.timeout !== undefined) structuredContent.timeout = Number(requested.timeout);
+
+        let text = response.msg || `Monitor created with ID ${response.monitorID}`;
+        if (requested.type === 'push' && requested.pushToken) {
+          const base = currentInstance().url.replace(/\/+$/, '');
+          structuredContent.pushToken = requested.pushToken;
+          structuredContent.pushURL = `${base}/api/push/${requested.pushToken}?status=up&msg=OK&ping=`;
+          text += `\n\nPush monitor ${response.monitorID}: point the sender at (GET, not POST)\n  ${structuredContent.pushURL}\nThis URL contains a secret — treat it as a credential.${generatedPushToken ? ' The token was generated because Uptime Kuma only ever generates one in its own web UI.' : ''}`;
+        }
+
+        if (verifyProblem) {
+          // The monitor was created — the write is what could not be confirmed. Say so
+          // explicitly and keep the whole payload: a caller told only "failed" retries and
+          // ends up with two monitors, and for a push monitor the token above is the only
+          // copy outside the database, since Uptime Kuma never generated it server-side.
+          return {
+            content: [
+              {
+                type: 'text',
+                text:
+                  `${verifyProblem}\n\nMonitor ${response.monitorID} EXISTS — do not create it again. ` +
+                  `Fix it with updateMonitor, or delete it with deleteMonitor ${response.monitorID}.\n\n${text}`,
+              },
+            ],
+            structuredContent,
+            isError: true,
+          };
+        }
+
+        return {
+          content: [{ type: 'text', text }],
+          structuredContent,
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to create monitor: ${errorMessage}`);
+      }
+    }
+  );
+
+  // Writes `changes` over the monitor's cached row. Uptime Kuma's editMonitor replaces the
+  // whole monitor, so the fields the caller did not touch have to be sent back as they are.
+  const saveMonitorChanges = (existing: Record<string, unknown>, monitorID: number, changes: Record<string, unknown>) => {
+    return client.updateMonitor(editableMonitor({ ...existing, ...changes, id: monitorID }));
+  };
+
+  // Before-images for restoreMonitor (see monitor-snapshots.ts), taken when the snapshot store
+  // is configured. The monitor is read before the write and the snapshot kept once the write
+  // succeeded; a monitor that cannot be read is not changed, as the change could not be undone.
+  const snapshotStorePath = config.snapshotStorePath;
+  const snapshotTarget = (): SnapshotTarget => ({
+    path: snapshotStorePath!,
+    retention: config.snapshotRetention,
+    instance: currentInstance().name,
+  });
+  const readMonitorBeforeImage = async (monitorID: number): Promise<Record<string, unknown> | undefined> =>
+    snapshotStorePath ? readBeforeImage(client, monitorID) : undefined;
+  const keepMonitorBeforeImage = async (
+    reason: MonitorSnapshot['reason'],
+    monitorID: number,
+    monitor: Record<string, unknown> | undefined
+  ): Promise<{ snapshotID?: string; text: string }> => {
+    if (!snapshotStorePath || !monitor) return { text: '' };
+    const { snapshotID, warning } = await keepBeforeImage(snapshotTarget(), reason, monitorID, monitor);
+    return snapshotID
+      ? { snapshotID, text: `\n\nrestoreMonitor with snapshotID "${snapshotID}" undoes this.` }
+      : { text: `\n\nWARNING: ${warning}` };
+  };
+  // The import and apply code and the notification tools report per monitor, so they take both
+  // steps as one.
+  const snapshotMonitorWrite = snapshotStorePath ? monitorWriteGuard(client, snapshotTarget) : undefined;
+
+  server.registerTool(
+    'updateMonitor',
+    {
+      title: 'Update Monitor',
+      description: 'Updates an existing monitor configuration. You must include the monitorID. Only the fields you provide will be changed (the server merges your changes with the existing config). Use getMonitor first to get the current config.',
+      inputSchema: {
+        monitorID: requiredId('The ID of the monitor to update'),
+        // `parent` was declared on createMonitor but not here, so an existing monitor could
+        // never be moved into or out of a group (issue #63). The merge below then folded the
+        // old value back in and Uptime Kuma replied "Saved." — a no-op reported as success.
+        parent: numeric(z.number().int()).nullable().optional().describe('Parent group monitor ID — re-parents this monitor into that group. Pass null to move it to the top level.'),
+        parentID: numeric(z.number().int()).nullable().optional().describe('Alias for parent. Prefer parent.'),
+        parent_id: numeric(z.number().int()).nullable().optional().describe('Alias for parent. Prefer parent.'),
+        description: z.string().nullable().optional().describe('Free-text description shown on the monitor page'),
+        resendInterval: numeric(z.number()).optional().describe('Resend notification every N checks while down (0 = disabled)'),
+        timeout: numeric(z.number()).nullable().optional().describe('Request timeout in SECONDS. Avoid 0 — Uptime Kuma\'s runtime fallback for a stored 0 yields a ~13 hour timeout, so the monitor can never report DOWN against a black-holed endpoint.'),
+        jsonPath: z.string().optional().describe('JSONata expression for json-query monitors. Must resolve to a primitive.'),
+        json_path: z.string().optional().describe('Alias for jsonPath (the database column name). Prefer jsonPath.'),
+        jsonPathOperator: z.enum(['>', '>=', '<', '<=', '==', '!=', 'contains']).optional().describe('Comparison operator for json-query monitors.'),
+        json_path_operator: z.enum(['>', '>=', '<', '<=', '==', '!=', 'contains']).optional().describe('Alias for jsonPathOperator. Prefer jsonPathOperator.'),
+        expectedValue: z.coerce.string().optional().describe('Threshold the json-query result is compared against, stored as a string.'),
+        expected_value: z.coerce.string().optional().describe('Alias for expectedValue. Prefer expectedValue.'),
+        pushToken: z.string().min(8).optional().describe('Push token — the secret in the ping URL. Changing it invalidates the existing URL and any sender still using it stops beating.'),
+        push_token: z.string().min(8).optional().describe('Alias for pushToken (the database column name). Prefer pushToken.'),
+        name: z.string().optional().describe('Display name'),
+        url: z.string().optional().describe('URL to monitor'),
+        hostname: z.string().optional().describe('Hostname'),
+        port: numeric(z.number()).optional().describe('Port number'),
+        interval: numeric(z.number()).optional().describe('Check interval in seconds'),
+        retryInterval: numeric(z.number()).optional().describe('Retry interval in seconds'),
+        maxretries: numeric(z.number()).optional().describe('Max retries before marking as down'),
+        notificationIDList: z.record(z.string(), z.boolean()).optional().describe('Notification ID map'),
+        tags: z.array(z.object({
+          name: z.string(),
+          value: z.string().optional(),
+          color: z.string().optional(),
+        })).optional().describe('Tags to assign'),
+        keyword: z.string().optional().describe('Keyword to search for'),
+        invertKeyword: z.boolean().optional().describe('Invert keyword match'),
+        method: z.string().optional().describe('HTTP method'),
+        body: z.string().optional().describe('HTTP request body'),
+        headers: z.string().optional().describe('HTTP headers as JSON string'),
+        accepted_statuscodes: z.array(z.string()).optional().describe('Accepted HTTP status codes'),
+        ignoreTls: z.boolean().optional().describe('Ignore TLS/SSL errors'),
+        maxredirects: numeric(z.number()).optional().describe('Max HTTP redirects'),
+        upsideDown: z.boolean().optional().describe('Invert status'),
+        active: z.boolean().optional().describe('Whether the monitor is active'),
+        docker_container: z.string().optional().describe('Docker container name (required for docker type)'),
+        docker_host: numeric(z.number()).optional().describe('Docker host ID (required for docker type). Use listDockerHosts to find available IDs.'),
+        dns_resolve_server: z.string().optional().describe('DNS server to use for resolution (for dns type)'),
+        dns_resolve_type: z.enum(['A', 'AAAA', 'CNAME', 'MX', 'NS', 'PTR', 'SOA', 'SRV', 'TXT', 'CAA']).optional().describe('DNS record type to query (for dns type)'),
+      },
+      outputSchema: {
+        ok: z.boolean(),
+        monitorID: z.number().optional(),
+        msg: z.string().optional(),
+        snapshotID: z.string().optional().describe('Snapshot of the previous configuration, for restoreMonitor'),
+      },
+    },
+    async ({ monitorID, ...rest }) => {
+      await authenticateClient();
 
-        // Issue #59: nothing to restore on a create, so the redaction marker must be refused
-        // rather than persisted — writing "***" produces a credential that looks set and can
-        // never work. Reached by copying a redacted monitor to make a similar one.
-        const markers = rehydrateSecrets(requested, undefined).missing;
-        if (markers.length > 0) {
-          throw new Error(
-            `"***" is the redaction marker, not a credential — pass the real value for ${markers.join(', ')}, or omit the field.`
-          );
+      try {
+        const existing = client.getMonitor(monitorID, true);
+        if (!existing) {
+          throw new Error(`Monitor ${monitorID} not found`);
+        }
+        // Strip undefined values so existing config is preserved for omitted fields
+        const defined = Object.fromEntries(Object.entries(rest).filter(([, v]) => v !== undefined));
+        // Fold `parentID` / `parent_id` onto the single field Uptime Kuma's editMonitor
+        // handler reads (`bean.parent = monitor.parent`), along with the snake_case
+        // type-specific aliases, so a reasonable guess at a name cannot become a silent no-op.
+        for (const alias of ['parentID', 'parent_id']) {
+          if (alias in defined) {
+            if ('parent' in defined && defined.parent !== defined[alias]) {
+              throw new Error(`Conflicting values for parent (${defined.parent}) and ${alias} (${defined[alias]}) — pass only 'parent'.`);
+            }
+            defined.parent = defined[alias];
+            delete defined[alias];
+          }
         }
+        normaliseMonitorAliases(defined);
 
-        // A json-query monitor without a query is accepted by Uptime Kuma and then fails
-        // every single check, which looks like a broken target rather than a broken config.
-        if (requested.type === 'json-query') {
-          const missing = ['jsonPath', 'jsonPathOperator', 'expectedValue'].filter(
-            (f) => requested[f] === undefined || requested[f] === ''
+        // Issue #59: a caller that read this monitor back holds "***" where a credential
+        // was, and the natural edit-one-field-and-write-it-back loop would then persist
+        // the marker. Restore the stored value instead. Runs AFTER alias normalisation so
+        // `push_token: "***"` is matched against the stored `pushToken`.
+        //
+        // `existing` is the unredacted cache row: redaction lives at the tool output
+        // boundary only, precisely so this comparison still has a real value to find.
+        const { preserved, missing } = rehydrateSecrets(defined, existing as unknown as Record<string, unknown>);
+        if (missing.length > 0) {
+          throw new Error(
+            `Cannot write the redaction marker "***" to ${missing.join(', ')} — the monitor has no stored value ` +
+            'to restore, so this would create a credential that looks set and cannot work. ' +
+            'Pass the real value, or omit the field to leave it unchanged.'
           );
-          if (missing.length > 0) {
-            throw new Error(
-              `A json-query monitor needs ${missing.join(', ')}. Without them Uptime Kuma creates the monitor and then fails every check.`
-            );
-          }
         }
 
-        // Uptime Kuma generates push tokens in the browser only (src/pages/EditMonitor.vue,
-        // genSecret(32)); the server has no such code path. Without this an API-created push
-        // monitor has an empty push_token, no ping URL, and can never report — while looking
-        // identical to one that is merely awaiting its first beat.
-        let generatedPushToken = false;
-        if (requested.type === 'push' && !requested.pushToken) {
-          requested.pushToken = generatePushToken();
-          generatedPushToken = true;
+        const beforeImage = await readMonitorBeforeImage(monitorID);
+        const response = await saveMonitorChanges(existing as unknown as Record<string, unknown>, monitorID, defined);
+        const snapshot = await keepMonitorBeforeImage('update', monitorID, beforeImage);
+
+        // Verify against what the CALLER asked for (`defined`), not the merged object —
+        // re-checking fields that were only carried over from the existing config would
+        // prove nothing about this write.
+        const verifyProblem = await verifyMonitorWrite(client, monitorID, defined, 'saved');
+
+        let text = response.msg || `Monitor ${monitorID} updated successfully`;
+        if (preserved.length > 0) {
+          text += `\n\nKept the existing value for ${preserved.join(', ')} — "***" was sent, which is the redaction marker, not a credential.`;
         }
+        text += snapshot.text;
 
-        // Never leave timeout at 0 — see the schema description for why that is a ~13 hour
-        // timeout rather than a default.
-        if (requested.timeout === undefined || requested.timeout === null) {
-          const fallback = defaultTimeoutForInterval(
-            requested.type as string,
-            requested.interval as number | undefined
-          );
-          if (fallback !== undefined) requested.timeout = fallback;
-          else delete requested.timeout;
+        const structuredContent = { ok: response.ok, monitorID: response.monitorID ?? monitorID, msg: response.msg, snapshotID: snapshot.snapshotID };
+
+        if (verifyProblem) {
+          return {
+            content: [{ type: 'text', text: `${verifyProblem}\n\n${text}` }],
+            structuredContent,
+            isError: true,
+          };
         }
 
-        const monitorData = {
-          ...defaults,
-          ...requested,
+        return {
+          content: [{ type: 'text', text }],
+          structuredContent,
         };
-        const response = await client.createMonitor(monitorData as Record<string, unknown>);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to update monitor: ${errorMessage}`);
+      }
+    }
+  );
 
-        // Prove the dangerous fields actually landed, rather than trusting "Saved."
-        const verifyProblem =
-          response.monitorID !== undefined
-            ? await verifyMonitorWrite(response.monitorID, requested, 'created')
-            : null;
+  server.registerTool(
+    'deleteMonitor',
+    {
+      title: 'Delete Monitor',
+      description: 'Permanently deletes a monitor and all its heartbeat history. The heartbeat history cannot be recovered; with the snapshot store configured, restoreMonitor can recreate the monitor itself under a new ID.',
+      inputSchema: {
+        monitorID: requiredId('The ID of the monitor to delete'),
+        confirm: confirmParam,
+      },
+      outputSchema: {
+        ok: z.boolean(),
+        msg: z.string().optional(),
+        snapshotID: z.string().optional().describe('Snapshot of the deleted monitor, for restoreMonitor'),
+      },
+    },
+    async ({ monitorID, confirm }, extra) => {
+      await authenticateClient();
 
-        const structuredContent: Record<string, unknown> = {
-          ok: response.ok,
-          monitorID: response.monitorID,
-          msg: response.msg,
+      try {
+        const cancelled = await confirmDelete({ kind: 'monitor', monitorID }, confirm, extra);
+        if (cancelled) return cancelled;
+
+        const beforeImage = await readMonitorBeforeImage(monitorID);
+        const response = await client.deleteMonitor(monitorID);
+        const snapshot = await keepMonitorBeforeImage('delete', monitorID, beforeImage);
+        return {
+          content: [{ type: 'text', text: (response.msg || `Monitor ${monitorID} deleted successfully`) + snapshot.text }],
+          structuredContent: { ok: response.ok, msg: response.msg, snapshotID: snapshot.snapshotID },
         };
-        if (requested.timeout !== undefined) structuredContent.timeout = Number(requested.timeout);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to delete monitor: ${errorMessage}`);
+      }
+    }
+  );
 
-        let text = response.msg || `Monitor created with ID ${response.monitorID}`;
-        if (requested.type === 'push' && requested.pushToken) {
-          const base = config.url.replace(/\/+$/, '');
-          structuredContent.pushToken = requested.pushToken;
-          structuredContent.pushURL = `${base}/api/push/${requested.pushToken}?status=up&msg=OK&ping=`;
-          text += `\n\nPush monitor ${response.monitorID}: point the sender at (GET, not POST)\n  ${structuredContent.pushURL}\nThis URL contains a secret — treat it as a credential.${generatedPushToken ? ' The token was generated because Uptime Kuma only ever generates one in its own web UI.' : ''}`;
+  // The source's identity and runtime state would be refused or misleading on a copy. The
+  // push token is dropped too — two monitors answering the same ping URL is a collision, not
+  // a copy. Tags are rebuilt separately, without the source's IDs.
+  const CLONE_OMITTED_FIELDS = new Set([...SERVER_ASSIGNED_MONITOR_FIELDS, 'pushToken', 'push_token']);
+
+  const cloneTagsParam = z.array(z.object({
+    name: z.string(),
+    value: z.string().optional(),
+    color: z.string().optional(),
+  })).optional();
+
+  server.registerTool(
+    'cloneMonitor',
+    {
+      title: 'Clone Monitor',
+      description: 'Creates a copy of an existing monitor with only the fields you pass changed — the quick way to add many near-identical monitors. The source is read from the server with its real credentials, which go into the copy directly and are never returned. Notification channels, tags and the parent group are copied unless overridden; a push monitor gets a new push token. With recursive: true a group monitor is cloned together with every monitor nested under it (the members keep their names, overrides apply to the group only).',
+      inputSchema: {
+        monitorID: requiredId('The ID of the monitor to clone'),
+        name: z.string().min(1).optional().describe('Name of the copy. Default: "Clone of <source name>", as in the Uptime Kuma web UI'),
+        url: z.string().optional().describe('URL for the copy'),
+        hostname: z.string().optional().describe('Hostname for the copy'),
+        parent: numeric(z.number().int().nonnegative()).nullable().optional().describe('Group monitor ID to put the copy in, or null for the top level. Default: the source\'s group'),
+        tags: cloneTagsParam.describe('Tags for the copy, replacing the source\'s'),
+        recursive: z.boolean().optional().default(false).describe('Clone a group monitor with everything nested under it. Default: false'),
+      },
+      outputSchema: {
+        ok: z.boolean(),
+        monitorID: z.number().optional().describe('ID of the copy of the source monitor'),
+        clones: z.array(z.object({
+          sourceID: z.number(),
+          monitorID: z.number(),
+          name: z.string(),
+          pushURL: z.string().optional().describe('Push monitors only. The copy\'s own ping URL — it contains a secret.'),
+        })).describe('Every monitor created, each group before its members'),
+      },
+    },
+    async ({ monitorID, name, url, hostname, parent, tags, recursive }) => {
+      await authenticateClient();
+
+      const clones: Array<{ sourceID: number; monitorID: number; name: string; pushURL?: string }> = [];
+      try {
+        const source = await client.fetchMonitor(monitorID);
+        if (recursive && source.type !== 'group') {
+          throw new Error(`Monitor ${monitorID} is a ${String(source.type)} monitor — recursive only applies to groups`);
         }
 
-        if (verifyProblem) {
-          // The monitor was created — the write is what could not be confirmed. Say so
-          // explicitly and keep the whole payload: a caller told only "failed" retries and
-          // ends up with two monitors, and for a push monitor the token above is the only
-          // copy outside the database, since Uptime Kuma never generated it server-side.
+        // The tree is read before anything is created: a copy placed inside the group being
+        // cloned must not be picked up as one of its members.
+        const children = new Map<number, number[]>();
+        for (const monitor of Object.values(client.getMonitorList())) {
+          const parentID = (monitor as { parent?: number | null }).parent;
+          if (parentID == null || monitor.id === undefined) continue;
+          children.set(parentID, [...(children.get(parentID) ?? []), monitor.id].sort((a, b) => a - b));
+        }
+
+        const problems: string[] = [];
+        const copy = async (sourceID: number, stored: Record<string, unknown>, overrides: Record<string, unknown>, tagList?: z.infer<typeof cloneTagsParam>) => {
+          const data = Object.fromEntries(Object.entries(stored).filter(([key]) => !CLONE_OMITTED_FIELDS.has(key)));
+          Object.assign(data, overrides);
+
+          const storedTags = (stored.tags ?? []) as Array<{ name: string; value?: string | null; color?: string }>;
+          const copiedTags = tagList ?? storedTags.map((tag) => ({ name: tag.name, value: tag.value ?? '', color: tag.color }));
+          if (copiedTags.length > 0) data.tags = copiedTags;
+
+          if (data.type === 'push') data.pushToken = generatePushToken();
+          // A source created before the timeout default existed may hold the ~13 hour 0.
+          if (!data.timeout) {
+            const fallback = defaultTimeoutForInterval(data.type as string, data.interval as number | undefined);
+            if (fallback !== undefined) data.timeout = fallback;
+          }
+
+          const response = await client.createMonitor(data);
+          if (response.monitorID === undefined) {
+            throw new Error(`Uptime Kuma did not return an ID for the copy of monitor ${sourceID}`);
+          }
+          const clone: (typeof clones)[number] = { sourceID, monitorID: response.monitorID, name: String(data.name) };
+          if (data.type === 'push') {
+            clone.pushURL = `${currentInstance().url.replace(/\/+$/, '')}/api/push/${data.pushToken}?status=up&msg=OK&ping=`;
+          }
+          clones.push(clone);
+
+          const problem = await verifyMonitorWrite(client, response.monitorID, data, 'created');
+          if (problem) problems.push(problem);
+
+          if (recursive) {
+            for (const childID of children.get(sourceID) ?? []) {
+              await copy(childID, await client.fetchMonitor(childID), { parent: response.monitorID });
+            }
+          }
+        };
+
+        const overrides: Record<string, unknown> = { name: name ?? `Clone of ${String(source.name)}` };
+        if (url !== undefined) overrides.url = url;
+        if (hostname !== undefined) overrides.hostname = hostname;
+        if (parent !== undefined) overrides.parent = parent;
+        await copy(monitorID, source, overrides, tags);
+
+        const structuredContent = { ok: true, monitorID: clones[0].monitorID, clones };
+        let text = `Cloned monitor ${monitorID} as ${clones[0].monitorID} "${clones[0].name}".`;
+        if (clones.length > 1) {
+          text += `\n\nWith its members:\n${clones.slice(1).map((c) => `  - ${c.monitorID} "${c.name}" (copy of ${c.sourceID})`).join('\n')}`;
+        }
+        const pushURLs = clones.filter((c) => c.pushURL);
+        if (pushURLs.length > 0) {
+          text += `\n\nPush monitors get their own token; point each sender at (GET, not POST):\n${pushURLs.map((c) => `  ${c.monitorID}: ${c.pushURL}`).join('\n')}\nThese URLs contain secrets — treat them as credentials.`;
+        }
+
+        if (problems.length > 0) {
           return {
-            content: [
-              {
-                type: 'text',
-                text:
-                  `${verifyProblem}\n\nMonitor ${response.monitorID} EXISTS — do not create it again. ` +
-                  `Fix it with updateMonitor, or delete it with deleteMonitor ${response.monitorID}.\n\n${text}`,
-              },
-            ],
+            content: [{ type: 'text', text: `${problems.join('\n\n')}\n\nThe copies EXIST — do not clone again. Fix them with updateMonitor.\n\n${text}` }],
+            structuredContent,
+            isError: true,
+          };
+        }
+        return {
+          content: [{ type: 'text', text }],
+          structuredContent,
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        // Part of a recursive clone may already exist; a caller told only "failed" would
+        // clone again and end up with two of everything that did go through.
+        const created = clones.length > 0
+          ? ` Created before the failure: ${clones.map((c) => `${c.monitorID} "${c.name}"`).join(', ')}.`
+          : '';
+        throw new McpError(ErrorCode.InternalError, `Failed to clone monitor: ${errorMessage}${created}`);
+      }
+    }
+  );
+
+  // ─── Monitor snapshots ────────────────────────────────────────────────────
+
+  const requireSnapshotStore = (): string => {
+    if (!snapshotStorePath) {
+      throw new Error('The snapshot store is off: start the server with UPTIME_KUMA_SNAPSHOT_STORE set to a file path.');
+    }
+    return snapshotStorePath;
+  };
+
+  server.registerTool(
+    'listMonitorSnapshots',
+    {
+      title: 'List Monitor Snapshots',
+      description: 'Lists the snapshots restoreMonitor can restore, newest first: each monitor\'s configuration from just before an updateMonitor, deleteMonitor or restoreMonitor changed it.',
+      inputSchema: {
+        monitorID: numeric(z.number().int().nonnegative()).optional().describe('Only snapshots of this monitor'),
+        limit: numeric(z.number().int().positive().max(500)).optional().describe('Maximum snapshots to return. Default: 20.'),
+      },
+      outputSchema: {
+        snapshots: z.array(MonitorSnapshotSummarySchema),
+        count: z.number(),
+      },
+    },
+    async ({ monitorID, limit }) => {
+      try {
+        const path = requireSnapshotStore();
+        const snapshots = (await listMonitorSnapshots(path, { instance: currentInstance().name, monitorID }))
+          .slice(0, limit ?? 20)
+          .map(summarizeSnapshot);
+
+        const text = snapshots.length > 0
+          ? snapshots.map((s) => `- ${s.snapshotID}: ${s.name} [${s.monitorID}] (${s.type}) before ${s.reason} at ${s.takenAt}`).join('\n')
+          : 'No snapshots.';
+        return {
+          content: [{ type: 'text', text }],
+          structuredContent: { snapshots, count: snapshots.length },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to list monitor snapshots: ${errorMessage}`);
+      }
+    }
+  );
+
+  server.registerTool(
+    'restoreMonitor',
+    {
+      title: 'Restore Monitor',
+      description: 'Undoes an updateMonitor or deleteMonitor from a snapshot (see listMonitorSnapshots). A monitor that still exists is rolled back to the snapshot\'s configuration; a deleted one is recreated — under a new ID, with its tags and notification channels, but without its heartbeat history, which was deleted with it. Pass snapshotID, or monitorID for that monitor\'s latest snapshot.',
+      inputSchema: {
+        snapshotID: z.string().optional().describe('The snapshot to restore'),
+        monitorID: numeric(z.number().int().nonnegative()).optional().describe('Restore the latest snapshot of this monitor (its ID before it was deleted)'),
+      },
+      outputSchema: {
+        ok: z.boolean(),
+        action: z.enum(['rolledBack', 'recreated']),
+        monitorID: z.number().describe('The restored monitor; a new ID when it was recreated'),
+        snapshotID: z.string().describe('The snapshot restored'),
+        undoSnapshotID: z.string().optional().describe('Snapshot of the configuration a rollback replaced, to undo the restore'),
+        notes: z.array(z.string()).describe('What could not be restored as it was'),
+      },
+    },
+    async ({ snapshotID, monitorID }) => {
+      await authenticateClient();
+
+      try {
+        const path = requireSnapshotStore();
+        if ((snapshotID === undefined) === (monitorID === undefined)) {
+          throw new Error('Pass either snapshotID or monitorID');
+        }
+        const instance = currentInstance().name;
+        const snapshots = await listMonitorSnapshots(path, { instance, monitorID });
+        const snapshot = snapshotID === undefined ? snapshots[0] : snapshots.find((s) => s.snapshotID === snapshotID);
+        if (!snapshot) {
+          throw new Error(snapshotID === undefined
+            ? `No snapshot of monitor ${monitorID}`
+            : `Snapshot ${snapshotID} not found${multiInstance ? ` for instance '${instance}'` : ''}`);
+        }
+
+        const monitorList = client.getMonitorList();
+        const { data, notes } = restorableConfig(snapshot, {
+          notificationIDs: new Set(client.getNotificationList().map((n) => n.id as number)),
+          monitorIDs: new Set(Object.values(monitorList).map((m) => m.id as number)),
+        });
+        const current = client.getMonitor(snapshot.monitorID, true);
+
+        let restoredID: number;
+        let undo: { snapshotID?: string; text: string } = { text: '' };
+        let text: string;
+        let problem: string | null;
+        if (current) {
+          const beforeImage = await readMonitorBeforeImage(snapshot.monitorID);
+          await saveMonitorChanges(current as unknown as Record<string, unknown>, snapshot.monitorID, data);
+          undo = await keepMonitorBeforeImage('restore', snapshot.monitorID, beforeImage);
+          restoredID = snapshot.monitorID;
+          problem = await verifyMonitorWrite(client, restoredID, data, 'saved');
+          text = `Rolled monitor ${restoredID} "${snapshot.name}" back to its configuration from ${snapshot.takenAt}.`;
+        } else {
+          // Uptime Kuma does not reuse IDs, so the monitor comes back under a new one.
+          const response = await client.createMonitor(data);
+          if (response.monitorID === undefined) {
+            throw new Error('Uptime Kuma did not return an ID for the restored monitor');
+          }
+          restoredID = response.monitorID;
+          problem = await verifyMonitorWrite(client, restoredID, data, 'created');
+          text = `Recreated monitor ${snapshot.monitorID} "${snapshot.name}" as monitor ${restoredID}. `
+            + 'Its heartbeat history was deleted with it and cannot be restored; status pages and maintenance windows that listed it need it added back.';
+        }
+        if (notes.length > 0) text += `\n\n${notes.join('\n')}`;
+        text += undo.text;
+
+        const structuredContent = {
+          ok: true,
+          action: current ? 'rolledBack' : 'recreated',
+          monitorID: restoredID,
+          snapshotID: snapshot.snapshotID,
+          undoSnapshotID: undo.snapshotID,
+          notes,
+        };
+        if (problem) {
+          return {
+            content: [{ type: 'text', text: `${problem}\n\n${text}` }],
             structuredContent,
             isError: true,
           };
         }
-
         return {
           content: [{ type: 'text', text }],
           structuredContent,
         };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new McpError(ErrorCode.InternalError, `Failed to create monitor: ${errorMessage}`);
+        throw new McpError(ErrorCode.InternalError, `Failed to restore monitor: ${errorMessage}`);
       }
     }
   );
 
-  server.registerTool(
-    'updateMonitor',
+  // ─── Bulk monitor actions ─────────────────────────────────────────────────
+
+  // pauseMonitors / resumeMonitors / deleteMonitors select with getMonitorSummary's filters and
+  // always take two calls. The first only previews; the second must hand the previewed IDs
+  // back as confirmMonitorIDs, and the filters are re-run against them. A status filter in
+  // particular matches a different set from one minute to the next, and a monitor that did
+  // not appear in the preview must not be deleted on the strength of it.
+  const bulkMonitorFilterParams = {
+    keywords: z.string().optional().describe('Space-separated keywords, fuzzy-matched against pathName. All must match.'),
+    type: z.string().optional().describe('Monitor type(s), comma-separated'),
+    active: z.boolean().optional().describe('true = only active monitors, false = only paused ones'),
+    maintenance: z.boolean().optional().describe('true = only monitors in maintenance, false = only those not in maintenance'),
+    tags: z.string().optional().describe('Tags the monitor must ALL carry, comma-separated, "name" or "name=value", case-insensitive. Example: "env=staging"'),
+    parentId: numeric(z.number().int()).nullable().optional().describe('DIRECT children of this group monitor; null for top-level monitors'),
+    status: z.string().optional().describe('Current status(es), comma-separated: 0=DOWN, 1=UP, 2=PENDING, 3=MAINTENANCE'),
+    confirmMonitorIDs: z.array(numeric(z.number().int().nonnegative())).optional().describe('The monitorIDs a preview with the same filters returned. Without this the call only previews.'),
+  };
+
+  const BULK_MONITOR_ACTIONS = [
     {
-      title: 'Update Monitor',
-      description: 'Updates an existing monitor configuration. You must include the monitorID. Only the fields you provide will be changed (the server merges your changes with the existing config). Use getMonitor first to get the current config.',
-      inputSchema: {
-        monitorID: requiredId('The ID of the monitor to update'),
-        // `parent` was declared on createMonitor but not here, so an existing monitor could
-        // never be moved into or out of a group (issue #63). The merge below then folded the
-        // old value back in and Uptime Kuma replied "Saved." — a no-op reported as success.
-        parent: numeric(z.number().int()).nullable().optional().describe('Parent group monitor ID — re-parents this monitor into that group. Pass null to move it to the top level.'),
-        parentID: numeric(z.number().int()).nullable().optional().describe('Alias for parent. Prefer parent.'),
-        parent_id: numeric(z.number().int()).nullable().optional().describe('Alias for parent. Prefer parent.'),
-        description: z.string().nullable().optional().describe('Free-text description shown on the monitor page'),
-        resendInterval: numeric(z.number()).optional().describe('Resend notification every N checks while down (0 = disabled)'),
-        timeout: numeric(z.number()).nullable().optional().describe('Request timeout in SECONDS. Avoid 0 — Uptime Kuma\'s runtime fallback for a stored 0 yields a ~13 hour timeout, so the monitor can never report DOWN against a black-holed endpoint.'),
-        jsonPath: z.string().optional().describe('JSONata expression for json-query monitors. Must resolve to a primitive.'),
-        json_path: z.string().optional().describe('Alias for jsonPath (the database column name). Prefer jsonPath.'),
-        jsonPathOperator: z.enum(['>', '>=', '<', '<=', '==', '!=', 'contains']).optional().describe('Comparison operator for json-query monitors.'),
-        json_path_operator: z.enum(['>', '>=', '<', '<=', '==', '!=', 'contains']).optional().describe('Alias for jsonPathOperator. Prefer jsonPathOperator.'),
-        expectedValue: z.coerce.string().optional().describe('Threshold the json-query result is compared against, stored as a string.'),
-        expected_value: z.coerce.string().optional().describe('Alias for expectedValue. Prefer expectedValue.'),
-        pushToken: z.string().min(8).optional().describe('Push token — the secret in the ping URL. Changing it invalidates the existing URL and any sender still using it stops beating.'),
-        push_token: z.string().min(8).optional().describe('Alias for pushToken (the database column name). Prefer pushToken.'),
-        name: z.string().optional().describe('Display name'),
-        url: z.string().optional().describe('URL to monitor'),
-        hostname: z.string().optional().describe('Hostname'),
-        port: numeric(z.number()).optional().describe('Port number'),
-        interval: numeric(z.number()).optional().describe('Check interval in seconds'),
-        retryInterval: numeric(z.number()).optional().describe('Retry interval in seconds'),
-        maxretries: numeric(z.number()).optional().describe('Max retries before marking as down'),
-        notificationIDList: z.record(z.string(), z.boolean()).optional().describe('Notification ID map'),
-        tags: z.array(z.object({
-          name: z.string(),
-          value: z.string().optional(),
-          color: z.string().optional(),
-        })).optional().describe('Tags to assign'),
-        keyword: z.string().optional().describe('Keyword to search for'),
-        invertKeyword: z.boolean().optional().describe('Invert keyword match'),
-        method: z.string().optional().describe('HTTP method'),
-        body: z.string().optional().describe('HTTP request body'),
-        headers: z.string().optional().describe('HTTP headers as JSON string'),
-        accepted_statuscodes: z.array(z.string()).optional().describe('Accepted HTTP status codes'),
-        ignoreTls: z.boolean().optional().describe('Ignore TLS/SSL errors'),
-        maxredirects: numeric(z.number()).optional().describe('Max HTTP redirects'),
-        upsideDown: z.boolean().optional().describe('Invert status'),
-        active: z.boolean().optional().describe('Whether the monitor is active'),
-        docker_container: z.string().optional().describe('Docker container name (required for docker type)'),
-        docker_host: numeric(z.number()).optional().describe('Docker host ID (required for docker type). Use listDockerHosts to find available IDs.'),
-        dns_resolve_server: z.string().optional().describe('DNS server to use for resolution (for dns type)'),
-        dns_resolve_type: z.enum(['A', 'AAAA', 'CNAME', 'MX', 'NS', 'PTR', 'SOA', 'SRV', 'TXT', 'CAA']).optional().describe('DNS record type to query (for dns type)'),
+      name: 'pauseMonitors',
+      title: 'Pause Monitors',
+      description: 'Pauses every monitor matching the filters (the same ones getMonitorSummary takes). Call it first WITHOUT confirmMonitorIDs: that previews the matched monitors and changes nothing. Then call again with the same filters and confirmMonitorIDs set to the previewed IDs. Reports success or failure per monitor.',
+      verb: 'pause',
+      done: 'Paused',
+      act: async (monitorID: number): Promise<{ snapshotID?: string; text: string } | void> => {
+        await client.pauseMonitor(monitorID);
       },
-      outputSchema: {
-        ok: z.boolean(),
-        monitorID: z.number().optional(),
-        msg: z.string().optional(),
+    },
+    {
+      name: 'resumeMonitors',
+      title: 'Resume Monitors',
+      description: 'Resumes every monitor matching the filters (the same ones getMonitorSummary takes). Call it first WITHOUT confirmMonitorIDs: that previews the matched monitors and changes nothing. Then call again with the same filters and confirmMonitorIDs set to the previewed IDs. Reports success or failure per monitor.',
+      verb: 'resume',
+      done: 'Resumed',
+      act: async (monitorID: number): Promise<{ snapshotID?: string; text: string } | void> => {
+        await client.resumeMonitor(monitorID);
       },
     },
-    async ({ monitorID, ...rest }) => {
-      await authenticateClient();
+    {
+      name: 'deleteMonitors',
+      title: 'Delete Monitors',
+      description: 'Permanently deletes every monitor matching the filters (the same ones getMonitorSummary takes), with all their heartbeat history. The heartbeat history cannot be recovered; with the snapshot store configured, restoreMonitor can recreate each monitor itself under a new ID. Call it first WITHOUT confirmMonitorIDs: that previews the matched monitors and changes nothing — show the user the list. Then call again with the same filters and confirmMonitorIDs set to the previewed IDs. Members are deleted before their groups. Reports success or failure per monitor.',
+      verb: 'delete',
+      done: 'Deleted',
+      // Snapshotted one by one as deleteMonitor does, so each can be restored on its own.
+      act: async (monitorID: number): Promise<{ snapshotID?: string; text: string } | void> => {
+        const before = await readMonitorBeforeImage(monitorID);
+        await client.deleteMonitor(monitorID);
+        return keepMonitorBeforeImage('delete', monitorID, before);
+      },
+    },
+  ];
+
+  for (const action of BULK_MONITOR_ACTIONS) {
+    server.registerTool(
+      action.name,
+      {
+        title: action.title,
+        description: action.description,
+        inputSchema: bulkMonitorFilterParams,
+        outputSchema: {
+          ok: z.boolean(),
+          preview: z.boolean().describe('true: nothing was changed'),
+          matched: z.array(z.object({
+            id: z.number(),
+            name: z.string(),
+            pathName: z.string(),
+            type: z.string(),
+            active: z.boolean(),
+            status: z.number().optional().describe('0=DOWN 1=UP 2=PENDING 3=MAINT'),
+          })).describe('The monitors the filters match'),
+          results: z.array(z.object({
+            monitorID: z.number(),
+            ok: z.boolean(),
+            error: z.string().optional(),
+            snapshotID: z.string().optional().describe('deleteMonitors with the snapshot store configured: restoreMonitor recreates the monitor from it'),
+          })).optional().describe('Once confirmed: the outcome for each monitor, in the order they were processed'),
+        },
+      },
+      async ({ confirmMonitorIDs, ...filters }) => {
+        await authenticateClient();
 
-      try {
-        const existing = client.getMonitor(monitorID, true);
-        if (!existing) {
-          throw new Error(`Monitor ${monitorID} not found`);
-        }
-        // Strip undefined values so existing config is preserved for omitted fields
-        const defined = Object.fromEntries(Object.entries(rest).filter(([, v]) => v !== undefined));
-        // Fold `parentID` / `parent_id` onto the single field Uptime Kuma's editMonitor
-        // handler reads (`bean.parent = monitor.parent`), along with the snake_case
-        // type-specific aliases, so a reasonable guess at a name cannot become a silent no-op.
-        for (const alias of ['parentID', 'parent_id']) {
-          if (alias in defined) {
-            if ('parent' in defined && defined.parent !== defined[alias]) {
-              throw new Error(`Conflicting values for parent (${defined.parent}) and ${alias} (${defined[alias]}) — pass only 'parent'.`);
+        try {
+          if (Object.values(filters).every((value) => value === undefined)) {
+            throw new Error('Pass at least one filter — with none, every monitor matches');
+          }
+
+          const matched = client.getMonitorSummary(filters).map((monitor) => ({
+            id: monitor.id,
+            name: monitor.name,
+            pathName: monitor.pathName,
+            type: monitor.type,
+            active: Boolean(monitor.active),
+            ...(monitor.status !== undefined ? { status: monitor.status } : {}),
+          })).sort((a, b) => a.id - b.id);
+          const listing = matched.map((m) => `  - ${m.id} "${m.pathName}" (${m.type}, ${m.active ? 'active' : 'paused'})`).join('\n');
+
+          if (confirmMonitorIDs === undefined) {
+            const text = matched.length === 0
+              ? 'No monitors match these filters. Nothing was changed.'
+              : `Preview: would ${action.verb} ${matched.length} monitor(s):\n${listing}\n\n` +
+                `Nothing was changed. To go ahead, call ${action.name} again with the same filters and ` +
+                `confirmMonitorIDs: ${JSON.stringify(matched.map((m) => m.id))}.`;
+            return {
+              content: [{ type: 'text', text }],
+              structuredContent: { ok: true, preview: true, matched },
+            };
+          }
+
+          const matchedIDs = new Set(matched.map((m) => m.id));
+          const confirmedIDs = new Set(confirmMonitorIDs);
+          const unconfirmed = [...matchedIDs].filter((id) => !confirmedIDs.has(id));
+          const gone = [...confirmedIDs].filter((id) => !matchedIDs.has(id));
+          if (unconfirmed.length > 0 || gone.length > 0) {
+            const differences = [
+              unconfirmed.length > 0 ? `now matched but not confirmed: ${unconfirmed.join(', ')}` : '',
+              gone.length > 0 ? `confirmed but no longer matched: ${gone.join(', ')}` : '',
+            ].filter(Boolean).join('; ');
+            throw new Error(
+              `The filters no longer match the confirmed monitors (${differences}). Nothing was changed — preview again.`
+            );
+          }
+
+          // A group deleted before its members takes them with it, or leaves them orphaned
+          // at the top level, depending on the Uptime Kuma version — either way the member's
+          // own delete would then report a failure it did not cause.
+          const depth = (id: number) => client.getMonitor(id)?.path?.length ?? 0;
+          const order = action.verb === 'delete'
+            ? [...matched].sort((a, b) => depth(b.id) - depth(a.id) || a.id - b.id)
+            : matched;
+
+          const results: Array<{ monitorID: number; ok: boolean; error?: string; snapshotID?: string }> = [];
+          const unsaved: number[] = [];
+          for (const monitor of order) {
+            try {
+              const kept = await action.act(monitor.id);
+              if (kept && !kept.snapshotID && kept.text) unsaved.push(monitor.id);
+              results.push({ monitorID: monitor.id, ok: true, ...(kept?.snapshotID ? { snapshotID: kept.snapshotID } : {}) });
+            } catch (error) {
+              results.push({ monitorID: monitor.id, ok: false, error: error instanceof Error ? error.message : String(error) });
             }
-            defined.parent = defined[alias];
-            delete defined[alias];
           }
-        }
-        normaliseMonitorAliases(defined);
 
-        // Issue #59: a caller that read this monitor back holds "***" where a credential
-        // was, and the natural edit-one-field-and-write-it-back loop would then persist
-        // the marker. Restore the stored value instead. Runs AFTER alias normalisation so
-        // `push_token: "***"` is matched against the stored `pushToken`.
-        //
-        // `existing` is the unredacted cache row: redaction lives at the tool output
-        // boundary only, precisely so this comparison still has a real value to find.
-        const { preserved, missing } = rehydrateSecrets(defined, existing as unknown as Record<string, unknown>);
-        if (missing.length > 0) {
-          throw new Error(
-            `Cannot write the redaction marker "***" to ${missing.join(', ')} — the monitor has no stored value ` +
-            'to restore, so this would create a credential that looks set and cannot work. ' +
-            'Pass the real value, or omit the field to leave it unchanged.'
-          );
+          const failed = results.filter((r) => !r.ok);
+          let text = `${action.done} ${results.length - failed.length} of ${results.length} monitor(s).`;
+          if (failed.length > 0) {
+            const names = new Map(matched.map((m) => [m.id, m.pathName]));
+            text += ` ${failed.length} failed:\n${failed.map((r) => `  - ${r.monitorID} "${names.get(r.monitorID)}": ${r.error}`).join('\n')}`;
+          }
+          if (results.some((r) => r.snapshotID)) {
+            text += '\n\nrestoreMonitor with a monitorID from the results recreates that monitor from its snapshot.';
+          }
+          if (unsaved.length > 0) {
+            text += `\n\nWARNING: the configuration of monitor(s) ${unsaved.join(', ')} could not be saved, so restoreMonitor cannot bring them back.`;
+          }
+          return {
+            content: [{ type: 'text', text }],
+            structuredContent: { ok: failed.length === 0, preview: false, matched, results },
+            ...(failed.length > 0 ? { isError: true } : {}),
+          };
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          throw new McpError(ErrorCode.InternalError, `Failed to ${action.verb} monitors: ${errorMessage}`);
         }
+      }
+    );
+  }
 
-        const merged = { ...existing, ...defined, id: monitorID };
-        // Ensure retryInterval is valid — Kuma rejects values < 1 on edit even if
-        // it stored 0 during creation (pre-existing monitors or older defaults)
-        if (!merged.retryInterval || (merged as any).retryInterval < 1) {
-          (merged as any).retryInterval = (merged as any).interval || 60;
-        }
-        const response = await client.updateMonitor(merged as unknown as Record<string, unknown>);
+  // ─── Notification attachment ──────────────────────────────────────────────
 
-        // Verify against what the CALLER asked for (`defined`), not the merged object —
-        // re-checking fields that were only carried over from the existing config would
-        // prove nothing about this write.
-        const verifyProblem = await verifyMonitorWrite(monitorID, defined, 'saved');
+  // attachNotification / detachNotification change one entry of each selected monitor's
+  // notificationIDList and send the rest of the monitor back unchanged — the same save
+  // updateMonitor makes, without the caller having to carry every monitor's full list.
+  const NOTIFICATION_ATTACHMENT_ACTIONS = [
+    {
+      name: 'attachNotification',
+      title: 'Attach Notification',
+      description: 'Enables a notification channel on every selected monitor, keeping the channels each already has. Select monitors by ID, tag, group (the whole branch beneath it) and/or type. Monitors that already have the channel are left alone. Reports per monitor whether it changed.',
+      verb: 'attach',
+      enable: true,
+    },
+    {
+      name: 'detachNotification',
+      title: 'Detach Notification',
+      description: 'Disables a notification channel on every selected monitor, keeping their other channels. Select monitors by ID, tag, group (the whole branch beneath it) and/or type. Monitors without the channel are left alone. Reports per monitor whether it changed.',
+      verb: 'detach',
+      enable: false,
+    },
+  ];
+
+  for (const action of NOTIFICATION_ATTACHMENT_ACTIONS) {
+    server.registerTool(
+      action.name,
+      {
+        title: action.title,
+        description: action.description,
+        inputSchema: {
+          notificationID: requiredId(`The ID of the notification channel to ${action.verb}. Use listNotifications to find it`),
+          ...monitorSelectorParams,
+          type: z.string().optional().describe('Monitor type(s), comma-separated. Alone, selects every monitor of those types; with the other selectors, narrows their selection'),
+        },
+        outputSchema: {
+          ok: z.boolean(),
+          results: z.array(z.object({
+            monitorID: z.number(),
+            pathName: z.string(),
+            changed: z.boolean().describe('false: the monitor was already as requested and was not saved'),
+            ok: z.boolean(),
+            error: z.string().optional(),
+            snapshotID: z.string().optional().describe('restoreMonitor undoes the change to this monitor with this snapshot'),
+          })).describe('The outcome for each selected monitor'),
+        },
+      },
+      async ({ notificationID, monitorIDs, tags, groupID, type }) => {
+        await authenticateClient();
+
+        try {
+          const channel = client.getNotificationList()
+            .find((n) => (n as Record<string, unknown>)['id'] === notificationID) as Record<string, unknown> | undefined;
+          if (!channel) {
+            throw new Error(`Notification ${notificationID} not found — call listNotifications to see available IDs`);
+          }
 
-        let text = response.msg || `Monitor ${monitorID} updated successfully`;
-        if (preserved.length > 0) {
-          text += `\n\nKept the existing value for ${preserved.join(', ')} — "***" was sent, which is the redaction marker, not a credential.`;
-        }
+          const selector = { monitorIDs, tags, groupID };
+          if (!hasMonitorSelector(selector) && type === undefined) {
+            throw new Error('Select monitors by monitorIDs, tags, groupID and/or type');
+          }
+          const ofType = type !== undefined ? client.getMonitorSummary({ type }).map((m) => m.id) : undefined;
+          const selected = hasMonitorSelector(selector)
+            ? resolveMonitorSelector(selector).filter((id) => !ofType || ofType.includes(id))
+            : ofType!.sort((a, b) => a - b);
+          if (selected.length === 0) {
+            throw new Error(`No monitors of type "${type}" in the selection`);
+          }
 
-        const structuredContent = { ok: response.ok, monitorID: response.monitorID ?? monitorID, msg: response.msg };
+          const key = String(notificationID);
+          const results: Array<{ monitorID: number; pathName: string; changed: boolean; ok: boolean; error?: string; snapshotID?: string }> = [];
+          const unsaved: number[] = [];
+          for (const monitorID of selected) {
+            const existing = client.getMonitor(monitorID, true) as unknown as Record<string, unknown> | undefined;
+            const pathName = String(existing?.pathName ?? existing?.name ?? `Monitor ${monitorID}`);
+            try {
+              if (!existing) throw new Error(`Monitor ${monitorID} not found`);
+              const current = (existing.notificationIDList ?? {}) as Record<string, boolean>;
+              if (Boolean(current[key]) === action.enable) {
+                results.push({ monitorID, pathName, changed: false, ok: true });
+                continue;
+              }
+              // editMonitor stores the channels whose entry is true; dropping the key detaches.
+              const notificationIDList = { ...current };
+              if (action.enable) notificationIDList[key] = true;
+              else delete notificationIDList[key];
+              const write = () => saveMonitorChanges(existing, monitorID, { notificationIDList });
+              let kept: { snapshotID?: string; warning?: string } = {};
+              if (snapshotMonitorWrite) kept = await snapshotMonitorWrite('update', monitorID, write);
+              else await write();
+              if (kept.warning) unsaved.push(monitorID);
+              results.push({ monitorID, pathName, changed: true, ok: true, ...(kept.snapshotID ? { snapshotID: kept.snapshotID } : {}) });
+            } catch (error) {
+              results.push({ monitorID, pathName, changed: false, ok: false, error: error instanceof Error ? error.message : String(error) });
+            }
+          }
 
-        if (verifyProblem) {
+          const changed = results.filter((r) => r.changed);
+          const failed = results.filter((r) => !r.ok);
+          const channelName = `"${channel['name'] ?? `Notification ${notificationID}`}" [${notificationID}]`;
+          const lines = [
+            `${action.verb === 'attach' ? 'Attached' : 'Detached'} ${channelName} ${action.verb === 'attach' ? 'to' : 'from'} ` +
+              `${changed.length} of ${results.length} monitor(s); ${results.length - changed.length - failed.length} already ${action.enable ? 'had' : 'lacked'} it.`,
+            ...results.map((r) => `  - ${r.monitorID} "${r.pathName}": ${r.ok ? (r.changed ? `${action.verb}ed` : 'unchanged') : `failed — ${r.error}`}`),
+          ];
+          if (results.some((r) => r.snapshotID)) {
+            lines.push('', 'restoreMonitor with a monitorID from the results puts that monitor\'s channels back as they were.');
+          }
+          if (unsaved.length > 0) {
+            lines.push('', `WARNING: the configuration of monitor(s) ${unsaved.join(', ')} could not be saved, so restoreMonitor cannot undo the change to them.`);
+          }
           return {
-            content: [{ type: 'text', text: `${verifyProblem}\n\n${text}` }],
-            structuredContent,
-            isError: true,
+            content: [{ type: 'text', text: lines.join('\n') }],
+            structuredContent: { ok: failed.length === 0, results },
+            ...(failed.length > 0 ? { isError: true } : {}),
           };
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          throw new McpError(ErrorCode.InternalError, `Failed to ${action.verb} notification: ${errorMessage}`);
         }
+      }
+    );
+  }
 
+  // ─── Monitor export / import ──────────────────────────────────────────────
+
+  server.registerTool(
+    'exportMonitors',
+    {
+      title: 'Export Monitors',
+      description: 'Exports monitor configuration as a portable YAML or JSON document: each monitor\'s settings, its group (by path), tags and notification channels (by name). Exports every monitor unless monitorIDs, tags or groupID narrow it down. Feed the document to importMonitors — on this instance or another — to recreate or update the monitors.',
+      inputSchema: {
+        ...monitorSelectorParams,
+        format: z.enum(['yaml', 'json']).optional().default('yaml').describe('Document format. Default: yaml'),
+        includeSecrets: includeSecretsParam,
+      },
+      outputSchema: {
+        document: MonitorDocumentSchema.describe('The exported document. Credentials read "***" unless includeSecrets is set; importMonitors restores them when it updates an existing monitor.'),
+        count: z.number(),
+      },
+    },
+    async ({ format, includeSecrets, ...selector }) => {
+      await authenticateClient();
+
+      try {
+        const document = exportMonitorDocument(client, {
+          monitorIDs: hasMonitorSelector(selector) ? resolveMonitorSelector(selector) : undefined,
+          includeSecrets: wantsSecrets(includeSecrets),
+        });
         return {
-          content: [{ type: 'text', text }],
-          structuredContent,
+          content: [{ type: 'text', text: serializeMonitorDocument(document, format) }],
+          structuredContent: { document, count: document.monitors.length },
         };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new McpError(ErrorCode.InternalError, `Failed to update monitor: ${errorMessage}`);
+        throw new McpError(ErrorCode.InternalError, `Failed to export monitors: ${errorMessage}`);
       }
     }
   );
 
   server.registerTool(
-    'deleteMonitor',
+    'importMonitors',
     {
-      title: 'Delete Monitor',
-      description: 'Permanently deletes a monitor and all its heartbeat history. This action cannot be undone.',
+      title: 'Import Monitors',
+      description: 'Imports a document written by exportMonitors (YAML or JSON). Monitors are matched by path ("Group / name"): missing ones are created, existing ones updated, and monitors the document does not mention are left alone. Groups are created before their members, and group, notification channel and docker host names are mapped to this instance\'s IDs. "***" in place of a credential keeps the stored value of a monitor being updated. Run with dryRun: true first to see what would change.',
       inputSchema: {
-        monitorID: requiredId('The ID of the monitor to delete'),
+        document: z.string().min(1).describe('The document text, YAML or JSON'),
+        dryRun: z.boolean().optional().default(false).describe('Report what would be created and updated without writing anything. Default: false'),
       },
       outputSchema: {
-        ok: z.boolean(),
-        msg: z.string().optional(),
+        ok: z.boolean().describe('False if any monitor failed to import'),
+        dryRun: z.boolean(),
+        results: z.array(MonitorImportResultSchema).describe('One entry per monitor in the document'),
       },
     },
-    async ({ monitorID }) => {
+    async ({ document, dryRun }) => {
       await authenticateClient();
 
       try {
-        const response = await client.deleteMonitor(monitorID);
+        const results = await importMonitorDocument(client, parseMonitorDocument(document), {
+          dryRun,
+          snapshot: snapshotMonitorWrite,
+        });
+        const ok = results.every((result) => result.action !== 'error');
         return {
-          content: [{ type: 'text', text: response.msg || `Monitor ${monitorID} deleted successfully` }],
-          structuredContent: { ok: response.ok, msg: response.msg },
+          content: [{ type: 'text', text: formatImportReport(results, dryRun) }],
+          structuredContent: { ok, dryRun, results },
+          // A partial import is reported in full rather than thrown: the monitors that were
+          // written stay written, and the caller needs to know which.
+          ...(ok ? {} : { isError: true }),
         };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new McpError(ErrorCode.InternalError, `Failed to delete monitor: ${errorMessage}`);
+        throw new McpError(ErrorCode.InternalError, `Failed to import monitors: ${errorMessage}`);
+      }
+    }
+  );
+
+  server.registerTool(
+    'applyConfig',
+    {
+      title: 'Apply Configuration',
+      description: 'Converges this instance to a desired-state document (YAML or JSON) with optional sections tags, notifications, monitors, maintenance and statusPages. Returns a plan of what would be created, updated and deleted, and changes nothing unless confirm is true. A section that is present is the complete list for its kind: anything on the server it does not list is DELETED. A section left out is not touched. Monitors are identified by path, maintenance windows by title, status pages by slug; a document written by exportMonitors is valid and manages monitors only. Always call without confirm first and show the plan to the user, then confirm with the planID the preview returned: the apply is refused if the plan has changed since. With the snapshot store configured, restoreMonitor can undo each monitor update and delete; without it the plan marks them as not restorable.',
+      inputSchema: {
+        document: z.string().min(1).describe('The desired-state document, YAML or JSON'),
+        confirm: z.boolean().optional().default(false).describe('Apply the plan. Without it (default) nothing is written. A plan with errors is never applied'),
+        planID: z.string().optional().describe('Required with confirm: the planID of the preview the user reviewed. Nothing is applied if the plan is no longer that one.'),
+      },
+      outputSchema: {
+        ok: z.boolean().describe('False if the document has errors or any change failed'),
+        applied: z.boolean().describe('Whether the plan was run'),
+        planID: z.string().describe('Identifies this plan; pass it back with confirm to apply exactly this plan'),
+        items: z.array(ApplyPlanItemSchema).describe('One entry per tag, channel, monitor, maintenance window and status page'),
+      },
+    },
+    async ({ document, confirm, planID }) => {
+      await authenticateClient();
+
+      try {
+        if (confirm && planID === undefined) {
+          throw new Error('Pass the planID of the preview the user reviewed — confirm applies that plan and no other. Call without confirm to get one.');
+        }
+        const result = await applyConfigDocument(client, parseConfigDocument(document), {
+          confirm,
+          planID,
+          snapshot: snapshotMonitorWrite,
+        });
+        const ok = result.items.every((item) => item.action !== 'error' && item.applied !== false);
+        let text = formatApplyReport(result);
+        if (!result.applied && ok && result.items.some((item) => item.action !== 'unchanged')) {
+          text += `\n\nTo apply it, call applyConfig again with the same document, confirm: true and planID: "${result.planID}".`;
+        }
+        return {
+          content: [{ type: 'text', text }],
+          structuredContent: { ok, ...result },
+          ...(ok ? {} : { isError: true }),
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to apply configuration: ${errorMessage}`);
       }
     }
   );
 
   // ─── Notification tools ───────────────────────────────────────────────────
 
+  // A channel's stored configuration — unredacted, from the cache — parsed out of the `config`
+  // JSON string it is kept in. Undefined for an unknown ID or an unparseable config.
+  const storedNotificationConfig = (notificationID: number): Record<string, unknown> | undefined => {
+    const stored = client
+      .getNotificationList()
+      .find((n) => (n as Record<string, unknown>)['id'] === notificationID) as
+      | Record<string, unknown>
+      | undefined;
+    const rawStored = stored?.['config'];
+    if (typeof rawStored === 'string') {
+      try {
+        const parsed: unknown = JSON.parse(rawStored);
+        if (parsed && typeof parsed === 'object') return parsed as Record<string, unknown>;
+      } catch {
+        return undefined;
+      }
+    } else if (rawStored && typeof rawStored === 'object') {
+      return rawStored as Record<string, unknown>;
+    }
+    return undefined;
+  };
+
   server.registerTool(
     'listNotifications',
     {
@@ -1356,6 +2749,43 @@ export async function createServer(config: UptimeKumaConfig): Promise<{ server:
     }
   );
 
+  server.registerTool(
+    'getNotificationCoverage',
+    {
+      title: 'Get Notification Coverage',
+      description: 'Joins monitors with notification channels: for each monitor, the channels that alert when it goes DOWN ("if prod-db goes down, who gets paged?"); the monitors that alert nobody; the channels attached to no monitor; the default channels (enabled on new monitors); and per group, how many of the monitors under it alert someone. Select monitors by ID, tag or group to narrow the monitor rows and groups; the channel summary always covers every monitor.',
+      inputSchema: {
+        ...monitorSelectorParams,
+      },
+      outputSchema: {
+        monitors: z.array(MonitorCoverageSchema).describe('Non-group monitors with the channels enabled on them'),
+        uncoveredMonitorIDs: z.array(z.number()).describe('Monitors with no channel enabled'),
+        channels: z.array(ChannelCoverageSchema),
+        unusedChannelIDs: z.array(z.number()).describe('Channels enabled on no monitor'),
+        defaultChannelIDs: z.array(z.number()).describe('Channels with isDefault set'),
+        groups: z.array(GroupCoverageSchema),
+      },
+    },
+    async ({ monitorIDs, tags, groupID }) => {
+      await authenticateClient();
+
+      try {
+        const selector = { monitorIDs, tags, groupID };
+        const coverage = notificationCoverage(client, {
+          monitorIDs: hasMonitorSelector(selector) ? resolveMonitorSelector(selector) : undefined,
+        });
+
+        return {
+          content: [{ type: 'text', text: formatNotificationCoverage(coverage) }],
+          structuredContent: { ...coverage },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to get notification coverage: ${errorMessage}`);
+      }
+    }
+  );
+
   server.registerTool(
     'addNotification',
     {
@@ -1432,49 +2862,90 @@ export async function createServer(config: UptimeKumaConfig): Promise<{ server:
         if (isDefault !== undefined) notification['isDefault'] = isDefault;
         if (applyExisting !== undefined) notification['applyExisting'] = applyExisting;
 
-        // Issue #59, and the sharper edge of it. Uptime Kuma's addNotification REPLACES the
-        // row rather than merging, so the read-edit-write loop writes back whatever the
-        // caller was shown — and after redaction that is `smtpPassword: "***"`. Renaming a
-        // channel would otherwise destroy the credential that makes it work.
-        const stored = client
-          .getNotificationList()
-          .find((n) => (n as Record<string, unknown>)['id'] === notificationID) as
-          | Record<string, unknown>
-          | undefined;
-        let storedConfig: Record<string, unknown> | undefined;
-        const rawStored = stored?.['config'];
-        if (typeof rawStored === 'string') {
-          try {
-            const parsed: unknown = JSON.parse(rawStored);
-            if (parsed && typeof parsed === 'object') storedConfig = parsed as Record<string, unknown>;
-          } catch {
-            storedConfig = undefined;
+        // Issue #59, and the sharper edge of it. Uptime Kuma's addNotification REPLACES the
+        // row rather than merging, so the read-edit-write loop writes back whatever the
+        // caller was shown — and after redaction that is `smtpPassword: "***"`. Renaming a
+        // channel would otherwise destroy the credential that makes it work.
+        const storedConfig = storedNotificationConfig(notificationID);
+
+        const { preserved, missing } = rehydrateSecrets(notification, storedConfig);
+        if (missing.length > 0) {
+          throw new Error(
+            `Cannot write the redaction marker "***" to ${missing.join(', ')} — notification ${notificationID} has ` +
+            'no stored value to restore. Pass the real value, or call listNotifications with includeSecrets ' +
+            'to read the current one.'
+          );
+        }
+
+        const response = await client.addNotification(notification, notificationID);
+        let text = response.msg || `Notification ${notificationID} updated`;
+        if (preserved.length > 0) {
+          text += `\n\nKept the existing value for ${preserved.join(', ')} — "***" was sent, which is the redaction marker, not a credential.`;
+        }
+        return {
+          content: [{ type: 'text', text }],
+          structuredContent: { ok: response.ok, id: response.id, msg: response.msg },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to update notification: ${errorMessage}`);
+      }
+    }
+  );
+
+  server.registerTool(
+    'testNotification',
+    {
+      title: 'Test Notification',
+      description: 'Sends a test message through a notification channel without saving anything, and returns the provider\'s response — use it to confirm a Slack/ntfy/Telegram/... setup works before attaching it to monitors. Pass notificationID to test an existing channel with its stored credentials (name, type and config then override fields for this test only; "***" keeps the stored value), or type and config to test a configuration that is not saved yet. A failed test returns ok: false with the provider\'s error.',
+      inputSchema: {
+        notificationID: numeric(z.number().int().positive()).optional().describe('Existing channel to test. Use listNotifications to find the ID'),
+        name: z.string().optional().describe('Channel name, shown in the test message'),
+        type: z.string().optional().describe('Notification type (e.g. slack, ntfy, discord, telegram, webhook, smtp). Required without notificationID'),
+        config: z.record(z.string(), z.unknown()).optional().describe('Type-specific configuration fields (e.g. webhookURL for slack, ntfyTopic for ntfy)'),
+      },
+      outputSchema: {
+        ok: z.boolean(),
+        msg: z.string().optional().describe('The provider\'s response, or its error'),
+      },
+    },
+    async ({ notificationID, name, type, config }) => {
+      await authenticateClient();
+
+      try {
+        const notification: Record<string, unknown> = {};
+        if (notificationID !== undefined) {
+          const stored = storedNotificationConfig(notificationID);
+          if (!stored) {
+            throw new Error(`Notification ${notificationID} not found — call listNotifications to see available IDs`);
           }
-        } else if (rawStored && typeof rawStored === 'object') {
-          storedConfig = rawStored as Record<string, unknown>;
+          Object.assign(notification, stored);
+        } else if (type === undefined) {
+          throw new Error('Pass notificationID to test an existing channel, or type and config to test a new one');
         }
+        const overrides: Record<string, unknown> = { ...config };
+        if (name !== undefined) overrides['name'] = name;
+        if (type !== undefined) overrides['type'] = type;
 
-        const { preserved, missing } = rehydrateSecrets(notification, storedConfig);
+        // Issue #59: the caller may have seen this channel through redaction; "***" stands for
+        // the stored value, and without one there is nothing to test with.
+        const { missing } = rehydrateSecrets(overrides, notificationID !== undefined ? notification : undefined);
         if (missing.length > 0) {
           throw new Error(
-            `Cannot write the redaction marker "***" to ${missing.join(', ')} — notification ${notificationID} has ` +
-            'no stored value to restore. Pass the real value, or call listNotifications with includeSecrets ' +
-            'to read the current one.'
+            `"***" is the redaction marker, not a credential — pass the real value for ${missing.join(', ')}.`
           );
         }
+        Object.assign(notification, overrides);
+        notification['name'] ??= 'MCP test';
 
-        const response = await client.addNotification(notification, notificationID);
-        let text = response.msg || `Notification ${notificationID} updated`;
-        if (preserved.length > 0) {
-          text += `\n\nKept the existing value for ${preserved.join(', ')} — "***" was sent, which is the redaction marker, not a credential.`;
-        }
+        const response = await client.testNotification(notification);
         return {
-          content: [{ type: 'text', text }],
-          structuredContent: { ok: response.ok, id: response.id, msg: response.msg },
+          content: [{ type: 'text', text: response.msg || (response.ok ? 'Test notification sent' : 'Test notification failed') }],
+          structuredContent: { ok: response.ok, msg: response.msg },
         };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new McpError(ErrorCode.InternalError, `Failed to update notification: ${errorMessage}`);
+        throw new McpError(ErrorCode.InternalError, `Failed to test notification: ${errorMessage}`);
       }
     }
   );
@@ -1486,16 +2957,20 @@ export async function createServer(config: UptimeKumaConfig): Promise<{ server:
       description: 'Permanently deletes a notification channel. Monitors that used this channel will no longer send alerts through it.',
       inputSchema: {
         notificationID: requiredId('The ID of the notification to delete'),
+        confirm: confirmParam,
       },
       outputSchema: {
         ok: z.boolean(),
         msg: z.string().optional(),
       },
     },
-    async ({ notificationID }) => {
+    async ({ notificationID, confirm }, extra) => {
       await authenticateClient();
 
       try {
+        const cancelled = await confirmDelete({ kind: 'notification', notificationID }, confirm, extra);
+        if (cancelled) return cancelled;
+
         const response = await client.deleteNotification(notificationID);
         return {
           content: [{ type: 'text', text: response.msg || `Notification ${notificationID} deleted` }],
@@ -1653,222 +3128,538 @@ export async function createServer(config: UptimeKumaConfig): Promise<{ server:
       title: 'Delete Docker Host',
       description: 'Permanently deletes a docker daemon connection. Any monitors referencing it will have their docker_host cleared by Uptime Kuma (the monitors themselves are not deleted).',
       inputSchema: {
-        dockerHostID: requiredId('The ID of the docker host to delete'),
+        dockerHostID: requiredId('The ID of the docker host to delete'),
+        confirm: confirmParam,
+      },
+      outputSchema: {
+        ok: z.boolean(),
+        msg: z.string().optional(),
+      },
+    },
+    async ({ dockerHostID, confirm }, extra) => {
+      await authenticateClient();
+
+      try {
+        const cancelled = await confirmDelete({ kind: 'dockerHost', dockerHostID }, confirm, extra);
+        if (cancelled) return cancelled;
+
+        const response = await client.deleteDockerHost(dockerHostID);
+        return {
+          content: [{ type: 'text', text: response.msg || `Docker host ${dockerHostID} deleted` }],
+          structuredContent: { ok: response.ok, msg: response.msg },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to delete docker host: ${errorMessage}`);
+      }
+    }
+  );
+
+  server.registerTool(
+    'testDockerHost',
+    {
+      title: 'Test Docker Host',
+      description: 'Tests connectivity to a docker daemon without persisting it. On success the message includes the number of containers. Use this before addDockerHost to avoid saving a broken configuration.',
+      inputSchema: {
+        name: z.string().describe('Display name (used only in the test request)'),
+        dockerType: z.enum(['socket', 'tcp']).describe('"socket" for a unix socket path, "tcp" for an HTTP/HTTPS URL'),
+        dockerDaemon: z.string().describe('Unix socket path or TCP URL to probe'),
+      },
+      outputSchema: {
+        ok: z.boolean(),
+        msg: z.string().optional(),
+      },
+    },
+    async ({ name, dockerType, dockerDaemon }) => {
+      await authenticateClient();
+
+      try {
+        const response = await client.testDockerHost({ name, dockerType, dockerDaemon });
+        return {
+          content: [{ type: 'text', text: response.msg || (response.ok ? 'Docker host reachable' : 'Docker host unreachable') }],
+          structuredContent: { ok: response.ok, msg: response.msg },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to test docker host: ${errorMessage}`);
+      }
+    }
+  );
+
+  // ─── Tag tools ───────────────────────────────────────────────────────────
+
+  server.registerTool(
+    'listTags',
+    {
+      title: 'List Tags',
+      description: 'Returns all tags defined in Uptime Kuma (name, color, and ID).',
+      inputSchema: {},
+      outputSchema: {
+        tags: z.array(z.object({
+          id: z.number(),
+          name: z.string(),
+          color: z.string(),
+        })).describe('Array of tags'),
+        count: z.number(),
+      },
+    },
+    async () => {
+      await authenticateClient();
+
+      try {
+        const tags = await client.getTagList();
+        return {
+          content: [{ type: 'text', text: JSON.stringify(tags, null, 2) }],
+          structuredContent: { tags, count: tags.length },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to list tags: ${errorMessage}`);
+      }
+    }
+  );
+
+  server.registerTool(
+    'addTag',
+    {
+      title: 'Add Tag',
+      description: 'Creates a new tag that can be assigned to monitors.',
+      inputSchema: {
+        name: z.string().describe('Tag name'),
+        color: z.string().describe('Tag color as a hex string (e.g. "#ff0000") or CSS color name'),
+      },
+      outputSchema: {
+        ok: z.boolean(),
+        tag: z.object({ id: z.number(), name: z.string(), color: z.string() }).optional(),
+        msg: z.string().optional(),
+      },
+    },
+    async ({ name, color }) => {
+      await authenticateClient();
+
+      try {
+        const response = await client.addTag(name, color);
+        return {
+          content: [{ type: 'text', text: `Tag "${name}" created with ID ${response.tag?.id}` }],
+          structuredContent: { ok: response.ok, tag: response.tag, msg: response.msg },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to add tag: ${errorMessage}`);
+      }
+    }
+  );
+
+  server.registerTool(
+    'deleteTag',
+    {
+      title: 'Delete Tag',
+      description: 'Permanently deletes a tag. It will be removed from all monitors that use it. Use listTags to find the tag ID.',
+      inputSchema: {
+        tagID: requiredId('The ID of the tag to delete'),
+        confirm: confirmParam,
+      },
+      outputSchema: {
+        ok: z.boolean(),
+        msg: z.string().optional(),
+      },
+    },
+    async ({ tagID, confirm }, extra) => {
+      await authenticateClient();
+
+      try {
+        const cancelled = await confirmDelete({ kind: 'tag', tagID }, confirm, extra);
+        if (cancelled) return cancelled;
+
+        const response = await client.deleteTag(tagID);
+        return {
+          content: [{ type: 'text', text: response.msg || `Tag ${tagID} deleted` }],
+          structuredContent: { ok: response.ok, msg: response.msg },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to delete tag: ${errorMessage}`);
+      }
+    }
+  );
+
+  // ─── Maintenance tools ────────────────────────────────────────────────────
+
+  /**
+   * What a maintenance window applies to, with names filled in from the caches — the server
+   * only sends monitor IDs and status page IDs and titles.
+   */
+  const fetchMaintenanceTargets = async (maintenanceID: number): Promise<MaintenanceTargets> => {
+    const [monitorRefs, statusPageRefs] = await Promise.all([
+      client.getMonitorMaintenance(maintenanceID),
+      client.getMaintenanceStatusPage(maintenanceID),
+    ]);
+    const monitorList = client.getMonitorList();
+    const statusPages = client.getStatusPageList();
+
+    return {
+      monitors: monitorRefs.map(({ id, name }) => ({
+        id,
+        name: monitorList[String(id)]?.name ?? name,
+        pathName: monitorList[String(id)]?.pathName,
+      })),
+      statusPages: statusPageRefs.map(({ id, title }) => {
+        const page = statusPages.find((p) => p.id === id);
+        return { id, slug: page?.slug, title: page?.title ?? title };
+      }),
+    };
+  };
+
+  const requireMaintenance = (maintenanceID: number) => {
+    const existing = client.getMaintenanceList().find((m) => m.id === maintenanceID);
+    if (!existing) {
+      throw new Error(`Maintenance window ${maintenanceID} not found — call getMaintenanceWindows to see available IDs`);
+    }
+    return existing;
+  };
+
+  /**
+   * Folds a change into a window's current binding. Uptime Kuma's add* handlers replace the
+   * whole set, so 'add' and 'remove' have to be computed against what is there now.
+   */
+  const applyTargetMode = (mode: 'add' | 'replace' | 'remove', current: number[], selected: number[]): number[] => {
+    if (mode === 'replace') return selected;
+    if (mode === 'remove') return current.filter((id) => !selected.includes(id));
+    return [...new Set([...current, ...selected])];
+  };
+
+  const targetModeParam = z.enum(['add', 'replace', 'remove']).default('add')
+    .describe('add (default) keeps what the window already covers, replace makes the selection the complete list, remove takes the selection out');
+
+  server.registerTool(
+    'getMaintenanceWindows',
+    {
+      title: 'Get Maintenance Windows',
+      description: 'Returns all scheduled maintenance windows defined in Uptime Kuma, each with the monitors and status pages it applies to.',
+      inputSchema: {},
+      outputSchema: {
+        maintenanceWindows: z.array(MaintenanceSchema.extend({
+          monitors: MaintenanceTargetsSchema.shape.monitors.optional(),
+          statusPages: MaintenanceTargetsSchema.shape.statusPages.optional(),
+        })).describe('Array of maintenance windows'),
+        count: z.number(),
+      },
+    },
+    async () => {
+      await authenticateClient();
+
+      try {
+        // A window whose targets cannot be read is still listed, just without them — one
+        // failed lookup should not hide every other window.
+        const maintenanceWindows = await Promise.all(client.getMaintenanceList().map(async (window) => {
+          if (window.id === undefined) return window;
+          try {
+            return { ...window, ...(await fetchMaintenanceTargets(window.id)) };
+          } catch {
+            return window;
+          }
+        }));
+        return {
+          content: [{ type: 'text', text: JSON.stringify(maintenanceWindows, null, 2) }],
+          structuredContent: { maintenanceWindows, count: maintenanceWindows.length },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to get maintenance windows: ${errorMessage}`);
+      }
+    }
+  );
+
+  server.registerTool(
+    'createMaintenance',
+    {
+      title: 'Create Maintenance',
+      description: 'Schedules a new maintenance window. During maintenance, affected monitors are suppressed and show MAINTENANCE status instead of DOWN. The new window covers no monitors until you attach some with setMaintenanceMonitors.',
+      inputSchema: {
+        title: z.string().describe('Title of the maintenance window'),
+        description: z.string().default('').describe('Description or reason for the maintenance'),
+        strategy: z.enum(['single', 'recurring-interval', 'recurring-weekday', 'recurring-day-of-month', 'manual'])
+          .describe('Scheduling strategy: single=one-time, recurring-interval=every N days, recurring-weekday=specific weekdays, recurring-day-of-month=specific dates, manual=manually activated'),
+        active: z.boolean().optional().describe('Whether the window is active (default: true)'),
+        timezone: z.string().optional().describe('Timezone (e.g. "America/New_York", "UTC"). Defaults to server timezone.'),
+        dateRange: z.array(z.string()).optional().describe('Date range as [startISO, endISO] (required for single strategy)'),
+        timeRange: z.array(z.object({ hours: numeric(z.number()), minutes: numeric(z.number()) })).optional()
+          .describe('Start and end time within the day as [{hours, minutes}, {hours, minutes}]'),
+        weekdays: z.array(numeric(z.number().int().min(0).max(6))).optional()
+          .describe('Days of week (0=Sunday … 6=Saturday) for recurring-weekday strategy'),
+        daysOfMonth: z.array(numeric(z.number().int().min(1).max(31))).optional()
+          .describe('Days of month (1-31) for recurring-day-of-month strategy'),
+        intervalDay: numeric(z.number().int().positive()).optional()
+          .describe('Interval in days for recurring-interval strategy'),
+      },
+      outputSchema: {
+        ok: z.boolean(),
+        maintenanceID: z.number().optional(),
+        msg: z.string().optional(),
+      },
+    },
+    async (input) => {
+      await authenticateClient();
+
+      try {
+        const response = await client.createMaintenance(input as Record<string, unknown>);
+        return {
+          content: [{ type: 'text', text: response.msg || `Maintenance window created with ID ${response.maintenanceID}` }],
+          structuredContent: { ok: response.ok, maintenanceID: response.maintenanceID, msg: response.msg },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to create maintenance window: ${errorMessage}`);
+      }
+    }
+  );
+
+  server.registerTool(
+    'updateMaintenance',
+    {
+      title: 'Update Maintenance',
+      description: 'Updates an existing maintenance window. Use getMaintenanceWindows to find the maintenance ID. Only the fields you pass are changed — the others are preserved.',
+      inputSchema: {
+        maintenanceID: requiredId('The ID of the maintenance window to update'),
+        title: z.string().optional().describe('New title of the maintenance window'),
+        description: z.string().optional().describe('New description or reason for the maintenance'),
+        strategy: z.enum(['single', 'recurring-interval', 'recurring-weekday', 'recurring-day-of-month', 'manual']).optional()
+          .describe('Scheduling strategy: single=one-time, recurring-interval=every N days, recurring-weekday=specific weekdays, recurring-day-of-month=specific dates, manual=manually activated'),
+        active: z.boolean().optional().describe('Whether the window is active'),
+        timezone: z.string().optional().describe('Timezone (e.g. "America/New_York", "UTC")'),
+        dateRange: z.array(z.string()).optional().describe('Date range as [startISO, endISO] (required for single strategy)'),
+        timeRange: z.array(z.object({ hours: numeric(z.number()), minutes: numeric(z.number()) })).optional()
+          .describe('Start and end time within the day as [{hours, minutes}, {hours, minutes}]'),
+        weekdays: z.array(numeric(z.number().int().min(0).max(6))).optional()
+          .describe('Days of week (0=Sunday … 6=Saturday) for recurring-weekday strategy'),
+        daysOfMonth: z.array(numeric(z.number().int().min(1).max(31))).optional()
+          .describe('Days of month (1-31) for recurring-day-of-month strategy'),
+        intervalDay: numeric(z.number().int().positive()).optional()
+          .describe('Interval in days for recurring-interval strategy'),
       },
       outputSchema: {
         ok: z.boolean(),
+        maintenanceID: z.number().optional(),
         msg: z.string().optional(),
       },
     },
-    async ({ dockerHostID }) => {
+    async ({ maintenanceID, ...rest }) => {
       await authenticateClient();
 
       try {
-        const response = await client.deleteDockerHost(dockerHostID);
+        // Merge onto the cached window so callers can omit unchanged fields. Like
+        // addDockerHost, Uptime Kuma's editMaintenance handler rebuilds the row from what it
+        // receives, so an omitted field would otherwise be cleared rather than kept.
+        const existing = requireMaintenance(maintenanceID);
+
+        const defined = Object.fromEntries(Object.entries(rest).filter(([, v]) => v !== undefined));
+        const merged = { ...existing, ...defined };
+
+        const response = await client.updateMaintenance(maintenanceID, merged as Record<string, unknown>);
         return {
-          content: [{ type: 'text', text: response.msg || `Docker host ${dockerHostID} deleted` }],
-          structuredContent: { ok: response.ok, msg: response.msg },
+          content: [{ type: 'text', text: response.msg || `Maintenance window ${maintenanceID} updated` }],
+          structuredContent: { ok: response.ok, maintenanceID: response.maintenanceID ?? maintenanceID, msg: response.msg },
         };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new McpError(ErrorCode.InternalError, `Failed to delete docker host: ${errorMessage}`);
+        throw new McpError(ErrorCode.InternalError, `Failed to update maintenance window: ${errorMessage}`);
       }
     }
   );
 
   server.registerTool(
-    'testDockerHost',
+    'deleteMaintenance',
     {
-      title: 'Test Docker Host',
-      description: 'Tests connectivity to a docker daemon without persisting it. On success the message includes the number of containers. Use this before addDockerHost to avoid saving a broken configuration.',
+      title: 'Delete Maintenance',
+      description: 'Permanently deletes a maintenance window. Monitors it covered return to normal status reporting immediately.',
       inputSchema: {
-        name: z.string().describe('Display name (used only in the test request)'),
-        dockerType: z.enum(['socket', 'tcp']).describe('"socket" for a unix socket path, "tcp" for an HTTP/HTTPS URL'),
-        dockerDaemon: z.string().describe('Unix socket path or TCP URL to probe'),
+        maintenanceID: requiredId('The ID of the maintenance window to delete'),
       },
       outputSchema: {
         ok: z.boolean(),
         msg: z.string().optional(),
       },
     },
-    async ({ name, dockerType, dockerDaemon }) => {
+    async ({ maintenanceID }) => {
       await authenticateClient();
 
       try {
-        const response = await client.testDockerHost({ name, dockerType, dockerDaemon });
+        const response = await client.deleteMaintenance(maintenanceID);
         return {
-          content: [{ type: 'text', text: response.msg || (response.ok ? 'Docker host reachable' : 'Docker host unreachable') }],
+          content: [{ type: 'text', text: response.msg || `Maintenance window ${maintenanceID} deleted` }],
           structuredContent: { ok: response.ok, msg: response.msg },
         };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new McpError(ErrorCode.InternalError, `Failed to test docker host: ${errorMessage}`);
+        throw new McpError(ErrorCode.InternalError, `Failed to delete maintenance window: ${errorMessage}`);
       }
     }
   );
 
-  // ─── Tag tools ───────────────────────────────────────────────────────────
-
   server.registerTool(
-    'listTags',
+    'pauseMaintenance',
     {
-      title: 'List Tags',
-      description: 'Returns all tags defined in Uptime Kuma (name, color, and ID).',
-      inputSchema: {},
+      title: 'Pause Maintenance',
+      description: 'Pauses a maintenance window. It stays defined but no longer suppresses its monitors, even during its scheduled time, until resumed.',
+      inputSchema: {
+        maintenanceID: requiredId('The ID of the maintenance window to pause'),
+      },
       outputSchema: {
-        tags: z.array(z.object({
-          id: z.number(),
-          name: z.string(),
-          color: z.string(),
-        })).describe('Array of tags'),
-        count: z.number(),
+        ok: z.boolean(),
+        msg: z.string().optional(),
       },
     },
-    async () => {
+    async ({ maintenanceID }) => {
       await authenticateClient();
 
       try {
-        const tags = await client.getTagList();
+        const response = await client.pauseMaintenance(maintenanceID);
         return {
-          content: [{ type: 'text', text: JSON.stringify(tags, null, 2) }],
-          structuredContent: { tags, count: tags.length },
+          content: [{ type: 'text', text: response.msg || `Maintenance window ${maintenanceID} paused` }],
+          structuredContent: { ok: response.ok, msg: response.msg },
         };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new McpError(ErrorCode.InternalError, `Failed to list tags: ${errorMessage}`);
+        throw new McpError(ErrorCode.InternalError, `Failed to pause maintenance window: ${errorMessage}`);
       }
     }
   );
 
   server.registerTool(
-    'addTag',
+    'resumeMaintenance',
     {
-      title: 'Add Tag',
-      description: 'Creates a new tag that can be assigned to monitors.',
+      title: 'Resume Maintenance',
+      description: 'Resumes a paused maintenance window, so it suppresses its monitors again during its scheduled time.',
       inputSchema: {
-        name: z.string().describe('Tag name'),
-        color: z.string().describe('Tag color as a hex string (e.g. "#ff0000") or CSS color name'),
+        maintenanceID: requiredId('The ID of the maintenance window to resume'),
       },
       outputSchema: {
         ok: z.boolean(),
-        tag: z.object({ id: z.number(), name: z.string(), color: z.string() }).optional(),
         msg: z.string().optional(),
       },
     },
-    async ({ name, color }) => {
+    async ({ maintenanceID }) => {
       await authenticateClient();
 
       try {
-        const response = await client.addTag(name, color);
+        const response = await client.resumeMaintenance(maintenanceID);
         return {
-          content: [{ type: 'text', text: `Tag "${name}" created with ID ${response.tag?.id}` }],
-          structuredContent: { ok: response.ok, tag: response.tag, msg: response.msg },
+          content: [{ type: 'text', text: response.msg || `Maintenance window ${maintenanceID} resumed` }],
+          structuredContent: { ok: response.ok, msg: response.msg },
         };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new McpError(ErrorCode.InternalError, `Failed to add tag: ${errorMessage}`);
+        throw new McpError(ErrorCode.InternalError, `Failed to resume maintenance window: ${errorMessage}`);
       }
     }
   );
 
   server.registerTool(
-    'deleteTag',
+    'getMaintenanceTargets',
     {
-      title: 'Delete Tag',
-      description: 'Permanently deletes a tag. It will be removed from all monitors that use it. Use listTags to find the tag ID.',
+      title: 'Get Maintenance Targets',
+      description: 'Returns the monitors and status pages a maintenance window applies to. A window with no monitors suppresses nothing.',
       inputSchema: {
-        tagID: requiredId('The ID of the tag to delete'),
-      },
-      outputSchema: {
-        ok: z.boolean(),
-        msg: z.string().optional(),
+        maintenanceID: requiredId('The ID of the maintenance window'),
       },
+      outputSchema: MaintenanceTargetsSchema.shape,
     },
-    async ({ tagID }) => {
+    async ({ maintenanceID }) => {
       await authenticateClient();
 
       try {
-        const response = await client.deleteTag(tagID);
+        requireMaintenance(maintenanceID);
+        const targets = await fetchMaintenanceTargets(maintenanceID);
         return {
-          content: [{ type: 'text', text: response.msg || `Tag ${tagID} deleted` }],
-          structuredContent: { ok: response.ok, msg: response.msg },
+          content: [{ type: 'text', text: JSON.stringify(targets, null, 2) }],
+          structuredContent: targets,
         };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new McpError(ErrorCode.InternalError, `Failed to delete tag: ${errorMessage}`);
+        throw new McpError(ErrorCode.InternalError, `Failed to get maintenance targets: ${errorMessage}`);
       }
     }
   );
 
-  // ─── Maintenance tools ────────────────────────────────────────────────────
-
   server.registerTool(
-    'getMaintenanceWindows',
+    'setMaintenanceMonitors',
     {
-      title: 'Get Maintenance Windows',
-      description: 'Returns all scheduled maintenance windows defined in Uptime Kuma.',
-      inputSchema: {},
+      title: 'Set Maintenance Monitors',
+      description: 'Changes which monitors a maintenance window suppresses. Select monitors by ID, by tag filter, or by group (the group and everything nested under it); the selections are combined. By default they are added to the monitors already covered.',
+      inputSchema: {
+        maintenanceID: requiredId('The ID of the maintenance window'),
+        ...monitorSelectorParams,
+        mode: targetModeParam,
+      },
       outputSchema: {
-        maintenanceWindows: z.array(MaintenanceSchema).describe('Array of maintenance windows'),
-        count: z.number(),
+        ok: z.boolean(),
+        monitors: MaintenanceTargetsSchema.shape.monitors,
+        msg: z.string().optional(),
       },
     },
-    async () => {
+    async ({ maintenanceID, mode, ...selector }) => {
       await authenticateClient();
 
       try {
-        const maintenanceWindows = client.getMaintenanceList();
+        requireMaintenance(maintenanceID);
+        // With nothing selected, only 'replace' has a meaning: clear the list.
+        if (!hasMonitorSelector(selector) && mode !== 'replace') {
+          throw new Error('Select monitors with monitorIDs, tags or groupID');
+        }
+        const selected = hasMonitorSelector(selector) ? resolveMonitorSelector(selector) : [];
+        const current = mode === 'replace' ? [] : (await client.getMonitorMaintenance(maintenanceID)).map((m) => m.id);
+
+        const response = await client.addMonitorMaintenance(maintenanceID, applyTargetMode(mode, current, selected));
+        const { monitors } = await fetchMaintenanceTargets(maintenanceID);
         return {
-          content: [{ type: 'text', text: JSON.stringify(maintenanceWindows, null, 2) }],
-          structuredContent: { maintenanceWindows, count: maintenanceWindows.length },
+          content: [{ type: 'text', text: `Maintenance window ${maintenanceID} now covers ${monitors.length} monitor(s)${monitors.length > 0 ? ': ' + monitors.map((m) => m.pathName ?? m.name ?? m.id).join(', ') : ''}` }],
+          structuredContent: { ok: response.ok, monitors, msg: response.msg },
         };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new McpError(ErrorCode.InternalError, `Failed to get maintenance windows: ${errorMessage}`);
+        throw new McpError(ErrorCode.InternalError, `Failed to set maintenance monitors: ${errorMessage}`);
       }
     }
   );
 
   server.registerTool(
-    'createMaintenance',
+    'setMaintenanceStatusPages',
     {
-      title: 'Create Maintenance',
-      description: 'Schedules a new maintenance window. During maintenance, affected monitors are suppressed and show MAINTENANCE status instead of DOWN.',
+      title: 'Set Maintenance Status Pages',
+      description: 'Changes which status pages announce a maintenance window. Use listStatusPages to find slugs. By default the pages are added to the ones already set.',
       inputSchema: {
-        title: z.string().describe('Title of the maintenance window'),
-        description: z.string().default('').describe('Description or reason for the maintenance'),
-        strategy: z.enum(['single', 'recurring-interval', 'recurring-weekday', 'recurring-day-of-month', 'manual'])
-          .describe('Scheduling strategy: single=one-time, recurring-interval=every N days, recurring-weekday=specific weekdays, recurring-day-of-month=specific dates, manual=manually activated'),
-        active: z.boolean().optional().describe('Whether the window is active (default: true)'),
-        timezone: z.string().optional().describe('Timezone (e.g. "America/New_York", "UTC"). Defaults to server timezone.'),
-        dateRange: z.array(z.string()).optional().describe('Date range as [startISO, endISO] (required for single strategy)'),
-        timeRange: z.array(z.object({ hours: numeric(z.number()), minutes: numeric(z.number()) })).optional()
-          .describe('Start and end time within the day as [{hours, minutes}, {hours, minutes}]'),
-        weekdays: z.array(numeric(z.number().int().min(0).max(6))).optional()
-          .describe('Days of week (0=Sunday … 6=Saturday) for recurring-weekday strategy'),
-        daysOfMonth: z.array(numeric(z.number().int().min(1).max(31))).optional()
-          .describe('Days of month (1-31) for recurring-day-of-month strategy'),
-        intervalDay: numeric(z.number().int().positive()).optional()
-          .describe('Interval in days for recurring-interval strategy'),
+        maintenanceID: requiredId('The ID of the maintenance window'),
+        slugs: z.array(z.string()).describe('Slugs of the status pages to select'),
+        mode: targetModeParam,
       },
       outputSchema: {
         ok: z.boolean(),
-        maintenanceID: z.number().optional(),
+        statusPages: MaintenanceTargetsSchema.shape.statusPages,
         msg: z.string().optional(),
       },
     },
-    async (input) => {
+    async ({ maintenanceID, slugs, mode }) => {
       await authenticateClient();
 
       try {
-        const response = await client.createMaintenance(input as Record<string, unknown>);
+        requireMaintenance(maintenanceID);
+        const pages = client.getStatusPageList();
+        const unknown = slugs.filter((slug) => !pages.some((p) => p.slug === slug && p.id !== undefined));
+        if (unknown.length > 0) {
+          throw new Error(`Status page(s) not found: ${unknown.join(', ')} — call listStatusPages to see available slugs`);
+        }
+        const selected = slugs.map((slug) => pages.find((p) => p.slug === slug)!.id!);
+        const current = mode === 'replace' ? [] : (await client.getMaintenanceStatusPage(maintenanceID)).map((p) => p.id);
+
+        const response = await client.addMaintenanceStatusPage(maintenanceID, applyTargetMode(mode, current, selected));
+        const { statusPages } = await fetchMaintenanceTargets(maintenanceID);
         return {
-          content: [{ type: 'text', text: response.msg || `Maintenance window created with ID ${response.maintenanceID}` }],
-          structuredContent: { ok: response.ok, maintenanceID: response.maintenanceID, msg: response.msg },
+          content: [{ type: 'text', text: `Maintenance window ${maintenanceID} is now shown on ${statusPages.length} status page(s)${statusPages.length > 0 ? ': ' + statusPages.map((p) => p.slug ?? p.title ?? p.id).join(', ') : ''}` }],
+          structuredContent: { ok: response.ok, statusPages, msg: response.msg },
         };
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-        throw new McpError(ErrorCode.InternalError, `Failed to create maintenance window: ${errorMessage}`);
+        throw new McpError(ErrorCode.InternalError, `Failed to set maintenance status pages: ${errorMessage}`);
       }
     }
   );
@@ -2014,16 +3805,20 @@ export async function createServer(config: UptimeKumaConfig): Promise<{ server:
       description: 'Permanently deletes a status page by slug. The status page URL will no longer be accessible.',
       inputSchema: {
         slug: z.string().describe('The status page slug to delete'),
+        confirm: confirmParam,
       },
       outputSchema: {
         ok: z.boolean(),
         msg: z.string().optional(),
       },
     },
-    async ({ slug }) => {
+    async ({ slug, confirm }, extra) => {
       await authenticateClient();
 
       try {
+        const cancelled = await confirmDelete({ kind: 'statusPage', slug }, confirm, extra);
+        if (cancelled) return cancelled;
+
         const response = await client.deleteStatusPage(slug);
         return {
           content: [{ type: 'text', text: response.msg || `Status page ${slug} deleted` }],
@@ -2036,16 +3831,355 @@ export async function createServer(config: UptimeKumaConfig): Promise<{ server:
     }
   );
 
-  // Clean up on server shutdown
-  process.on('SIGINT', () => {
-    client.disconnect();
-    process.exit(0);
+  server.registerTool(
+    'postIncident',
+    {
+      title: 'Post Incident',
+      description: 'Publishes an incident banner at the top of a status page, or edits the existing one when incidentID is given. A status page shows one incident at a time — posting a new one replaces whatever was pinned. Use getStatusPage to read the current incident and its ID.',
+      inputSchema: {
+        slug: z.string().regex(/^[a-z0-9-]+$/).describe('The status page slug (lowercase letters, digits, and dashes only)'),
+        title: z.string().min(1).describe('Incident title'),
+        content: z.string().min(1).describe('Incident body; markdown is rendered on the status page'),
+        style: IncidentStyleSchema.default('primary').describe('Banner style: info, warning, danger, primary (default), light or dark'),
+        incidentID: numeric(z.number().int().nonnegative()).optional().describe('ID of the incident to edit. Omit to post a new incident.'),
+      },
+      outputSchema: {
+        ok: z.boolean(),
+        incident: IncidentSchema.optional(),
+        msg: z.string().optional(),
+      },
+    },
+    async ({ slug, title, content, style, incidentID }) => {
+      await authenticateClient();
+
+      try {
+        const response = await client.postIncident(slug, {
+          title,
+          content,
+          style,
+          ...(incidentID !== undefined ? { id: incidentID } : {}),
+        });
+        return {
+          content: [{ type: 'text', text: response.msg || `Incident ${incidentID !== undefined ? 'updated' : 'posted'} on status page ${slug}${response.incident ? ` (ID ${response.incident.id})` : ''}` }],
+          structuredContent: { ok: response.ok, incident: response.incident, msg: response.msg },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to post incident: ${errorMessage}`);
+      }
+    }
+  );
+
+  server.registerTool(
+    'unpinIncident',
+    {
+      title: 'Unpin Incident',
+      description: 'Removes the incident banner from a status page. The incident itself is kept in Uptime Kuma, it is just no longer shown.',
+      inputSchema: {
+        slug: z.string().regex(/^[a-z0-9-]+$/).describe('The status page slug (lowercase letters, digits, and dashes only)'),
+      },
+      outputSchema: {
+        ok: z.boolean(),
+        msg: z.string().optional(),
+      },
+    },
+    async ({ slug }) => {
+      await authenticateClient();
+
+      try {
+        const response = await client.unpinIncident(slug);
+        return {
+          content: [{ type: 'text', text: response.msg || `Incident unpinned from status page ${slug}` }],
+          structuredContent: { ok: response.ok, msg: response.msg },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to unpin incident: ${errorMessage}`);
+      }
+    }
+  );
+
+  // ─── Audit log ────────────────────────────────────────────────────────────
+
+  server.registerTool(
+    'getAuditLog',
+    {
+      title: 'Get Audit Log',
+      description: 'Queries the audit log of calls to tools that change something: when, which tool, by which caller (HTTP token name, "http" or "stdio"), with what arguments and result, and for a call about one monitor, that monitor as stored before and after. Newest first. Use it to find out who deleted or changed a monitor.',
+      inputSchema: {
+        tool: z.string().optional().describe('Only calls of this tool, e.g. "deleteMonitor"'),
+        caller: z.string().optional().describe('Only calls by this caller'),
+        monitorID: numeric(z.number().int().nonnegative()).optional().describe('Only calls about this monitor, including bulk calls that listed it'),
+        since: z.string().optional().describe('ISO-8601 date or date-time (UTC unless a zone is given)'),
+        until: z.string().optional().describe('ISO-8601 date or date-time (UTC unless a zone is given)'),
+        failedOnly: z.boolean().optional().describe('Only calls that failed or reported ok: false'),
+        limit: numeric(z.number().int().positive().max(500)).optional().describe('Maximum entries to return. Default: 50.'),
+      },
+      outputSchema: {
+        entries: z.array(AuditLogEntrySchema),
+        count: z.number(),
+        total: z.number().describe('Entries matching the query, beyond the limit too'),
+        skippedLines: z.number().describe('Lines of the log that are not valid entries'),
+      },
+    },
+    async ({ tool, caller, monitorID, since, until, failedOnly, limit }) => {
+      if (!auditLogPath) {
+        throw new McpError(ErrorCode.InvalidRequest, 'The audit log is off: start the server with UPTIME_KUMA_AUDIT_LOG set to a file path.');
+      }
+
+      try {
+        const { entries, total, skippedLines } = await readAuditLog(auditLogPath, {
+          tool,
+          caller,
+          monitorID,
+          since: since === undefined ? undefined : parseReportTime(since, 'since'),
+          until: until === undefined ? undefined : parseReportTime(until, 'until'),
+          failedOnly,
+          limit: limit ?? 50,
+        });
+
+        return {
+          content: [{ type: 'text', text: formatAuditLog(entries, total) }],
+          structuredContent: { entries, count: entries.length, total, skippedLines },
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        throw new McpError(ErrorCode.InternalError, `Failed to read audit log: ${errorMessage}`);
+      }
+    }
+  );
+
+  // ─── Instances ────────────────────────────────────────────────────────────
+
+  server.registerTool(
+    'listInstances',
+    {
+      title: 'List Instances',
+      description: 'Lists the Uptime Kuma instances this server fronts, by the names other tools accept as their `instance` argument. Tools act on the default instance when called without one. With a single instance configured there is nothing to choose and tools take no `instance` argument.',
+      inputSchema: {},
+      outputSchema: {
+        instances: z.array(z.object({
+          name: z.string().describe('Name to pass as `instance`'),
+          url: z.string().describe('Uptime Kuma URL (credentials in it read "***")'),
+          default: z.boolean().describe('Whether tools act on this instance when called without `instance`'),
+          authenticated: z.boolean().describe('Whether a session is currently established. Instances authenticate on first use, so false is normal for one nothing has asked about yet.'),
+        })),
+        count: z.number(),
+      },
+    },
+    async () => {
+      const list = instances.map((instance) => ({
+        name: instance.name,
+        url: redactUrlCredentials(instance.url),
+        default: instance === defaultInstance,
+        authenticated: instance.isAuthenticated(),
+      }));
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(list, null, 2)
+        }],
+        structuredContent: {
+          instances: list,
+          count: list.length
+        },
+      };
+    }
+  );
+
+  // ─── Resources ────────────────────────────────────────────────────────────
+  //
+  // The same live caches the read tools serve, addressable by URI so a client can subscribe
+  // and be told when something changes instead of polling. There is no per-read includeSecrets
+  // switch on a resource, so the server-wide default decides redaction.
+
+  const MONITOR_URI = 'uptime-kuma://monitors/';
+  const STATUS_PAGE_URI = 'uptime-kuma://status-pages/';
+  const monitorUri = (monitorID: number) => `${MONITOR_URI}${monitorID}`;
+  const heartbeatsUri = (monitorID: number) => `${MONITOR_URI}${monitorID}/heartbeats`;
+  const statusPageUri = (slug: string) => `${STATUS_PAGE_URI}${encodeURIComponent(slug)}`;
+
+  /** A template variable as a monitor ID, or an error a client can act on. */
+  const monitorIDFromUri = (value: string | string[]): number => {
+    const raw = Array.isArray(value) ? value[0] : value;
+    const monitorID = Number(raw);
+    if (!Number.isInteger(monitorID) || monitorID < 0) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid monitor ID in resource URI: ${raw}`);
+    }
+    return monitorID;
+  };
+
+  const jsonContents = (uri: URL, value: unknown) => ({
+    contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(value, null, 2) }],
   });
 
-  process.on('SIGTERM', () => {
-    client.disconnect();
+  server.registerResource(
+    'monitor',
+    new ResourceTemplate(`${MONITOR_URI}{monitorID}`, {
+      list: async () => {
+        await authenticateClient();
+        return {
+          resources: client.getMonitorSummary().map((monitor) => ({
+            uri: monitorUri(monitor.id),
+            name: monitor.pathName || monitor.name,
+            mimeType: 'application/json',
+          })),
+        };
+      },
+    }),
+    {
+      title: 'Monitor',
+      description: 'Configuration and runtime data (uptime, avgPing) of one monitor, as returned by getMonitor with includeTypeSpecificFields.',
+      mimeType: 'application/json',
+    },
+    async (uri, { monitorID }) => {
+      await authenticateClient();
+      const id = monitorIDFromUri(monitorID);
+      const monitor = client.getMonitor(id, true);
+      if (!monitor) {
+        throw new McpError(ErrorCode.InvalidParams, `Monitor with ID ${id} not found`);
+      }
+      return jsonContents(uri, wantsSecrets() ? monitor : redactSecrets(monitor));
+    }
+  );
+
+  server.registerResource(
+    'monitor-heartbeats',
+    new ResourceTemplate(`${MONITOR_URI}{monitorID}/heartbeats`, { list: undefined }),
+    {
+      title: 'Monitor Heartbeats',
+      description: 'The cached recent heartbeats of one monitor (up to 100), newest first.',
+      mimeType: 'application/json',
+    },
+    async (uri, { monitorID }) => {
+      await authenticateClient();
+      const id = monitorIDFromUri(monitorID);
+      const heartbeats = client.getHeartbeatsForMonitor(id, 100);
+      return jsonContents(uri, wantsSecrets() ? heartbeats : heartbeats.map((hb) => redactHeartbeat(hb)));
+    }
+  );
+
+  server.registerResource(
+    'status-page',
+    new ResourceTemplate(`${STATUS_PAGE_URI}{slug}`, {
+      list: async () => {
+        await authenticateClient();
+        return {
+          resources: client.getStatusPageList().map((page) => ({
+            uri: statusPageUri(page.slug),
+            name: page.title,
+            mimeType: 'application/json',
+          })),
+        };
+      },
+    }),
+    {
+      title: 'Status Page',
+      description: 'Configuration of one status page, as listed by listStatusPages. Use the getStatusPage tool for its groups and incidents.',
+      mimeType: 'application/json',
+    },
+    async (uri, { slug }) => {
+      await authenticateClient();
+      const wanted = decodeURIComponent(Array.isArray(slug) ? slug[0] : slug);
+      const page = client.getStatusPageList().find((p) => p.slug === wanted);
+      if (!page) {
+        throw new McpError(ErrorCode.InvalidParams, `Status page ${wanted} not found`);
+      }
+      return jsonContents(uri, page);
+    }
+  );
+
+  // Subscriptions belong to this server instance, which is one client connection over stdio
+  // or a stateful HTTP session. The stateless HTTP server is shared by every client and could
+  // deliver no update, so it leaves resources/subscribe unhandled (method not found).
+  const subscriptions = new Set<string>();
+
+  if (!statelessHttp) {
+    server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      subscriptions.add(request.params.uri);
+      return {};
+    });
+
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      subscriptions.delete(request.params.uri);
+      return {};
+    });
+  }
+
+  const notifyUpdated = (uri: string) => {
+    if (!subscriptions.has(uri)) return;
+    server.server.sendResourceUpdated({ uri }).catch(() => {
+      // the transport may have gone away between the event and the notification
+    });
+  };
+
+  const notifyListChanged = () => {
+    if (!statelessHttp && server.isConnected()) server.sendResourceListChanged();
+  };
+
+  // Which monitors the last resources/list_changed described. Per-monitor events mostly update
+  // an existing monitor; only one that appears or disappears changes the resource list.
+  let listedMonitorIDs = new Set<number>();
+
+  client.onCacheChanged = (change: CacheChange) => {
+    switch (change.cache) {
+      case 'monitors': {
+        if (change.monitorID === undefined) {
+          listedMonitorIDs = new Set(client.getMonitorSummary().map((m) => m.id));
+          for (const uri of subscriptions) {
+            if (uri.startsWith(MONITOR_URI) && !uri.endsWith('/heartbeats')) notifyUpdated(uri);
+          }
+          notifyListChanged();
+          return;
+        }
+        const exists = client.getMonitor(change.monitorID) !== undefined;
+        if (exists !== listedMonitorIDs.has(change.monitorID)) {
+          if (exists) listedMonitorIDs.add(change.monitorID);
+          else listedMonitorIDs.delete(change.monitorID);
+          notifyListChanged();
+        }
+        notifyUpdated(monitorUri(change.monitorID));
+        return;
+      }
+      case 'heartbeats':
+        notifyUpdated(heartbeatsUri(change.monitorID));
+        return;
+      case 'statusPages':
+        for (const uri of subscriptions) {
+          if (uri.startsWith(STATUS_PAGE_URI)) notifyUpdated(uri);
+        }
+        notifyListChanged();
+        return;
+      case 'maintenance':
+        // Not a resource of its own; monitors entering or leaving maintenance arrive as
+        // monitor updates.
+        return;
+    }
+  };
+
+  // Clean up on server shutdown
+  const onSignal = () => {
+    instances.forEach((instance) => instance.client.disconnect());
     process.exit(0);
-  });
+  };
+  process.on('SIGINT', onSignal);
+  process.on('SIGTERM', onSignal);
+
+  // For callers that create a server per connection (stateful HTTP sessions) rather than one
+  // per process: without this every closed session would leave its Uptime Kuma socket open
+  // and two more signal handlers behind.
+  const close = () => {
+    process.off('SIGINT', onSignal);
+    process.off('SIGTERM', onSignal);
+    for (const instance of instances) {
+      instance.client.onCacheChanged = null;
+      instance.client.onAuthLost = null;
+      instance.client.disconnect();
+    }
+  };
 
-  return { server, client, authenticateClient };
+  // The default instance's own client rather than the proxy: callers outside a tool call
+  // would only ever reach the default instance through it anyway.
+  return { server, client: defaultInstance.client, authenticateClient, close };
 }
@@ -0,0 +1,196 @@
+import { readFileSync } from 'node:fs';
+import { z } from 'zod';
+
+/**
+ * Per-token authorization for the streamable HTTP transport.
+ *
+ * `MCP_AUTH_TOKEN` is one shared secret that grants every tool. A tokens file, named by
+ * `MCP_AUTH_TOKENS_FILE`, adds tokens that grant less — a dashboard that can read but not
+ * write, an operator who can edit but not delete:
+ *
+ *   {"tokens": [
+ *     {"name": "dashboard", "token": "...", "scopes": ["read"]},
+ *     {"name": "operator",  "token": "...", "scopes": ["read", "write"]},
+ *     {"name": "pager-bot", "token": "...", "scopes": ["getMonitorSummary", "pauseMonitor"]}
+ *   ]}
+ *
+ * A scope is one of the three tool classes below, or a single tool's name. The classes do
+ * not include each other: an operator token lists both "read" and "write".
+ *
+ * The middleware attaches the token's scopes to the request as the MCP SDK's `authInfo`;
+ * server.ts hides the tools outside them from tools/list and rejects calls to them, and does
+ * the same for the resources, which serve what read tools do. stdio carries no authInfo and
+ * keeps every tool and resource.
+ */
+
+export const SCOPE_CLASSES = ['read', 'write', 'destructive'] as const;
+
+export type ScopeClass = (typeof SCOPE_CLASSES)[number];
+
+/**
+ * The class of every tool. A tool missing here cannot be registered (see server.ts), so a new
+ * tool is never granted or withheld by accident.
+ *
+ * "destructive" is anything that deletes, including applyConfig, whose confirmed plan deletes
+ * whatever the document leaves out. "write" is every other change, plus the test tools, which
+ * send a message or open a connection on the caller's say-so.
+ */
+export const TOOL_SCOPES: Record<string, ScopeClass> = {
+  getMonitor: 'read',
+  listMonitors: 'read',
+  listMonitorTypes: 'read',
+  getMonitorSummary: 'read',
+  getHeartbeats: 'read',
+  listHeartbeats: 'read',
+  getSettings: 'read',
+  getUptimeReport: 'read',
+  getIncidents: 'read',
+  correlateOutages: 'read',
+  getLatencyStats: 'read',
+  findFlappingMonitors: 'read',
+  getCertificateExpiry: 'read',
+  auditMonitors: 'read',
+  exportMonitors: 'read',
+  listNotifications: 'read',
+  getNotificationCoverage: 'read',
+  listDockerHosts: 'read',
+  listTags: 'read',
+  getMaintenanceWindows: 'read',
+  getMaintenanceTargets: 'read',
+  listStatusPages: 'read',
+  getStatusPage: 'read',
+  listInstances: 'read',
+  getAuditLog: 'read',
+  listMonitorSnapshots: 'read',
+
+  pauseMonitor: 'write',
+  resumeMonitor: 'write',
+  pauseMonitors: 'write',
+  resumeMonitors: 'write',
+  createMonitor: 'write',
+  updateMonitor: 'write',
+  cloneMonitor: 'write',
+  restoreMonitor: 'write',
+  importMonitors: 'write',
+  addNotification: 'write',
+  updateNotification: 'write',
+  testNotification: 'write',
+  attachNotification: 'write',
+  detachNotification: 'write',
+  addDockerHost: 'write',
+  updateDockerHost: 'write',
+  testDockerHost: 'write',
+  addTag: 'write',
+  createMaintenance: 'write',
+  updateMaintenance: 'write',
+  pauseMaintenance: 'write',
+  resumeMaintenance: 'write',
+  setMaintenanceMonitors: 'write',
+  setMaintenanceStatusPages: 'write',
+  createStatusPage: 'write',
+  updateStatusPage: 'write',
+  postIncident: 'write',
+  unpinIncident: 'write',
+
+  deleteMonitor: 'destructive',
+  deleteMonitors: 'destructive',
+  deleteNotification: 'destructive',
+  deleteDockerHost: 'destructive',
+  deleteTag: 'destructive',
+  deleteMaintenance: 'destructive',
+  deleteStatusPage: 'destructive',
+  applyConfig: 'destructive',
+};
+
+/** What the shared MCP_AUTH_TOKEN grants. */
+export const ALL_SCOPES: string[] = [...SCOPE_CLASSES];
+
+/** One bearer token and what it may call. `name` identifies it in errors and logs, never the token. */
+export interface ScopedToken {
+  name: string;
+  token: string;
+  scopes: string[];
+}
+
+const isScope = (scope: string) =>
+  (SCOPE_CLASSES as readonly string[]).includes(scope) || scope in TOOL_SCOPES;
+
+const TokensFileSchema = z.object({
+  tokens: z.array(z.object({
+    name: z.string().min(1),
+    // Short enough to guess is short enough to brute-force through the rate limit's window.
+    token: z.string().trim().min(16, 'at least 16 characters'),
+    scopes: z.array(z.string().refine(isScope, (scope) => ({
+      message: `unknown scope '${scope}': use ${SCOPE_CLASSES.join(', ')} or a tool name`,
+    }))).min(1),
+  }).strict()).min(1),
+}).strict();
+
+/**
+ * Whether a token with these scopes may call the tool: its class or its name is among them.
+ */
+export function isToolAllowed(toolName: string, scopes: readonly string[]): boolean {
+  const scopeClass = TOOL_SCOPES[toolName];
+  return scopes.includes(toolName) || (scopeClass !== undefined && scopes.includes(scopeClass));
+}
+
+// The read tool that returns the same data as each resource server.ts serves.
+const RESOURCE_TOOLS: Array<[pattern: RegExp, toolName: string]> = [
+  [/^uptime-kuma:\/\/monitors\/[^/]+\/heartbeats$/, 'getHeartbeats'],
+  [/^uptime-kuma:\/\/monitors\/[^/]+$/, 'getMonitor'],
+  [/^uptime-kuma:\/\/status-pages\/[^/]+$/, 'getStatusPage'],
+];
+
+/**
+ * The scopes that each let a token read a resource: the 'read' class, or the name of the read
+ * tool serving the same data — a token that may call getMonitor may read a monitor resource.
+ */
+export function resourceScopes(uri: string): string[] {
+  const toolName = RESOURCE_TOOLS.find(([pattern]) => pattern.test(uri))?.[1];
+  return toolName ? ['read', toolName] : ['read'];
+}
+
+export function isResourceAllowed(uri: string, scopes: readonly string[]): boolean {
+  return resourceScopes(uri).some((scope) => scopes.includes(scope));
+}
+
+/**
+ * Parses a tokens file. Unknown keys and scopes are rejected, as a misspelled scope would
+ * otherwise only surface as a token that cannot call anything — and duplicate tokens, as
+ * one of the two grants would silently win.
+ */
+export function parseTokensFile(text: string, source: string): ScopedToken[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`${source} is not valid JSON: ${errorMessage}`);
+  }
+
+  const result = TokensFileSchema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`);
+    throw new Error(`${source} is not a valid tokens file: ${issues.join('; ')}`);
+  }
+
+  const seen = new Set<string>();
+  for (const entry of result.data.tokens) {
+    if (seen.has(entry.token)) {
+      throw new Error(`${source}: token '${entry.name}' reuses another entry's token`);
+    }
+    seen.add(entry.token);
+  }
+  return result.data.tokens.map(({ name, token, scopes }) => ({ name, token, scopes }));
+}
+
+export function readTokensFile(path: string): ScopedToken[] {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Cannot read tokens file ${path}: ${errorMessage}`);
+  }
+  return parseTokensFile(text, path);
+}
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+/**
+ * One line of the audit log: a call to a tool that can change something.
+ */
+export const AuditLogEntrySchema = z.object({
+  timestamp: z.string().describe('When the call finished (ISO 8601)'),
+  tool: z.string(),
+  caller: z.string().describe('Name of the HTTP token that made the call, "http" without one, or "stdio"'),
+  instance: z.string().optional().describe('Uptime Kuma instance the call acted on (only with several instances)'),
+  arguments: z.record(z.string(), z.unknown()).describe('Arguments as called, with credentials masked'),
+  ok: z.boolean().describe('false when the call threw, returned an error, or its result says ok: false'),
+  error: z.string().optional().describe('The error the call failed with'),
+  result: z.record(z.string(), z.unknown()).nullable().describe('Structured result, with credentials masked'),
+  monitorID: z.number().optional().describe('The one monitor the call acted on or created, if any'),
+  before: z.record(z.string(), z.unknown()).nullable().optional().describe('That monitor as stored before the call; null if it did not exist or could not be read'),
+  after: z.record(z.string(), z.unknown()).nullable().optional().describe('That monitor as stored after the call; null if it no longer exists or could not be read'),
+});
+
+export type AuditLogEntry = z.infer<typeof AuditLogEntrySchema>;
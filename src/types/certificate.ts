@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+/**
+ * What Uptime Kuma sends in a `certInfo` event (the monitor's stored `info_json`): whether the
+ * chain validated, and the leaf certificate as Node's getPeerCertificate() describes it, with
+ * Uptime Kuma's own additions (validTo, daysRemaining) and the rest of the chain nested under
+ * issuerCertificate.
+ */
+export const TlsInfoSchema = z.object({
+  valid: z.boolean().optional(),
+  hostnameMatchMonitorUrl: z.boolean().optional(),
+  certInfo: z.object({
+    subject: z.record(z.string(), z.unknown()).nullable().optional(),
+    issuer: z.record(z.string(), z.unknown()).nullable().optional(),
+    validTo: z.string().optional(),
+    valid_to: z.string().optional(),
+    daysRemaining: z.number().optional(),
+  }).passthrough().nullable().optional(),
+}).passthrough();
+
+export type TlsInfo = z.infer<typeof TlsInfoSchema>;
+
+/**
+ * One monitor's certificate, as getCertificateExpiry reports it.
+ */
+export const CertificateExpirySchema = z.object({
+  monitorID: z.number(),
+  name: z.string().describe('Monitor pathName'),
+  type: z.string(),
+  url: z.string(),
+  subject: z.string().nullable().describe('Common name the certificate was issued to'),
+  issuer: z.string().nullable().describe('Issuing organisation, or its common name'),
+  validTo: z.string().nullable().describe('Expiry, ISO-8601 UTC'),
+  daysRemaining: z.number().nullable().describe('Whole days until expiry; negative once expired'),
+  valid: z.boolean().nullable().describe('Whether the chain validated at the last check'),
+  status: z.enum(['invalid', 'expired', 'expiring', 'ok', 'unknown']).describe('unknown: no certificate reported yet (paused, or not checked since connecting)'),
+});
+
+export type CertificateExpiry = z.infer<typeof CertificateExpirySchema>;
@@ -0,0 +1,103 @@
+import { z } from 'zod';
+import { MonitorDocumentEntrySchema } from './monitor-document.js';
+
+/**
+ * A tag in the catalog. Monitors name the tags they carry in their own `tags`.
+ */
+export const ConfigTagSchema = z.object({
+  name: z.string().min(1).describe('Tag name'),
+  color: z.string().optional().describe('Tag color (hex string, e.g. "#ff0000"); a new tag without one is grey'),
+}).strict();
+
+/**
+ * A notification channel: its name, type and the type-specific fields, flat, the way
+ * addNotification takes them.
+ */
+export const ConfigNotificationSchema = z.object({
+  name: z.string().min(1).describe('Channel name, which monitors refer to it by'),
+  type: z.string().min(1).describe('Notification type (e.g. slack, ntfy, discord, webhook, smtp)'),
+  isDefault: z.boolean().optional().describe('Enable by default for new monitors'),
+}).passthrough();
+
+/**
+ * A maintenance window, with what it applies to given by monitor path and status page slug.
+ */
+export const ConfigMaintenanceSchema = z.object({
+  title: z.string().min(1).describe('Title, which identifies the window'),
+  description: z.string().optional(),
+  strategy: z.enum(['single', 'recurring-interval', 'recurring-weekday', 'recurring-day-of-month', 'manual']),
+  active: z.boolean().optional(),
+  timezone: z.string().optional(),
+  dateRange: z.array(z.string()).optional(),
+  timeRange: z.array(z.object({ hours: z.number(), minutes: z.number() })).optional(),
+  weekdays: z.array(z.number().int().min(0).max(6)).optional(),
+  daysOfMonth: z.array(z.number().int().min(1).max(31)).optional(),
+  intervalDay: z.number().int().positive().optional(),
+  monitors: z.array(z.string()).optional().describe('Paths of the monitors the window covers'),
+  statusPages: z.array(z.string()).optional().describe('Slugs of the status pages that announce the window'),
+}).strict();
+
+/**
+ * A status page, with its groups listing monitors by path.
+ */
+export const ConfigStatusPageSchema = z.object({
+  slug: z.string().regex(/^[a-z0-9-]+$/).describe('URL slug, which identifies the page'),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  theme: z.string().optional(),
+  published: z.boolean().optional(),
+  showTags: z.boolean().optional(),
+  showPoweredBy: z.boolean().optional(),
+  showCertificateExpiry: z.boolean().optional(),
+  autoRefreshInterval: z.number().int().positive().optional(),
+  domainNameList: z.array(z.string()).optional(),
+  customCSS: z.string().optional(),
+  footerText: z.string().optional(),
+  googleAnalyticsId: z.string().optional(),
+  groups: z.array(z.object({
+    name: z.string().min(1),
+    monitors: z.array(z.string()).describe('Paths of the monitors in the group, in display order'),
+  }).strict()).optional().describe('Groups in display order'),
+}).strict();
+
+/**
+ * The desired state applyConfig converges an instance to.
+ *
+ * Each section is optional, and a section that is present is the COMPLETE list for its kind:
+ * what it lists is created or updated, and what exists on the server but is missing from it
+ * is deleted. A section that is left out is not touched at all. A document written by
+ * exportMonitors is a valid one, with only `monitors`.
+ */
+export const ConfigDocumentSchema = z.object({
+  version: z.literal(1).describe('Document format version'),
+  exportedAt: z.string().optional(),
+  tags: z.array(ConfigTagSchema).optional(),
+  notifications: z.array(ConfigNotificationSchema).optional(),
+  monitors: z.array(MonitorDocumentEntrySchema).optional(),
+  maintenance: z.array(ConfigMaintenanceSchema).optional(),
+  statusPages: z.array(ConfigStatusPageSchema).optional(),
+}).strict();
+
+export type ConfigTag = z.infer<typeof ConfigTagSchema>;
+export type ConfigNotification = z.infer<typeof ConfigNotificationSchema>;
+export type ConfigMaintenance = z.infer<typeof ConfigMaintenanceSchema>;
+export type ConfigStatusPage = z.infer<typeof ConfigStatusPageSchema>;
+export type ConfigDocument = z.infer<typeof ConfigDocumentSchema>;
+
+/**
+ * One step of an apply plan, and once confirmed, what came of it.
+ */
+export const ApplyPlanItemSchema = z.object({
+  kind: z.enum(['tag', 'notification', 'monitor', 'maintenance', 'statusPage']),
+  name: z.string().describe('What the document identifies it by: tag or channel name, monitor path, maintenance title or status page slug'),
+  action: z.enum(['create', 'update', 'delete', 'unchanged', 'error']).describe('error: the document cannot be applied as written'),
+  id: z.number().optional(),
+  changes: z.array(z.string()).optional().describe('Fields an update changes'),
+  applied: z.boolean().optional().describe('Once confirmed: whether the change was written'),
+  error: z.string().optional(),
+  warning: z.string().optional().describe('The write went through but did not read back as requested, or could not be snapshotted'),
+  restorable: z.boolean().optional().describe('Monitor updates and deletes: whether restoreMonitor can undo it (not without a snapshot store)'),
+  snapshotID: z.string().optional().describe('Once confirmed: restoreMonitor undoes this monitor update or delete with this snapshot'),
+});
+
+export type ApplyPlanItem = z.infer<typeof ApplyPlanItemSchema>;
@@ -15,4 +15,63 @@ export interface UptimeKumaConfig {
    * safe behaviour is the one you get by not thinking about it.
    */
   includeSecrets?: boolean;
+  /**
+   * auditMonitors rule IDs switched off for this deployment. Optional; every rule runs by
+   * default.
+   */
+  disabledAuditRules?: string[];
+  /**
+   * Register the read tools only, so no client of this server can change anything. Optional
+   * and defaults to false.
+   */
+  readOnly?: boolean;
+  /**
+   * This server is the one shared by every client of the stateless HTTP endpoint, each
+   * request on a throwaway JSON-response transport. Nothing it sends outside a response —
+   * resource update notifications, elicitation requests — can reach a client then. Set by
+   * index.ts; optional and defaults to false.
+   */
+  statelessHttp?: boolean;
+  /**
+   * What the delete tools do when the client cannot ask the user (no elicitation support):
+   * "confirm" previews the delete and runs it once called again with `confirm: true`, "deny"
+   * refuses it. Optional and defaults to "confirm".
+   */
+  deleteConfirmFallback?: 'confirm' | 'deny';
+  /**
+   * JSONL file every call to a tool that can change something is appended to (see
+   * audit-log.ts). Optional; no audit log without it.
+   */
+  auditLogPath?: string;
+  /**
+   * JSON file that keeps each monitor's configuration from before a tool changed or deleted
+   * it, for restoreMonitor (see monitor-snapshots.ts). Optional; nothing can be restored
+   * without it.
+   */
+  snapshotStorePath?: string;
+  /** How many snapshots the store keeps. Defaults to 100. */
+  snapshotRetention?: number;
+  /**
+   * Name the instance above is addressed by once `instances` adds others. Defaults to
+   * "default".
+   */
+  name?: string;
+  /**
+   * Further Uptime Kuma instances served by the same MCP server. When present, every tool
+   * gains an optional `instance` argument; the instance above stays the one used without it.
+   */
+  instances?: UptimeKumaInstanceConfig[];
+}
+
+/**
+ * One additional Uptime Kuma instance: its own URL and credentials, and the name tools
+ * address it by.
+ */
+export interface UptimeKumaInstanceConfig {
+  name: string;
+  url: string;
+  username: string | undefined;
+  password: string | undefined;
+  token: string | undefined;
+  jwtToken: string | undefined;
 }
@@ -35,3 +35,18 @@ export type Heartbeat = z.infer<typeof HeartbeatSchema>;
 export type HeartbeatList<T extends boolean = true> = T extends true
   ? { [monitorID: string]: Heartbeat[] }
   : { [monitorID: string]: Heartbeat | undefined };
+
+/**
+ * One bucket of Uptime Kuma's aggregated statistics, as `getMonitorChartData` returns it:
+ * the beats counted in the minute, hour or day starting at `timestamp`.
+ */
+export const ChartDataPointSchema = z.object({
+  timestamp: z.number().describe('Start of the bucket, Unix seconds'),
+  up: z.number().describe('UP beats in the bucket'),
+  down: z.number().describe('DOWN beats in the bucket'),
+  ping: z.number().nullable().optional().describe('Average response time (ms)'),
+  pingMin: z.number().nullable().optional(),
+  pingMax: z.number().nullable().optional(),
+}).passthrough();
+
+export type ChartDataPoint = z.infer<typeof ChartDataPointSchema>;
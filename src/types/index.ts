@@ -40,3 +40,24 @@ export * from './status-page.js';
 
 // Docker host schemas
 export * from './docker-host.js';
+
+// Monitor configuration documents (export / import)
+export * from './monitor-document.js';
+
+// Desired-state configuration documents (apply)
+export * from './config-document.js';
+
+// History reports: availability, incident timelines, correlated outages, latency, flapping
+export * from './uptime-report.js';
+
+// TLS certificates
+export * from './certificate.js';
+
+// Monitor configuration audit
+export * from './monitor-audit.js';
+
+// Audit log of write tool calls
+export * from './audit-log.js';
+
+// Before-images of monitors, for restoreMonitor
+export * from './monitor-snapshot.js';
@@ -22,3 +22,22 @@ export const MaintenanceSchema = z.object({
 }).passthrough();
 
 export type Maintenance = z.infer<typeof MaintenanceSchema>;
+
+/**
+ * What a maintenance window applies to. Uptime Kuma keeps these bindings outside the window
+ * itself (they are not part of `maintenanceList`), so they are fetched per window.
+ */
+export const MaintenanceTargetsSchema = z.object({
+  monitors: z.array(z.object({
+    id: z.number(),
+    name: z.string().optional(),
+    pathName: z.string().optional().describe('Full path including parent groups'),
+  })).describe('Monitors suppressed while the window is in effect'),
+  statusPages: z.array(z.object({
+    id: z.number(),
+    slug: z.string().optional(),
+    title: z.string().optional(),
+  })).describe('Status pages that announce the window'),
+});
+
+export type MaintenanceTargets = z.infer<typeof MaintenanceTargetsSchema>;
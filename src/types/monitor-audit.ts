@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+/**
+ * One rule violation found by auditMonitors.
+ */
+export const AuditFindingSchema = z.object({
+  ruleID: z.string(),
+  severity: z.enum(['error', 'warning', 'info']),
+  monitorID: z.number(),
+  name: z.string().describe('Monitor pathName'),
+  message: z.string().describe('What is wrong with this monitor'),
+  fix: z.string().describe('How to fix it'),
+  update: z.record(z.string(), z.unknown()).nullable().describe('updateMonitor arguments that apply the fix, when it is a plain field change'),
+});
+
+export type AuditFinding = z.infer<typeof AuditFindingSchema>;
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+
+/**
+ * One monitor in an exported configuration document.
+ *
+ * Everything that is an ID on the server is a name here, so the document can be applied to
+ * another Uptime Kuma instance: the parent group is its path, notification channels and the
+ * docker host are named. All other fields are the monitor's own configuration, as stored.
+ */
+export const MonitorDocumentEntrySchema = z.object({
+  name: z.string().min(1).describe('Monitor name'),
+  type: z.string().min(1).describe('Monitor type'),
+  parent: z.string().min(1).optional().describe('Path of the group this monitor sits in ("Group / Subgroup"); omitted at the top level'),
+  tags: z.array(z.object({
+    name: z.string().min(1),
+    value: z.string().optional(),
+    color: z.string().optional(),
+  }).strict()).optional().describe('Tags, created on import when missing'),
+  notifications: z.array(z.string()).optional().describe('Names of the notification channels the monitor alerts'),
+  dockerHost: z.string().optional().describe('Name of the docker host (docker monitors)'),
+}).passthrough();
+
+export type MonitorDocumentEntry = z.infer<typeof MonitorDocumentEntrySchema>;
+
+/**
+ * A portable monitor configuration document, as written by exportMonitors and read by
+ * importMonitors. Groups come before the monitors inside them.
+ */
+export const MonitorDocumentSchema = z.object({
+  version: z.literal(1).describe('Document format version'),
+  exportedAt: z.string().optional().describe('When the document was exported (ISO 8601)'),
+  monitors: z.array(MonitorDocumentEntrySchema),
+}).strict();
+
+export type MonitorDocument = z.infer<typeof MonitorDocumentSchema>;
+
+/**
+ * What importing one document entry did, or would do on a dry run.
+ */
+export const MonitorImportResultSchema = z.object({
+  path: z.string().describe('The monitor\'s path ("Group / name"), which is what import matches existing monitors by'),
+  action: z.enum(['create', 'update', 'unchanged', 'error']),
+  monitorID: z.number().optional().describe('ID of the monitor created or updated (not known for a create on a dry run)'),
+  changes: z.array(z.string()).optional().describe('Fields an update changes'),
+  error: z.string().optional(),
+  snapshotID: z.string().optional().describe('restoreMonitor undoes the update with this snapshot'),
+  warning: z.string().optional().describe('The write went through but did not read back as requested, or could not be snapshotted'),
+});
+
+export type MonitorImportResult = z.infer<typeof MonitorImportResultSchema>;
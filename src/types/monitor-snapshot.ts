@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+/**
+ * A monitor's stored configuration from just before updateMonitor or deleteMonitor changed
+ * it, which restoreMonitor puts back.
+ */
+export const MonitorSnapshotSummarySchema = z.object({
+  snapshotID: z.string(),
+  takenAt: z.string().describe('When the snapshot was taken (ISO 8601)'),
+  reason: z.enum(['update', 'delete', 'restore']).describe('The call the snapshot was taken before'),
+  instance: z.string().describe('Uptime Kuma instance the monitor belongs to'),
+  monitorID: z.number(),
+  name: z.string(),
+  type: z.string(),
+});
+
+export type MonitorSnapshotSummary = z.infer<typeof MonitorSnapshotSummarySchema>;
@@ -14,3 +14,43 @@ export const NotificationSchema = z.object({
 }).passthrough();
 
 export type Notification = z.infer<typeof NotificationSchema>;
+
+/**
+ * A notification channel as getNotificationCoverage reports it: what it is and which monitors
+ * it is attached to.
+ */
+export const ChannelCoverageSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  type: z.string().nullable().describe('Provider, e.g. slack, ntfy, smtp'),
+  isDefault: z.boolean().describe('Enabled by default for new monitors'),
+  monitorIDs: z.array(z.number()).describe('Monitors it is enabled on'),
+});
+
+export type ChannelCoverage = z.infer<typeof ChannelCoverageSchema>;
+
+/**
+ * One monitor and the channels that alert when it goes DOWN.
+ */
+export const MonitorCoverageSchema = z.object({
+  monitorID: z.number(),
+  name: z.string().describe('Monitor pathName'),
+  type: z.string(),
+  active: z.boolean().describe('False when paused — a paused monitor alerts nobody'),
+  channels: z.array(z.object({ id: z.number(), name: z.string(), type: z.string().nullable() })),
+});
+
+export type MonitorCoverage = z.infer<typeof MonitorCoverageSchema>;
+
+/**
+ * How many of a group's monitors (at any depth, groups themselves excluded) alert someone.
+ */
+export const GroupCoverageSchema = z.object({
+  groupID: z.number(),
+  name: z.string(),
+  monitorCount: z.number(),
+  coveredCount: z.number(),
+  uncoveredMonitorIDs: z.array(z.number()),
+});
+
+export type GroupCoverage = z.infer<typeof GroupCoverageSchema>;
@@ -19,3 +19,23 @@ export const StatusPageSchema = z.object({
 }).passthrough();
 
 export type StatusPage = z.infer<typeof StatusPageSchema>;
+
+/**
+ * Styles Uptime Kuma offers for an incident banner (Bootstrap alert colours)
+ */
+export const IncidentStyleSchema = z.enum(['info', 'warning', 'danger', 'primary', 'light', 'dark']);
+
+/**
+ * Status page incident schema — the banner pinned to the top of a status page
+ */
+export const IncidentSchema = z.object({
+  id: z.number().describe('Incident ID'),
+  title: z.string().describe('Incident title'),
+  content: z.string().nullable().optional().describe('Incident body (markdown)'),
+  style: IncidentStyleSchema.or(z.string()).optional().describe('Banner style'),
+  pin: z.boolean().optional().describe('Whether the incident is shown on the status page'),
+  createdDate: z.string().nullable().optional().describe('When the incident was first posted'),
+  lastUpdatedDate: z.string().nullable().optional().describe('When the incident was last edited'),
+}).passthrough();
+
+export type Incident = z.infer<typeof IncidentSchema>;
@@ -0,0 +1,118 @@
+import { z } from 'zod';
+
+/**
+ * Availability figures for one monitor, or for a whole report, over the report's range.
+ */
+export const UptimeReportRowSchema = z.object({
+  monitorID: z.number().optional().describe('Absent on the totals row'),
+  name: z.string().describe('Monitor pathName, or "All monitors" on the totals row'),
+  availability: z.number().nullable().describe('UP beats as a percentage of UP + DOWN beats; null when the range holds no beats'),
+  upBeats: z.number(),
+  downBeats: z.number(),
+  downtimeMinutes: z.number().describe('Time spent DOWN within the range'),
+  incidents: z.number().describe('DOWN periods overlapping the range'),
+  mttrMinutes: z.number().nullable().describe('Mean time to recovery: downtime per incident; null without incidents'),
+  mtbfMinutes: z.number().nullable().describe('Mean time between failures: time not DOWN per incident; null without incidents'),
+  ongoing: z.boolean().describe('DOWN at the end of the range'),
+});
+
+export const UptimeReportSchema = z.object({
+  start: z.string().describe('ISO-8601, UTC'),
+  end: z.string().describe('ISO-8601, UTC — capped at the time of the report'),
+  monitors: z.array(UptimeReportRowSchema),
+  total: UptimeReportRowSchema,
+  notes: z.array(z.string()).describe('Caveats about the data behind the figures'),
+});
+
+export type UptimeReportRow = z.infer<typeof UptimeReportRowSchema>;
+export type UptimeReport = z.infer<typeof UptimeReportSchema>;
+
+/**
+ * One outage of one monitor, from the DOWN beat that began it to the UP beat that ended it.
+ */
+export const MonitorIncidentSchema = z.object({
+  monitorID: z.number(),
+  name: z.string().describe('Monitor pathName'),
+  start: z.string().describe('ISO-8601, UTC'),
+  end: z.string().nullable().describe('ISO-8601, UTC; null while the monitor is still down'),
+  durationMinutes: z.number().describe('Up to now for an incident that has not ended'),
+  msg: z.string().describe('The error the monitor reported when it went DOWN'),
+  overlapsMaintenance: z.boolean().describe('Whether a maintenance window covering the monitor was in effect at some point during the incident'),
+  maintenanceWindows: z.array(z.object({
+    id: z.number(),
+    title: z.string(),
+  })).describe('The windows in question'),
+});
+
+export type MonitorIncident = z.infer<typeof MonitorIncidentSchema>;
+
+/**
+ * Monitors that went DOWN together, with what they have in common.
+ */
+export const OutageClusterSchema = z.object({
+  start: z.string().describe('First DOWN in the cluster, ISO-8601 UTC'),
+  end: z.string().describe('Last DOWN in the cluster, ISO-8601 UTC'),
+  monitors: z.array(z.object({
+    monitorID: z.number(),
+    name: z.string().describe('Monitor pathName'),
+    downAt: z.string().describe('ISO-8601, UTC'),
+    msg: z.string(),
+    stillDown: z.boolean(),
+  })),
+  causes: z.array(z.object({
+    kind: z.enum(['hostname', 'dockerHost', 'group', 'tag']),
+    value: z.string().describe('The hostname, docker host name, group pathName or tag'),
+    monitorIDs: z.array(z.number()).describe('The cluster\'s monitors that share it'),
+    coverage: z.number().describe('Share of the cluster\'s monitors that share it, 0-1'),
+  })).describe('What the monitors have in common, the most widely shared first'),
+  likelyRoot: z.string().nullable().describe('The cause shared by most of the cluster, when one is shared by at least half of it'),
+});
+
+export type OutageCluster = z.infer<typeof OutageClusterSchema>;
+
+/**
+ * Response-time statistics for one monitor, over its UP beats.
+ */
+export const LatencyStatsSchema = z.object({
+  monitorID: z.number(),
+  name: z.string().describe('Monitor pathName'),
+  samples: z.number().describe('UP beats with a response time'),
+  p50: z.number().nullable(),
+  p90: z.number().nullable(),
+  p99: z.number().nullable(),
+  mean: z.number().nullable(),
+  stddev: z.number().nullable(),
+  min: z.number().nullable(),
+  max: z.number().nullable(),
+  trendMsPerHour: z.number().nullable().describe('Slope of a straight-line fit of response time over time; positive is getting slower'),
+  recentMean: z.number().nullable().describe('Mean of the most recent beats'),
+  baselineMean: z.number().nullable().describe('Mean of the beats before them'),
+  zScore: z.number().nullable().describe('How many baseline standard deviations the recent mean sits from the baseline mean; null without enough baseline'),
+  anomaly: z.enum(['slower', 'faster']).nullable().describe('Set when |zScore| reaches the threshold'),
+});
+
+export type LatencyStats = z.infer<typeof LatencyStatsSchema>;
+
+/**
+ * A monitor that keeps changing state, with retry settings that would damp it.
+ */
+export const FlappingMonitorSchema = z.object({
+  monitorID: z.number(),
+  name: z.string().describe('Monitor pathName'),
+  transitions: z.number().describe('UP↔DOWN changes in the window'),
+  flapsPerHour: z.number(),
+  medianDownSeconds: z.number().nullable().describe('How long a DOWN typically lasted before the next UP'),
+  current: z.object({
+    interval: z.number().nullable(),
+    maxretries: z.number().nullable(),
+    retryInterval: z.number().nullable(),
+  }),
+  suggestion: z.object({
+    monitorID: z.number(),
+    maxretries: z.number(),
+    retryInterval: z.number(),
+  }).nullable().describe('Arguments for updateMonitor, as they stand'),
+  rationale: z.string(),
+});
+
+export type FlappingMonitor = z.infer<typeof FlappingMonitorSchema>;
@@ -14,12 +14,15 @@ import type {
   MonitorSummary,
   Heartbeat,
   HeartbeatList,
+  ChartDataPoint,
   GetSettingsResponse,
   Settings,
   Notification,
   Maintenance,
   StatusPage,
+  Incident,
   DockerHost,
+  TlsInfo,
 } from './types/index.js';
 
 /**
@@ -73,6 +76,23 @@ function matchesParentFilter(monitor: { parent?: number | null }, parentId: numb
   return actual === wanted;
 }
 
+/**
+ * Which part of the client's live caches a socket event just changed. Reported through
+ * `onCacheChanged`; `monitorID` is absent when a full list was replaced wholesale.
+ */
+export type CacheChange =
+  | { cache: 'monitors'; monitorID?: number }
+  | { cache: 'heartbeats'; monitorID: number }
+  | { cache: 'statusPages' }
+  | { cache: 'maintenance' };
+
+/**
+ * The lists Uptime Kuma pushes once a socket has logged in, and that waitForInitialData waits
+ * for. Tags are not among them: they are fetched on demand (issue #46).
+ */
+const INITIAL_LISTS = ['monitorList', 'maintenanceList', 'notificationList', 'dockerHostList', 'statusPageList'] as const;
+type InitialList = (typeof INITIAL_LISTS)[number];
+
 /**
  * Uptime Kuma Socket.io API Client
  */
@@ -83,11 +103,15 @@ export class UptimeKumaClient {
   private heartbeatListCache: HeartbeatList<true> = {};
   private uptimeCache: { [monitorID: string]: { [periodKey: string]: number } } = {};
   private avgPingCache: { [monitorID: string]: number | null } = {};
+  private certInfoCache: { [monitorID: string]: TlsInfo } = {};
   private notificationListCache: { [id: string]: Notification } = {};
   private tagListCache: Array<{ id: number; name: string; color: string }> = [];
   private maintenanceListCache: { [id: string]: Maintenance } = {};
   private statusPageListCache: { [slug: string]: StatusPage } = {};
   private dockerHostListCache: DockerHost[] = [];
+  // Which of INITIAL_LISTS have arrived since the last login, and who is waiting for the rest.
+  private receivedLists = new Set<InitialList>();
+  private listWaiters: Array<() => void> = [];
   private server?: { sendLoggingMessage: (params: { level: LoggingLevel; data: unknown }) => Promise<void> };
   private shouldLog: (level: LoggingLevel) => boolean;
   private loginCredentials: { username: string | undefined; password: string | undefined; token?: string; jwtToken?: string } | null = null;
@@ -99,6 +123,12 @@ export class UptimeKumaClient {
    */
   public onAuthLost: ((reason: string) => void) | null = null;
 
+  /**
+   * Invoked after a socket event has updated one of the caches. The server layer uses this to
+   * push `notifications/resources/updated` to clients subscribed to the affected resource.
+   */
+  public onCacheChanged: ((change: CacheChange) => void) | null = null;
+
   constructor(
     url: string, 
     server?: { sendLoggingMessage: (params: { level: LoggingLevel; data: unknown }) => Promise<void> },
@@ -132,6 +162,50 @@ export class UptimeKumaClient {
     }
   }
 
+  /** Report a cache update to the server layer. */
+  private notifyCacheChanged(change: CacheChange): void {
+    try {
+      if (this.onCacheChanged) this.onCacheChanged(change);
+    } catch {
+      // never let a listener error break socket handling
+    }
+  }
+
+  /** Record that a list pushed after login has arrived, and wake whoever waits for it. */
+  private markListReceived(list: InitialList): void {
+    this.receivedLists.add(list);
+    for (const wake of this.listWaiters) wake();
+  }
+
+  /**
+   * Resolves once every list Uptime Kuma pushes after login has arrived, so that the caches
+   * hold the instance's data rather than the empty lists they start with. Login resolves
+   * before those events do; on a large instance they can take seconds. Call after login().
+   *
+   * @param timeoutMs - How long to wait before rejecting with the lists still missing
+   */
+  waitForInitialData(timeoutMs: number = 30_000): Promise<void> {
+    const missing = () => INITIAL_LISTS.filter((list) => !this.receivedLists.has(list));
+    if (missing().length === 0) return Promise.resolve();
+
+    return new Promise((resolve, reject) => {
+      const done = () => {
+        clearTimeout(timer);
+        this.listWaiters = this.listWaiters.filter((waiter) => waiter !== check);
+      };
+      const check = () => {
+        if (missing().length > 0) return;
+        done();
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        done();
+        reject(new Error(`Uptime Kuma did not send its ${missing().join(', ')} within ${timeoutMs / 1000} s of login`));
+      }, timeoutMs);
+      this.listWaiters.push(check);
+    });
+  }
+
   /**
    * Reuse a live socket instead of blindly opening another one.
    *
@@ -201,10 +275,12 @@ export class UptimeKumaClient {
     if (!this.socket || !this.loginCredentials) return;
 
     // Clear stale caches so they are fully replaced by fresh data from the server
+    this.receivedLists.clear();
     this.monitorListCache = {};
     this.heartbeatListCache = {};
     this.uptimeCache = {};
     this.avgPingCache = {};
+    this.certInfoCache = {};
 
     const { username, password, token, jwtToken } = this.loginCredentials;
 
@@ -258,10 +334,12 @@ export class UptimeKumaClient {
     }
 
     // Clear the caches
+    this.receivedLists.clear();
     this.monitorListCache = {};
     this.heartbeatListCache = {};
     this.uptimeCache = {};
     this.avgPingCache = {};
+    this.certInfoCache = {};
     this.notificationListCache = {};
     this.tagListCache = [];
     this.maintenanceListCache = {};
@@ -287,12 +365,14 @@ export class UptimeKumaClient {
 
       // Store credentials for re-authentication on reconnect
       this.loginCredentials = { username, password, token, jwtToken };
+      this.receivedLists.clear();
 
       // Set up listeners for monitor list and heartbeat updates before login
       this.setupMonitorListListeners();
       this.setupHeartbeatListeners();
       this.setupUptimeListeners();
       this.setupAvgPingListeners();
+      this.setupCertInfoListeners();
       this.setupNotificationListListeners();
       this.setupTagListListeners();
       this.setupMaintenanceListListeners();
@@ -414,6 +494,8 @@ export class UptimeKumaClient {
       const monitorCount = Object.keys(monitorList).length;
       this.safeLog('debug', `Received monitorList with ${monitorCount} monitors`);
       this.monitorListCache = monitorList as { [monitorID: string]: MonitorRawData };
+      this.markListReceived('monitorList');
+      this.notifyCacheChanged({ cache: 'monitors' });
     });
 
     // Listen for updates to specific monitors
@@ -422,12 +504,16 @@ export class UptimeKumaClient {
       const monitorIDs = Object.keys(updates).join(', ');
       this.safeLog('debug', `Received updateMonitorIntoList for ${updateCount} monitor(s): ${monitorIDs}`);
       Object.assign(this.monitorListCache, updates as { [monitorID: string]: MonitorRawData });
+      for (const id of Object.keys(updates)) {
+        this.notifyCacheChanged({ cache: 'monitors', monitorID: Number(id) });
+      }
     });
 
     // Listen for monitor deletions
     this.socket.on('deleteMonitorFromList', (monitorID: number) => {
       this.safeLog('debug', `Received deleteMonitorFromList for monitor ${monitorID}`);
       delete this.monitorListCache[monitorID.toString()];
+      this.notifyCacheChanged({ cache: 'monitors', monitorID: Number(monitorID) });
     });
   }
 
@@ -517,6 +603,7 @@ export class UptimeKumaClient {
       // (#56/#57). Sorting rather than reversing keeps that true if the server's ordering
       // ever changes, and costs nothing on an already-ordered list.
       this.heartbeatListCache[monitorID.toString()] = UptimeKumaClient.normaliseBeats(beats);
+      this.notifyCacheChanged({ cache: 'heartbeats', monitorID: Number(monitorID) });
     });
 
     // Listen for individual heartbeat updates (real-time)
@@ -563,6 +650,7 @@ export class UptimeKumaClient {
       if (this.heartbeatListCache[monitorID].length > 100) {
         this.heartbeatListCache[monitorID] = this.heartbeatListCache[monitorID].slice(0, 100);
       }
+      this.notifyCacheChanged({ cache: 'heartbeats', monitorID: Number(monitorID) });
     });
   }
 
@@ -586,6 +674,7 @@ export class UptimeKumaClient {
       
       // Store the uptime percentage for this period
       this.uptimeCache[monitorIDStr][periodKey] = percentage;
+      this.notifyCacheChanged({ cache: 'monitors', monitorID: Number(monitorID) });
     });
   }
 
@@ -604,9 +693,39 @@ export class UptimeKumaClient {
       
       // Store the average ping for this monitor
       this.avgPingCache[monitorIDStr] = avgPing;
+      this.notifyCacheChanged({ cache: 'monitors', monitorID: Number(monitorID) });
+    });
+  }
+
+  /**
+   * Set up event listeners for TLS certificate info
+   * Uptime Kuma sends one `certInfo` per HTTPS monitor after login and again after each check,
+   * as a JSON string rather than an object.
+   */
+  private setupCertInfoListeners(): void {
+    if (!this.socket) return;
+
+    this.socket.on('certInfo', (monitorID: number, tlsInfoJSON: string) => {
+      this.safeLog('debug', `Received certInfo for monitor ${monitorID}`);
+
+      try {
+        this.certInfoCache[monitorID.toString()] = JSON.parse(tlsInfoJSON) as TlsInfo;
+      } catch {
+        this.safeLog('warning', `Ignoring unparseable certInfo for monitor ${monitorID}`);
+      }
     });
   }
 
+  /**
+   * Get the TLS certificate info last reported for a monitor
+   *
+   * @param monitorID - The ID of the monitor
+   * @returns The certificate info, or undefined if none has been received
+   */
+  getCertInfo(monitorID: number): TlsInfo | undefined {
+    return this.certInfoCache[monitorID.toString()];
+  }
+
   /**
    * Get a specific monitor by ID from the cache
    * 
@@ -831,6 +950,71 @@ export class UptimeKumaClient {
     });
   }
 
+  /**
+   * Fetch a monitor's raw heartbeats for the last `periodHours` hours (socket:
+   * `getMonitorBeats`), for history beyond the hundred beats the cache holds. Read from the
+   * heartbeat table, which Uptime Kuma prunes after its keep-data period; not cached.
+   *
+   * @param monitorID - The ID of the monitor
+   * @param periodHours - How far back to reach, in hours
+   * @returns Heartbeats newest-first
+   */
+  fetchMonitorBeats(monitorID: number, periodHours: number): Promise<Heartbeat[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || !this.socket.connected) {
+        reject(new Error('Not connected to server'));
+        return;
+      }
+
+      this.socket.emit(
+        'getMonitorBeats',
+        monitorID,
+        periodHours,
+        (response: ApiResponse & { data?: Heartbeat[] }) => {
+          if (response && response.ok) {
+            resolve(UptimeKumaClient.normaliseBeats(response.data || []));
+          } else {
+            reject(new Error(response?.msg || 'Failed to fetch monitor beats'));
+          }
+        }
+      );
+    });
+  }
+
+  /**
+   * Fetch a monitor's aggregated statistics for the last `periodHours` hours.
+   *
+   * Read from Uptime Kuma's stat tables rather than the heartbeat table, so it reaches much
+   * further back than any beat list. The server picks the resolution from the period: per
+   * minute up to 24 hours, per hour up to 30 days, per day beyond that (kept for a year).
+   * Like the important-beat feed, fetched on demand and not cached.
+   *
+   * @param monitorID - The ID of the monitor
+   * @param periodHours - How far back to reach, in hours
+   * @returns Buckets oldest-first
+   */
+  fetchMonitorChartData(monitorID: number, periodHours: number): Promise<ChartDataPoint[]> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || !this.socket.connected) {
+        reject(new Error('Not connected to server'));
+        return;
+      }
+
+      this.socket.emit(
+        'getMonitorChartData',
+        monitorID,
+        periodHours,
+        (response: ApiResponse & { data?: ChartDataPoint[] }) => {
+          if (response && response.ok) {
+            resolve([...(response.data || [])].sort((a, b) => a.timestamp - b.timestamp));
+          } else {
+            reject(new Error(response?.msg || 'Failed to fetch monitor chart data'));
+          }
+        }
+      );
+    });
+  }
+
   /**
    * Get a summarized list of all monitors with their most recent heartbeat status
    * 
@@ -961,6 +1145,35 @@ export class UptimeKumaClient {
     return summaries;
   }
 
+  /**
+   * IDs of a group monitor and everything nested under it, at any depth.
+   *
+   * The `parentId` filter deliberately stops at direct children; this is the recursive
+   * counterpart for callers that act on a whole branch ("put the database group into
+   * maintenance"). The group itself comes first, the rest in breadth-first order.
+   *
+   * @param groupID - The ID of the group monitor at the top of the branch
+   * @returns The monitor IDs in the branch, or an empty array if `groupID` is not cached
+   */
+  getMonitorSubtreeIDs(groupID: number): number[] {
+    if (!(String(groupID) in this.monitorListCache)) {
+      return [];
+    }
+
+    const monitors = Object.values(this.monitorListCache);
+    const result = [groupID];
+    const seen = new Set(result);
+    for (let i = 0; i < result.length; i++) {
+      for (const monitor of monitors) {
+        if (matchesParentFilter(monitor, result[i]) && !seen.has(monitor.id)) {
+          seen.add(monitor.id);
+          result.push(monitor.id);
+        }
+      }
+    }
+    return result;
+  }
+
   // ─── New listener setup methods ────────────────────────────────────────────
 
   private setupNotificationListListeners(): void {
@@ -968,6 +1181,7 @@ export class UptimeKumaClient {
     this.socket.on('notificationList', (notificationList: { [id: string]: any }) => {
       this.safeLog('debug', `Received notificationList with ${Object.keys(notificationList).length} notifications`);
       this.notificationListCache = notificationList as { [id: string]: Notification };
+      this.markListReceived('notificationList');
     });
   }
 
@@ -985,6 +1199,8 @@ export class UptimeKumaClient {
     this.socket.on('maintenanceList', (maintenanceList: { [id: string]: any }) => {
       this.safeLog('debug', `Received maintenanceList with ${Object.keys(maintenanceList).length} windows`);
       this.maintenanceListCache = maintenanceList as { [id: string]: Maintenance };
+      this.markListReceived('maintenanceList');
+      this.notifyCacheChanged({ cache: 'maintenance' });
     });
   }
 
@@ -993,6 +1209,8 @@ export class UptimeKumaClient {
     this.socket.on('statusPageList', (statusPageList: { [slug: string]: any }) => {
       this.safeLog('debug', `Received statusPageList with ${Object.keys(statusPageList).length} status pages`);
       this.statusPageListCache = statusPageList as { [slug: string]: StatusPage };
+      this.markListReceived('statusPageList');
+      this.notifyCacheChanged({ cache: 'statusPages' });
     });
   }
 
@@ -1001,6 +1219,7 @@ export class UptimeKumaClient {
     this.socket.on('dockerHostList', (dockerHostList: DockerHost[]) => {
       this.safeLog('debug', `Received dockerHostList with ${dockerHostList.length} docker hosts`);
       this.dockerHostListCache = dockerHostList;
+      this.markListReceived('dockerHostList');
     });
   }
 
@@ -1328,6 +1547,28 @@ export class UptimeKumaClient {
     });
   }
 
+  /**
+   * Send a test message through a notification channel without saving it. The provider's
+   * reply (or its error) comes back in `msg`.
+   *
+   * @param notification - Channel configuration as the edit form holds it: name, type and the
+   *   type-specific fields at the top level
+   * @returns Promise resolving to the API response
+   */
+  testNotification(notification: Record<string, unknown>): Promise<ApiResponse> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || !this.socket.connected) {
+        reject(new Error('Not connected to server'));
+        return;
+      }
+
+      this.socket.emit('testNotification', notification, (response: ApiResponse) => {
+        // Resolved either way, as with testDockerHost: a failed test is an answer, not an error.
+        resolve(response);
+      });
+    });
+  }
+
   // ─── Docker host operations ─────────────────────────────────────────────────
 
   /**
@@ -1451,6 +1692,32 @@ export class UptimeKumaClient {
     });
   }
 
+  /**
+   * Rename or recolor a tag. Monitors carrying it keep it — the binding is by ID.
+   *
+   * @param tagID - The ID of the tag to edit
+   * @param name - Tag name
+   * @param color - Tag color (hex string, e.g. '#ff0000')
+   * @returns Promise resolving to the API response with the stored tag
+   */
+  editTag(tagID: number, name: string, color: string): Promise<ApiResponse & { tag?: { id: number; name: string; color: string } }> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || !this.socket.connected) {
+        reject(new Error('Not connected to server'));
+        return;
+      }
+
+      this.socket.emit('editTag', { id: tagID, name, color }, (response: ApiResponse & { tag?: { id: number; name: string; color: string } }) => {
+        if (response.ok) {
+          this.safeLog('info', `Successfully updated tag ${tagID}`);
+          resolve(response);
+        } else {
+          reject(new Error(response.msg || 'Failed to update tag'));
+        }
+      });
+    });
+  }
+
   /**
    * Delete a tag
    *
@@ -1508,6 +1775,215 @@ export class UptimeKumaClient {
     });
   }
 
+  /**
+   * Update an existing maintenance window
+   *
+   * Uptime Kuma's `editMaintenance` handler rebuilds the row from every field it receives,
+   * so callers should send the full window rather than just the fields that changed.
+   *
+   * @param maintenanceID - The ID of the maintenance window to update
+   * @param maintenanceData - Full maintenance window configuration
+   * @returns Promise resolving to the API response with the maintenance ID
+   */
+  updateMaintenance(maintenanceID: number, maintenanceData: Record<string, unknown>): Promise<ApiResponse & { maintenanceID?: number }> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || !this.socket.connected) {
+        reject(new Error('Not connected to server'));
+        return;
+      }
+
+      const payload = { ...maintenanceData, id: maintenanceID };
+      this.socket.emit('editMaintenance', payload, (response: ApiResponse & { maintenanceID?: number }) => {
+        if (response.ok) {
+          this.safeLog('info', `Successfully updated maintenance window ${maintenanceID}`);
+          resolve(response);
+        } else {
+          reject(new Error(response.msg || 'Failed to update maintenance window'));
+        }
+      });
+    });
+  }
+
+  /**
+   * Delete a maintenance window
+   *
+   * @param maintenanceID - The ID of the maintenance window to delete
+   * @returns Promise resolving to the API response
+   */
+  deleteMaintenance(maintenanceID: number): Promise<ApiResponse> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || !this.socket.connected) {
+        reject(new Error('Not connected to server'));
+        return;
+      }
+
+      this.socket.emit('deleteMaintenance', maintenanceID, (response: ApiResponse) => {
+        if (response.ok) {
+          this.safeLog('info', `Successfully deleted maintenance window ${maintenanceID}`);
+          resolve(response);
+        } else {
+          reject(new Error(response.msg || 'Failed to delete maintenance window'));
+        }
+      });
+    });
+  }
+
+  /**
+   * Pause a maintenance window. A paused window stays defined but no longer puts its
+   * monitors into MAINTENANCE, even inside its scheduled time.
+   *
+   * @param maintenanceID - The ID of the maintenance window to pause
+   * @returns Promise resolving to the API response
+   */
+  pauseMaintenance(maintenanceID: number): Promise<ApiResponse> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || !this.socket.connected) {
+        reject(new Error('Not connected to server'));
+        return;
+      }
+
+      this.socket.emit('pauseMaintenance', maintenanceID, (response: ApiResponse) => {
+        if (response.ok) {
+          this.safeLog('info', `Successfully paused maintenance window ${maintenanceID}`);
+          resolve(response);
+        } else {
+          reject(new Error(response.msg || 'Failed to pause maintenance window'));
+        }
+      });
+    });
+  }
+
+  /**
+   * Resume a paused maintenance window
+   *
+   * @param maintenanceID - The ID of the maintenance window to resume
+   * @returns Promise resolving to the API response
+   */
+  resumeMaintenance(maintenanceID: number): Promise<ApiResponse> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || !this.socket.connected) {
+        reject(new Error('Not connected to server'));
+        return;
+      }
+
+      this.socket.emit('resumeMaintenance', maintenanceID, (response: ApiResponse) => {
+        if (response.ok) {
+          this.safeLog('info', `Successfully resumed maintenance window ${maintenanceID}`);
+          resolve(response);
+        } else {
+          reject(new Error(response.msg || 'Failed to resume maintenance window'));
+        }
+      });
+    });
+  }
+
+  /**
+   * List the monitors a maintenance window applies to (socket: `getMonitorMaintenance`).
+   *
+   * Not cached: Uptime Kuma does not push this binding with `maintenanceList`, its own UI
+   * asks for it each time a window is opened.
+   *
+   * @param maintenanceID - The ID of the maintenance window
+   * @returns Promise resolving to the affected monitors (`id`, plus `name` where the server sends it)
+   */
+  getMonitorMaintenance(maintenanceID: number): Promise<Array<{ id: number; name?: string }>> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || !this.socket.connected) {
+        reject(new Error('Not connected to server'));
+        return;
+      }
+
+      this.socket.emit('getMonitorMaintenance', maintenanceID, (response: ApiResponse & { monitors?: Array<{ id: number; name?: string }> }) => {
+        if (response.ok) {
+          resolve(response.monitors ?? []);
+        } else {
+          reject(new Error(response.msg || `Failed to get monitors for maintenance window ${maintenanceID}`));
+        }
+      });
+    });
+  }
+
+  /**
+   * Set the monitors a maintenance window applies to (socket: `addMonitorMaintenance`).
+   *
+   * This REPLACES the window's monitor list — Uptime Kuma deletes the existing bindings before
+   * inserting the new ones — so a caller that wants to add must merge with
+   * `getMonitorMaintenance` first.
+   *
+   * @param maintenanceID - The ID of the maintenance window
+   * @param monitorIDs - The complete list of monitor IDs the window should cover
+   * @returns Promise resolving to the API response
+   */
+  addMonitorMaintenance(maintenanceID: number, monitorIDs: number[]): Promise<ApiResponse> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || !this.socket.connected) {
+        reject(new Error('Not connected to server'));
+        return;
+      }
+
+      const monitors = monitorIDs.map((id) => ({ id }));
+      this.socket.emit('addMonitorMaintenance', maintenanceID, monitors, (response: ApiResponse) => {
+        if (response.ok) {
+          this.safeLog('info', `Successfully bound ${monitorIDs.length} monitor(s) to maintenance window ${maintenanceID}`);
+          resolve(response);
+        } else {
+          reject(new Error(response.msg || `Failed to set monitors for maintenance window ${maintenanceID}`));
+        }
+      });
+    });
+  }
+
+  /**
+   * List the status pages a maintenance window is shown on (socket: `getMaintenanceStatusPage`).
+   *
+   * @param maintenanceID - The ID of the maintenance window
+   * @returns Promise resolving to the affected status pages (`id`, plus `title` where the server sends it)
+   */
+  getMaintenanceStatusPage(maintenanceID: number): Promise<Array<{ id: number; title?: string }>> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || !this.socket.connected) {
+        reject(new Error('Not connected to server'));
+        return;
+      }
+
+      this.socket.emit('getMaintenanceStatusPage', maintenanceID, (response: ApiResponse & { statusPages?: Array<{ id: number; title?: string }> }) => {
+        if (response.ok) {
+          resolve(response.statusPages ?? []);
+        } else {
+          reject(new Error(response.msg || `Failed to get status pages for maintenance window ${maintenanceID}`));
+        }
+      });
+    });
+  }
+
+  /**
+   * Set the status pages a maintenance window is shown on (socket: `addMaintenanceStatusPage`).
+   *
+   * Replaces the existing list, exactly like `addMonitorMaintenance`.
+   *
+   * @param maintenanceID - The ID of the maintenance window
+   * @param statusPageIDs - The complete list of status page IDs the window should appear on
+   * @returns Promise resolving to the API response
+   */
+  addMaintenanceStatusPage(maintenanceID: number, statusPageIDs: number[]): Promise<ApiResponse> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || !this.socket.connected) {
+        reject(new Error('Not connected to server'));
+        return;
+      }
+
+      const statusPages = statusPageIDs.map((id) => ({ id }));
+      this.socket.emit('addMaintenanceStatusPage', maintenanceID, statusPages, (response: ApiResponse) => {
+        if (response.ok) {
+          this.safeLog('info', `Successfully bound ${statusPageIDs.length} status page(s) to maintenance window ${maintenanceID}`);
+          resolve(response);
+        } else {
+          reject(new Error(response.msg || `Failed to set status pages for maintenance window ${maintenanceID}`));
+        }
+      });
+    });
+  }
+
   // ─── Status page operations ─────────────────────────────────────────────────
 
   /**
@@ -1641,6 +2117,64 @@ export class UptimeKumaClient {
     });
   }
 
+  /**
+   * Post an incident banner on a status page, or edit an existing one (socket: `postIncident`)
+   *
+   * A status page shows at most one incident: Uptime Kuma unpins every other incident on the
+   * page before storing this one. Passing `id` edits that incident in place instead of creating
+   * a new one.
+   *
+   * @param slug - The status page slug
+   * @param incident - Title, markdown content, style, and optionally the ID of the incident to edit
+   * @returns Promise resolving to the API response with the stored incident
+   */
+  postIncident(
+    slug: string,
+    incident: { title: string; content: string; style: string; id?: number }
+  ): Promise<ApiResponse & { incident?: Incident }> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || !this.socket.connected) {
+        reject(new Error('Not connected to server'));
+        return;
+      }
+
+      this.socket.emit('postIncident', slug, incident, (response: ApiResponse & { incident?: Incident }) => {
+        if (response.ok) {
+          this.safeLog('info', `Successfully posted incident on status page ${slug}`);
+          resolve(response);
+        } else {
+          reject(new Error(response.msg || `Failed to post incident on status page ${slug}`));
+        }
+      });
+    });
+  }
+
+  /**
+   * Remove the incident banner from a status page (socket: `unpinIncident`)
+   *
+   * The incident is kept in Uptime Kuma's database, it just stops being shown.
+   *
+   * @param slug - The status page slug
+   * @returns Promise resolving to the API response
+   */
+  unpinIncident(slug: string): Promise<ApiResponse> {
+    return new Promise((resolve, reject) => {
+      if (!this.socket || !this.socket.connected) {
+        reject(new Error('Not connected to server'));
+        return;
+      }
+
+      this.socket.emit('unpinIncident', slug, (response: ApiResponse) => {
+        if (response.ok) {
+          this.safeLog('info', `Successfully unpinned incident on status page ${slug}`);
+          resolve(response);
+        } else {
+          reject(new Error(response.msg || `Failed to unpin incident on status page ${slug}`));
+        }
+      });
+    });
+  }
+
   // ─── Socket accessor ─────────────────────────────────────────────────────────
 
   /**
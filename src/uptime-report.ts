@@ -0,0 +1,228 @@
+import type { UptimeKumaClient } from './uptime-kuma-client.js';
+import type { ChartDataPoint, UptimeReport, UptimeReportRow } from './types/index.js';
+
+/**
+ * Availability over an arbitrary date range, for SLA reviews. The cached uptime figures only
+ * cover the periods Uptime Kuma happens to push (24h, 30d, …) and the beat caches hold the
+ * last hundred beats, so a report reads the server's history instead, from two sources:
+ *
+ * - Beat counts come from `getMonitorChartData`, Uptime Kuma's aggregated statistics. The
+ *   availability percentage is UP beats over UP + DOWN beats — the same measure as the
+ *   uptime figures in its own UI — at the resolution the server keeps for the range.
+ * - Downtime, incidents, MTTR and MTBF come from the important-beat feed, the monitor's
+ *   status changes, paged back to the start of the range. A DOWN period runs from a DOWN
+ *   beat to the next status change that is not DOWN, so it is measured to the second.
+ *
+ * Times are UTC throughout, like the beats.
+ */
+
+const DOWN = 0;
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// The important-beat feed is paged; this bounds how far one monitor's history may run.
+const STATUS_CHANGE_PAGE_SIZE = 100;
+const STATUS_CHANGE_MAX_PAGES = 50;
+
+export interface StatusChange {
+  time: number;
+  status: number;
+  msg: string;
+}
+
+/**
+ * A period spent DOWN. `end` is null while the monitor is still down.
+ */
+export interface Outage {
+  start: number;
+  end: number | null;
+  msg: string;
+}
+
+/**
+ * Parses a heartbeat `time`. Uptime Kuma stores UTC and sends it without a zone marker
+ * ("2026-07-28 04:13:43.158"), which Date.parse would read as local time.
+ */
+export function parseBeatTime(time: string): number {
+  return Date.parse(`${time.trim().replace(' ', 'T')}Z`);
+}
+
+/**
+ * Parses a range boundary given by a caller. A date-time without a zone is UTC, like the
+ * beats it is compared with — a bare date already is.
+ */
+export function parseReportTime(value: string, field: string): number {
+  const trimmed = value.trim();
+  const zoned = /^\d{4}-\d{2}-\d{2}$/.test(trimmed) || /(Z|[+-]\d\d:?\d\d)$/i.test(trimmed)
+    ? trimmed
+    : `${trimmed.replace(' ', 'T')}Z`;
+  const ms = Date.parse(zoned);
+  if (Number.isNaN(ms)) {
+    throw new Error(`${field} "${value}" is not a date — use ISO-8601, e.g. "2026-09-01" or "2026-09-01T12:00:00Z"`);
+  }
+  return ms;
+}
+
+/**
+ * A monitor's status changes from `since` onwards, oldest-first, plus the last change before
+ * `since` — the state the monitor was in when the range began.
+ */
+export async function fetchStatusChanges(client: UptimeKumaClient, monitorID: number, since: number): Promise<StatusChange[]> {
+  const changes: StatusChange[] = [];
+  for (let page = 0; page < STATUS_CHANGE_MAX_PAGES; page++) {
+    const beats = await client.fetchImportantHeartbeats(monitorID, STATUS_CHANGE_PAGE_SIZE, page * STATUS_CHANGE_PAGE_SIZE);
+    let reachedSince = false;
+    for (const beat of beats) {
+      const time = parseBeatTime(beat.time);
+      if (Number.isNaN(time)) continue;
+      changes.push({ time, status: beat.status, msg: String(beat.msg ?? '') });
+      if (time < since) reachedSince = true;
+    }
+    if (reachedSince || beats.length < STATUS_CHANGE_PAGE_SIZE) {
+      return changes.sort((a, b) => a.time - b.time);
+    }
+  }
+  throw new Error(
+    `Monitor ${monitorID} changed status more than ${STATUS_CHANGE_PAGE_SIZE * STATUS_CHANGE_MAX_PAGES} times since ${new Date(since).toISOString()} — use a shorter range`
+  );
+}
+
+/**
+ * The DOWN periods in a list of status changes (oldest-first). A repeated DOWN beat — the
+ * message changing while the monitor stays down — does not start a second outage.
+ *
+ * By default any change away from DOWN ends one, so time spent in maintenance is not counted
+ * as downtime. `closes` says otherwise: an incident timeline runs each outage to the next UP.
+ */
+export function outagesFrom(changes: StatusChange[], closes: (status: number) => boolean = (status) => status !== DOWN): Outage[] {
+  const outages: Outage[] = [];
+  let open: Outage | null = null;
+  for (const change of changes) {
+    if (change.status === DOWN) {
+      if (!open) {
+        open = { start: change.time, end: null, msg: change.msg };
+        outages.push(open);
+      }
+    } else if (open && closes(change.status)) {
+      open.end = change.time;
+      open = null;
+    }
+  }
+  return outages;
+}
+
+const round = (value: number, digits: number): number => Number(value.toFixed(digits));
+
+interface RowCounts {
+  upBeats: number;
+  downBeats: number;
+  downtime: number;
+  incidents: number;
+  ongoing: boolean;
+}
+
+function reportRow(name: string, counts: RowCounts, span: number, monitorID?: number): UptimeReportRow {
+  const { upBeats, downBeats, downtime, incidents, ongoing } = counts;
+  const beats = upBeats + downBeats;
+  return {
+    ...(monitorID !== undefined ? { monitorID } : {}),
+    name,
+    availability: beats > 0 ? round((upBeats / beats) * 100, 3) : null,
+    upBeats,
+    downBeats,
+    downtimeMinutes: round(downtime / MINUTE, 1),
+    incidents,
+    mttrMinutes: incidents > 0 ? round(downtime / incidents / MINUTE, 1) : null,
+    mtbfMinutes: incidents > 0 ? round((span - downtime) / incidents / MINUTE, 1) : null,
+    ongoing,
+  };
+}
+
+/**
+ * Builds the report for the given monitors over [start, end). `end` is capped at `now`.
+ */
+export async function buildUptimeReport(
+  client: UptimeKumaClient,
+  monitorIDs: number[],
+  range: { start: number; end: number; now?: number }
+): Promise<UptimeReport> {
+  const now = range.now ?? Date.now();
+  const start = range.start;
+  const end = Math.min(range.end, now);
+  if (start >= end) {
+    throw new Error(`The range is empty: start ${new Date(start).toISOString()} is not before end ${new Date(end).toISOString()}`);
+  }
+
+  // The chart endpoint reaches back from now, not from `end`.
+  const periodHours = Math.ceil((now - start) / HOUR);
+  const notes: string[] = [];
+  if (periodHours > 24) {
+    const bucket = periodHours > 720 ? 'day' : 'hour';
+    notes.push(`Beat counts come from Uptime Kuma's per-${bucket} statistics; a ${bucket} that straddles the start or end of the range is left out.`);
+  }
+  if (now - start > 365 * DAY) {
+    notes.push('Uptime Kuma keeps daily statistics for a year, so beat counts from before then are missing.');
+  }
+
+  const rows: UptimeReportRow[] = [];
+  const totals: RowCounts = { upBeats: 0, downBeats: 0, downtime: 0, incidents: 0, ongoing: false };
+  for (const monitorID of monitorIDs) {
+    const buckets: ChartDataPoint[] = await client.fetchMonitorChartData(monitorID, periodHours);
+    const inRange = buckets.filter((b) => b.timestamp * 1000 >= start && b.timestamp * 1000 < end);
+
+    const outages = outagesFrom(await fetchStatusChanges(client, monitorID, start))
+      .filter((o) => o.start < end && (o.end ?? Infinity) > start);
+
+    const counts: RowCounts = {
+      upBeats: inRange.reduce((sum, b) => sum + (b.up ?? 0), 0),
+      downBeats: inRange.reduce((sum, b) => sum + (b.down ?? 0), 0),
+      downtime: outages.reduce((sum, o) => sum + Math.min(o.end ?? end, end) - Math.max(o.start, start), 0),
+      incidents: outages.length,
+      ongoing: outages.some((o) => o.end === null || o.end > end),
+    };
+    rows.push(reportRow(client.getMonitor(monitorID)?.pathName ?? `Monitor ${monitorID}`, counts, end - start, monitorID));
+
+    totals.upBeats += counts.upBeats;
+    totals.downBeats += counts.downBeats;
+    totals.downtime += counts.downtime;
+    totals.incidents += counts.incidents;
+    totals.ongoing ||= counts.ongoing;
+  }
+
+  return {
+    start: new Date(start).toISOString(),
+    end: new Date(end).toISOString(),
+    monitors: rows,
+    // MTBF over the set counts every monitor's time: n monitors up for a month between them
+    // had n months in which to fail.
+    total: reportRow('All monitors', totals, (end - start) * monitorIDs.length),
+    notes,
+  };
+}
+
+/**
+ * The report as a markdown table, one row per monitor and a totals row.
+ */
+export function formatUptimeReportMarkdown(report: UptimeReport): string {
+  const cell = (value: number | null, suffix = ''): string => (value === null ? '—' : `${value}${suffix}`);
+  const line = (row: UptimeReportRow, bold: boolean): string => {
+    const name = row.name.replace(/\|/g, '\\|');
+    const incidents = `${row.incidents}${row.ongoing ? ' (ongoing)' : ''}`;
+    return `| ${bold ? `**${name}**` : name} | ${cell(row.availability, '%')} | ${row.downtimeMinutes} | ${incidents} | ${cell(row.mttrMinutes)} | ${cell(row.mtbfMinutes)} |`;
+  };
+
+  const lines = [
+    `Availability from ${report.start} to ${report.end} (UTC)`,
+    '',
+    '| Monitor | Availability | Downtime (min) | Incidents | MTTR (min) | MTBF (min) |',
+    '|---|---:|---:|---:|---:|---:|',
+    ...report.monitors.map((row) => line(row, false)),
+    line(report.total, true),
+  ];
+  if (report.notes.length > 0) {
+    lines.push('', ...report.notes.map((note) => `Note: ${note}`));
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,120 @@
+import type { UptimeKumaClient } from './uptime-kuma-client.js';
+
+/**
+ * Read-back verification for monitor writes, shared by createMonitor / updateMonitor and by
+ * the document-driven writes (importMonitors, applyConfig), which go through the same socket
+ * calls and can be acknowledged for a write that did not land in exactly the same way.
+ */
+
+const asText = (v: unknown): string | null =>
+  v === null || v === undefined || v === '' ? null : String(v);
+const asNumber = (v: unknown): number | null =>
+  v === null || v === undefined || v === '' ? null : Number(v);
+
+interface VerifiedField {
+  read: (v: unknown) => string | number | null;
+  equals?: (wanted: string | number | null, stored: string | number | null) => boolean;
+  /** Never put this field's value in an error message — it is a credential. */
+  secret?: boolean;
+  hint: string;
+}
+
+/**
+ * The fields where a write that quietly does not land is dangerous: it either produces a
+ * monitor that silently cannot report (timeout, pushToken, the json-query triple) or loses
+ * information with no error (description, parent).
+ *
+ * These are exactly the fields #58, #60 and #63 were filed about. Declaring them in the
+ * schema stops them being stripped; reading them back is what proves they were stored.
+ */
+const VERIFIED_MONITOR_FIELDS: Record<string, VerifiedField> = {
+  parent: {
+    read: asNumber,
+    hint: 'Uptime Kuma rejects a parent that is one of this monitor\'s own descendants, and the parent must be a monitor of type "group".',
+  },
+  description: {
+    read: asText,
+    hint: 'See #58 — the class of bug where the field is accepted and written as NULL.',
+  },
+  timeout: {
+    read: asNumber,
+    // Monitor.validate() rounds a ping timeout to whole seconds, so 47.5 -> 48 is correct
+    // rather than a failure. Anything else must match exactly.
+    equals: (wanted, stored) =>
+      wanted === stored ||
+      (typeof wanted === 'number' && typeof stored === 'number' && Math.round(wanted) === stored),
+    hint: 'timeout is stored in SECONDS, and a stored 0 is not "no timeout": Uptime Kuma\'s runtime fallback turns it into ~13 hours, so the monitor can never report DOWN against a black-holed endpoint.',
+  },
+  jsonPath: { read: asText, hint: 'See #60.' },
+  jsonPathOperator: { read: asText, hint: 'See #60.' },
+  expectedValue: { read: asText, hint: 'See #60 — the threshold is stored as a string.' },
+  pushToken: {
+    read: asText,
+    secret: true,
+    hint: 'See #60 — a push monitor with no token has no ping URL and can never report, while looking identical to one merely awaiting its first beat.',
+  },
+};
+
+/**
+ * Reads the monitor back after a write and proves the fields above actually landed.
+ *
+ * `{"ok":true,"msg":"Saved."}` means the socket call returned, not that your field was
+ * stored — Uptime Kuma answers that for any edit it accepts, including one that changed
+ * nothing. That is the whole reason #58/#60/#63 were each filed as separate bugs: there is
+ * nothing in the response to tell a partial write from a complete one.
+ *
+ * Uses `fetchMonitor()` (Kuma's `getMonitor` handler, which reads the DB) and NOT
+ * `getMonitor()` (which serves `monitorListCache`, refreshed by pushed events that can
+ * arrive after this write's callback resolved — so it can echo a write that never happened).
+ *
+ * Returns the problem as a string rather than throwing: by the time this runs the write has
+ * already happened, so the caller still has to report the monitorID and any generated push
+ * token. Throwing from here would unwind into the handler's catch, which reports "Failed to
+ * create monitor" and returns no structured content at all — see the call sites.
+ */
+export async function verifyMonitorWrite(
+  client: UptimeKumaClient,
+  monitorID: number,
+  requested: Record<string, unknown>,
+  operation: string
+): Promise<string | null> {
+  const fields = Object.keys(VERIFIED_MONITOR_FIELDS).filter((f) => f in requested);
+  if (fields.length === 0) return null;
+
+  let fresh: Record<string, unknown>;
+  try {
+    fresh = await client.fetchMonitor(monitorID);
+  } catch (verifyError) {
+    const m = verifyError instanceof Error ? verifyError.message : String(verifyError);
+    return (
+      `Monitor ${monitorID} was ${operation}, but the write of ${fields.join(', ')} could NOT be verified: ${m}. ` +
+      'Do not assume it applied — check the monitor before relying on it.'
+    );
+  }
+
+  const mismatches: string[] = [];
+  for (const field of fields) {
+    const spec = VERIFIED_MONITOR_FIELDS[field];
+    const wanted = spec.read(requested[field]);
+    const stored = spec.read(fresh[field]);
+    if (spec.equals ? spec.equals(wanted, stored) : wanted === stored) continue;
+
+    mismatches.push(
+      spec.secret
+        ? `${field}: sent a ${wanted === null ? 'null' : `${String(wanted).length}-character`} value, server reports ` +
+          `${stored === null ? 'nothing stored' : `a different ${String(stored).length}-character value`} ` +
+          `(value withheld — it is a credential). ${spec.hint}`
+        : `${field}: asked for ${JSON.stringify(wanted)}, server reports ${JSON.stringify(stored)}. ${spec.hint}`
+    );
+  }
+
+  if (mismatches.length > 0) {
+    return (
+      `Monitor ${monitorID} was ${operation} and Uptime Kuma acknowledged it, but the following did NOT persist:\n` +
+      `  - ${mismatches.join('\n  - ')}\n` +
+      'Uptime Kuma answers "Saved." for any edit it accepts, including one that changed nothing.'
+    );
+  }
+
+  return null;
+}
@@ -44,7 +44,7 @@ export const dockerHostTests: Array<{ name: string; fn: TestFn }> = [
         console.log(`  ✓ addDockerHost/listDockerHosts lifecycle: ID ${dockerHostID}`);
       } finally {
         // Cleanup
-        await client.callTool({ name: 'deleteDockerHost', arguments: { dockerHostID } });
+        await client.callTool({ name: 'deleteDockerHost', arguments: { dockerHostID, confirm: true } });
         console.log(`  ✓ deleteDockerHost: cleaned up ID ${dockerHostID}`);
       }
     },
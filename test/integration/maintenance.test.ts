@@ -3,7 +3,8 @@ import { TestFn, extractText, extractID } from './helpers.js';
 
 /**
  * Integration tests for maintenance window operations.
- * Covers: getMaintenanceWindows, createMaintenance, deleteMaintenance
+ * Covers: getMaintenanceWindows, createMaintenance, updateMaintenance, pauseMaintenance,
+ * resumeMaintenance, deleteMaintenance
  *
  * Issue coverage:
  * - #37: dateRange allows null in recurring maintenance windows
@@ -57,6 +58,47 @@ export const maintenanceTests: Array<{ name: string; fn: TestFn }> = [
       }
     },
   },
+  {
+    name: 'updateMaintenance preserves omitted fields, pauseMaintenance / resumeMaintenance toggle active',
+    fn: async ({ client }) => {
+      const createResult = await client.callTool({
+        name: 'createMaintenance',
+        arguments: {
+          title: 'Integration Test - Update Window',
+          description: 'Original description',
+          strategy: 'manual',
+          active: true,
+        },
+      }) as CallToolResult;
+      const maintenanceID = extractID(createResult, 'createMaintenance', 'maintenanceID');
+
+      const findWindow = async () => {
+        const listResult = await client.callTool({ name: 'getMaintenanceWindows', arguments: {} }) as CallToolResult;
+        const parsed = JSON.parse(extractText(listResult, 'getMaintenanceWindows'));
+        const windows = Array.isArray(parsed) ? parsed : parsed.maintenanceWindows;
+        return windows.find((w: any) => w.id === maintenanceID);
+      };
+
+      try {
+        await client.callTool({
+          name: 'updateMaintenance',
+          arguments: { maintenanceID, title: 'Integration Test - Updated Window' },
+        });
+        const updated = await findWindow();
+        if (updated?.title !== 'Integration Test - Updated Window') throw new Error('Title was not updated');
+        if (updated?.description !== 'Original description') throw new Error('Omitted description was not preserved');
+        console.log(`  ✓ updateMaintenance: renamed ID ${maintenanceID}, description preserved`);
+
+        await client.callTool({ name: 'pauseMaintenance', arguments: { maintenanceID } });
+        if ((await findWindow())?.active !== false) throw new Error('pauseMaintenance did not deactivate the window');
+        await client.callTool({ name: 'resumeMaintenance', arguments: { maintenanceID } });
+        if ((await findWindow())?.active !== true) throw new Error('resumeMaintenance did not reactivate the window');
+        console.log('  ✓ pauseMaintenance / resumeMaintenance');
+      } finally {
+        await client.callTool({ name: 'deleteMaintenance', arguments: { maintenanceID } });
+      }
+    },
+  },
   {
     name: '#37: recurring-interval maintenance with dateRange [null] does not error',
     fn: async ({ client }) => {
@@ -76,7 +76,7 @@ export const monitorTests: Array<{ name: string; fn: TestFn }> = [
         console.log(`  ✓ create/get lifecycle: monitor ID ${monitorID}`);
       } finally {
         // Delete
-        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID } });
+        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID, confirm: true } });
         console.log(`  ✓ deleteMonitor: cleaned up ID ${monitorID}`);
       }
     },
@@ -117,7 +117,7 @@ export const monitorTests: Array<{ name: string; fn: TestFn }> = [
 
         console.log(`  ✓ #43: updateMonitor preserved retryInterval=45 when omitted`);
       } finally {
-        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID } });
+        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID, confirm: true } });
       }
     },
   },
@@ -146,7 +146,7 @@ export const monitorTests: Array<{ name: string; fn: TestFn }> = [
       if (!createResult.isError) {
         try {
           const monitorID = extractID(createResult, 'createMonitor', 'monitorID');
-          await client.callTool({ name: 'deleteMonitor', arguments: { monitorID } });
+          await client.callTool({ name: 'deleteMonitor', arguments: { monitorID, confirm: true } });
         } catch { /* ignore cleanup failure */ }
         console.log(`  ✓ #42: docker monitor created and cleaned up`);
         return;
@@ -213,7 +213,7 @@ export const monitorTests: Array<{ name: string; fn: TestFn }> = [
 
         console.log(`  ✓ pauseMonitor/resumeMonitor lifecycle`);
       } finally {
-        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID } });
+        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID, confirm: true } });
       }
     },
   },
@@ -255,7 +255,7 @@ export const monitorTests: Array<{ name: string; fn: TestFn }> = [
         }
         console.log('  ✓ #58: description persists on create and update; active:false honoured');
       } finally {
-        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID } });
+        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID, confirm: true } });
       }
     },
   },
@@ -300,7 +300,7 @@ export const monitorTests: Array<{ name: string; fn: TestFn }> = [
         }
         console.log('  ✓ #60: json-query triple persists, snake_case aliases normalised');
       } finally {
-        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID } });
+        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID, confirm: true } });
       }
     },
   },
@@ -335,7 +335,7 @@ export const monitorTests: Array<{ name: string; fn: TestFn }> = [
         if (res.status !== 200) throw new Error(`push URL returned HTTP ${res.status}`);
         console.log('  ✓ #60: push token generated, stored, and the ping URL accepts a heartbeat');
       } finally {
-        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID } });
+        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID, confirm: true } });
       }
     },
   },
@@ -387,8 +387,8 @@ export const monitorTests: Array<{ name: string; fn: TestFn }> = [
         if (back.parent !== null) throw new Error('re-parent to top level did not persist');
         console.log('  ✓ #63/#65: re-parent works both ways; parentId returns direct children on both list and summary');
       } finally {
-        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID } });
-        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID: groupID } });
+        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID, confirm: true } });
+        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID: groupID, confirm: true } });
       }
     },
   },
@@ -410,7 +410,7 @@ export const monitorTests: Array<{ name: string; fn: TestFn }> = [
         }
         console.log('  ✓ timeout defaulted to 240s rather than 0');
       } finally {
-        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID } });
+        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID, confirm: true } });
       }
     },
   },
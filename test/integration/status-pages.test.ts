@@ -73,7 +73,7 @@ export const statusPageTests: Array<{ name: string; fn: TestFn }> = [
         console.log(`  ✓ createStatusPage/getStatusPage/updateStatusPage lifecycle: slug="${slug}"`);
       } finally {
         // Cleanup
-        await client.callTool({ name: 'deleteStatusPage', arguments: { slug } });
+        await client.callTool({ name: 'deleteStatusPage', arguments: { slug, confirm: true } });
         console.log(`  ✓ deleteStatusPage: cleaned up slug="${slug}"`);
       }
     },
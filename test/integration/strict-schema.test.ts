@@ -74,7 +74,7 @@ export const strictSchemaTests: Array<{ name: string; fn: TestFn }> = [
         }
         console.log('  ✓ undeclared field rejected and named');
       } finally {
-        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID } });
+        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID, confirm: true } });
       }
     },
   },
@@ -102,7 +102,7 @@ export const strictSchemaTests: Array<{ name: string; fn: TestFn }> = [
         if (monitor.name !== 'renamed') throw new Error('valid update did not apply');
         console.log('  ✓ valid calls unaffected');
       } finally {
-        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID } });
+        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID, confirm: true } });
       }
     },
   },
@@ -138,7 +138,7 @@ export const strictSchemaTests: Array<{ name: string; fn: TestFn }> = [
         }
         console.log('  ✓ #65: timeout:"" rejected and the stored value left intact');
       } finally {
-        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID } });
+        await client.callTool({ name: 'deleteMonitor', arguments: { monitorID, confirm: true } });
       }
     },
   },
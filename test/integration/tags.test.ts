@@ -59,7 +59,7 @@ export const tagTests: Array<{ name: string; fn: TestFn }> = [
         console.log(`  ✓ addTag/listTags: tag ID ${tagID} created`);
       } finally {
         // Delete
-        await client.callTool({ name: 'deleteTag', arguments: { tagID } });
+        await client.callTool({ name: 'deleteTag', arguments: { tagID, confirm: true } });
         console.log(`  ✓ deleteTag: cleaned up tag ID ${tagID}`);
       }
     },
@@ -100,7 +100,7 @@ export const tagTests: Array<{ name: string; fn: TestFn }> = [
 
         console.log(`  ✓ #45/#46: listTags returned ${tags.length} tags, found tag ID ${tagID} with correct data`);
       } finally {
-        await client.callTool({ name: 'deleteTag', arguments: { tagID } });
+        await client.callTool({ name: 'deleteTag', arguments: { tagID, confirm: true } });
       }
     },
   },
@@ -151,14 +151,14 @@ export const tagTests: Array<{ name: string; fn: TestFn }> = [
         console.log(`  ✓ #41: createMonitor with tags succeeded (tag attached: ${attached.name}=${attached.value})`);
       } finally {
         if (monitorID != null) {
-          await client.callTool({ name: 'deleteMonitor', arguments: { monitorID } });
+          await client.callTool({ name: 'deleteMonitor', arguments: { monitorID, confirm: true } });
         }
         // Clean up the tag
         const listResult = await client.callTool({ name: 'listTags', arguments: {} }) as CallToolResult;
         const tags = JSON.parse(extractText(listResult, 'listTags'));
         const tag = tags.find((t: any) => t.name === 'issue41-create');
         if (tag) {
-          await client.callTool({ name: 'deleteTag', arguments: { tagID: tag.id } });
+          await client.callTool({ name: 'deleteTag', arguments: { tagID: tag.id, confirm: true } });
         }
       }
     },
@@ -220,14 +220,14 @@ export const tagTests: Array<{ name: string; fn: TestFn }> = [
         console.log(`  ✓ #41: updateMonitor with tags succeeded (tag attached: ${attached.name}=${attached.value})`);
       } finally {
         if (monitorID != null) {
-          await client.callTool({ name: 'deleteMonitor', arguments: { monitorID } });
+          await client.callTool({ name: 'deleteMonitor', arguments: { monitorID, confirm: true } });
         }
         // Clean up tag
         const listResult = await client.callTool({ name: 'listTags', arguments: {} }) as CallToolResult;
         const tags = JSON.parse(extractText(listResult, 'listTags'));
         const tag = tags.find((t: any) => t.name === 'issue41-update');
         if (tag) {
-          await client.callTool({ name: 'deleteTag', arguments: { tagID: tag.id } });
+          await client.callTool({ name: 'deleteTag', arguments: { tagID: tag.id, confirm: true } });
         }
       }
     },
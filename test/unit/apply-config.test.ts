@@ -0,0 +1,336 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../../src/server.js';
+import { UptimeKumaClient } from '../../src/uptime-kuma-client.js';
+import { applyConfigDocument, formatApplyReport, parseConfigDocument } from '../../src/apply-config.js';
+import type { ConfigDocument } from '../../src/types/index.js';
+import {
+  injectMaintenanceListCache,
+  injectMonitorListCache,
+  injectNotificationListCache,
+  injectStatusPageListCache,
+} from './helpers.js';
+
+/**
+ * applyConfig: a desired-state document is planned against the caches, and only applied when
+ * confirmed and free of errors — writes in dependency order, deletes last.
+ */
+
+// See verify-monitor-write.test.ts: createServer() adds signal handlers per instance.
+process.setMaxListeners(50);
+
+const monitors = () => ({
+  '1': { id: 1, name: 'Prod', type: 'group', parent: null, interval: 60, active: true, tags: [], notificationIDList: {} },
+  '2': {
+    id: 2, name: 'web', type: 'http', parent: 1, url: 'https://example.com', interval: 60, retryInterval: 60,
+    active: true, tags: [{ tag_id: 4, name: 'env', value: 'prod', color: '#ff0000' }], notificationIDList: { '7': true },
+  },
+  '3': { id: 3, name: 'legacy', type: 'http', parent: 1, url: 'https://old.example.com', interval: 60, active: true, tags: [], notificationIDList: {} },
+  '4': { id: 4, name: 'Old group', type: 'group', parent: null, interval: 60, active: true, tags: [], notificationIDList: {} },
+  '5': { id: 5, name: 'inside', type: 'ping', parent: 4, hostname: 'example.com', interval: 60, active: true, tags: [], notificationIDList: {} },
+});
+
+const notifications = () => ({
+  '7': { id: 7, name: 'Slack ops', config: JSON.stringify({ name: 'Slack ops', type: 'slack', slackwebhookURL: 'https://hooks.slack.com/T0/B0/secret' }) },
+  '8': { id: 8, name: 'Email', config: JSON.stringify({ name: 'Email', type: 'smtp', smtpHost: 'mail', smtpPassword: 'pw' }) },
+});
+
+/** The server state applied to, with every write spied on and recorded in call order. */
+function kumaClient() {
+  const client = new UptimeKumaClient('http://localhost:3001');
+  const list = monitors() as Record<string, Record<string, unknown>>;
+  injectMonitorListCache(client, list);
+  injectNotificationListCache(client, notifications());
+  injectStatusPageListCache(client, { status: { id: 1, slug: 'status', title: 'Status', published: true } });
+  injectMaintenanceListCache(client, { '3': { id: 3, title: 'Patch day', strategy: 'manual', active: true, description: '' } });
+
+  const calls: string[] = [];
+  const record = (name: string, result: unknown = { ok: true }) =>
+    vi.spyOn(client, name as never).mockImplementation((async (...args: unknown[]) => {
+      calls.push(`${name} ${JSON.stringify(args)}`);
+      return typeof result === 'function' ? result(...args) : result;
+    }) as never);
+
+  vi.spyOn(client, 'getTagList').mockResolvedValue([{ id: 4, name: 'env', color: '#FF0000' }, { id: 5, name: 'unused', color: '#000000' }]);
+  record('addTag', { ok: true, tag: { id: 9 } });
+  record('editTag');
+  record('deleteTag');
+  record('addNotification', { ok: true, id: 10 });
+  record('deleteNotification');
+  let nextID = 100;
+  record('createMonitor', (data: Record<string, unknown>) => {
+    const id = nextID++;
+    // Uptime Kuma pushes the new monitor into the list before acknowledging the add.
+    list[String(id)] = { ...data, id };
+    return { ok: true, monitorID: id };
+  });
+  record('updateMonitor');
+  record('deleteMonitor');
+  vi.spyOn(client, 'fetchMonitor').mockImplementation(async (id) => list[String(id)]);
+  record('createStatusPage');
+  record('updateStatusPage');
+  record('deleteStatusPage');
+  vi.spyOn(client, 'getStatusPage').mockResolvedValue({
+    ok: true,
+    publicGroupList: [{ id: 1, name: 'Services', monitorList: [{ id: 2 }] }],
+  });
+  record('createMaintenance', { ok: true, maintenanceID: 11 });
+  record('updateMaintenance');
+  record('deleteMaintenance');
+  vi.spyOn(client, 'getMonitorMaintenance').mockResolvedValue([{ id: 2 }]);
+  vi.spyOn(client, 'getMaintenanceStatusPage').mockResolvedValue([]);
+  record('addMonitorMaintenance');
+  record('addMaintenanceStatusPage');
+
+  return { client, calls };
+}
+
+const web = { name: 'web', type: 'http', parent: 'Prod', url: 'https://example.com', interval: 60, retryInterval: 60, tags: [{ name: 'env', value: 'prod' }], notifications: ['Slack ops'] };
+
+describe('applyConfigDocument', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('plans every section without writing anything', async () => {
+    const { client, calls } = kumaClient();
+    const document: ConfigDocument = {
+      version: 1,
+      tags: [{ name: 'env', color: '#00ff00' }, { name: 'team' }],
+      notifications: [
+        { name: 'Slack ops', type: 'slack', slackwebhookURL: '***' },
+        { name: 'Pager', type: 'webhook', webhookURL: 'https://pager.example.com' },
+      ],
+      monitors: [
+        { name: 'Prod', type: 'group', interval: 60, active: true },
+        { ...web, interval: 30, notifications: ['Slack ops', 'Pager'] },
+        { name: 'api', type: 'http', parent: 'Prod', url: 'https://api.example.com', tags: [{ name: 'team', value: 'core' }] },
+      ],
+      statusPages: [{ slug: 'status', title: 'Status', groups: [{ name: 'Services', monitors: ['Prod / web', 'Prod / api'] }] }],
+      maintenance: [{ title: 'Patch day', strategy: 'manual', active: true, description: '', monitors: ['Prod / web'] }],
+    };
+
+    const result = await applyConfigDocument(client, document);
+
+    expect(result.applied).toBe(false);
+    expect(calls).toEqual([]);
+    expect(result.items.map((i) => [i.kind, i.name, i.action, i.changes?.join(',')])).toEqual([
+      ['tag', 'env', 'update', 'color'],
+      ['tag', 'team', 'create', undefined],
+      ['tag', 'unused', 'delete', undefined],
+      ['notification', 'Slack ops', 'unchanged', undefined],
+      ['notification', 'Pager', 'create', undefined],
+      ['notification', 'Email', 'delete', undefined],
+      ['monitor', 'Prod', 'unchanged', undefined],
+      ['monitor', 'Prod / web', 'update', 'interval,notificationIDList'],
+      ['monitor', 'Prod / api', 'create', undefined],
+      ['monitor', 'Prod / legacy', 'delete', undefined],
+      ['monitor', 'Old group / inside', 'delete', undefined],
+      ['monitor', 'Old group', 'delete', undefined],
+      ['statusPage', 'status', 'update', 'groups'],
+      ['maintenance', 'Patch day', 'unchanged', undefined],
+    ]);
+    expect(formatApplyReport(result)).toContain('Plan: 3 to create, 3 to update, 5 to delete; 3 unchanged. Nothing was changed — confirm to apply.');
+  });
+
+  it('applies in dependency order, deleting members before their group and everything last', async () => {
+    const { client, calls } = kumaClient();
+    const document: ConfigDocument = {
+      version: 1,
+      tags: [{ name: 'env' }, { name: 'team', color: '#0000ff' }],
+      monitors: [
+        { name: 'Prod', type: 'group', interval: 60, active: true },
+        web,
+        { name: 'api', type: 'http', parent: 'Prod', url: 'https://api.example.com', tags: [{ name: 'team', value: 'core' }] },
+      ],
+      statusPages: [{ slug: 'status', title: 'Status', groups: [{ name: 'Services', monitors: ['Prod / web', 'Prod / api'] }] }],
+    };
+
+    const result = await applyConfigDocument(client, document, { confirm: true });
+
+    expect(result.applied).toBe(true);
+    expect(calls.map((c) => c.split(' ')[0])).toEqual([
+      'addTag',
+      'createMonitor',
+      'updateStatusPage',
+      'deleteMonitor',
+      'deleteMonitor',
+      'deleteMonitor',
+      'deleteTag',
+    ]);
+    expect(calls[0]).toBe('addTag ["team","#0000ff"]');
+    expect(calls.filter((c) => c.startsWith('deleteMonitor'))).toEqual(['deleteMonitor [3]', 'deleteMonitor [5]', 'deleteMonitor [4]']);
+    expect(calls[2]).toContain('[{"name":"Services","monitorList":[{"id":2},{"id":100}]}]');
+    expect(result.items.find((i) => i.name === 'Prod / api')).toMatchObject({ action: 'create', id: 100, applied: true });
+    expect(formatApplyReport(result)).toContain('Created 2, updated 1, deleted 4; 3 unchanged, 0 failed.');
+  });
+
+  it('leaves sections the document does not have alone', async () => {
+    const { client, calls } = kumaClient();
+
+    const result = await applyConfigDocument(client, { version: 1, monitors: [
+      { name: 'Prod', type: 'group', interval: 60, active: true },
+      web,
+      { name: 'legacy', type: 'http', parent: 'Prod', url: 'https://old.example.com', interval: 60, active: true },
+      { name: 'Old group', type: 'group', interval: 60, active: true },
+      { name: 'inside', type: 'ping', parent: 'Old group', hostname: 'example.com', interval: 60, active: true },
+    ] }, { confirm: true });
+
+    expect(result.items.every((i) => i.kind === 'monitor' && i.action === 'unchanged')).toBe(true);
+    expect(calls).toEqual([]);
+    expect(formatApplyReport(result)).toBe('Nothing to do: 5 unchanged.');
+  });
+
+  it('applies nothing when any part of the document is wrong', async () => {
+    const { client, calls } = kumaClient();
+
+    const result = await applyConfigDocument(client, {
+      version: 1,
+      tags: [{ name: 'team' }],
+      monitors: [{ ...web, parent: undefined }],
+      statusPages: [{ slug: 'status', title: 'Status', groups: [{ name: 'Services', monitors: ['Prod / web'] }] }],
+      maintenance: [{ title: 'Nightly', strategy: 'manual', statusPages: ['missing'] }],
+    }, { confirm: true });
+
+    expect(result.applied).toBe(false);
+    expect(calls).toEqual([]);
+    expect(result.items.filter((i) => i.action === 'error')).toEqual([
+      { kind: 'tag', name: 'env', action: 'error', error: 'Monitor "web" carries this tag but it is not in tags' },
+      { kind: 'statusPage', name: 'status', action: 'error', error: 'Monitor(s) not found: Prod / web' },
+      { kind: 'maintenance', name: 'Nightly', action: 'error', error: 'Status page(s) not found: missing' },
+    ]);
+    expect(formatApplyReport(result)).toMatch(/The document has 3 error\(s\) — nothing was changed/);
+  });
+
+  it('keeps a channel\'s stored credentials and fields the document leaves out', async () => {
+    const { client, calls } = kumaClient();
+
+    const result = await applyConfigDocument(client, { version: 1, notifications: [
+      { name: 'Slack ops', type: 'slack', slackwebhookURL: '***', slackchannel: '#ops' },
+      { name: 'Email', type: 'smtp', smtpHost: 'mail' },
+    ] }, { confirm: true });
+
+    expect(result.items.map((i) => [i.name, i.action, i.changes])).toEqual([
+      ['Slack ops', 'update', ['slackchannel']],
+      ['Email', 'unchanged', undefined],
+    ]);
+    expect(calls).toEqual([
+      'addNotification [{"name":"Slack ops","type":"slack","slackwebhookURL":"https://hooks.slack.com/T0/B0/secret","slackchannel":"#ops"},7]',
+    ]);
+  });
+
+  it('rebinds a maintenance window without rewriting the window itself', async () => {
+    const { client, calls } = kumaClient();
+
+    const result = await applyConfigDocument(client, { version: 1, maintenance: [
+      { title: 'Patch day', strategy: 'manual', active: true, monitors: ['Prod / web', 'Old group / inside'] },
+      { title: 'Nightly', strategy: 'recurring-weekday', weekdays: [1, 2], timezone: 'UTC', statusPages: ['status'] },
+    ] }, { confirm: true });
+
+    expect(result.items.map((i) => [i.name, i.action, i.changes])).toEqual([
+      ['Patch day', 'update', ['monitors']],
+      ['Nightly', 'create', undefined],
+    ]);
+    expect(calls).toEqual([
+      'addMonitorMaintenance [3,[2,5]]',
+      'createMaintenance [{"description":"","strategy":"recurring-weekday","weekdays":[1,2],"timezone":"UTC","title":"Nightly","timezoneOption":"UTC"}]',
+      'addMaintenanceStatusPage [11,[1]]',
+    ]);
+  });
+
+  it('refuses to save a status page whose groups it cannot read back', async () => {
+    const { client, calls } = kumaClient();
+    vi.mocked(client.getStatusPage).mockResolvedValue({ ok: false, msg: 'Status page status not found' });
+
+    const result = await applyConfigDocument(client, { version: 1, statusPages: [{ slug: 'status', title: 'Status page' }] }, { confirm: true });
+
+    expect(result.items[0]).toMatchObject({ action: 'error', error: expect.stringMatching(/list its groups in the document/) });
+    expect(calls).toEqual([]);
+  });
+
+  it('rejects a document with an unknown section', () => {
+    expect(() => parseConfigDocument('version: 1\nmonitor: []')).toThrow(/Not a configuration document: \(root\): Unrecognized key\(s\) in object: 'monitor'/);
+  });
+});
+
+describe('applyConfig tool', () => {
+  beforeEach(() => {
+    vi.spyOn(UptimeKumaClient.prototype, 'ensureConnected').mockResolvedValue(undefined as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'login').mockResolvedValue({ ok: true } as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'getSettings').mockResolvedValue({ ok: true, data: {} } as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns the plan and writes nothing without confirm', async () => {
+    const deleteMonitor = vi.spyOn(UptimeKumaClient.prototype, 'deleteMonitor');
+    const { server, client: kuma } = await createServer({
+      url: 'http://localhost:3001',
+      username: undefined,
+      password: undefined,
+      token: undefined,
+      jwtToken: undefined,
+    });
+    injectMonitorListCache(kuma, monitors());
+    const client = new Client({ name: 'apply-config-test', version: '1.0.0' }, { capabilities: {} });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+
+    const result = await client.callTool({
+      name: 'applyConfig',
+      arguments: { document: 'version: 1\nmonitors:\n  - name: Prod\n    type: group\n    interval: 60\n    active: true\n' },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({ ok: true, applied: false });
+    const text = (result.content as Array<{ text: string }>)[0].text;
+    expect(text).toContain('  - delete monitor "Prod / web" (ID 2)');
+    expect(text).toContain('Plan: 0 to create, 0 to update, 4 to delete; 1 unchanged. Nothing was changed — confirm to apply.');
+    expect(deleteMonitor).not.toHaveBeenCalled();
+  });
+
+  it('applies only the plan the user reviewed', async () => {
+    const deleteMonitor = vi.spyOn(UptimeKumaClient.prototype, 'deleteMonitor').mockResolvedValue({ ok: true, msg: 'Deleted Successfully.' } as never);
+    const { server, client: kuma } = await createServer({
+      url: 'http://localhost:3001',
+      username: undefined,
+      password: undefined,
+      token: undefined,
+      jwtToken: undefined,
+    });
+    const cache = monitors();
+    injectMonitorListCache(kuma, cache);
+    const client = new Client({ name: 'apply-config-test', version: '1.0.0' }, { capabilities: {} });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    const document = 'version: 1\nmonitors:\n  - name: Prod\n    type: group\n    interval: 60\n    active: true\n';
+
+    const preview = await client.callTool({ name: 'applyConfig', arguments: { document } });
+    const { planID } = preview.structuredContent as { planID: string };
+    expect((preview.content as Array<{ text: string }>)[0].text).toContain(`planID: "${planID}"`);
+
+    // Created after the preview: the new plan would delete it too, unseen.
+    cache['9'] = { id: 9, name: 'new', pathName: 'new', type: 'http', parent: null };
+    const stale = await client.callTool({ name: 'applyConfig', arguments: { document, confirm: true, planID } });
+    const unbound = await client.callTool({ name: 'applyConfig', arguments: { document, confirm: true } });
+
+    expect(stale.isError).toBe(true);
+    expect(JSON.stringify(stale.content)).toContain(`The plan has changed since plan ${planID} was previewed`);
+    expect(unbound.isError).toBe(true);
+    expect(JSON.stringify(unbound.content)).toContain('Pass the planID');
+    expect(deleteMonitor).not.toHaveBeenCalled();
+
+    const again = await client.callTool({ name: 'applyConfig', arguments: { document } });
+    // No snapshot store here, so the plan says the delete is for good.
+    expect(JSON.stringify(again.content)).toContain('delete monitor \\"new\\" (ID 9) — cannot be restored');
+    const confirmed = await client.callTool({
+      name: 'applyConfig',
+      arguments: { document, confirm: true, planID: (again.structuredContent as { planID: string }).planID },
+    });
+    expect(confirmed.structuredContent).toMatchObject({ applied: true });
+    expect(deleteMonitor).toHaveBeenCalledWith(9);
+  });
+});
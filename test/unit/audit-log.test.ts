@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../../src/server.js';
+import { UptimeKumaClient } from '../../src/uptime-kuma-client.js';
+import { callerIdentity, readAuditLog } from '../../src/audit-log.js';
+import { injectMonitorListCache } from './helpers.js';
+
+// createServer() registers process signal handlers per instance; see verify-monitor-write.test.ts.
+process.setMaxListeners(50);
+
+let dir: string;
+let logPath: string;
+
+async function connectServer(auditLogPath?: string) {
+  const { server, client: kuma } = await createServer({
+    url: 'http://localhost:3001',
+    username: undefined,
+    password: undefined,
+    token: undefined,
+    jwtToken: undefined,
+    auditLogPath,
+  });
+  injectMonitorListCache(kuma, { '7': { id: 7, name: 'API', pathName: 'API', type: 'http' } });
+
+  const client = new Client({ name: 'audit-log-test', version: '1.0.0' }, { capabilities: {} });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+const logLines = () => readFileSync(logPath, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+
+describe('audit log', () => {
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'audit-log-test-'));
+    logPath = join(dir, 'audit.jsonl');
+    vi.spyOn(UptimeKumaClient.prototype, 'ensureConnected').mockResolvedValue(undefined as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'login').mockResolvedValue({ ok: true } as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'getSettings').mockResolvedValue({ ok: true, data: {} } as never);
+    let active = true;
+    let exists = true;
+    vi.spyOn(UptimeKumaClient.prototype, 'fetchMonitor').mockImplementation((async (monitorID: number) => {
+      if (!exists) throw new Error(`Monitor ${monitorID} not found`);
+      return { id: monitorID, name: 'API', type: 'http', active, basic_auth_pass: 'hunter2' };
+    }) as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'pauseMonitor').mockImplementation((async () => {
+      active = false;
+      return { ok: true, msg: 'Paused Successfully.' };
+    }) as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'deleteMonitor').mockImplementation((async () => {
+      exists = false;
+      return { ok: true, msg: 'Deleted Successfully.' };
+    }) as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'resumeMonitor').mockRejectedValue(new Error('Timeout'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends every write call with the caller, masked arguments and monitor snapshots', async () => {
+    const client = await connectServer(logPath);
+
+    await client.callTool({ name: 'pauseMonitor', arguments: { monitorID: 7 } });
+    await client.callTool({ name: 'resumeMonitor', arguments: { monitorID: 7 } });
+    await client.callTool({ name: 'deleteMonitor', arguments: { monitorID: 7, confirm: true } });
+    await client.callTool({ name: 'listMonitors', arguments: {} });
+
+    const [pause, resume, remove, ...rest] = logLines();
+    expect(rest).toEqual([]);
+    expect(pause).toMatchObject({
+      tool: 'pauseMonitor',
+      caller: 'stdio',
+      arguments: { monitorID: 7 },
+      ok: true,
+      result: { ok: true, msg: 'Paused Successfully.' },
+      monitorID: 7,
+      before: { active: true, basic_auth_pass: '***' },
+      after: { active: false, basic_auth_pass: '***' },
+    });
+    expect(resume).toMatchObject({ tool: 'resumeMonitor', ok: false, result: null });
+    expect(resume.error).toContain('Timeout');
+    expect(remove).toMatchObject({ tool: 'deleteMonitor', ok: true, before: { id: 7 }, after: null });
+  });
+
+  it('answers getAuditLog queries newest first', async () => {
+    const client = await connectServer(logPath);
+    await client.callTool({ name: 'pauseMonitor', arguments: { monitorID: 7 } });
+    await client.callTool({ name: 'resumeMonitor', arguments: { monitorID: 7 } });
+
+    const all = await client.callTool({ name: 'getAuditLog', arguments: { monitorID: 7 } });
+    const failed = await client.callTool({ name: 'getAuditLog', arguments: { failedOnly: true } });
+
+    const entries = (all.structuredContent as { entries: Array<{ tool: string }> }).entries;
+    expect(entries.map((e) => e.tool)).toEqual(['resumeMonitor', 'pauseMonitor']);
+    expect(failed.structuredContent).toMatchObject({ count: 1, total: 1, skippedLines: 0 });
+    expect(JSON.stringify(failed.content)).toContain('resumeMonitor monitor 7 \\"API\\" by stdio — error: MCP error -32603: Failed to resume monitor: Timeout');
+  });
+
+  it('says how to turn the log on when it is off', async () => {
+    const client = await connectServer();
+
+    const result = await client.callTool({ name: 'getAuditLog', arguments: {} });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.stringify(result.content)).toContain('UPTIME_KUMA_AUDIT_LOG');
+  });
+});
+
+describe('readAuditLog', () => {
+  it('skips lines that are not entries and filters bulk calls by their monitorIDs', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'audit-log-test-'));
+    const path = join(dir, 'audit.jsonl');
+    writeFileSync(path, [
+      JSON.stringify({ timestamp: '2026-10-01T00:00:00Z', tool: 'pauseMonitors', caller: 'ops', arguments: { confirmMonitorIDs: [3, 4] }, ok: true, result: null }),
+      '{"timestamp":"2026-10-02T00:00:00Z","tool":"deleteMon',
+      JSON.stringify({ timestamp: '2026-10-03T00:00:00Z', tool: 'updateMonitor', caller: 'ops', arguments: {}, ok: true, result: null, monitorID: 5 }),
+      '',
+    ].join('\n'));
+
+    try {
+      const result = await readAuditLog(path, { monitorID: 4, since: Date.parse('2026-09-30') });
+      expect(result).toMatchObject({ total: 1, skippedLines: 1 });
+      expect(result.entries[0].tool).toBe('pauseMonitors');
+      expect(await readAuditLog(join(dir, 'missing.jsonl'))).toEqual({ entries: [], total: 0, skippedLines: 0 });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('callerIdentity', () => {
+  it('names the token, never its value', () => {
+    expect(callerIdentity({ authInfo: { token: 'secret', clientId: 'ops-bot', scopes: ['read'] } })).toBe('ops-bot');
+    expect(callerIdentity({ requestInfo: { headers: {} } })).toBe('http');
+    expect(callerIdentity({})).toBe('stdio');
+  });
+});
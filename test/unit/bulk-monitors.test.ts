@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../../src/server.js';
+import { UptimeKumaClient } from '../../src/uptime-kuma-client.js';
+import { injectMonitorListCache } from './helpers.js';
+
+// createServer() registers process signal handlers per instance; see verify-monitor-write.test.ts.
+process.setMaxListeners(50);
+
+const STAGING = [{ name: 'env', value: 'staging', color: '#00ff00' }];
+
+const MONITORS = {
+  '1': { id: 1, name: 'Staging', type: 'group', active: true, parent: null, path: ['Staging'], pathName: 'Staging', tags: STAGING, interval: 60, retryInterval: 60 },
+  '2': { id: 2, name: 'API', type: 'http', active: true, parent: 1, path: ['Staging', 'API'], pathName: 'Staging / API', tags: STAGING, interval: 60, retryInterval: 60 },
+  '3': { id: 3, name: 'DB', type: 'port', active: false, parent: 1, path: ['Staging', 'DB'], pathName: 'Staging / DB', tags: STAGING, interval: 60, retryInterval: 60 },
+  '4': { id: 4, name: 'Prod API', type: 'http', active: true, parent: null, path: ['Prod API'], pathName: 'Prod API', tags: [{ name: 'env', value: 'prod', color: '#ff0000' }], interval: 60, retryInterval: 60 },
+};
+
+async function connectServer() {
+  const { server, client: kuma } = await createServer({
+    url: 'http://localhost:3001',
+    username: undefined,
+    password: undefined,
+    token: undefined,
+    jwtToken: undefined,
+  });
+  injectMonitorListCache(kuma, structuredClone(MONITORS));
+
+  const client = new Client({ name: 'bulk-test', version: '1.0.0' }, { capabilities: {} });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+describe('bulk monitor actions', () => {
+  let pauseMonitor: ReturnType<typeof vi.spyOn>;
+  let deleteMonitor: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.spyOn(UptimeKumaClient.prototype, 'ensureConnected').mockResolvedValue(undefined as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'login').mockResolvedValue({ ok: true } as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'getSettings').mockResolvedValue({ ok: true, data: {} } as never);
+    pauseMonitor = vi.spyOn(UptimeKumaClient.prototype, 'pauseMonitor').mockResolvedValue({ ok: true, msg: 'Paused Successfully.' } as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'resumeMonitor').mockResolvedValue({ ok: true, msg: 'Resumed Successfully.' } as never);
+    deleteMonitor = vi.spyOn(UptimeKumaClient.prototype, 'deleteMonitor').mockResolvedValue({ ok: true, msg: 'Deleted Successfully.' } as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('only previews without confirmMonitorIDs', async () => {
+    const client = await connectServer();
+
+    const result = await client.callTool({ name: 'pauseMonitors', arguments: { tags: 'env=staging' } });
+
+    expect(result.isError).toBeFalsy();
+    expect(pauseMonitor).not.toHaveBeenCalled();
+    const structured = result.structuredContent as { preview: boolean; matched: Array<{ id: number }> };
+    expect(structured.preview).toBe(true);
+    expect(structured.matched.map((m) => m.id)).toEqual([1, 2, 3]);
+    expect(JSON.stringify(result.content)).toContain('confirmMonitorIDs: [1,2,3]');
+  });
+
+  it('acts on the confirmed set and reports each monitor', async () => {
+    pauseMonitor.mockImplementation((async (id: number) => {
+      if (id === 3) throw new Error('Monitor is already paused');
+      return { ok: true, msg: 'Paused Successfully.' };
+    }) as never);
+    const client = await connectServer();
+
+    const result = await client.callTool({
+      name: 'pauseMonitors',
+      arguments: { tags: 'env=staging', confirmMonitorIDs: [3, 2, 1] },
+    });
+
+    expect(pauseMonitor.mock.calls.map((call) => call[0])).toEqual([1, 2, 3]);
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({
+      ok: false,
+      preview: false,
+      results: [
+        { monitorID: 1, ok: true },
+        { monitorID: 2, ok: true },
+        { monitorID: 3, ok: false, error: 'Monitor is already paused' },
+      ],
+    });
+    expect(JSON.stringify(result.content)).toContain('Paused 2 of 3 monitor(s). 1 failed');
+  });
+
+  it('changes nothing when the filters no longer match the confirmed set', async () => {
+    const client = await connectServer();
+
+    const result = await client.callTool({
+      name: 'deleteMonitors',
+      arguments: { tags: 'env=staging', confirmMonitorIDs: [2, 3, 4] },
+    });
+
+    expect(result.isError).toBe(true);
+    const text = JSON.stringify(result.content);
+    expect(text).toContain('now matched but not confirmed: 1');
+    expect(text).toContain('confirmed but no longer matched: 4');
+    expect(deleteMonitor).not.toHaveBeenCalled();
+  });
+
+  it('deletes members before their group', async () => {
+    const client = await connectServer();
+
+    await client.callTool({ name: 'deleteMonitors', arguments: { tags: 'env=staging', confirmMonitorIDs: [1, 2, 3] } });
+
+    expect(deleteMonitor.mock.calls.map((call) => call[0])).toEqual([2, 3, 1]);
+  });
+
+  it('combines filters the way getMonitorSummary does', async () => {
+    const client = await connectServer();
+
+    const result = await client.callTool({ name: 'resumeMonitors', arguments: { parentId: 1, active: false } });
+
+    expect((result.structuredContent as { matched: Array<{ id: number }> }).matched.map((m) => m.id)).toEqual([3]);
+  });
+
+  it('refuses a call with no filter at all', async () => {
+    const client = await connectServer();
+
+    const result = await client.callTool({ name: 'deleteMonitors', arguments: { confirmMonitorIDs: [1, 2, 3, 4] } });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.stringify(result.content)).toContain('Pass at least one filter');
+    expect(deleteMonitor).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { UptimeKumaClient } from '../../src/uptime-kuma-client.js';
+import { certificateExpiry, formatCertificateExpiry } from '../../src/certificate-expiry.js';
+import { createMockSocket, injectMonitorListCache, injectSocket } from './helpers.js';
+
+const NOW = Date.parse('2026-09-01T12:00:00Z');
+
+const tlsInfo = (validTo: string, extra: Record<string, unknown> = {}) => JSON.stringify({
+  valid: true,
+  certInfo: {
+    subject: { CN: 'api.example.com' },
+    issuer: { C: 'US', O: "Let's Encrypt", CN: 'R11' },
+    validTo,
+    // As sent when the check ran — stale by the time anyone asks.
+    daysRemaining: 99,
+    ...extra,
+  },
+});
+
+function clientWithCertificates(certInfo: Record<number, string>) {
+  const client = new UptimeKumaClient('http://localhost:3001');
+  const { socket, onHandlers } = createMockSocket();
+  injectSocket(client, socket);
+  (client as unknown as { setupCertInfoListeners: () => void }).setupCertInfoListeners();
+  injectMonitorListCache(client, {
+    '1': { id: 1, name: 'API', pathName: 'Prod / API', type: 'http', url: 'https://api.example.com' },
+    '2': { id: 2, name: 'Shop', pathName: 'Shop', type: 'keyword', url: 'https://shop.example.com' },
+    '3': { id: 3, name: 'Legacy', pathName: 'Legacy', type: 'json-query', url: 'https://legacy.example.com' },
+    '4': { id: 4, name: 'Paused', pathName: 'Paused', type: 'http', url: 'https://paused.example.com' },
+    '5': { id: 5, name: 'Plain', pathName: 'Plain', type: 'http', url: 'http://plain.example.com' },
+    '6': { id: 6, name: 'DB', pathName: 'DB', type: 'port', hostname: 'db.example.com' },
+    '7': { id: 7, name: 'Self-signed', pathName: 'Self-signed', type: 'http', url: 'https://internal.example.com' },
+  });
+  for (const [monitorID, json] of Object.entries(certInfo)) {
+    onHandlers['certInfo'](Number(monitorID), json);
+  }
+  return client;
+}
+
+describe('certificateExpiry', () => {
+  it('lists every HTTPS monitor, most urgent first, counting days from now', () => {
+    const client = clientWithCertificates({
+      1: tlsInfo('2026-12-01T00:00:00.000Z'),
+      2: tlsInfo('2026-09-10T00:00:00.000Z', { subject: { CN: ['shop.example.com', 'www.shop.example.com'] } }),
+      3: tlsInfo('2026-08-30T00:00:00.000Z'),
+      7: JSON.stringify({ valid: false, certInfo: { subject: { CN: 'internal' }, issuer: { CN: 'internal' }, validTo: '2027-01-01T00:00:00.000Z' } }),
+    });
+
+    const rows = certificateExpiry(client, { warnDays: 21, now: NOW });
+
+    expect(rows.map((r) => [r.monitorID, r.status, r.daysRemaining])).toEqual([
+      [7, 'invalid', 121],
+      [3, 'expired', -3],
+      [2, 'expiring', 8],
+      [1, 'ok', 90],
+      [4, 'unknown', null],
+    ]);
+    expect(rows[2]).toMatchObject({
+      subject: 'shop.example.com, www.shop.example.com',
+      issuer: "Let's Encrypt",
+      validTo: '2026-09-10T00:00:00.000Z',
+      valid: true,
+    });
+  });
+
+  it('limits to the selected monitors and renders a table', () => {
+    const client = clientWithCertificates({ 2: tlsInfo('2026-09-10T00:00:00.000Z') });
+
+    const rows = certificateExpiry(client, { warnDays: 7, monitorIDs: [2, 6], now: NOW });
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].status).toBe('ok');
+    expect(formatCertificateExpiry(rows, 7)).toContain(
+      "| ok | 8 | 2026-09-10 | Shop [2] | api.example.com | Let's Encrypt |"
+    );
+  });
+
+  it('ignores a certInfo event it cannot parse', () => {
+    const client = clientWithCertificates({ 1: '{not json' });
+
+    expect(client.getCertInfo(1)).toBeUndefined();
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../../src/server.js';
+import { UptimeKumaClient } from '../../src/uptime-kuma-client.js';
+import { injectMonitorListCache } from './helpers.js';
+
+// createServer() registers process signal handlers per instance; see verify-monitor-write.test.ts.
+process.setMaxListeners(50);
+
+// Full rows as fetchMonitor returns them: real credentials, plus the server's bookkeeping.
+const STORED: Record<number, Record<string, unknown>> = {
+  10: {
+    id: 10, name: 'Web', type: 'group', parent: null, path: ['Web'], pathName: 'Web',
+    childrenIDs: [11, 12], interval: 60, retryInterval: 60, timeout: 48, user_id: 1,
+    maintenance: false, notificationIDList: { 3: true }, tags: [],
+  },
+  11: {
+    id: 11, name: 'API', type: 'http', parent: 10, path: ['Web', 'API'], pathName: 'Web / API',
+    url: 'https://api.example.com', basic_auth_user: 'ops', basic_auth_pass: 'hunter2',
+    interval: 60, retryInterval: 60, timeout: 48, user_id: 1, childrenIDs: [],
+    notificationIDList: { 3: true },
+    tags: [{ id: 1, tag_id: 5, monitor_id: 11, name: 'prod', value: 'eu', color: '#ff0000' }],
+  },
+  12: {
+    id: 12, name: 'Cron', type: 'push', parent: 10, path: ['Web', 'Cron'], pathName: 'Web / Cron',
+    pushToken: 'original-token', interval: 60, retryInterval: 60, timeout: 48, user_id: 1,
+    childrenIDs: [], tags: [],
+  },
+};
+
+async function connectServer() {
+  const { server, client: kuma } = await createServer({
+    url: 'http://localhost:3001',
+    username: undefined,
+    password: undefined,
+    token: undefined,
+    jwtToken: undefined,
+  });
+  injectMonitorListCache(kuma, Object.fromEntries(
+    Object.values(STORED).map((m) => [String(m.id), { id: m.id, name: m.name, type: m.type, parent: m.parent }])
+  ));
+
+  const client = new Client({ name: 'clone-test', version: '1.0.0' }, { capabilities: {} });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+describe('cloneMonitor', () => {
+  let created: Array<Record<string, unknown>>;
+  let createMonitor: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.spyOn(UptimeKumaClient.prototype, 'ensureConnected').mockResolvedValue(undefined as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'login').mockResolvedValue({ ok: true } as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'getSettings').mockResolvedValue({ ok: true, data: {} } as never);
+
+    // New rows are stored as sent, so the post-write read-back sees what was written.
+    created = [];
+    const rows: Record<number, Record<string, unknown>> = { ...STORED };
+    vi.spyOn(UptimeKumaClient.prototype, 'fetchMonitor').mockImplementation(
+      (async (id: number) => {
+        if (!rows[id]) throw new Error(`Monitor ${id} not found`);
+        return { ...rows[id] };
+      }) as never
+    );
+    createMonitor = vi.spyOn(UptimeKumaClient.prototype, 'createMonitor').mockImplementation(
+      (async (data: Record<string, unknown>) => {
+        const monitorID = 100 + created.length;
+        created.push(data);
+        rows[monitorID] = { id: monitorID, ...data };
+        return { ok: true, msg: 'Added Successfully.', monitorID };
+      }) as never
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('copies the stored configuration, real secrets included, without the server-assigned fields', async () => {
+    const client = await connectServer();
+
+    const result = await client.callTool({ name: 'cloneMonitor', arguments: { monitorID: 11 } });
+
+    expect(result.isError).toBeFalsy();
+    expect(created).toHaveLength(1);
+    const data = created[0];
+    expect(data.name).toBe('Clone of API');
+    expect(data.basic_auth_pass).toBe('hunter2');
+    expect(data.parent).toBe(10);
+    expect(data.notificationIDList).toEqual({ 3: true });
+    expect(data.tags).toEqual([{ name: 'prod', value: 'eu', color: '#ff0000' }]);
+    for (const field of ['id', 'path', 'pathName', 'childrenIDs', 'user_id']) {
+      expect(data).not.toHaveProperty(field);
+    }
+    // The secret went to the server, never back to the caller.
+    expect(JSON.stringify(result)).not.toContain('hunter2');
+    expect(result.structuredContent).toEqual({
+      ok: true,
+      monitorID: 100,
+      clones: [{ sourceID: 11, monitorID: 100, name: 'Clone of API' }],
+    });
+  });
+
+  it('applies the overrides to the copy', async () => {
+    const client = await connectServer();
+
+    await client.callTool({
+      name: 'cloneMonitor',
+      arguments: {
+        monitorID: 11,
+        name: 'API (staging)',
+        url: 'https://staging.example.com',
+        parent: null,
+        tags: [{ name: 'staging' }],
+      },
+    });
+
+    expect(created[0]).toMatchObject({ name: 'API (staging)', url: 'https://staging.example.com', parent: null });
+    expect(created[0].tags).toEqual([{ name: 'staging' }]);
+  });
+
+  it('gives a cloned push monitor its own token', async () => {
+    const client = await connectServer();
+
+    const result = await client.callTool({ name: 'cloneMonitor', arguments: { monitorID: 12 } });
+
+    const token = created[0].pushToken as string;
+    expect(token).toBeTruthy();
+    expect(token).not.toBe('original-token');
+    const clones = (result.structuredContent as { clones: Array<{ pushURL?: string }> }).clones;
+    expect(clones[0].pushURL).toBe(`http://localhost:3001/api/push/${token}?status=up&msg=OK&ping=`);
+  });
+
+  it('clones a group with its members under the new group', async () => {
+    const client = await connectServer();
+
+    const result = await client.callTool({
+      name: 'cloneMonitor',
+      arguments: { monitorID: 10, name: 'Web (copy)', recursive: true },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(created.map((m) => [m.name, m.parent])).toEqual([
+      ['Web (copy)', null],
+      ['API', 100],
+      ['Cron', 100],
+    ]);
+    expect(created[1].basic_auth_pass).toBe('hunter2');
+    expect((result.structuredContent as { clones: unknown[] }).clones).toHaveLength(3);
+  });
+
+  it('does not pick up a copy placed inside the group being cloned', async () => {
+    const client = await connectServer();
+
+    await client.callTool({ name: 'cloneMonitor', arguments: { monitorID: 10, parent: 10, recursive: true } });
+
+    expect(created).toHaveLength(3);
+  });
+
+  it('refuses recursive for a monitor that is not a group', async () => {
+    const client = await connectServer();
+
+    const result = await client.callTool({ name: 'cloneMonitor', arguments: { monitorID: 11, recursive: true } });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.stringify(result.content)).toContain('recursive only applies to groups');
+    expect(createMonitor).not.toHaveBeenCalled();
+  });
+
+  it('names the copies already created when a recursive clone fails part-way', async () => {
+    createMonitor.mockImplementationOnce((async (data: Record<string, unknown>) => {
+      created.push(data);
+      return { ok: true, msg: 'Added Successfully.', monitorID: 100 };
+    }) as never);
+    createMonitor.mockRejectedValueOnce(new Error('Invalid URL'));
+    const client = await connectServer();
+
+    const result = await client.callTool({ name: 'cloneMonitor', arguments: { monitorID: 10, recursive: true } });
+
+    expect(result.isError).toBe(true);
+    const text = JSON.stringify(result.content);
+    expect(text).toContain('Invalid URL');
+    expect(text).toContain('Created before the failure: 100 \\"Clone of Web\\"');
+  });
+});
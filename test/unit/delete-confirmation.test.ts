@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { ElicitRequestSchema, type ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from '../../src/server.js';
+import { UptimeKumaClient } from '../../src/uptime-kuma-client.js';
+import { injectMonitorListCache, injectNotificationListCache, injectStatusPageListCache } from './helpers.js';
+
+// createServer() registers process signal handlers per instance; see verify-monitor-write.test.ts.
+process.setMaxListeners(50);
+
+const MONITORS = {
+  '1': { id: 1, name: 'Prod', pathName: 'Prod', type: 'group', parent: null },
+  '2': { id: 2, name: 'API', pathName: 'Prod / API', type: 'http', parent: 1, notificationIDList: { 5: true } },
+  '3': { id: 3, name: 'DB', pathName: 'Prod / DB', type: 'postgres', parent: 1 },
+};
+
+interface ConnectOptions {
+  deleteConfirmFallback?: 'confirm' | 'deny';
+  elicit?: (message: string) => ElicitResult;
+  /** Serve over HTTP the way index.ts does by default instead of an in-memory pair. */
+  statelessHttp?: boolean;
+}
+
+let httpServer: Server | undefined;
+
+async function connectServer(options: ConnectOptions = {}) {
+  const { server, client: kuma } = await createServer({
+    url: 'http://localhost:3001',
+    username: undefined,
+    password: undefined,
+    token: undefined,
+    jwtToken: undefined,
+    deleteConfirmFallback: options.deleteConfirmFallback,
+    statelessHttp: options.statelessHttp,
+  });
+  injectMonitorListCache(kuma, structuredClone(MONITORS));
+  injectNotificationListCache(kuma, { '5': { id: 5, name: 'On-call', config: '{"type":"pagerduty"}' } });
+  injectStatusPageListCache(kuma, {
+    public: { id: 1, slug: 'public', title: 'Public' },
+    internal: { id: 2, slug: 'internal', title: 'Internal' },
+  });
+
+  const capabilities = options.elicit ? { elicitation: {} } : {};
+  const client = new Client({ name: 'delete-confirmation-test', version: '1.0.0' }, { capabilities });
+  if (options.elicit) {
+    const elicit = options.elicit;
+    client.setRequestHandler(ElicitRequestSchema, async (request) => elicit(request.params.message));
+  }
+
+  if (options.statelessHttp) {
+    // As mountStatelessMcp: one shared server, a JSON-response transport per POST.
+    const app = express();
+    app.use(express.json());
+    app.post('/mcp', async (req, res) => {
+      const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined, enableJsonResponse: true });
+      res.on('close', () => transport.close());
+      await server.connect(transport);
+      await transport.handleRequest(req, res, req.body);
+    });
+    httpServer = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    const { port } = httpServer.address() as AddressInfo;
+    await client.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`)));
+    return client;
+  }
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+describe('delete confirmation', () => {
+  let deleteMonitor: ReturnType<typeof vi.spyOn>;
+  let deleteNotification: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.spyOn(UptimeKumaClient.prototype, 'ensureConnected').mockResolvedValue(undefined as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'login').mockResolvedValue({ ok: true } as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'getSettings').mockResolvedValue({ ok: true, data: {} } as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'getStatusPage').mockImplementation((async (slug: string) => {
+      if (slug === 'internal') throw new Error('HTTP 502');
+      return { ok: true, publicGroupList: [{ name: 'Services', monitorList: [{ id: 1 }, { id: 2 }] }] };
+    }) as never);
+    deleteMonitor = vi.spyOn(UptimeKumaClient.prototype, 'deleteMonitor').mockResolvedValue({ ok: true, msg: 'Deleted Successfully.' } as never);
+    deleteNotification = vi.spyOn(UptimeKumaClient.prototype, 'deleteNotification').mockResolvedValue({ ok: true, msg: 'Deleted' } as never);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    const listening = httpServer;
+    httpServer = undefined;
+    if (listening) {
+      listening.closeAllConnections();
+      await new Promise((resolve) => listening.close(resolve));
+    }
+  });
+
+  it('asks the user through elicitation, with what goes away, whatever confirm says', async () => {
+    const messages: string[] = [];
+    const answers: ElicitResult[] = [{ action: 'decline' }, { action: 'accept', content: { confirm: true } }];
+    const client = await connectServer({
+      elicit: (message) => {
+        messages.push(message);
+        return answers.shift()!;
+      },
+    });
+
+    const declined = await client.callTool({ name: 'deleteMonitor', arguments: { monitorID: 1, confirm: true } });
+    expect(declined.structuredContent).toMatchObject({ ok: false });
+    expect(JSON.stringify(declined.content)).toContain('Nothing was deleted');
+    expect(deleteMonitor).not.toHaveBeenCalled();
+    expect(messages[0]).toBe([
+      'Delete monitor "Prod" [1] (group)? This cannot be undone.',
+      '- Its heartbeat history, uptime statistics and events are deleted with it.',
+      '- Its 2 child monitor(s) lose their group: Prod / API [2], Prod / DB [3].',
+      '- It disappears from 1 status page(s): Public (/status/public).',
+      '- Could not check whether these status pages list it: Internal (/status/internal).',
+    ].join('\n'));
+
+    const accepted = await client.callTool({ name: 'deleteMonitor', arguments: { monitorID: 1 } });
+    expect(accepted.structuredContent).toEqual({ ok: true, msg: 'Deleted Successfully.' });
+    expect(deleteMonitor).toHaveBeenCalledWith(1);
+  });
+
+  it('without elicitation, previews first and deletes once called with confirm: true', async () => {
+    const client = await connectServer();
+
+    const preview = await client.callTool({ name: 'deleteNotification', arguments: { notificationID: 5 } });
+    expect(preview.isError).toBeFalsy();
+    expect(JSON.stringify(preview.content)).toContain('1 monitor(s) stop alerting through it: Prod / API [2].');
+    expect(deleteNotification).not.toHaveBeenCalled();
+
+    const confirmed = await client.callTool({ name: 'deleteNotification', arguments: { notificationID: 5, confirm: true } });
+    expect(confirmed.structuredContent).toEqual({ ok: true, msg: 'Deleted' });
+    expect(deleteNotification).toHaveBeenCalledWith(5);
+  });
+
+  it('without elicitation, refuses every delete when the fallback is deny', async () => {
+    const client = await connectServer({ deleteConfirmFallback: 'deny' });
+
+    const result = await client.callTool({ name: 'deleteMonitor', arguments: { monitorID: 2, confirm: true } });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.stringify(result.content)).toContain('UPTIME_KUMA_DELETE_CONFIRM_FALLBACK=deny');
+    expect(deleteMonitor).not.toHaveBeenCalled();
+  });
+
+  it('over stateless HTTP, falls back instead of sending an elicitation nothing would carry', async () => {
+    const elicit = vi.fn((): ElicitResult => ({ action: 'accept', content: { confirm: true } }));
+    const client = await connectServer({ statelessHttp: true, elicit });
+
+    const preview = await client.callTool({ name: 'deleteMonitor', arguments: { monitorID: 2 } });
+    expect(JSON.stringify(preview.content)).toContain('Nothing was deleted yet');
+    expect(deleteMonitor).not.toHaveBeenCalled();
+
+    const confirmed = await client.callTool({ name: 'deleteMonitor', arguments: { monitorID: 2, confirm: true } });
+    expect(confirmed.structuredContent).toEqual({ ok: true, msg: 'Deleted Successfully.' });
+    expect(elicit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { UptimeKumaClient } from '../../src/uptime-kuma-client.js';
+import { findFlappingMonitors, formatFlappingMonitors } from '../../src/flapping.js';
+
+const NOW = Date.parse('2026-09-01T12:00:30Z');
+const at = (minutesAgo: number) =>
+  new Date(Date.parse('2026-09-01T12:00:00Z') - minutesAgo * 60_000).toISOString().replace('T', ' ').replace('Z', '');
+
+// One cached beat a minute, newest-first, DOWN during the given minutes-ago.
+const everyMinute = (minutes: number, down: (minutesAgo: number) => boolean) =>
+  Array.from({ length: minutes + 1 }, (_, i) => ({ time: at(i), status: down(i) ? 0 : 1, msg: '', important: false }));
+
+const MONITORS = {
+  '1': { id: 1, type: 'group', pathName: 'Edge' },
+  '2': { id: 2, type: 'http', pathName: 'Edge / API', interval: 60, retryInterval: 60, maxretries: 0 },
+  '3': { id: 3, type: 'http', pathName: 'Batch', interval: 60, retryInterval: 60, maxretries: 1 },
+  '4': { id: 4, type: 'http', pathName: 'Steady', interval: 60, retryInterval: 60, maxretries: 0 },
+  '5': { id: 5, type: 'ping', pathName: 'VPN', interval: 20, retryInterval: 20, maxretries: 0 },
+};
+
+function fakeClient(cache: Record<number, unknown[]>, important: Record<number, unknown[]> = {}) {
+  const fetchImportantHeartbeats = vi.fn(async (id: number, count: number, offset: number) =>
+    (important[id] ?? []).slice(offset, offset + count));
+  const client = {
+    getMonitorList: () => MONITORS,
+    getHeartbeatsForMonitor: (id: number) => cache[id] ?? [],
+    fetchImportantHeartbeats,
+  } as unknown as UptimeKumaClient;
+  return { client, fetchImportantHeartbeats };
+}
+
+describe('findFlappingMonitors', () => {
+  it('counts transitions in the cached beats and sizes retries to outlast the blips', async () => {
+    // Two-minute DOWNs every twenty minutes.
+    const { client, fetchImportantHeartbeats } = fakeClient({
+      2: everyMinute(60, (m) => m % 20 === 9 || m % 20 === 10),
+      4: everyMinute(60, () => false),
+    });
+
+    const flapping = await findFlappingMonitors(client, { windowMinutes: 60, minTransitions: 4, monitorIDs: [2, 4], now: NOW });
+
+    expect(fetchImportantHeartbeats).not.toHaveBeenCalled();
+    expect(flapping).toEqual([
+      {
+        monitorID: 2,
+        name: 'Edge / API',
+        transitions: 6,
+        flapsPerHour: 6,
+        medianDownSeconds: 120,
+        current: { interval: 60, maxretries: 0, retryInterval: 60 },
+        suggestion: { monitorID: 2, maxretries: 3, retryInterval: 60 },
+        rationale: expect.stringContaining('3 retries 60 s apart wait 180 s'),
+      },
+    ]);
+    expect(formatFlappingMonitors(flapping, 60)).toContain('suggest updateMonitor {"monitorID":2,"maxretries":3,"retryInterval":60}');
+  });
+
+  it('falls back to the status-change feed when the cache does not reach back far enough', async () => {
+    const { client, fetchImportantHeartbeats } = fakeClient(
+      { 3: everyMinute(5, () => false) },
+      {
+        3: [
+          { time: at(55), status: 1, msg: '', important: true },
+          { time: at(100), status: 0, msg: 'timeout', important: true },
+          { time: at(125), status: 1, msg: '', important: true },
+          { time: at(170), status: 0, msg: 'timeout', important: true },
+          { time: at(300), status: 1, msg: '', important: true },
+        ],
+      }
+    );
+
+    const [batch] = await findFlappingMonitors(client, { windowMinutes: 180, minTransitions: 4, monitorIDs: [3], now: NOW });
+
+    expect(fetchImportantHeartbeats).toHaveBeenCalledWith(3, 100, 0);
+    expect(batch).toMatchObject({ transitions: 4, medianDownSeconds: 45 * 60, suggestion: null });
+    expect(batch.rationale).toContain('recurring outages');
+  });
+
+  it('spreads retries out rather than suggesting dozens of them', async () => {
+    // Ten-minute DOWNs, checked every 20 seconds.
+    const { client } = fakeClient({ 5: everyMinute(60, (m) => (m >= 5 && m < 15) || (m >= 35 && m < 45)) });
+
+    const [vpn] = await findFlappingMonitors(client, { windowMinutes: 60, minTransitions: 4, monitorIDs: [5], now: NOW });
+
+    expect(vpn.suggestion).toEqual({ monitorID: 5, maxretries: 10, retryInterval: 90 });
+  });
+
+  it('leaves out groups and quiet monitors when no selection is given', async () => {
+    const { client } = fakeClient({
+      1: everyMinute(60, (m) => m % 10 === 0),
+      4: everyMinute(60, () => false),
+    });
+
+    const flapping = await findFlappingMonitors(client, { windowMinutes: 60, minTransitions: 4, now: NOW });
+
+    expect(flapping).toEqual([]);
+    expect(formatFlappingMonitors(flapping, 60)).toBe('No monitor flapped in the last 60 min.');
+  });
+});
@@ -240,3 +240,32 @@ describe('createAuthMiddleware', () => {
     expect(JSON.stringify({ body: s.body, headers: s.headers })).not.toContain(TOKEN);
   });
 });
+
+describe('createAuthMiddleware with scoped tokens', () => {
+  const SHARED = 'correct-horse-battery-staple';
+  const DASHBOARD = { name: 'dashboard', token: 'dashboard-token-0123456789', scopes: ['read'] };
+
+  it('attaches the matched token\'s scopes to the request', () => {
+    const s = stub({ authorization: `Bearer ${DASHBOARD.token}` });
+    createAuthMiddleware(SHARED, [DASHBOARD])(s.req, s.res, s.next);
+    expect(s.nextCalls).toBe(1);
+    expect((s.req as unknown as { auth: unknown }).auth).toEqual({
+      token: DASHBOARD.token,
+      clientId: 'dashboard',
+      scopes: ['read'],
+    });
+  });
+
+  it('grants the shared token every scope', () => {
+    const s = stub({ authorization: `Bearer ${SHARED}` });
+    createAuthMiddleware(SHARED, [DASHBOARD])(s.req, s.res, s.next);
+    expect((s.req as unknown as { auth: { scopes: string[] } }).auth.scopes).toEqual(['read', 'write', 'destructive']);
+  });
+
+  it('requires a token when only the tokens file is configured', () => {
+    const s = stub({ authorization: `Bearer ${SHARED}` });
+    createAuthMiddleware(undefined, [DASHBOARD])(s.req, s.res, s.next);
+    expect(s.status).toBe(401);
+    expect(s.nextCalls).toBe(0);
+  });
+});
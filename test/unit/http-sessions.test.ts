@@ -0,0 +1,218 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type { Server } from 'node:http';
+import express from 'express';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { LoggingMessageNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createSessionManager, parseIdleTimeout } from '../../src/http-sessions.js';
+
+/**
+ * Stateful streamable HTTP sessions, exercised over a real HTTP listener with the SDK's own
+ * client so the session header, SSE streams and DELETE all go through the same code a remote
+ * MCP client would. The sessions hold a minimal MCP server rather than createServer(), which
+ * would try to reach Uptime Kuma.
+ */
+
+interface Harness {
+  url: URL;
+  sessions: ReturnType<typeof createSessionManager>;
+  opened: McpServer[];
+  closed: number;
+  clock: { now: number };
+}
+
+let httpServer: Server | undefined;
+let harness: Harness | undefined;
+
+async function startHarness(idleTimeoutMs = 60_000): Promise<Harness> {
+  const clock = { now: 0 };
+  const state = { opened: [] as McpServer[], closed: 0 };
+
+  const sessions = createSessionManager(async () => {
+    const server = new McpServer({ name: 'session-test', version: '1.0.0' }, { capabilities: { logging: {} } });
+    server.registerTool('echo', { inputSchema: { text: z.string() } }, async ({ text }) => {
+      await server.server.sendLoggingMessage({ level: 'info', data: `echoing ${text}` });
+      return { content: [{ type: 'text', text }] };
+    });
+    state.opened.push(server);
+    return { server, close: () => { state.closed++; } };
+  }, { idleTimeoutMs, reapIntervalMs: 3_600_000, now: () => clock.now });
+
+  const app = express();
+  app.use(express.json());
+  app.post('/mcp', sessions.handlePost);
+  app.get('/mcp', sessions.handleGet);
+  app.delete('/mcp', sessions.handleDelete);
+
+  httpServer = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const { port } = httpServer.address() as AddressInfo;
+
+  harness = {
+    url: new URL(`http://127.0.0.1:${port}/mcp`),
+    sessions,
+    get opened() { return state.opened; },
+    get closed() { return state.closed; },
+    clock,
+  };
+  return harness;
+}
+
+async function connectClient(url: URL) {
+  const transport = new StreamableHTTPClientTransport(url);
+  const client = new Client({ name: 'session-test-client', version: '1.0.0' }, { capabilities: {} });
+  await client.connect(transport);
+  return { client, transport };
+}
+
+const waitFor = async (condition: () => boolean, timeoutMs = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('condition not met in time');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+afterEach(async () => {
+  harness?.sessions.closeAll();
+  harness = undefined;
+  if (httpServer) {
+    httpServer.closeAllConnections();
+    await new Promise((resolve) => httpServer!.close(resolve));
+    httpServer = undefined;
+  }
+});
+
+describe('stateful HTTP sessions', () => {
+  it('gives each client its own session and server', async () => {
+    const h = await startHarness();
+
+    const a = await connectClient(h.url);
+    const b = await connectClient(h.url);
+
+    expect(a.transport.sessionId).toBeDefined();
+    expect(b.transport.sessionId).toBeDefined();
+    expect(a.transport.sessionId).not.toBe(b.transport.sessionId);
+    expect(h.sessions.size).toBe(2);
+    expect(h.opened).toHaveLength(2);
+
+    await a.client.close();
+    await b.client.close();
+  });
+
+  it('delivers log messages sent during a tool call', async () => {
+    const h = await startHarness();
+    const { client } = await connectClient(h.url);
+    const logs: unknown[] = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, (n) => { logs.push(n.params.data); });
+
+    const result = await client.callTool({ name: 'echo', arguments: { text: 'hi' } });
+
+    expect(result.content).toEqual([{ type: 'text', text: 'hi' }]);
+    expect(logs).toContain('echoing hi');
+    await client.close();
+  });
+
+  it('delivers server-initiated messages on the GET stream', async () => {
+    const h = await startHarness();
+    const { client } = await connectClient(h.url);
+    const logs: unknown[] = [];
+    client.setNotificationHandler(LoggingMessageNotificationSchema, (n) => { logs.push(n.params.data); });
+
+    // Outside any request, so the only way to the client is the standalone SSE stream the
+    // SDK client opens with GET after initializing.
+    await waitFor(() => {
+      h.opened[0].server.sendLoggingMessage({ level: 'warning', data: 'session invalidated' }).catch(() => {});
+      return logs.includes('session invalidated');
+    });
+    await client.close();
+  });
+
+  it('ends the session on DELETE', async () => {
+    const h = await startHarness();
+    const { client, transport } = await connectClient(h.url);
+
+    await transport.terminateSession();
+
+    expect(h.sessions.size).toBe(0);
+    expect(h.closed).toBe(1);
+    await client.close();
+  });
+
+  it('answers 404 for an unknown session and 400 for a missing one', async () => {
+    const h = await startHarness();
+    const body = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+    const headers = { 'content-type': 'application/json', accept: 'application/json, text/event-stream' };
+
+    const unknown = await fetch(h.url, { method: 'POST', body, headers: { ...headers, 'mcp-session-id': 'nope' } });
+    const missing = await fetch(h.url, { method: 'POST', body, headers });
+    const get = await fetch(h.url, { headers: { accept: 'text/event-stream' } });
+
+    expect(unknown.status).toBe(404);
+    expect(missing.status).toBe(400);
+    expect(get.status).toBe(400);
+  });
+
+  it('reaps a session that has been idle past the timeout', async () => {
+    const h = await startHarness(1000);
+    const response = await fetch(h.url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', accept: 'application/json, text/event-stream' },
+      body: JSON.stringify({
+        jsonrpc: '2.0', id: 1, method: 'initialize',
+        params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'raw', version: '1' } },
+      }),
+    });
+    await response.text();
+    const sessionId = response.headers.get('mcp-session-id');
+    expect(sessionId).toBeTruthy();
+
+    h.clock.now = 999;
+    expect(h.sessions.reapIdle()).toEqual([]);
+
+    h.clock.now = 1001;
+    expect(h.sessions.reapIdle()).toEqual([sessionId]);
+    expect(h.closed).toBe(1);
+
+    const after = await fetch(h.url, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', accept: 'application/json, text/event-stream', 'mcp-session-id': sessionId! },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+    expect(after.status).toBe(404);
+  });
+
+  it('does not reap a session that is listening on an open stream', async () => {
+    const h = await startHarness(1000);
+    const { client } = await connectClient(h.url);
+    // Wait until the client's GET stream is demonstrably open by receiving something on it.
+    let received = false;
+    client.setNotificationHandler(LoggingMessageNotificationSchema, () => { received = true; });
+    await waitFor(() => {
+      h.opened[0].server.sendLoggingMessage({ level: 'info', data: 'ping' }).catch(() => {});
+      return received;
+    });
+
+    h.clock.now += 5000;
+    expect(h.sessions.reapIdle()).toEqual([]);
+    expect(h.sessions.size).toBe(1);
+    await client.close();
+  });
+});
+
+describe('parseIdleTimeout', () => {
+  it.each([
+    [undefined, 1_800_000],
+    ['', 1_800_000],
+    ['abc', 1_800_000],
+    ['0', 1_800_000],
+    ['-5', 1_800_000],
+    ['90', 90_000],
+  ])('reads %j as %i ms', (value, expected) => {
+    expect(parseIdleTimeout(value)).toBe(expected);
+  });
+});
@@ -124,7 +124,9 @@ describe('required ID arguments (#65)', () => {
         const missingIssue = missing.success
           ? undefined
           : missing.error.issues.find((i) => i.path[0] === field);
-        if (missingIssue && /nan/i.test(JSON.stringify(missingIssue))) {
+        // Word-bounded: the descriptions of maintenanceID fields say "maintenance", which
+        // contains "nan" and is not the complaint this is looking for.
+        if (missingIssue && /\bnan\b/i.test(JSON.stringify(missingIssue))) {
           offenders.push(`${toolName}.${field} reports NaN when omitted`);
         }
       }
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { UptimeKumaClient } from '../../src/uptime-kuma-client.js';
+import type { Maintenance } from '../../src/types/index.js';
+import { buildIncidentTimeline, formatIncidentTimeline, maintenanceInEffect } from '../../src/incidents.js';
+
+const T = (iso: string) => Date.parse(iso);
+// Important beats as the feed sends them: UTC without a zone marker, newest-first.
+const beat = (iso: string, status: number, msg = '') => ({
+  time: iso.replace('T', ' ').replace('Z', ''),
+  status,
+  msg,
+  important: true,
+});
+
+const MONITORS = {
+  '1': { id: 1, name: 'Backend', pathName: 'Backend', parent: null },
+  '2': { id: 2, name: 'API', pathName: 'Backend / API', parent: 1 },
+  '3': { id: 3, name: 'Site', pathName: 'Site', parent: null },
+};
+
+function fakeClient(options: {
+  beats: Record<number, ReturnType<typeof beat>[]>;
+  windows?: Maintenance[];
+  targets?: Record<number, number[]>;
+}) {
+  const getMonitorMaintenance = vi.fn(async (id: number) => (options.targets?.[id] ?? []).map((m) => ({ id: m })));
+  const client = {
+    fetchImportantHeartbeats: async (id: number, count: number, offset: number) =>
+      (options.beats[id] ?? []).slice(offset, offset + count),
+    getMonitorList: () => MONITORS,
+    getMonitor: (id: number) => MONITORS[String(id) as keyof typeof MONITORS],
+    getMaintenanceList: () => options.windows ?? [],
+    getMonitorMaintenance,
+  } as unknown as UptimeKumaClient;
+  return { client, getMonitorMaintenance };
+}
+
+const range = { start: T('2026-09-01T00:00:00Z'), end: T('2026-09-08T00:00:00Z'), now: T('2026-09-10T00:00:00Z') };
+
+describe('buildIncidentTimeline', () => {
+  it('pairs each DOWN with the next UP, keeping the first error', async () => {
+    const { client } = fakeClient({
+      beats: {
+        3: [
+          beat('2026-09-02T10:30:00Z', 1),
+          beat('2026-09-02T10:10:00Z', 0, 'refused'),
+          beat('2026-09-02T10:00:00Z', 0, 'timeout'),
+          beat('2026-09-01T08:00:00Z', 1),
+        ],
+      },
+    });
+
+    const timeline = await buildIncidentTimeline(client, [3], range);
+
+    expect(timeline.incidents).toEqual([
+      {
+        monitorID: 3,
+        name: 'Site',
+        start: '2026-09-02T10:00:00.000Z',
+        end: '2026-09-02T10:30:00.000Z',
+        durationMinutes: 30,
+        msg: 'timeout',
+        overlapsMaintenance: false,
+        maintenanceWindows: [],
+      },
+    ]);
+  });
+
+  it('does not end an incident at a maintenance beat, and flags it', async () => {
+    const { client } = fakeClient({
+      beats: {
+        3: [
+          beat('2026-09-03T02:00:00Z', 1),
+          beat('2026-09-03T01:00:00Z', 3),
+          beat('2026-09-03T00:00:00Z', 0, 'timeout'),
+        ],
+      },
+    });
+
+    const [incident] = (await buildIncidentTimeline(client, [3], range)).incidents;
+
+    expect(incident).toMatchObject({ durationMinutes: 120, overlapsMaintenance: true, maintenanceWindows: [] });
+  });
+
+  it('names a scheduled window that covers the monitor through its group', async () => {
+    const nightly: Maintenance = {
+      id: 7,
+      title: 'Patch night',
+      strategy: 'recurring-weekday',
+      active: true,
+      timezone: 'Europe/Berlin',
+      // Wednesday 23:00 to 01:00 Berlin time — 21:00 to 23:00 UTC in September.
+      weekdays: [3],
+      timeRange: [{ hours: 23, minutes: 0 }, { hours: 1, minutes: 0 }],
+    };
+    const elsewhere: Maintenance = { ...nightly, id: 8, title: 'Site work' };
+    const { client, getMonitorMaintenance } = fakeClient({
+      beats: {
+        2: [beat('2026-09-02T22:20:00Z', 1), beat('2026-09-02T22:05:00Z', 0, 'reset')],
+      },
+      windows: [nightly, elsewhere],
+      targets: { 7: [1], 8: [3] },
+    });
+
+    const timeline = await buildIncidentTimeline(client, [2], range);
+
+    expect(timeline.incidents[0]).toMatchObject({
+      overlapsMaintenance: true,
+      maintenanceWindows: [{ id: 7, title: 'Patch night' }],
+    });
+    expect(getMonitorMaintenance).toHaveBeenCalledTimes(2);
+    expect(formatIncidentTimeline(timeline)).toContain(
+      '- 2026-09-02 22:05:00Z → 2026-09-02 22:20:00Z (15 min) Backend / API [2]: reset — during maintenance "Patch night"'
+    );
+  });
+
+  it('leaves an ongoing incident open, measured up to now', async () => {
+    const { client, getMonitorMaintenance } = fakeClient({
+      beats: { 3: [beat('2026-09-09T23:00:00Z', 0, 'timeout'), beat('2026-09-07T23:30:00Z', 0, 'dns')] },
+    });
+
+    const timeline = await buildIncidentTimeline(client, [3], range);
+
+    // The second DOWN is the same outage; it started inside the range and has not ended.
+    expect(timeline.incidents).toHaveLength(1);
+    expect(timeline.incidents[0]).toMatchObject({ end: null, msg: 'dns', durationMinutes: 2 * 24 * 60 + 30 });
+    expect(formatIncidentTimeline(timeline)).toContain('still down');
+    // No windows, so nothing to look up.
+    expect(getMonitorMaintenance).not.toHaveBeenCalled();
+  });
+});
+
+describe('maintenanceInEffect', () => {
+  it('reads a single window in its own timezone', () => {
+    const window: Maintenance = {
+      id: 1,
+      title: 'Migration',
+      strategy: 'single',
+      timezone: 'America/New_York',
+      dateRange: ['2026-09-05 22:00:00', '2026-09-06 02:00:00'],
+    };
+
+    expect(maintenanceInEffect(window, T('2026-09-06T02:30:00Z'))).toBe(true);
+    expect(maintenanceInEffect(window, T('2026-09-06T06:30:00Z'))).toBe(false);
+    expect(maintenanceInEffect({ ...window, active: false }, T('2026-09-06T02:30:00Z'))).toBe(false);
+  });
+
+  it('counts the hours after midnight toward the day the window opened', () => {
+    const window: Maintenance = {
+      id: 1,
+      title: 'Backups',
+      strategy: 'recurring-day-of-month',
+      timezone: 'UTC',
+      daysOfMonth: [1],
+      timeRange: [{ hours: 23, minutes: 0 }, { hours: 2, minutes: 0 }],
+    };
+
+    expect(maintenanceInEffect(window, T('2026-09-02T01:00:00Z'))).toBe(true);
+    expect(maintenanceInEffect(window, T('2026-09-01T01:00:00Z'))).toBe(false);
+  });
+});
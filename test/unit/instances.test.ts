@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../../src/server.js';
+import { UptimeKumaClient } from '../../src/uptime-kuma-client.js';
+import { combineInstances, parseIndexedInstances, parseInstancesFile } from '../../src/instances.js';
+import { injectMonitorListCache } from './helpers.js';
+
+/**
+ * One MCP server fronting several Uptime Kuma instances: how instances are configured, how a
+ * tool call is routed to one of them, and how list tools fan out across all of them.
+ */
+
+// See verify-monitor-write.test.ts: createServer() adds signal handlers per instance.
+process.setMaxListeners(50);
+
+describe('instance configuration', () => {
+  it('reads indexed environment variables in index order', () => {
+    const instances = parseIndexedInstances({
+      UPTIME_KUMA_10_URL: 'http://ten:3001',
+      UPTIME_KUMA_2_URL: 'http://two:3001',
+      UPTIME_KUMA_2_NAME: 'us',
+      UPTIME_KUMA_2_USERNAME: 'admin',
+      UPTIME_KUMA_2_PASSWORD: 'secret',
+      UPTIME_KUMA_2_2FA_TOKEN: '123456',
+      UPTIME_KUMA_3_URL: '',
+      UPTIME_KUMA_URL: 'http://primary:3001',
+    });
+
+    expect(instances).toEqual([
+      { name: 'us', url: 'http://two:3001', username: 'admin', password: 'secret', token: '123456', jwtToken: undefined },
+      { name: 'instance10', url: 'http://ten:3001', username: undefined, password: undefined, token: undefined, jwtToken: undefined },
+    ]);
+  });
+
+  it('parses an instances file', () => {
+    const instances = parseInstancesFile(
+      JSON.stringify({ instances: [{ name: 'eu', url: 'http://eu:3001', jwtToken: 'a.b.c' }] }),
+      'kuma.json'
+    );
+    expect(instances).toEqual([
+      { name: 'eu', url: 'http://eu:3001', username: undefined, password: undefined, token: undefined, jwtToken: 'a.b.c' },
+    ]);
+  });
+
+  it('rejects an instances file with a misspelled key, naming the file', () => {
+    const text = JSON.stringify({ instances: [{ name: 'eu', url: 'http://eu:3001', jwt: 'a.b.c' }] });
+    expect(() => parseInstancesFile(text, 'kuma.json')).toThrow(/kuma\.json is not a valid instances file.*jwt/);
+    expect(() => parseInstancesFile('{', 'kuma.json')).toThrow(/kuma\.json is not valid JSON/);
+  });
+
+  it('makes UPTIME_KUMA_URL the default instance, or else the first one defined', () => {
+    const us = { name: 'us', url: 'http://us:3001', username: undefined, password: undefined, token: undefined, jwtToken: undefined };
+    const eu = { ...us, name: 'eu', url: 'http://eu:3001' };
+    const primary = { url: 'http://primary:3001', username: undefined, password: undefined, token: undefined, jwtToken: undefined };
+
+    expect(combineInstances(primary, [us])).toMatchObject({ name: 'default', url: 'http://primary:3001', instances: [us] });
+    expect(combineInstances(undefined, [eu, us])).toMatchObject({ name: 'eu', url: 'http://eu:3001', instances: [us] });
+    expect(combineInstances(primary, [])).not.toHaveProperty('instances');
+    expect(combineInstances(undefined, [])).toBeUndefined();
+  });
+
+  it('rejects duplicate and unusable instance names', () => {
+    const us = { name: 'us', url: 'http://us:3001', username: undefined, password: undefined, token: undefined, jwtToken: undefined };
+    expect(() => combineInstances(undefined, [us, us])).toThrow(/Duplicate instance name 'us'/);
+    expect(() => combineInstances(undefined, [{ ...us, name: '*' }])).toThrow(/Invalid instance name/);
+  });
+});
+
+describe('multi-instance server', () => {
+  const monitorsByUrl: Record<string, Record<string, unknown>> = {
+    'http://eu:3001': { '1': { id: 1, name: 'eu-web', pathName: 'eu-web', type: 'http', active: true, interval: 60, retryInterval: 60, tags: [] } },
+    'http://us:3001': { '1': { id: 1, name: 'us-web', pathName: 'us-web', type: 'http', active: true, interval: 60, retryInterval: 60, tags: [] } },
+  };
+
+  beforeEach(() => {
+    // Each instance's client gets its own monitor list as it "connects", so the tests can
+    // tell from the answer which instance a call reached.
+    vi.spyOn(UptimeKumaClient.prototype, 'ensureConnected').mockImplementation(async function (this: UptimeKumaClient) {
+      const url = (this as unknown as { url: string }).url;
+      if (!monitorsByUrl[url]) throw new Error(`connect ECONNREFUSED ${url}`);
+      injectMonitorListCache(this, monitorsByUrl[url]);
+    } as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'login').mockResolvedValue({ ok: true } as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'getSettings').mockResolvedValue({ ok: true, data: {} } as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  async function connect(extraUrl = 'http://us:3001') {
+    const { server, close } = await createServer({
+      name: 'eu',
+      url: 'http://eu:3001',
+      username: undefined,
+      password: undefined,
+      token: undefined,
+      jwtToken: undefined,
+      instances: [{ name: 'us', url: extraUrl, username: undefined, password: undefined, token: undefined, jwtToken: undefined }],
+    });
+    const client = new Client({ name: 'instances-test', version: '1.0.0' }, { capabilities: {} });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    return { client, close };
+  }
+
+  it('adds an instance argument to instance-specific tools only', async () => {
+    const { client, close } = await connect();
+    const { tools } = await client.listTools();
+    const schemaOf = (name: string) => tools.find((t) => t.name === name)!.inputSchema.properties as Record<string, { enum?: string[] }>;
+
+    expect(schemaOf('getMonitor').instance.enum).toEqual(['eu', 'us']);
+    expect(schemaOf('getMonitorSummary').instance.enum).toEqual(['eu', 'us', '*']);
+    expect(schemaOf('listInstances')).not.toHaveProperty('instance');
+    expect(schemaOf('listMonitorTypes')).not.toHaveProperty('instance');
+    close();
+  });
+
+  it('routes a call to the named instance, and to the default one without', async () => {
+    const { client, close } = await connect();
+
+    const us = await client.callTool({ name: 'getMonitorSummary', arguments: { instance: 'us' } });
+    const eu = await client.callTool({ name: 'getMonitorSummary', arguments: {} });
+
+    expect(us.structuredContent).toMatchObject({ summaries: [{ name: 'us-web' }], count: 1 });
+    expect(eu.structuredContent).toMatchObject({ summaries: [{ name: 'eu-web' }], count: 1 });
+    close();
+  });
+
+  it('rejects an unknown instance before running the tool', async () => {
+    const { client, close } = await connect();
+    const result = await client.callTool({ name: 'getMonitorSummary', arguments: { instance: 'ap' } });
+    expect(result.isError).toBe(true);
+    expect(JSON.stringify(result.content)).toMatch(/instance/);
+    close();
+  });
+
+  it('fans a list tool out across every instance, tagging each item', async () => {
+    const { client, close } = await connect();
+
+    const result = await client.callTool({ name: 'getMonitorSummary', arguments: { instance: '*' } });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toEqual({
+      summaries: [
+        expect.objectContaining({ id: 1, name: 'eu-web', instance: 'eu' }),
+        expect.objectContaining({ id: 1, name: 'us-web', instance: 'us' }),
+      ],
+      count: 2,
+    });
+    close();
+  });
+
+  it('reports an unreachable instance without failing the fan-out', async () => {
+    const { client, close } = await connect('http://down:3001');
+
+    const result = await client.callTool({ name: 'listMonitors', arguments: { instance: '*' } });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toMatchObject({
+      monitors: [{ name: 'eu-web', instance: 'eu' }],
+      count: 1,
+      instanceErrors: [{ instance: 'us', error: expect.stringContaining('ECONNREFUSED') }],
+    });
+    close();
+  });
+
+  it('does not accept "*" on a tool that acts on one instance', async () => {
+    const { client, close } = await connect();
+    const result = await client.callTool({ name: 'getMonitor', arguments: { instance: '*', monitorID: 1 } });
+    expect(result.isError).toBe(true);
+    close();
+  });
+
+  it('lists the instances without their credentials', async () => {
+    const { client, close } = await connect('http://admin:hunter2@us:3001');
+
+    const result = await client.callTool({ name: 'listInstances', arguments: {} });
+
+    expect(result.structuredContent).toEqual({
+      instances: [
+        { name: 'eu', url: 'http://eu:3001', default: true, authenticated: false },
+        { name: 'us', url: 'http://***:***@us:3001', default: false, authenticated: false },
+      ],
+      count: 2,
+    });
+    close();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { formatLatencyStats, latencyStats, rankLatencyStats } from '../../src/latency-stats.js';
+
+const monitor = { monitorID: 1, name: 'Web / API' };
+const options = { recentBeats: 5, threshold: 3 };
+
+// One beat a minute from 10:00 UTC, oldest first.
+const series = (pings: number[], status = 1) =>
+  pings.map((ping, i) => ({
+    time: `2026-09-01 ${String(10 + Math.floor(i / 60)).padStart(2, '0')}:${String(i % 60).padStart(2, '0')}:00.000`,
+    status,
+    ping,
+    msg: '',
+    important: false,
+  }));
+
+describe('latencyStats', () => {
+  it('computes percentiles, spread and trend over UP beats only', () => {
+    const beats = [
+      ...series([10, 20, 30, 40, 50, 60, 70, 80, 90, 100]),
+      // A failed check's ping is how long it took to fail.
+      { time: '2026-09-01 10:10:00.000', status: 0, ping: 30000, msg: 'timeout', important: true },
+    ];
+
+    const stats = latencyStats(monitor, beats, options);
+
+    expect(stats).toMatchObject({ samples: 10, p50: 50, p90: 90, p99: 100, mean: 55, min: 10, max: 100, stddev: 28.7 });
+    // +10 ms a minute.
+    expect(stats.trendMsPerHour).toBe(600);
+    // Five baseline beats are too few to score against.
+    expect(stats.zScore).toBeNull();
+    expect(stats.anomaly).toBeNull();
+  });
+
+  it('flags a recent departure from the baseline', () => {
+    const baseline = Array.from({ length: 40 }, (_, i) => 100 + (i % 2 === 0 ? 5 : -5));
+    const slower = latencyStats(monitor, series([...baseline, 150, 160, 155, 150, 158]), options);
+    const steady = latencyStats(monitor, series([...baseline, 104, 96, 105, 95, 100]), options);
+
+    expect(slower).toMatchObject({ baselineMean: 100, recentMean: 154.6, anomaly: 'slower' });
+    expect(slower.zScore).toBeCloseTo(10.92, 2);
+    expect(steady.anomaly).toBeNull();
+  });
+
+  it('does not divide by a perfectly steady baseline', () => {
+    const stats = latencyStats(monitor, series([...Array(30).fill(20), 21, 21, 21, 21, 21]), options);
+
+    expect(stats.zScore).toBe(1);
+    expect(stats.anomaly).toBeNull();
+  });
+
+  it('reports a monitor without response times as empty', () => {
+    expect(latencyStats(monitor, series([5, 5], 0), options)).toMatchObject({ samples: 0, p50: null, anomaly: null });
+  });
+});
+
+describe('rankLatencyStats / formatLatencyStats', () => {
+  it('puts anomalies first, most slowed-down at the top', () => {
+    const base = latencyStats(monitor, [], options);
+    const ranked = rankLatencyStats([
+      { ...base, monitorID: 1, zScore: 1 },
+      { ...base, monitorID: 2, zScore: -4, anomaly: 'faster' },
+      { ...base, monitorID: 3, zScore: 6, anomaly: 'slower' },
+      { ...base, monitorID: 4 },
+    ]);
+
+    expect(ranked.map((s) => s.monitorID)).toEqual([3, 2, 1, 4]);
+    expect(formatLatencyStats(ranked)).toContain('| Web / API | 0 | — | — | — | — | — | — | 6 | **slower** |');
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../../src/server.js';
+import { UptimeKumaClient } from '../../src/uptime-kuma-client.js';
+import {
+  createMockSocket,
+  injectSocket,
+  injectMonitorListCache,
+  injectMaintenanceListCache,
+  injectStatusPageListCache,
+} from './helpers.js';
+
+/**
+ * Binding monitors and status pages to maintenance windows.
+ *
+ * Uptime Kuma's addMonitorMaintenance / addMaintenanceStatusPage REPLACE the whole set, so the
+ * thing worth pinning down is what the tools send: the union of the selection with what is
+ * already bound in 'add' mode, and exactly the selection in 'replace' mode.
+ */
+
+// See verify-monitor-write.test.ts: createServer() adds signal handlers per instance.
+process.setMaxListeners(50);
+
+async function connectServer(bound: { monitors: number[]; statusPages: number[] }) {
+  const { server, client: kuma } = await createServer({
+    url: 'http://localhost:3001',
+    username: undefined,
+    password: undefined,
+    token: undefined,
+    jwtToken: undefined,
+  });
+
+  injectMonitorListCache(kuma, {
+    '1': { id: 1, name: 'Databases', pathName: 'Databases', type: 'group', parent: null, tags: [] },
+    '2': { id: 2, name: 'pg-1', pathName: 'Databases / pg-1', type: 'port', parent: 1, tags: [] },
+    '3': { id: 3, name: 'web', pathName: 'web', type: 'http', parent: null, tags: [{ name: 'prod', value: '' }] },
+    '4': { id: 4, name: 'api', pathName: 'api', type: 'http', parent: null, tags: [{ name: 'Prod', value: 'eu' }] },
+  });
+  injectMaintenanceListCache(kuma, { '15': { id: 15, title: 'Upgrade', strategy: 'manual', active: true } });
+  injectStatusPageListCache(kuma, {
+    public: { id: 8, slug: 'public', title: 'Public' },
+    internal: { id: 9, slug: 'internal', title: 'Internal' },
+  });
+
+  const { socket } = createMockSocket({
+    getMonitorMaintenance: (_id, callback) => {
+      (callback as (res: unknown) => void)({ ok: true, monitors: bound.monitors.map((id) => ({ id })) });
+    },
+    getMaintenanceStatusPage: (_id, callback) => {
+      (callback as (res: unknown) => void)({ ok: true, statusPages: bound.statusPages.map((id) => ({ id })) });
+    },
+    addMonitorMaintenance: (_id, monitors, callback) => {
+      bound.monitors = (monitors as Array<{ id: number }>).map((m) => m.id);
+      (callback as (res: unknown) => void)({ ok: true, msg: 'Added Successfully.' });
+    },
+    addMaintenanceStatusPage: (_id, statusPages, callback) => {
+      bound.statusPages = (statusPages as Array<{ id: number }>).map((p) => p.id);
+      (callback as (res: unknown) => void)({ ok: true, msg: 'Added Successfully.' });
+    },
+  });
+  injectSocket(kuma, socket);
+
+  const client = new Client({ name: 'maintenance-targets-test', version: '1.0.0' }, { capabilities: {} });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+describe('maintenance targets', () => {
+  beforeEach(() => {
+    // Authentication is not what these tests are about.
+    vi.spyOn(UptimeKumaClient.prototype, 'ensureConnected').mockResolvedValue(undefined as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'login').mockResolvedValue({ ok: true } as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'getSettings').mockResolvedValue({ ok: true, data: {} } as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('adds to the monitors already bound rather than replacing them', async () => {
+    const bound = { monitors: [3], statusPages: [] };
+    const client = await connectServer(bound);
+
+    const result = await client.callTool({ name: 'setMaintenanceMonitors', arguments: { maintenanceID: 15, monitorIDs: [4] } });
+
+    expect(result.isError).toBeFalsy();
+    expect(bound.monitors).toEqual([3, 4]);
+  });
+
+  it('selects a whole group branch and combines it with a tag filter', async () => {
+    const bound = { monitors: [], statusPages: [] };
+    const client = await connectServer(bound);
+
+    const result = await client.callTool({
+      name: 'setMaintenanceMonitors',
+      arguments: { maintenanceID: 15, groupID: 1, tags: 'prod', mode: 'replace' },
+    });
+
+    expect(bound.monitors).toEqual([1, 2, 3, 4]);
+    expect(result.structuredContent).toMatchObject({
+      monitors: [
+        { id: 1, pathName: 'Databases' },
+        { id: 2, pathName: 'Databases / pg-1' },
+        { id: 3, pathName: 'web' },
+        { id: 4, pathName: 'api' },
+      ],
+    });
+  });
+
+  it('removes only the selected monitors', async () => {
+    const bound = { monitors: [1, 2, 3], statusPages: [] };
+    const client = await connectServer(bound);
+
+    await client.callTool({ name: 'setMaintenanceMonitors', arguments: { maintenanceID: 15, groupID: 1, mode: 'remove' } });
+
+    expect(bound.monitors).toEqual([3]);
+  });
+
+  it('clears the list on replace with no selection', async () => {
+    const bound = { monitors: [1, 2], statusPages: [] };
+    const client = await connectServer(bound);
+
+    await client.callTool({ name: 'setMaintenanceMonitors', arguments: { maintenanceID: 15, mode: 'replace' } });
+
+    expect(bound.monitors).toEqual([]);
+  });
+
+  /**
+   * A misspelled tag selects nothing. In replace mode that would clear the window without a
+   * word, so every part of the selector must match something or the call fails untouched.
+   */
+  it.each([
+    ['a tag filter that matches nothing', { tags: 'prdo', mode: 'replace' }, /prdo/],
+    ['an unknown monitor ID', { monitorIDs: [3, 99] }, /99/],
+    ['an unknown group', { groupID: 42 }, /42/],
+    ['no selection outside replace mode', {}, /monitorIDs, tags or groupID/],
+  ])('rejects %s and leaves the binding alone', async (_label, args, message) => {
+    const bound = { monitors: [1], statusPages: [] };
+    const client = await connectServer(bound);
+
+    const result = await client.callTool({ name: 'setMaintenanceMonitors', arguments: { maintenanceID: 15, ...args } });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.stringify(result.content)).toMatch(message);
+    expect(bound.monitors).toEqual([1]);
+  });
+
+  it('rejects an unknown maintenance window', async () => {
+    const client = await connectServer({ monitors: [], statusPages: [] });
+
+    const result = await client.callTool({ name: 'setMaintenanceMonitors', arguments: { maintenanceID: 99, monitorIDs: [3] } });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.stringify(result.content)).toContain('getMaintenanceWindows');
+  });
+
+  it('binds status pages by slug', async () => {
+    const bound = { monitors: [], statusPages: [8] };
+    const client = await connectServer(bound);
+
+    const result = await client.callTool({ name: 'setMaintenanceStatusPages', arguments: { maintenanceID: 15, slugs: ['internal'] } });
+
+    expect(bound.statusPages).toEqual([8, 9]);
+    expect(result.structuredContent).toMatchObject({
+      statusPages: [{ id: 8, slug: 'public' }, { id: 9, slug: 'internal' }],
+    });
+  });
+
+  it('lists what each window affects in getMaintenanceWindows', async () => {
+    const client = await connectServer({ monitors: [2], statusPages: [9] });
+
+    const result = await client.callTool({ name: 'getMaintenanceWindows', arguments: {} });
+
+    expect(result.structuredContent).toMatchObject({
+      maintenanceWindows: [{
+        id: 15,
+        monitors: [{ id: 2, name: 'pg-1', pathName: 'Databases / pg-1' }],
+        statusPages: [{ id: 9, slug: 'internal', title: 'Internal' }],
+      }],
+    });
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { UptimeKumaClient } from '../../src/uptime-kuma-client.js';
-import { createMockSocket, createDisconnectedSocket, injectSocket, injectMaintenanceListCache } from './helpers.js';
+import { createMockSocket, createDisconnectedSocket, injectSocket, injectMaintenanceListCache, injectMonitorListCache } from './helpers.js';
 
 describe('UptimeKumaClient - Maintenance Operations', () => {
   let client: UptimeKumaClient;
@@ -61,4 +61,160 @@ describe('UptimeKumaClient - Maintenance Operations', () => {
       ).rejects.toThrow('Not connected to server');
     });
   });
+
+  describe('updateMaintenance', () => {
+    it('emits editMaintenance with the id folded into the payload', async () => {
+      const { socket } = createMockSocket({
+        editMaintenance: (data, callback) => {
+          expect(data).toEqual({ title: 'Renamed', strategy: 'manual', id: 15 });
+          (callback as (res: unknown) => void)({ ok: true, msg: 'Saved.', maintenanceID: 15 });
+        },
+      });
+      injectSocket(client, socket);
+
+      const result = await client.updateMaintenance(15, { title: 'Renamed', strategy: 'manual' });
+      expect(result.ok).toBe(true);
+      expect(result.maintenanceID).toBe(15);
+    });
+
+    it('rejects when server returns not ok', async () => {
+      const { socket } = createMockSocket({
+        editMaintenance: (_data, callback) => {
+          (callback as (res: unknown) => void)({ ok: false, msg: 'Maintenance not found' });
+        },
+      });
+      injectSocket(client, socket);
+
+      await expect(client.updateMaintenance(99, { title: 'x' })).rejects.toThrow('Maintenance not found');
+    });
+
+    it('rejects when not connected', async () => {
+      injectSocket(client, createDisconnectedSocket());
+      await expect(client.updateMaintenance(1, { title: 'x' })).rejects.toThrow('Not connected to server');
+    });
+  });
+
+  describe.each([
+    ['deleteMaintenance', 'Deleted Successfully.'],
+    ['pauseMaintenance', 'Paused Successfully.'],
+    ['resumeMaintenance', 'Resume Successfully'],
+  ] as const)('%s', (method, okMsg) => {
+    it('emits the event with the maintenance ID and resolves on success', async () => {
+      const { socket } = createMockSocket({
+        [method]: (maintenanceID, callback) => {
+          expect(maintenanceID).toBe(15);
+          (callback as (res: unknown) => void)({ ok: true, msg: okMsg });
+        },
+      });
+      injectSocket(client, socket);
+
+      const result = await client[method](15);
+      expect(result.ok).toBe(true);
+      expect(result.msg).toBe(okMsg);
+    });
+
+    it('rejects when server returns not ok', async () => {
+      const { socket } = createMockSocket({
+        [method]: (_maintenanceID, callback) => {
+          (callback as (res: unknown) => void)({ ok: false, msg: 'Permission denied' });
+        },
+      });
+      injectSocket(client, socket);
+
+      await expect(client[method](15)).rejects.toThrow('Permission denied');
+    });
+
+    it('rejects when not connected', async () => {
+      injectSocket(client, createDisconnectedSocket());
+      await expect(client[method](15)).rejects.toThrow('Not connected to server');
+    });
+  });
+
+  describe('getMonitorMaintenance / getMaintenanceStatusPage', () => {
+    it('resolves with the monitors bound to the window', async () => {
+      const { socket } = createMockSocket({
+        getMonitorMaintenance: (maintenanceID, callback) => {
+          expect(maintenanceID).toBe(15);
+          (callback as (res: unknown) => void)({ ok: true, monitors: [{ id: 3 }, { id: 4 }] });
+        },
+      });
+      injectSocket(client, socket);
+
+      expect(await client.getMonitorMaintenance(15)).toEqual([{ id: 3 }, { id: 4 }]);
+    });
+
+    it('resolves with the status pages bound to the window', async () => {
+      const { socket } = createMockSocket({
+        getMaintenanceStatusPage: (maintenanceID, callback) => {
+          expect(maintenanceID).toBe(15);
+          (callback as (res: unknown) => void)({ ok: true, statusPages: [{ id: 2, title: 'Public' }] });
+        },
+      });
+      injectSocket(client, socket);
+
+      expect(await client.getMaintenanceStatusPage(15)).toEqual([{ id: 2, title: 'Public' }]);
+    });
+
+    it('rejects when server returns not ok', async () => {
+      const { socket } = createMockSocket({
+        getMonitorMaintenance: (_maintenanceID, callback) => {
+          (callback as (res: unknown) => void)({ ok: false, msg: 'Permission denied' });
+        },
+      });
+      injectSocket(client, socket);
+
+      await expect(client.getMonitorMaintenance(15)).rejects.toThrow('Permission denied');
+    });
+  });
+
+  describe('addMonitorMaintenance / addMaintenanceStatusPage', () => {
+    it('sends the IDs as the {id} objects Uptime Kuma expects', async () => {
+      const { socket } = createMockSocket({
+        addMonitorMaintenance: (maintenanceID, monitors, callback) => {
+          expect(maintenanceID).toBe(15);
+          expect(monitors).toEqual([{ id: 3 }, { id: 4 }]);
+          (callback as (res: unknown) => void)({ ok: true, msg: 'Added Successfully.' });
+        },
+        addMaintenanceStatusPage: (maintenanceID, statusPages, callback) => {
+          expect(maintenanceID).toBe(15);
+          expect(statusPages).toEqual([{ id: 2 }]);
+          (callback as (res: unknown) => void)({ ok: true, msg: 'Added Successfully.' });
+        },
+      });
+      injectSocket(client, socket);
+
+      expect((await client.addMonitorMaintenance(15, [3, 4])).ok).toBe(true);
+      expect((await client.addMaintenanceStatusPage(15, [2])).ok).toBe(true);
+    });
+
+    it('rejects when not connected', async () => {
+      injectSocket(client, createDisconnectedSocket());
+      await expect(client.addMonitorMaintenance(15, [3])).rejects.toThrow('Not connected to server');
+      await expect(client.addMaintenanceStatusPage(15, [2])).rejects.toThrow('Not connected to server');
+    });
+  });
+
+  describe('getMonitorSubtreeIDs', () => {
+    beforeEach(() => {
+      injectMonitorListCache(client, {
+        '1': { id: 1, name: 'Databases', type: 'group', parent: null },
+        '2': { id: 2, name: 'Primary', type: 'group', parent: 1 },
+        '3': { id: 3, name: 'pg-1', type: 'port', parent: 2 },
+        '4': { id: 4, name: 'redis', type: 'port', parent: 1 },
+        '5': { id: 5, name: 'web', type: 'http', parent: null },
+      });
+    });
+
+    it('returns the group and every nested monitor, not just direct children', () => {
+      expect(client.getMonitorSubtreeIDs(1)).toEqual([1, 2, 4, 3]);
+    });
+
+    it('returns just the monitor for a leaf', () => {
+      expect(client.getMonitorSubtreeIDs(5)).toEqual([5]);
+    });
+
+    it('returns an empty array for an unknown ID', () => {
+      expect(client.getMonitorSubtreeIDs(99)).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { auditMonitors, formatAuditFindings, parseDisabledAuditRules } from '../../src/monitor-audit.js';
+
+const MONITORS = [
+  { id: 1, type: 'group', pathName: 'Edge', childrenIDs: [2], notificationIDList: {} },
+  { id: 2, type: 'http', pathName: 'Edge / API', url: 'https://api.example.com', interval: 60, retryInterval: 60, notificationIDList: { 1: true } },
+  { id: 3, type: 'http', pathName: 'Shop', url: 'https://shop.example.com', interval: 10, retryInterval: 30, ignoreTls: true, notificationIDList: { 1: false } },
+  { id: 4, type: 'http', pathName: 'NAS', url: 'https://nas.lan', interval: 60, retryInterval: 60, ignoreTls: true, notificationIDList: { 1: true } },
+  { id: 5, type: 'port', pathName: 'Telnet closed', interval: 60, retryInterval: 60, upsideDown: true, notificationIDList: { 2: true } },
+  { id: 6, type: 'group', pathName: 'Old', childrenIDs: [] },
+  { id: 7, type: 'ping', pathName: 'Paused', interval: 60, retryInterval: 60, active: false },
+];
+
+describe('auditMonitors', () => {
+  it('reports every rule violation, most severe first, with a fix', () => {
+    const { findings, rules } = auditMonitors(MONITORS);
+
+    expect(rules).toHaveLength(6);
+    expect(findings.map((f) => [f.severity, f.monitorID, f.ruleID])).toEqual([
+      ['error', 3, 'ignore-tls-public'],
+      ['warning', 3, 'no-notifications'],
+      ['warning', 3, 'interval-too-short'],
+      ['warning', 6, 'empty-group'],
+      ['info', 3, 'retry-interval-exceeds-interval'],
+      ['info', 5, 'upside-down'],
+    ]);
+    expect(findings[0]).toMatchObject({ name: 'Shop', update: { monitorID: 3, ignoreTls: false } });
+    expect(findings[4].update).toEqual({ monitorID: 3, retryInterval: 10 });
+  });
+
+  it('skips disabled rules even when asked for them', () => {
+    const { findings, rules } = auditMonitors(MONITORS, {
+      disabledRules: ['upside-down'],
+      rules: ['upside-down', 'empty-group'],
+    });
+
+    expect(rules).toEqual(['empty-group']);
+    expect(findings.map((f) => f.monitorID)).toEqual([6]);
+    expect(formatAuditFindings(findings, MONITORS.length, rules)).toBe([
+      '1 finding(s) across 7 monitor(s):',
+      '- [warning] Old [6] empty-group: Group has no children, so its status means nothing.',
+      '  fix: Move monitors into it, or delete it.',
+    ].join('\n'));
+  });
+});
+
+describe('parseDisabledAuditRules', () => {
+  it('reads a comma-separated list and rejects unknown rule IDs', () => {
+    expect(parseDisabledAuditRules(undefined)).toEqual([]);
+    expect(parseDisabledAuditRules(' upside-down, empty-group ,')).toEqual(['upside-down', 'empty-group']);
+    expect(() => parseDisabledAuditRules('upside-down,no-notification')).toThrow(/Unknown audit rule\(s\) no-notification/);
+  });
+});
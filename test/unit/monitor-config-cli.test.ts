@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { UptimeKumaClient } from '../../src/uptime-kuma-client.js';
+import { runMonitorConfigCommand } from '../../src/monitor-config-cli.js';
+import { createMockSocket, injectSocket } from './helpers.js';
+
+/**
+ * The export / import / apply subcommands against a fake socket that, like Uptime Kuma, sends
+ * its lists some time after the login has been answered.
+ */
+
+const loadConfig = () => ({
+  url: 'http://localhost:3001',
+  username: undefined,
+  password: undefined,
+  token: undefined,
+  jwtToken: undefined,
+});
+
+let dir: string;
+
+describe('monitor config CLI', () => {
+  let lists: Record<string, unknown>;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'monitor-config-cli-test-'));
+    lists = {
+      monitorList: { '7': { id: 7, name: 'API', pathName: 'API', type: 'http', url: 'https://api.example.com', parent: null, notificationIDList: {} } },
+      maintenanceList: {},
+      notificationList: {},
+      dockerHostList: [],
+      statusPageList: {},
+    };
+
+    vi.spyOn(UptimeKumaClient.prototype, 'ensureConnected').mockImplementation(async function (this: UptimeKumaClient) {
+      const { socket, onHandlers } = createMockSocket({
+        login: () => {
+          setTimeout(() => {
+            for (const [event, data] of Object.entries(lists)) onHandlers[event](data);
+          }, 20);
+        },
+      });
+      injectSocket(this, socket);
+    });
+    vi.spyOn(UptimeKumaClient.prototype, 'getSettings').mockResolvedValue({ ok: true, data: {} } as never);
+    vi.spyOn(process.stderr, 'write').mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('exports only once Uptime Kuma has sent the monitor list', async () => {
+    const output = join(dir, 'monitors.json');
+
+    const code = await runMonitorConfigCommand('export', ['-o', output], loadConfig);
+
+    expect(code).toBe(0);
+    expect(JSON.parse(readFileSync(output, 'utf8')).monitors).toEqual([
+      expect.objectContaining({ name: 'API', url: 'https://api.example.com' }),
+    ]);
+  });
+
+  it('gives up rather than planning from empty caches when a list never arrives', async () => {
+    delete lists.statusPageList;
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    try {
+      const run = runMonitorConfigCommand('export', ['-o', join(dir, 'monitors.json')], loadConfig);
+      const failed = expect(run).rejects.toThrow('did not send its statusPageList');
+      await vi.advanceTimersByTimeAsync(30_000);
+      await failed;
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, statSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../../src/server.js';
+import { UptimeKumaClient } from '../../src/uptime-kuma-client.js';
+import { listMonitorSnapshots, restorableConfig, saveMonitorSnapshot, type MonitorSnapshot } from '../../src/monitor-snapshots.js';
+import { injectMonitorListCache, injectNotificationListCache } from './helpers.js';
+
+// createServer() registers process signal handlers per instance; see verify-monitor-write.test.ts.
+process.setMaxListeners(50);
+
+let dir: string;
+let storePath: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'monitor-snapshots-test-'));
+  storePath = join(dir, 'snapshots.json');
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const snapshotOf = (monitor: Record<string, unknown>): Omit<MonitorSnapshot, 'snapshotID' | 'takenAt'> => ({
+  reason: 'update',
+  instance: 'default',
+  monitorID: monitor.id as number,
+  name: String(monitor.name),
+  type: 'http',
+  monitor,
+});
+
+describe('snapshot store', () => {
+  it('keeps the newest snapshots up to the retention limit, readable by its owner only', async () => {
+    await Promise.all([1, 2, 3].map((id) => saveMonitorSnapshot(storePath, snapshotOf({ id, name: `M${id}` }), 2)));
+
+    const kept = await listMonitorSnapshots(storePath, { instance: 'default' });
+    expect(kept.map((s) => s.monitorID)).toEqual([3, 2]);
+    expect(await listMonitorSnapshots(storePath, { instance: 'default', monitorID: 2 })).toHaveLength(1);
+    expect(await listMonitorSnapshots(storePath, { instance: 'staging' })).toEqual([]);
+    expect(statSync(storePath).mode & 0o777).toBe(0o600);
+  });
+
+  it('restores tags by name and drops references that no longer resolve', async () => {
+    const snapshot = await saveMonitorSnapshot(storePath, snapshotOf({
+      id: 7, name: 'API', pathName: 'Prod / API', parent: 1, uptime: { 24: 1 },
+      notificationIDList: { 1: true, 2: true, 3: false },
+      tags: [{ tag_id: 4, name: 'prod', value: null, color: '#f00' }],
+    }));
+
+    const { data, notes } = restorableConfig(snapshot, { notificationIDs: new Set([1]), monitorIDs: new Set([7]) });
+
+    expect(data).toEqual({
+      name: 'API',
+      parent: null,
+      notificationIDList: { 1: true },
+      tags: [{ name: 'prod', value: '', color: '#f00' }],
+    });
+    expect(notes).toEqual([
+      'Notification channel 2 no longer exists, so it was not re-attached.',
+      'Its group 1 no longer exists, so it is restored at the top level.',
+    ]);
+  });
+});
+
+describe('restoreMonitor', () => {
+  // A fake Uptime Kuma: monitors as stored, and the pushed monitor list the cache holds.
+  let stored: Record<number, Record<string, unknown>>;
+  let cache: Record<string, Record<string, unknown>>;
+  let createMonitor: ReturnType<typeof vi.spyOn>;
+
+  async function connectServer() {
+    const { server, client: kuma } = await createServer({
+      url: 'http://localhost:3001',
+      username: undefined,
+      password: undefined,
+      token: undefined,
+      jwtToken: undefined,
+      snapshotStorePath: storePath,
+    });
+    injectMonitorListCache(kuma, cache);
+    injectNotificationListCache(kuma, { '1': { id: 1, name: 'On-call' } });
+
+    const client = new Client({ name: 'monitor-snapshots-test', version: '1.0.0' }, { capabilities: {} });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+    return client;
+  }
+
+  beforeEach(() => {
+    const api = {
+      id: 7, name: 'API', pathName: 'API', type: 'http', url: 'https://api.example.com', interval: 60, retryInterval: 60,
+      basic_auth_pass: 'hunter2', notificationIDList: { 1: true }, tags: [{ tag_id: 4, name: 'prod', value: '' }],
+    };
+    stored = { 7: structuredClone(api) };
+    cache = { '7': structuredClone(api) };
+
+    vi.spyOn(UptimeKumaClient.prototype, 'ensureConnected').mockResolvedValue(undefined as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'login').mockResolvedValue({ ok: true } as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'getSettings').mockResolvedValue({ ok: true, data: {} } as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'fetchMonitor').mockImplementation((async (id: number) => {
+      if (!stored[id]) throw new Error(`Monitor ${id} not found`);
+      return structuredClone(stored[id]);
+    }) as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'updateMonitor').mockImplementation((async (monitor: Record<string, unknown>) => {
+      stored[monitor.id as number] = { ...monitor };
+      cache[String(monitor.id)] = { ...monitor };
+      return { ok: true, msg: 'Saved.', monitorID: monitor.id };
+    }) as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'deleteMonitor').mockImplementation((async (id: number) => {
+      delete stored[id];
+      delete cache[String(id)];
+      return { ok: true, msg: 'Deleted Successfully.' };
+    }) as never);
+    createMonitor = vi.spyOn(UptimeKumaClient.prototype, 'createMonitor').mockImplementation((async (monitor: Record<string, unknown>) => {
+      stored[12] = { ...monitor, id: 12 };
+      return { ok: true, msg: 'Added Successfully.', monitorID: 12 };
+    }) as never);
+  });
+
+  it('rolls an update back, and keeps the replaced configuration to undo the rollback', async () => {
+    const client = await connectServer();
+
+    const update = await client.callTool({ name: 'updateMonitor', arguments: { monitorID: 7, url: 'https://typo.example.com' } });
+    const { snapshotID } = update.structuredContent as { snapshotID: string };
+    expect(JSON.stringify(update.content)).toContain(`restoreMonitor with snapshotID \\"${snapshotID}\\" undoes this`);
+
+    const restore = await client.callTool({ name: 'restoreMonitor', arguments: { snapshotID } });
+
+    expect(restore.isError).toBeFalsy();
+    expect(restore.structuredContent).toMatchObject({ ok: true, action: 'rolledBack', monitorID: 7, snapshotID, notes: [] });
+    expect(stored[7]).toMatchObject({ url: 'https://api.example.com', basic_auth_pass: 'hunter2' });
+    const undo = (restore.structuredContent as { undoSnapshotID: string }).undoSnapshotID;
+    const [latest] = await listMonitorSnapshots(storePath, { instance: 'default', monitorID: 7 });
+    expect(latest).toMatchObject({ snapshotID: undo, reason: 'restore', monitor: { url: 'https://typo.example.com' } });
+  });
+
+  it('recreates a deleted monitor with its credentials, tags and channels', async () => {
+    const client = await connectServer();
+
+    await client.callTool({ name: 'deleteMonitor', arguments: { monitorID: 7, confirm: true } });
+    const restore = await client.callTool({ name: 'restoreMonitor', arguments: { monitorID: 7 } });
+
+    expect(restore.structuredContent).toMatchObject({ ok: true, action: 'recreated', monitorID: 12 });
+    expect(JSON.stringify(restore.content)).toContain('heartbeat history was deleted with it');
+    expect(createMonitor).toHaveBeenCalledWith(expect.objectContaining({
+      name: 'API',
+      basic_auth_pass: 'hunter2',
+      notificationIDList: { 1: true },
+      tags: [{ name: 'prod', value: '', color: undefined }],
+    }));
+    expect(createMonitor.mock.calls[0][0]).not.toHaveProperty('id');
+    // The store holds credentials.
+    expect(readFileSync(storePath, 'utf8')).toContain('hunter2');
+  });
+
+  it('snapshots each monitor a bulk delete removes, and a delete prompt says what can come back', async () => {
+    const client = await connectServer();
+
+    const preview = await client.callTool({ name: 'deleteMonitor', arguments: { monitorID: 7 } });
+    expect(JSON.stringify(preview.content)).toContain('restoreMonitor can recreate its configuration afterwards, but not its heartbeat history.');
+
+    const bulk = await client.callTool({ name: 'deleteMonitors', arguments: { type: 'http', confirmMonitorIDs: [7] } });
+    const [result] = (bulk.structuredContent as { results: Array<{ monitorID: number; snapshotID?: string }> }).results;
+    expect(result).toMatchObject({ monitorID: 7, snapshotID: expect.any(String) });
+    expect(JSON.stringify(bulk.content)).toContain('restoreMonitor with a monitorID from the results recreates that monitor');
+
+    const restore = await client.callTool({ name: 'restoreMonitor', arguments: { snapshotID: result.snapshotID } });
+    expect(restore.structuredContent).toMatchObject({ ok: true, action: 'recreated', monitorID: 12 });
+  });
+
+  it('snapshots the monitors notification tools and applyConfig change', async () => {
+    const client = await connectServer();
+
+    const detach = await client.callTool({ name: 'detachNotification', arguments: { notificationID: 1, monitorIDs: [7] } });
+    const [detached] = (detach.structuredContent as { results: Array<{ snapshotID?: string }> }).results;
+    expect(detached.snapshotID).toEqual(expect.any(String));
+    const rollback = await client.callTool({ name: 'restoreMonitor', arguments: { snapshotID: detached.snapshotID } });
+    expect(rollback.structuredContent).toMatchObject({ ok: true, action: 'rolledBack' });
+    expect(stored[7]).toMatchObject({ notificationIDList: { 1: true } });
+
+    const document = 'version: 1\nmonitors: []\n';
+    const preview = await client.callTool({ name: 'applyConfig', arguments: { document } });
+    const { planID, items } = preview.structuredContent as { planID: string; items: unknown[] };
+    expect(items).toEqual([expect.objectContaining({ action: 'delete', id: 7, restorable: true })]);
+    const applied = await client.callTool({ name: 'applyConfig', arguments: { document, confirm: true, planID } });
+    const [deleted] = (applied.structuredContent as { items: Array<{ snapshotID?: string }> }).items;
+    expect(deleted).toMatchObject({ applied: true, snapshotID: expect.any(String) });
+    expect(JSON.stringify(applied.content)).toContain(`restoreMonitor snapshot \\"${deleted.snapshotID}\\"`);
+
+    const restore = await client.callTool({ name: 'restoreMonitor', arguments: { snapshotID: deleted.snapshotID } });
+    expect(restore.structuredContent).toMatchObject({ ok: true, action: 'recreated', monitorID: 12 });
+  });
+
+  it('refuses to guess without a snapshot', async () => {
+    const client = await connectServer();
+
+    const none = await client.callTool({ name: 'restoreMonitor', arguments: { monitorID: 7 } });
+    const both = await client.callTool({ name: 'restoreMonitor', arguments: { monitorID: 7, snapshotID: 'abc' } });
+
+    expect(JSON.stringify(none.content)).toContain('No snapshot of monitor 7');
+    expect(JSON.stringify(both.content)).toContain('Pass either snapshotID or monitorID');
+    expect(createMonitor).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../../src/server.js';
+import { UptimeKumaClient } from '../../src/uptime-kuma-client.js';
+import { injectMonitorListCache, injectNotificationListCache } from './helpers.js';
+
+// createServer() registers process signal handlers per instance; see verify-monitor-write.test.ts.
+process.setMaxListeners(50);
+
+const MONITORS = {
+  '1': { id: 1, name: 'Prod', pathName: 'Prod', type: 'group', parent: null, interval: 60, retryInterval: 60, notificationIDList: {} },
+  '2': { id: 2, name: 'API', pathName: 'Prod / API', type: 'http', parent: 1, url: 'https://api.example.com', interval: 60, retryInterval: 60, notificationIDList: { 1: true } },
+  '3': { id: 3, name: 'DB', pathName: 'Prod / DB', type: 'postgres', parent: 1, interval: 60, retryInterval: 0, notificationIDList: { 1: true, 5: true } },
+  '4': { id: 4, name: 'Blog', pathName: 'Blog', type: 'http', parent: null, interval: 60, retryInterval: 60 },
+};
+
+async function connectServer() {
+  const { server, client: kuma } = await createServer({
+    url: 'http://localhost:3001',
+    username: undefined,
+    password: undefined,
+    token: undefined,
+    jwtToken: undefined,
+  });
+  injectMonitorListCache(kuma, structuredClone(MONITORS));
+  injectNotificationListCache(kuma, {
+    '5': { id: 5, name: 'On-call', config: '{"type":"pagerduty"}' },
+  });
+
+  const client = new Client({ name: 'notification-attachment-test', version: '1.0.0' }, { capabilities: {} });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+describe('attachNotification / detachNotification', () => {
+  let updateMonitor: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.spyOn(UptimeKumaClient.prototype, 'ensureConnected').mockResolvedValue(undefined as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'login').mockResolvedValue({ ok: true } as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'getSettings').mockResolvedValue({ ok: true, data: {} } as never);
+    updateMonitor = vi.spyOn(UptimeKumaClient.prototype, 'updateMonitor').mockImplementation(
+      (async (monitor: Record<string, unknown>) => {
+        if (monitor.id === 4) throw new Error('Timeout');
+        return { ok: true, msg: 'Saved.', monitorID: monitor.id };
+      }) as never
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('merges the channel into each selected monitor and skips those that have it', async () => {
+    const client = await connectServer();
+
+    const result = await client.callTool({ name: 'attachNotification', arguments: { notificationID: 5, groupID: 1 } });
+
+    expect(result.isError).toBeFalsy();
+    expect((result.structuredContent as { results: unknown[] }).results).toEqual([
+      { monitorID: 1, pathName: 'Prod', changed: true, ok: true },
+      { monitorID: 2, pathName: 'Prod / API', changed: true, ok: true },
+      { monitorID: 3, pathName: 'Prod / DB', changed: false, ok: true },
+    ]);
+    expect(updateMonitor).toHaveBeenCalledTimes(2);
+    // The rest of the monitor goes back as it was.
+    expect(updateMonitor).toHaveBeenCalledWith(expect.objectContaining({
+      id: 2,
+      url: 'https://api.example.com',
+      notificationIDList: { 1: true, 5: true },
+    }));
+  });
+
+  it('detaches by type and reports a failed save per monitor', async () => {
+    const client = await connectServer();
+
+    const attach = await client.callTool({ name: 'attachNotification', arguments: { notificationID: 5, type: 'http' } });
+    const detach = await client.callTool({ name: 'detachNotification', arguments: { notificationID: 5, monitorIDs: [3], type: 'postgres' } });
+
+    expect(attach.isError).toBe(true);
+    expect((attach.structuredContent as { results: unknown[] }).results).toEqual([
+      { monitorID: 2, pathName: 'Prod / API', changed: true, ok: true },
+      { monitorID: 4, pathName: 'Blog', changed: false, ok: false, error: 'Timeout' },
+    ]);
+    expect(detach.structuredContent).toEqual({
+      ok: true,
+      results: [{ monitorID: 3, pathName: 'Prod / DB', changed: true, ok: true }],
+    });
+    // A stored retryInterval of 0 is rejected on edit, as in updateMonitor.
+    expect(updateMonitor).toHaveBeenLastCalledWith(expect.objectContaining({ id: 3, notificationIDList: { 1: true }, retryInterval: 60 }));
+  });
+
+  it('refuses an unknown channel or an empty selection without saving anything', async () => {
+    const client = await connectServer();
+
+    const unknown = await client.callTool({ name: 'attachNotification', arguments: { notificationID: 9, monitorIDs: [2] } });
+    const unselected = await client.callTool({ name: 'attachNotification', arguments: { notificationID: 5 } });
+    const noneOfType = await client.callTool({ name: 'attachNotification', arguments: { notificationID: 5, monitorIDs: [2], type: 'dns' } });
+
+    expect(JSON.stringify(unknown.content)).toContain('Notification 9 not found');
+    expect(JSON.stringify(unselected.content)).toContain('Select monitors');
+    expect(JSON.stringify(noneOfType.content)).toContain('No monitors of type \\"dns\\"');
+    expect(updateMonitor).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { UptimeKumaClient } from '../../src/uptime-kuma-client.js';
+import { formatNotificationCoverage, notificationCoverage } from '../../src/notification-coverage.js';
+import { injectMonitorListCache, injectNotificationListCache } from './helpers.js';
+
+function fleet() {
+  const client = new UptimeKumaClient('http://localhost:3001');
+  injectMonitorListCache(client, {
+    '1': { id: 1, name: 'Prod', pathName: 'Prod', type: 'group', parent: null, notificationIDList: {} },
+    '2': { id: 2, name: 'DB', pathName: 'Prod / DB', type: 'postgres', parent: 1, notificationIDList: { 1: true, 2: true } },
+    '3': { id: 3, name: 'Cache', pathName: 'Prod / Cache', type: 'redis', parent: 1, notificationIDList: { 2: false, 9: true } },
+    '4': { id: 4, name: 'Blog', pathName: 'Blog', type: 'http', parent: null, active: false, notificationIDList: { 1: true } },
+  });
+  injectNotificationListCache(client, {
+    '1': { id: 1, name: 'On-call', isDefault: true, config: '{"type":"pagerduty","pagerdutyIntegrationKey":"secret"}' },
+    '2': { id: 2, name: 'Ops chat', isDefault: false, config: '{"type":"slack"}' },
+    '3': { id: 3, name: 'Old mail', isDefault: false, config: 'not json' },
+  });
+  return client;
+}
+
+describe('notificationCoverage', () => {
+  it('joins monitors and channels both ways', () => {
+    const coverage = notificationCoverage(fleet());
+
+    expect(coverage.monitors).toEqual([
+      {
+        monitorID: 2,
+        name: 'Prod / DB',
+        type: 'postgres',
+        active: true,
+        channels: [{ id: 1, name: 'On-call', type: 'pagerduty' }, { id: 2, name: 'Ops chat', type: 'slack' }],
+      },
+      // Disabled, and a channel that no longer exists.
+      { monitorID: 3, name: 'Prod / Cache', type: 'redis', active: true, channels: [] },
+      { monitorID: 4, name: 'Blog', type: 'http', active: false, channels: [{ id: 1, name: 'On-call', type: 'pagerduty' }] },
+    ]);
+    expect(coverage.uncoveredMonitorIDs).toEqual([3]);
+    expect(coverage.channels.map((c) => [c.id, c.type, c.monitorIDs])).toEqual([[1, 'pagerduty', [2, 4]], [2, 'slack', [2]], [3, null, []]]);
+    expect(coverage.unusedChannelIDs).toEqual([3]);
+    expect(coverage.defaultChannelIDs).toEqual([1]);
+    expect(coverage.groups).toEqual([
+      { groupID: 1, name: 'Prod', monitorCount: 2, coveredCount: 1, uncoveredMonitorIDs: [3] },
+    ]);
+  });
+
+  it('narrows the monitor rows to a selection but not the channel summary', () => {
+    const coverage = notificationCoverage(fleet(), { monitorIDs: [2] });
+
+    expect(coverage.monitors.map((m) => m.monitorID)).toEqual([2]);
+    expect(coverage.groups).toEqual([]);
+    expect(coverage.unusedChannelIDs).toEqual([3]);
+    expect(formatNotificationCoverage(coverage)).toBe([
+      '1 monitor(s), 0 alerting nobody:',
+      '- Prod / DB [2] → On-call [1] (pagerduty), Ops chat [2] (slack)',
+      '',
+      'Channels attached to no monitor: Old mail [3]',
+      'Default channels (enabled on new monitors): On-call [1] (pagerduty)',
+    ].join('\n'));
+  });
+});
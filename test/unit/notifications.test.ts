@@ -108,4 +108,24 @@ describe('UptimeKumaClient - Notification Operations', () => {
       await expect(client.deleteNotification(1)).rejects.toThrow('Not connected to server');
     });
   });
+
+  describe('testNotification', () => {
+    it('resolves (not rejects) with the provider response either way', async () => {
+      const { socket } = createMockSocket({
+        testNotification: (notification, callback) => {
+          expect(notification).toEqual({ name: 'Ops', type: 'ntfy', ntfytopic: 'ops' });
+          (callback as (res: unknown) => void)({ ok: false, msg: 'Error: 401 Unauthorized' });
+        },
+      });
+      injectSocket(client, socket);
+
+      const result = await client.testNotification({ name: 'Ops', type: 'ntfy', ntfytopic: 'ops' });
+      expect(result).toEqual({ ok: false, msg: 'Error: 401 Unauthorized' });
+    });
+
+    it('rejects when not connected', async () => {
+      injectSocket(client, createDisconnectedSocket());
+      await expect(client.testNotification({ type: 'slack' })).rejects.toThrow('Not connected to server');
+    });
+  });
 });
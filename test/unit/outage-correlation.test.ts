@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import type { UptimeKumaClient } from '../../src/uptime-kuma-client.js';
+import { correlateOutages, formatOutageClusters } from '../../src/outage-correlation.js';
+
+// Cached beats, newest-first, as the client holds them.
+const beats = (...list: Array<[string, number, string?]>) =>
+  list.map(([time, status, msg]) => ({ time: `2026-09-01 ${time}`, status, msg: msg ?? '', important: false }));
+
+const MONITORS = {
+  '1': { id: 1, name: 'Backend', type: 'group', parent: null, path: ['Backend'], pathName: 'Backend' },
+  '2': { id: 2, name: 'API', type: 'http', parent: 1, path: ['Backend', 'API'], pathName: 'Backend / API', url: 'https://db.internal:8443/health', tags: [{ name: 'env', value: 'prod' }] },
+  '3': { id: 3, name: 'Postgres', type: 'port', parent: 1, path: ['Backend', 'Postgres'], pathName: 'Backend / Postgres', hostname: 'DB.internal', tags: [{ name: 'env', value: 'prod' }] },
+  '4': { id: 4, name: 'Worker', type: 'docker', parent: 1, path: ['Backend', 'Worker'], pathName: 'Backend / Worker', docker_host: 9, tags: [{ name: 'env', value: 'prod' }] },
+  '5': { id: 5, name: 'Site', type: 'http', parent: null, path: ['Site'], pathName: 'Site', url: 'https://www.example.com' },
+};
+
+function fakeClient(cache: Record<string, ReturnType<typeof beats>>) {
+  return {
+    getMonitorList: () => MONITORS,
+    getDockerHostList: () => [{ id: 9, name: 'swarm-1' }],
+    getHeartbeatList: () => cache,
+    getHeartbeatsForMonitor: (id: number) => cache[String(id)]?.slice(0, 1) ?? [],
+  } as unknown as UptimeKumaClient;
+}
+
+describe('correlateOutages', () => {
+  it('groups DOWNs within the window and ranks what the monitors share', () => {
+    const client = fakeClient({
+      // The group follows its members down; it is a cause, not a member.
+      '1': beats(['10:00:30', 0], ['09:59:00', 1]),
+      '2': beats(['10:00:20', 0, 'ECONNREFUSED'], ['09:59:20', 1]),
+      '3': beats(['10:01:00', 1], ['10:00:00', 0, 'timeout'], ['09:59:00', 1]),
+      '4': beats(['10:01:30', 0, 'container exited'], ['10:00:30', 1]),
+      // Long after the window closed.
+      '5': beats(['10:30:00', 0, 'HTTP 502'], ['10:29:00', 1]),
+    });
+
+    const clusters = correlateOutages(client, { windowSeconds: 120, minMonitors: 2 });
+
+    expect(clusters).toHaveLength(1);
+    const [cluster] = clusters;
+    expect(cluster.start).toBe('2026-09-01T10:00:00.000Z');
+    expect(cluster.monitors.map((m) => [m.monitorID, m.stillDown])).toEqual([[3, false], [2, true], [4, true]]);
+    // Group and tag cover all three; the innermost group wins the tie over the tag. The host
+    // is shared by two of them, the docker host by only one.
+    expect(cluster.causes).toEqual([
+      { kind: 'group', value: 'Backend', monitorIDs: [2, 3, 4], coverage: 1 },
+      { kind: 'tag', value: 'env=prod', monitorIDs: [2, 3, 4], coverage: 1 },
+      { kind: 'hostname', value: 'db.internal', monitorIDs: [2, 3], coverage: 0.67 },
+    ]);
+    expect(cluster.likelyRoot).toBe('group "Backend" (3 of 3 monitors)');
+  });
+
+  it('anchors the window to the first DOWN so failures cannot chain', () => {
+    const client = fakeClient({
+      '2': beats(['10:00:00', 0], ['09:59:00', 1]),
+      '3': beats(['10:01:30', 0], ['10:01:00', 1]),
+      '5': beats(['10:03:00', 0], ['10:02:00', 1]),
+    });
+
+    const clusters = correlateOutages(client, { windowSeconds: 120, minMonitors: 2 });
+
+    expect(clusters.map((c) => c.monitors.map((m) => m.monitorID))).toEqual([[2, 3]]);
+  });
+
+  it('respects minMonitors and since', () => {
+    const client = fakeClient({
+      '2': beats(['10:00:00', 0], ['09:59:00', 1]),
+      '3': beats(['10:00:10', 0], ['09:59:00', 1]),
+    });
+
+    expect(correlateOutages(client, { windowSeconds: 120, minMonitors: 3 })).toEqual([]);
+    expect(correlateOutages(client, { windowSeconds: 120, minMonitors: 2, since: Date.parse('2026-09-01T10:00:05Z') })).toEqual([]);
+    expect(formatOutageClusters([], 120)).toBe('No monitors went DOWN within 120s of each other in the cached heartbeats.');
+  });
+
+  it('has no likely root when nothing is shared by half the cluster', () => {
+    const client = fakeClient({
+      '4': beats(['10:00:00', 0], ['09:59:00', 1]),
+      '5': beats(['10:00:10', 0], ['09:59:00', 1]),
+    });
+
+    const [cluster] = correlateOutages(client, { windowSeconds: 60, minMonitors: 2 });
+
+    expect(cluster.causes).toEqual([]);
+    expect(cluster.likelyRoot).toBeNull();
+    expect(formatOutageClusters([cluster], 60)).toContain('no shared dependency found');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../../src/server.js';
+import { UptimeKumaClient } from '../../src/uptime-kuma-client.js';
+import { TOOL_SCOPES } from '../../src/tool-scopes.js';
+
+// createServer() registers process signal handlers per instance; see verify-monitor-write.test.ts.
+process.setMaxListeners(50);
+
+async function connectServer(readOnly: boolean) {
+  const { server } = await createServer({
+    url: 'http://localhost:3001',
+    username: undefined,
+    password: undefined,
+    token: undefined,
+    jwtToken: undefined,
+    readOnly,
+  });
+
+  const client = new Client({ name: 'read-only-test', version: '1.0.0' }, { capabilities: {} });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+describe('read-only mode', () => {
+  beforeEach(() => {
+    vi.spyOn(UptimeKumaClient.prototype, 'ensureConnected').mockResolvedValue(undefined as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'login').mockResolvedValue({ ok: true } as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'getSettings').mockResolvedValue({ ok: true, data: {} } as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('registers the read tools only and leaves writes out of the instructions', async () => {
+    const client = await connectServer(true);
+
+    const { tools } = await client.listTools();
+    const readTools = Object.keys(TOOL_SCOPES).filter((name) => TOOL_SCOPES[name] === 'read');
+    expect(tools.map((t) => t.name).sort()).toEqual(readTools.sort());
+
+    const instructions = client.getInstructions() ?? '';
+    expect(instructions).toContain('READ-ONLY MODE');
+    expect(instructions).not.toContain('WRITE operations');
+    expect(instructions).not.toContain("'deleteMonitor'");
+    const registered = new Set(tools.map((t) => t.name));
+    const unregisteredMentioned = Object.keys(TOOL_SCOPES)
+      .filter((name) => !registered.has(name) && new RegExp(`(?<![A-Za-z])${name}(?![A-Za-z])`).test(instructions));
+    expect(unregisteredMentioned).toEqual([]);
+  });
+
+  it('has no write tool to call', async () => {
+    const deleteMonitor = vi.spyOn(UptimeKumaClient.prototype, 'deleteMonitor');
+    const client = await connectServer(true);
+
+    const result = await client.callTool({ name: 'deleteMonitor', arguments: { monitorID: 1 } }).catch((error: Error) => error);
+
+    expect(String(result instanceof Error ? result.message : JSON.stringify(result))).toContain('Tool deleteMonitor not found');
+    expect(deleteMonitor).not.toHaveBeenCalled();
+  });
+
+  it('keeps every tool and the write instructions by default', async () => {
+    const client = await connectServer(false);
+
+    const { tools } = await client.listTools();
+    expect(tools).toHaveLength(Object.keys(TOOL_SCOPES).length);
+    expect(client.getInstructions()).toContain('WRITE operations');
+  });
+});
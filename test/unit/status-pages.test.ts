@@ -1,4 +1,6 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, beforeAll } from 'vitest';
+import type { z } from 'zod';
+import { createServer } from '../../src/server.js';
 import { UptimeKumaClient } from '../../src/uptime-kuma-client.js';
 import { createMockSocket, createDisconnectedSocket, injectSocket } from './helpers.js';
 
@@ -177,4 +179,98 @@ describe('UptimeKumaClient - Status Page Operations', () => {
       fetchSpy.mockRestore();
     });
   });
+
+  describe('postIncident', () => {
+    it('emits postIncident with the slug and incident, and resolves with the stored incident', async () => {
+      const { socket } = createMockSocket({
+        postIncident: (slug, incident, callback) => {
+          expect(slug).toBe('my-status');
+          expect(incident).toEqual({ title: 'API degraded', content: '**Investigating**', style: 'warning' });
+          (callback as (res: unknown) => void)({
+            ok: true,
+            incident: { id: 4, title: 'API degraded', content: '**Investigating**', style: 'warning', pin: true },
+          });
+        },
+      });
+      injectSocket(client, socket);
+
+      const result = await client.postIncident('my-status', { title: 'API degraded', content: '**Investigating**', style: 'warning' });
+      expect(result.incident?.id).toBe(4);
+    });
+
+    it('passes the incident ID through when editing', async () => {
+      const { socket } = createMockSocket({
+        postIncident: (_slug, incident, callback) => {
+          expect(incident).toMatchObject({ id: 4 });
+          (callback as (res: unknown) => void)({ ok: true, incident: { id: 4, title: 'Resolved' } });
+        },
+      });
+      injectSocket(client, socket);
+
+      await client.postIncident('my-status', { id: 4, title: 'Resolved', content: 'Fixed', style: 'info' });
+    });
+
+    it('rejects when server returns not ok', async () => {
+      const { socket } = createMockSocket({
+        postIncident: (_slug, _incident, callback) => {
+          (callback as (res: unknown) => void)({ ok: false, msg: 'slug is not found' });
+        },
+      });
+      injectSocket(client, socket);
+
+      await expect(
+        client.postIncident('nope', { title: 'x', content: 'y', style: 'info' })
+      ).rejects.toThrow('slug is not found');
+    });
+  });
+
+  describe('unpinIncident', () => {
+    it('emits unpinIncident with the slug', async () => {
+      const { socket } = createMockSocket({
+        unpinIncident: (slug, callback) => {
+          expect(slug).toBe('my-status');
+          (callback as (res: unknown) => void)({ ok: true });
+        },
+      });
+      injectSocket(client, socket);
+
+      expect((await client.unpinIncident('my-status')).ok).toBe(true);
+    });
+
+    it('rejects when not connected', async () => {
+      injectSocket(client, createDisconnectedSocket());
+      await expect(client.unpinIncident('my-status')).rejects.toThrow('Not connected to server');
+    });
+  });
+});
+
+describe('postIncident tool input', () => {
+  type RegisteredTool = { inputSchema?: z.ZodObject<z.ZodRawShape> };
+  let schema: z.ZodObject<z.ZodRawShape>;
+
+  beforeAll(async () => {
+    const { server } = await createServer({
+      url: 'http://localhost:3001',
+      username: undefined,
+      password: undefined,
+      token: undefined,
+      jwtToken: undefined,
+    });
+    schema = (server as unknown as { _registeredTools: Record<string, RegisteredTool> })._registeredTools.postIncident.inputSchema!;
+  });
+
+  it('defaults the style to primary', () => {
+    expect(schema.safeParse({ slug: 'my-status', title: 'Down', content: 'Looking into it' }))
+      .toMatchObject({ success: true, data: { style: 'primary' } });
+  });
+
+  it.each([
+    ['an unknown style', { style: 'critical' }],
+    ['an empty title', { title: '' }],
+    ['an empty content', { content: '' }],
+    ['a slug with uppercase letters', { slug: 'My-Status' }],
+  ])('rejects %s', (_label, override) => {
+    const args = { slug: 'my-status', title: 'Down', content: 'Looking into it', style: 'danger', ...override };
+    expect(schema.safeParse(args).success).toBe(false);
+  });
 });
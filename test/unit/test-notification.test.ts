@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { createServer } from '../../src/server.js';
+import { UptimeKumaClient } from '../../src/uptime-kuma-client.js';
+import { injectNotificationListCache } from './helpers.js';
+
+// createServer() registers process signal handlers per instance; see verify-monitor-write.test.ts.
+process.setMaxListeners(50);
+
+async function connectServer() {
+  const { server, client: kuma } = await createServer({
+    url: 'http://localhost:3001',
+    username: undefined,
+    password: undefined,
+    token: undefined,
+    jwtToken: undefined,
+  });
+  injectNotificationListCache(kuma, {
+    '3': {
+      id: 3,
+      name: 'Ops Slack',
+      isDefault: false,
+      config: JSON.stringify({ name: 'Ops Slack', type: 'slack', slackwebhookURL: 'https://hooks.slack.com/services/T0/B0/real' }),
+    },
+  });
+
+  const client = new Client({ name: 'test-notification-test', version: '1.0.0' }, { capabilities: {} });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+describe('testNotification', () => {
+  let testNotification: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.spyOn(UptimeKumaClient.prototype, 'ensureConnected').mockResolvedValue(undefined as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'login').mockResolvedValue({ ok: true } as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'getSettings').mockResolvedValue({ ok: true, data: {} } as never);
+    testNotification = vi.spyOn(UptimeKumaClient.prototype, 'testNotification')
+      .mockResolvedValue({ ok: true, msg: 'Sent Successfully.' } as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('tests an existing channel with its stored credentials, overriding only what is passed', async () => {
+    const client = await connectServer();
+
+    const result = await client.callTool({
+      name: 'testNotification',
+      arguments: { notificationID: 3, config: { slackwebhookURL: '***', slackchannel: '#test' } },
+    });
+
+    expect(result.isError).toBeFalsy();
+    expect(result.structuredContent).toEqual({ ok: true, msg: 'Sent Successfully.' });
+    expect(testNotification).toHaveBeenCalledWith({
+      name: 'Ops Slack',
+      type: 'slack',
+      slackwebhookURL: 'https://hooks.slack.com/services/T0/B0/real',
+      slackchannel: '#test',
+    });
+  });
+
+  it('tests an unsaved configuration and returns a failed test as ok: false', async () => {
+    testNotification.mockResolvedValue({ ok: false, msg: 'Error: Error: Request failed with status code 404' } as never);
+    const client = await connectServer();
+
+    const result = await client.callTool({
+      name: 'testNotification',
+      arguments: { type: 'ntfy', config: { ntfyserverurl: 'https://ntfy.sh', ntfytopic: 'ops' } },
+    });
+
+    expect(testNotification).toHaveBeenCalledWith({ name: 'MCP test', type: 'ntfy', ntfyserverurl: 'https://ntfy.sh', ntfytopic: 'ops' });
+    expect(result.structuredContent).toEqual({ ok: false, msg: 'Error: Error: Request failed with status code 404' });
+  });
+
+  it('refuses an unknown ID, a missing type and an unrestorable marker', async () => {
+    const client = await connectServer();
+
+    const unknown = await client.callTool({ name: 'testNotification', arguments: { notificationID: 9 } });
+    const untyped = await client.callTool({ name: 'testNotification', arguments: { config: { webhookURL: 'https://x' } } });
+    const marker = await client.callTool({ name: 'testNotification', arguments: { type: 'telegram', config: { telegramBotToken: '***' } } });
+
+    expect(JSON.stringify(unknown.content)).toContain('Notification 9 not found');
+    expect(JSON.stringify(untyped.content)).toContain('Pass notificationID');
+    expect(JSON.stringify(marker.content)).toContain('pass the real value for telegramBotToken');
+    expect(testNotification).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { createServer } from '../../src/server.js';
+import { UptimeKumaClient } from '../../src/uptime-kuma-client.js';
+import { isToolAllowed, parseTokensFile, TOOL_SCOPES } from '../../src/tool-scopes.js';
+import { injectMonitorListCache } from './helpers.js';
+
+// createServer() registers process signal handlers per instance; see verify-monitor-write.test.ts.
+process.setMaxListeners(50);
+
+/** Connects a client whose every request carries `authInfo`, as the HTTP auth middleware sets it. */
+async function connectServer(authInfo?: AuthInfo) {
+  const { server, client: kuma } = await createServer({
+    url: 'http://localhost:3001',
+    username: undefined,
+    password: undefined,
+    token: undefined,
+    jwtToken: undefined,
+  });
+  injectMonitorListCache(kuma, { '1': { id: 1, name: 'API', pathName: 'API', type: 'http', active: true } });
+
+  const client = new Client({ name: 'tool-scopes-test', version: '1.0.0' }, { capabilities: {} });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  if (authInfo) {
+    const send = clientTransport.send.bind(clientTransport);
+    clientTransport.send = (message: JSONRPCMessage) => send(message, { authInfo });
+  }
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+const token = (scopes: string[]): AuthInfo => ({ token: 'x', clientId: 'dashboard', scopes });
+
+describe('tool scopes', () => {
+  beforeEach(() => {
+    vi.spyOn(UptimeKumaClient.prototype, 'ensureConnected').mockResolvedValue(undefined as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'login').mockResolvedValue({ ok: true } as never);
+    vi.spyOn(UptimeKumaClient.prototype, 'getSettings').mockResolvedValue({ ok: true, data: {} } as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('classifies every registered tool, and lists them all without authInfo', async () => {
+    const { tools } = await (await connectServer()).listTools();
+
+    expect(tools.map((t) => t.name).sort()).toEqual(Object.keys(TOOL_SCOPES).sort());
+  });
+
+  it('lists only the tools a token may call', async () => {
+    const readOnly = await (await connectServer(token(['read']))).listTools();
+    const picked = await (await connectServer(token(['getMonitorSummary', 'pauseMonitor']))).listTools();
+
+    expect(readOnly.tools.length).toBeGreaterThan(0);
+    expect(readOnly.tools.every((t) => TOOL_SCOPES[t.name] === 'read')).toBe(true);
+    expect(picked.tools.map((t) => t.name).sort()).toEqual(['getMonitorSummary', 'pauseMonitor']);
+  });
+
+  it('rejects a call outside the token\'s scopes before running it', async () => {
+    const deleteMonitor = vi.spyOn(UptimeKumaClient.prototype, 'deleteMonitor');
+    const client = await connectServer(token(['read', 'write']));
+
+    await expect(client.callTool({ name: 'deleteMonitor', arguments: { monitorID: 1 } }))
+      .rejects.toThrow("Tool deleteMonitor needs the 'destructive' scope, which token 'dashboard' does not have (it has: read, write)");
+    expect(deleteMonitor).not.toHaveBeenCalled();
+
+    const summary = await client.callTool({ name: 'getMonitorSummary', arguments: {} });
+    expect(summary.isError).toBeFalsy();
+  });
+
+  it('applies the same scopes to resources: the read class, or the read tool serving the same data', async () => {
+    const writer = await connectServer(token(['write', 'pauseMonitor']));
+    const picked = await connectServer(token(['getMonitor']));
+    const reader = await connectServer(token(['read']));
+
+    expect((await writer.listResources()).resources).toEqual([]);
+    await expect(writer.readResource({ uri: 'uptime-kuma://monitors/1' }))
+      .rejects.toThrow("Resource uptime-kuma://monitors/1 needs the 'read' or 'getMonitor' scope, which token 'dashboard' does not have");
+    await expect(writer.subscribeResource({ uri: 'uptime-kuma://monitors/1/heartbeats' })).rejects.toThrow("'getHeartbeats'");
+
+    expect((await picked.listResources()).resources.map((r) => r.uri)).toEqual(['uptime-kuma://monitors/1']);
+    expect((await picked.readResource({ uri: 'uptime-kuma://monitors/1' })).contents).toHaveLength(1);
+    await expect(picked.readResource({ uri: 'uptime-kuma://monitors/1/heartbeats' })).rejects.toThrow('needs the');
+
+    expect((await reader.readResource({ uri: 'uptime-kuma://monitors/1/heartbeats' })).contents).toHaveLength(1);
+  });
+});
+
+describe('parseTokensFile', () => {
+  it('reads tokens with scope classes and tool names', () => {
+    const tokens = parseTokensFile(JSON.stringify({
+      tokens: [
+        { name: 'dashboard', token: 'dashboard-token-0123456789', scopes: ['read'] },
+        { name: 'bot', token: 'bot-token-0123456789abcdef', scopes: ['getMonitorSummary', 'pauseMonitor'] },
+      ],
+    }), 'tokens.json');
+
+    expect(tokens[1]).toEqual({ name: 'bot', token: 'bot-token-0123456789abcdef', scopes: ['getMonitorSummary', 'pauseMonitor'] });
+    expect(isToolAllowed('pauseMonitor', tokens[1].scopes)).toBe(true);
+    expect(isToolAllowed('resumeMonitor', tokens[1].scopes)).toBe(false);
+    expect(isToolAllowed('listTags', tokens[0].scopes)).toBe(true);
+  });
+
+  it('rejects unknown scopes, short tokens and reused tokens', () => {
+    const file = (tokens: unknown[]) => JSON.stringify({ tokens });
+
+    expect(() => parseTokensFile(file([{ name: 'a', token: 'a-long-enough-token-123', scopes: ['admin'] }]), 'tokens.json'))
+      .toThrow("tokens.0.scopes.0: unknown scope 'admin'");
+    expect(() => parseTokensFile(file([{ name: 'a', token: 'short', scopes: ['read'] }]), 'tokens.json'))
+      .toThrow('tokens.0.token: at least 16 characters');
+    expect(() => parseTokensFile(file([
+      { name: 'a', token: 'a-long-enough-token-123', scopes: ['read'] },
+      { name: 'b', token: 'a-long-enough-token-123', scopes: ['write'] },
+    ]), 'tokens.json')).toThrow("token 'b' reuses another entry's token");
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { UptimeKumaClient } from '../../src/uptime-kuma-client.js';
+import {
+  buildUptimeReport,
+  formatUptimeReportMarkdown,
+  outagesFrom,
+  parseReportTime,
+} from '../../src/uptime-report.js';
+
+const T = (iso: string) => Date.parse(iso);
+// Important beats as the feed sends them: UTC without a zone marker, newest-first.
+const beat = (iso: string, status: number, msg = '') => ({
+  time: iso.replace('T', ' ').replace('Z', ''),
+  status,
+  msg,
+  important: true,
+});
+
+function fakeClient(options: {
+  beats: Record<number, ReturnType<typeof beat>[]>;
+  chart: Record<number, Array<{ timestamp: number; up: number; down: number }>>;
+}) {
+  const fetchImportantHeartbeats = vi.fn(async (id: number, count: number, offset: number) =>
+    (options.beats[id] ?? []).slice(offset, offset + count)
+  );
+  const fetchMonitorChartData = vi.fn(async (id: number) => options.chart[id] ?? []);
+  const client = {
+    fetchImportantHeartbeats,
+    fetchMonitorChartData,
+    getMonitor: (id: number) => ({ id, pathName: id === 1 ? 'Web | API' : `Monitor ${id}` }),
+  } as unknown as UptimeKumaClient;
+  return { client, fetchImportantHeartbeats, fetchMonitorChartData };
+}
+
+describe('parseReportTime', () => {
+  it('reads a date-time without a zone as UTC', () => {
+    expect(parseReportTime('2026-09-01', 'start')).toBe(T('2026-09-01T00:00:00Z'));
+    expect(parseReportTime('2026-09-01T12:00', 'start')).toBe(T('2026-09-01T12:00:00Z'));
+    expect(parseReportTime('2026-09-01T12:00:00+02:00', 'start')).toBe(T('2026-09-01T10:00:00Z'));
+  });
+
+  it('names the argument it cannot parse', () => {
+    expect(() => parseReportTime('last month', 'start')).toThrow('start "last month" is not a date');
+  });
+});
+
+describe('outagesFrom', () => {
+  it('runs each DOWN period to the next change that is not DOWN', () => {
+    const outages = outagesFrom([
+      { time: 1, status: 1, msg: '' },
+      { time: 2, status: 0, msg: 'timeout' },
+      { time: 3, status: 0, msg: 'refused' },
+      { time: 4, status: 3, msg: '' },
+      { time: 5, status: 0, msg: 'reset' },
+    ]);
+
+    expect(outages).toEqual([
+      { start: 2, end: 4, msg: 'timeout' },
+      { start: 5, end: null, msg: 'reset' },
+    ]);
+  });
+});
+
+describe('buildUptimeReport', () => {
+  const range = {
+    start: T('2026-09-01T00:00:00Z'),
+    end: T('2026-09-02T00:00:00Z'),
+    now: T('2026-09-02T12:00:00Z'),
+  };
+
+  it('computes downtime, incidents, MTTR and MTBF clipped to the range', async () => {
+    const { client, fetchMonitorChartData } = fakeClient({
+      beats: {
+        1: [
+          beat('2026-09-01T23:50:00Z', 0, 'timeout'),
+          beat('2026-09-01T10:30:00Z', 1),
+          beat('2026-09-01T10:00:00Z', 0, 'refused'),
+          // Down since before the range began: only the part inside it counts.
+          beat('2026-09-01T00:10:00Z', 1),
+          beat('2026-08-31T23:00:00Z', 0, 'dns'),
+        ],
+      },
+      chart: {
+        1: [
+          { timestamp: T('2026-08-31T23:00:00Z') / 1000, up: 50, down: 10 },
+          { timestamp: T('2026-09-01T00:00:00Z') / 1000, up: 990, down: 10 },
+          { timestamp: T('2026-09-02T00:00:00Z') / 1000, up: 60, down: 0 },
+        ],
+      },
+    });
+
+    const report = await buildUptimeReport(client, [1], range);
+
+    // The chart is asked for everything from the start of the range up to now.
+    expect(fetchMonitorChartData).toHaveBeenCalledWith(1, 36);
+    expect(report.monitors[0]).toEqual({
+      monitorID: 1,
+      name: 'Web | API',
+      availability: 99,
+      upBeats: 990,
+      downBeats: 10,
+      downtimeMinutes: 50,
+      incidents: 3,
+      mttrMinutes: 16.7,
+      mtbfMinutes: 463.3,
+      ongoing: true,
+    });
+    expect(report.end).toBe('2026-09-02T00:00:00.000Z');
+  });
+
+  it('pages the status-change feed back to the start of the range', async () => {
+    const flapping = Array.from({ length: 150 }, (_, i) =>
+      beat(new Date(T('2026-09-01T20:00:00Z') - i * 60_000).toISOString(), i % 2)
+    );
+    const { client, fetchImportantHeartbeats } = fakeClient({ beats: { 2: flapping }, chart: {} });
+
+    const report = await buildUptimeReport(client, [2], range);
+
+    expect(fetchImportantHeartbeats).toHaveBeenCalledTimes(2);
+    expect(report.monitors[0].incidents).toBe(75);
+    expect(report.monitors[0].availability).toBeNull();
+  });
+
+  it('totals the set and renders a markdown table', async () => {
+    const { client } = fakeClient({
+      beats: { 1: [beat('2026-09-01T06:00:00Z', 1), beat('2026-09-01T05:00:00Z', 0)], 2: [] },
+      chart: {
+        1: [{ timestamp: T('2026-09-01T05:00:00Z') / 1000, up: 30, down: 30 }],
+        2: [{ timestamp: T('2026-09-01T05:00:00Z') / 1000, up: 60, down: 0 }],
+      },
+    });
+
+    const report = await buildUptimeReport(client, [1, 2], range);
+
+    expect(report.total).toMatchObject({ name: 'All monitors', availability: 75, downtimeMinutes: 60, incidents: 1, mttrMinutes: 60 });
+    // Two monitors, a day each, one hour of it down.
+    expect(report.total.mtbfMinutes).toBe(47 * 60);
+    const markdown = formatUptimeReportMarkdown(report);
+    expect(markdown).toContain('| Web \\| API | 50% | 60 | 1 | 60 | 1380 |');
+    expect(markdown).toContain('| **All monitors** | 75% |');
+    expect(markdown).toContain('per-hour statistics');
+  });
+
+  it('refuses a range that ends before it starts', async () => {
+    const { client } = fakeClient({ beats: {}, chart: {} });
+
+    await expect(buildUptimeReport(client, [1], { ...range, end: range.start })).rejects.toThrow('The range is empty');
+  });
+});